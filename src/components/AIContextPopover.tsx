@@ -0,0 +1,91 @@
+/**
+ * Shows which parts of the plan were shared with Mizzie for the last question,
+ * and lets the user leave sections out of future questions
+ */
+import { BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { AIContext, AIContextSectionId, AIContextStatus } from "@/lib/aiContext";
+
+interface AIContextPopoverProps {
+  context: AIContext;
+  /** Whether this is the context of a question already asked, or a preview */
+  isPreview: boolean;
+  onToggle: (id: AIContextSectionId, shared: boolean) => void;
+}
+
+const STATUS_LABELS: Record<AIContextStatus, string> = {
+  shared: "Shared",
+  trimmed: "Shortened",
+  "over-budget": "Over budget",
+  excluded: "Off",
+  empty: "Empty",
+};
+
+const AIContextPopover = ({ context, isPreview, onToggle }: AIContextPopoverProps) => {
+  const sharedCount = context.sections.filter(
+    (section) => section.status === "shared" || section.status === "trimmed"
+  ).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 px-2 text-xs text-muted-foreground"
+          aria-label={`Plan sections shared with Mizzie: ${sharedCount}`}
+        >
+          <BookOpen className="h-4 w-4" aria-hidden="true" />
+          {sharedCount}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-3 py-2">
+          <h4 className="text-sm font-medium">Shared with Mizzie</h4>
+          <p className="text-xs text-muted-foreground">
+            {isPreview ? "What the next question will include" : "What your last question included"} ·{" "}
+            {context.usedTokens.toLocaleString()} / {context.budget.toLocaleString()} tokens
+          </p>
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y" aria-label="Plan sections">
+          {context.sections.map((section) => {
+            const isOn = section.status !== "excluded";
+            return (
+              <li key={section.id} className="flex items-center gap-3 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm">{section.label}</p>
+                  <p
+                    className={cn(
+                      "text-xs text-muted-foreground",
+                      (section.status === "trimmed" || section.status === "over-budget") &&
+                        "text-yellow-600 dark:text-yellow-400"
+                    )}
+                  >
+                    {STATUS_LABELS[section.status]}
+                    {section.fullTokens > 0 &&
+                      (section.status === "trimmed"
+                        ? ` · ${section.tokens} of ${section.fullTokens} tokens`
+                        : ` · ${section.fullTokens} tokens`)}
+                  </p>
+                </div>
+                <Switch
+                  checked={isOn}
+                  onCheckedChange={(checked) => onToggle(section.id, checked)}
+                  aria-label={`Share ${section.label}`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+        <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+          The most relevant sections are shared first. Change the token budget in AI Settings.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AIContextPopover;
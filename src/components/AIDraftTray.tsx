@@ -0,0 +1,200 @@
+/**
+ * Review tray for "Draft with AI" suggestions: each candidate can be edited,
+ * accepted into the editor or discarded
+ */
+import { Check, Loader2, Sparkles, Square, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PORTERS_FORCE_LABELS, type DraftCandidate } from "@/lib/aiDrafts";
+
+interface AIDraftTrayProps {
+  candidates: DraftCandidate[];
+  isDrafting: boolean;
+  loadingProgress: number;
+  onStop: () => void;
+  onChange: (candidate: DraftCandidate) => void;
+  onAccept: (candidates: DraftCandidate[]) => void;
+  onDiscard: (ids: string[]) => void;
+}
+
+const QUADRANT_LABELS = {
+  strengths: "Strength",
+  weaknesses: "Weakness",
+  opportunities: "Opportunity",
+  threats: "Threat",
+};
+
+const LEVELS = ["Low", "Medium", "High"] as const;
+
+/** Candidates edited down to nothing can't be accepted */
+const hasText = (candidate: DraftCandidate): boolean => {
+  switch (candidate.type) {
+    case "swot":
+    case "factor":
+      return !!candidate.text.trim();
+    case "risk":
+      return !!candidate.description.trim();
+    case "rating":
+      return true;
+  }
+};
+
+const AIDraftTray = ({
+  candidates,
+  isDrafting,
+  loadingProgress,
+  onStop,
+  onChange,
+  onAccept,
+  onDiscard,
+}: AIDraftTrayProps) => {
+  if (candidates.length === 0 && !isDrafting) return null;
+
+  const acceptable = candidates.filter(hasText);
+
+  const renderFields = (candidate: DraftCandidate) => {
+    switch (candidate.type) {
+      case "swot":
+      case "factor":
+        return (
+          <div className="flex flex-1 flex-col gap-2 sm:flex-row sm:items-center">
+            <Badge variant="outline" className="w-fit shrink-0">
+              {candidate.type === "swot" ? QUADRANT_LABELS[candidate.quadrant] : PORTERS_FORCE_LABELS[candidate.force]}
+            </Badge>
+            <Input
+              value={candidate.text}
+              onChange={(event) => onChange({ ...candidate, text: event.target.value })}
+              aria-label="Suggestion"
+              className="h-8"
+            />
+          </div>
+        );
+      case "rating":
+        return (
+          <p className="flex-1 text-sm">
+            Set <span className="font-medium">{PORTERS_FORCE_LABELS[candidate.force]}</span> threat level to{" "}
+            <span className="font-medium capitalize">{candidate.rating}</span>
+          </p>
+        );
+      case "risk":
+        return (
+          <div className="flex-1 space-y-2">
+            <Input
+              value={candidate.description}
+              onChange={(event) => onChange({ ...candidate, description: event.target.value })}
+              aria-label="Risk"
+              className="h-8"
+            />
+            <div className="flex flex-wrap gap-2">
+              {(["likelihood", "impact"] as const).map((field) => (
+                <Select
+                  key={field}
+                  value={candidate[field]}
+                  onValueChange={(value) => onChange({ ...candidate, [field]: value as (typeof LEVELS)[number] })}
+                >
+                  <SelectTrigger className="h-8 w-[150px]" aria-label={field === "likelihood" ? "Likelihood" : "Impact"}>
+                    <span className="text-muted-foreground">{field === "likelihood" ? "Likelihood:" : "Impact:"}</span>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {level}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+            <Input
+              value={candidate.mitigation}
+              onChange={(event) => onChange({ ...candidate, mitigation: event.target.value })}
+              placeholder="Mitigation"
+              aria-label="Mitigation"
+              className="h-8"
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Card className="border-primary/30 bg-primary/5" role="region" aria-label="AI suggestions">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          {isDrafting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+          {isDrafting ? "Mizzie is drafting..." : "Mizzie's suggestions"}
+        </CardTitle>
+        <div className="flex gap-2">
+          {isDrafting ? (
+            <Button variant="outline" size="sm" onClick={onStop}>
+              <Square className="h-3.5 w-3.5 mr-1" />
+              Stop
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => onDiscard(candidates.map((candidate) => candidate.id))}>
+                Discard all
+              </Button>
+              <Button size="sm" onClick={() => onAccept(acceptable)} disabled={acceptable.length === 0}>
+                Accept all
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isDrafting && loadingProgress > 0 && loadingProgress < 100 && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>Loading AI model...</p>
+            <Progress value={loadingProgress} className="h-1.5" />
+          </div>
+        )}
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Suggestions will appear here as they're written.</p>
+        ) : (
+          <ul className="space-y-2">
+            {candidates.map((candidate) => (
+              <li key={candidate.id} className="flex items-start gap-2 rounded-lg border bg-background p-2">
+                {renderFields(candidate)}
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-green-600 hover:text-green-700"
+                    onClick={() => onAccept([candidate])}
+                    disabled={!hasText(candidate)}
+                    aria-label="Accept suggestion"
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => onDiscard([candidate.id])}
+                    aria-label="Discard suggestion"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AIDraftTray;
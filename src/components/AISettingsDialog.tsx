@@ -1,8 +1,10 @@
-import { useState, useEffect } from "react";
-import { Bot, Key, Cpu, Zap } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { Bot, Key, Cpu, Zap, Server, Loader2, CheckCircle2, XCircle, PlugZap, Mic } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -20,29 +22,142 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import {
+  AI_PROVIDER_LABELS,
   getAISettings,
+  getContextBudget,
+  getGenerationSettings,
+  listModels,
   saveAISettings,
   isWebLLMSupported,
+  type AIGenerationSettings,
   type AIProviderType,
   type AISettings,
 } from "@/lib/aiProvider";
+import {
+  VOICE_LANGUAGES,
+  VOICE_MODE_LABELS,
+  getVoiceSettings,
+  getVoicesForLanguage,
+  type VoiceMode,
+  type VoiceSettings,
+} from "@/lib/voiceSettings";
+import { AISettingsSchema } from "@/lib/validators";
 
 interface AISettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+type ConnectionStatus =
+  | { state: "idle" }
+  | { state: "testing" }
+  | { state: "ok"; models: string[] }
+  | { state: "error"; message: string };
+
+interface TokenInputProps {
+  id: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+// Number input that lets partial values be typed, committing only valid ones
+const TokenInput = ({ id, value, min, max, onChange }: TokenInputProps) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={min}
+      max={max}
+      step={16}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const tokens = Math.round(Number(e.target.value));
+        if (tokens >= min && tokens <= max) onChange(tokens);
+      }}
+      onBlur={() => setText(String(value))}
+    />
+  );
+};
+
+// Placeholder value for "let the browser choose", as Select items can't be empty
+const DEFAULT_VOICE = "default";
+
+// Voices installed in the browser, which load asynchronously in some browsers
+const useSpeechVoices = (enabled: boolean): SpeechSynthesisVoice[] => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !("speechSynthesis" in window)) return;
+    const synth = window.speechSynthesis;
+    const load = () => setVoices(synth.getVoices());
+    load();
+    synth.addEventListener("voiceschanged", load);
+    return () => synth.removeEventListener("voiceschanged", load);
+  }, [enabled]);
+
+  return voices;
+};
+
 const AISettingsDialog = ({ open, onOpenChange }: AISettingsDialogProps) => {
   const { toast } = useToast();
   const [settings, setSettings] = useState<AISettings>({ provider: "webllm" });
+  const [connection, setConnection] = useState<ConnectionStatus>({ state: "idle" });
+  const testAbortRef = useRef<AbortController | null>(null);
   const webGPUSupported = isWebLLMSupported();
-
+  const generation = getGenerationSettings(settings);
+  const isCustom = settings.provider === "custom";
+  const voice = getVoiceSettings(settings);
+  const voices = getVoicesForLanguage(useSpeechVoices(open), voice.language);
   useEffect(() => {
     if (open) {
       setSettings(getAISettings());
+      setConnection({ state: "idle" });
     }
+    return () => testAbortRef.current?.abort();
   }, [open]);
 
+  // A different server or key needs a fresh test
+  useEffect(() => {
+    testAbortRef.current?.abort();
+    setConnection({ state: "idle" });
+  }, [settings.baseUrl, settings.apiKey]);
+
+  const updateGeneration = (changes: Partial<AIGenerationSettings>) =>
+    setSettings((current) => ({
+      ...current,
+      generation: { ...current.generation, [current.provider]: { ...getGenerationSettings(current), ...changes } },
+    }));
+
+  const updateVoice = (changes: Partial<VoiceSettings>) =>
+    setSettings((current) => ({ ...current, voice: { ...getVoiceSettings(current), ...changes } }));
+
+  const handleTestConnection = async () => {
+    testAbortRef.current?.abort();
+    const controller = new AbortController();
+    testAbortRef.current = controller;
+    setConnection({ state: "testing" });
+    try {
+      const models = await listModels(settings, controller.signal);
+      setConnection({ state: "ok", models });
+      // Pick a model for the user if they haven't chosen one the server has
+      if (models.length > 0 && !models.includes(settings.model ?? "")) {
+        setSettings((current) => ({ ...current, model: models[0] }));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setConnection({ state: "error", message: error instanceof Error ? error.message : "Connection failed." });
+    }
+  };
+
   const handleSave = () => {
     // Validate API key if using API provider
     if ((settings.provider === "groq" || settings.provider === "openai") && !settings.apiKey) {
@@ -54,17 +169,40 @@ const AISettingsDialog = ({ open, onOpenChange }: AISettingsDialogProps) => {
       return;
     }
 
-    saveAISettings(settings);
+    if (isCustom && (!settings.baseUrl || !settings.model)) {
+      toast({
+        title: settings.baseUrl ? "Model required" : "Server URL required",
+        description: settings.baseUrl
+          ? "Test the connection to load the server's models, or type a model name."
+          : "Enter the address of your OpenAI-compatible server.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = AISettingsSchema.safeParse(settings);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      toast({
+        title: "Invalid settings",
+        description:
+          issue?.path[0] === "baseUrl" ? "Enter a full server URL, like http://localhost:11434/v1." : issue?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveAISettings(result.data);
     toast({
       title: "Settings saved",
-      description: `Mizzie will now use ${settings.provider === "webllm" ? "WebLLM (browser)" : settings.provider.toUpperCase() + " API"}.`,
+      description: `Mizzie will now use ${AI_PROVIDER_LABELS[settings.provider]}.`,
     });
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Bot className="h-5 w-5" />
@@ -82,7 +220,8 @@ const AISettingsDialog = ({ open, onOpenChange }: AISettingsDialogProps) => {
             <Select
               value={settings.provider}
               onValueChange={(value: AIProviderType) =>
-                setSettings({ ...settings, provider: value })
+                // Models are provider-specific
+                setSettings({ ...settings, provider: value, model: undefined })
               }
             >
               <SelectTrigger>
@@ -108,6 +247,12 @@ const AISettingsDialog = ({ open, onOpenChange }: AISettingsDialogProps) => {
                     <span>OpenAI API</span>
                   </div>
                 </SelectItem>
+                <SelectItem value="custom">
+                  <div className="flex items-center gap-2">
+                    <Server className="h-4 w-4" />
+                    <span>Custom (OpenAI-compatible)</span>
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -142,6 +287,269 @@ const AISettingsDialog = ({ open, onOpenChange }: AISettingsDialogProps) => {
               </p>
             </div>
           )}
+
+          {/* Custom Server */}
+          {isCustom && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Use your own model server, such as Ollama, LM Studio or llama.cpp. It must allow requests from this site
+                (for Ollama, set <code className="text-xs">OLLAMA_ORIGINS</code>).
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="baseUrl">Server URL</Label>
+                <Input
+                  id="baseUrl"
+                  type="url"
+                  placeholder="http://localhost:11434/v1"
+                  value={settings.baseUrl || ""}
+                  onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customApiKey" className="flex items-center gap-2">
+                  <Key className="h-4 w-4" />
+                  API Key <span className="text-xs font-normal text-muted-foreground">(optional)</span>
+                </Label>
+                <Input
+                  id="customApiKey"
+                  type="password"
+                  placeholder="Only if your server needs one"
+                  value={settings.apiKey || ""}
+                  onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customModel">Model</Label>
+                {connection.state === "ok" && connection.models.length > 0 ? (
+                  <Select value={settings.model} onValueChange={(model) => setSettings({ ...settings, model })}>
+                    <SelectTrigger id="customModel">
+                      <SelectValue placeholder="Select model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {connection.models.map((model) => (
+                        <SelectItem key={model} value={model}>
+                          {model}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id="customModel"
+                    placeholder="Test the connection to list models"
+                    value={settings.model || ""}
+                    onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                  />
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTestConnection}
+                  disabled={!settings.baseUrl || connection.state === "testing"}
+                >
+                  {connection.state === "testing" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <PlugZap className="h-4 w-4 mr-2" />
+                  )}
+                  Test Connection
+                </Button>
+                {connection.state === "ok" && (
+                  <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400" role="status">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Connected · {connection.models.length} {connection.models.length === 1 ? "model" : "models"}
+                  </span>
+                )}
+              </div>
+              {connection.state === "error" && (
+                <p className="flex items-start gap-1 text-sm text-destructive" role="alert">
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {connection.message}
+                </p>
+              )}
+            </>
+          )}
+
+          {/* Fallback when the API is unavailable */}
+          {settings.provider !== "webllm" && webGPUSupported && (
+            <div className="flex items-start justify-between gap-4 border-t pt-4">
+              <div className="space-y-1">
+                <Label htmlFor="fallbackToWebLLM">Fall back to WebLLM</Label>
+                <p className="text-xs text-muted-foreground">
+                  If {AI_PROVIDER_LABELS[settings.provider]} is down, busy or out of credit, answer with the in-browser
+                  model instead (downloads ~2GB on first use).
+                </p>
+              </div>
+              <Switch
+                id="fallbackToWebLLM"
+                checked={settings.fallbackToWebLLM !== false}
+                onCheckedChange={(fallbackToWebLLM) => setSettings({ ...settings, fallbackToWebLLM })}
+              />
+            </div>
+          )}
+
+          {/* Generation Settings (saved per provider) */}
+          <div className="space-y-4 border-t pt-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="temperature">Creativity (temperature)</Label>
+                <span className="text-sm text-muted-foreground tabular-nums">{generation.temperature.toFixed(1)}</span>
+              </div>
+              <Slider
+                id="temperature"
+                min={0}
+                max={2}
+                step={0.1}
+                value={[generation.temperature]}
+                onValueChange={([temperature]) => updateGeneration({ temperature })}
+              />
+              <p className="text-xs text-muted-foreground">Lower is more focused, higher is more varied.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxTokens">Max reply length (tokens)</Label>
+              <TokenInput
+                id="maxTokens"
+                value={generation.maxTokens}
+                min={16}
+                max={32_768}
+                onChange={(maxTokens) => updateGeneration({ maxTokens })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contextTokens">Plan context budget (tokens)</Label>
+              <TokenInput
+                id="contextTokens"
+                value={getContextBudget(settings)}
+                min={200}
+                max={128_000}
+                onChange={(contextTokens) => updateGeneration({ contextTokens })}
+              />
+              <p className="text-xs text-muted-foreground">
+                How much of your plan Mizzie sees with each question. Keep it well below the model's context window.
+              </p>
+              <p className="text-xs text-muted-foreground">
+                These apply to {AI_PROVIDER_LABELS[settings.provider]} only.
+              </p>
+            </div>
+          </div>
+
+          {/* Voice */}
+          <div className="space-y-4 border-t pt-4">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Mic className="h-4 w-4" />
+              Voice
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="voiceLanguage">Language</Label>
+              <Select
+                value={voice.language}
+                // The chosen voice may not speak the new language
+                onValueChange={(language) => updateVoice({ language, voiceURI: undefined })}
+              >
+                <SelectTrigger id="voiceLanguage">
+                  <SelectValue placeholder="Select language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {VOICE_LANGUAGES.map(({ code, label }) => (
+                    <SelectItem key={code} value={code}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Mizzie listens for and answers in this language.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voiceURI">Read-aloud voice</Label>
+              <Select
+                value={voice.voiceURI ?? DEFAULT_VOICE}
+                onValueChange={(voiceURI) =>
+                  updateVoice({ voiceURI: voiceURI === DEFAULT_VOICE ? undefined : voiceURI })
+                }
+              >
+                <SelectTrigger id="voiceURI">
+                  <SelectValue placeholder="Select voice" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VOICE}>Browser default</SelectItem>
+                  {voices.map((option) => (
+                    <SelectItem key={option.voiceURI} value={option.voiceURI}>
+                      {option.name} ({option.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {voices.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Your browser has no voices for this language, so replies may be read with an accent.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="voiceRate">Speed</Label>
+                  <span className="text-sm text-muted-foreground tabular-nums">{voice.rate.toFixed(1)}×</span>
+                </div>
+                <Slider
+                  id="voiceRate"
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  value={[voice.rate]}
+                  onValueChange={([rate]) => updateVoice({ rate })}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="voicePitch">Pitch</Label>
+                  <span className="text-sm text-muted-foreground tabular-nums">{voice.pitch.toFixed(1)}</span>
+                </div>
+                <Slider
+                  id="voicePitch"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={[voice.pitch]}
+                  onValueChange={([pitch]) => updateVoice({ pitch })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voiceMode">Listening</Label>
+              <Select value={voice.mode} onValueChange={(mode: VoiceMode) => updateVoice({ mode })}>
+                <SelectTrigger id="voiceMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VOICE_MODE_LABELS) as VoiceMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {VOICE_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {voice.mode === "continuous"
+                  ? "Tap the mic once; Mizzie answers when you pause."
+                  : "Hold the mic while you speak; Mizzie answers when you let go."}
+              </p>
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="interimResults">Show words as you speak</Label>
+                <p className="text-xs text-muted-foreground">Display what Mizzie hears before you finish.</p>
+              </div>
+              <Switch
+                id="interimResults"
+                checked={voice.interimResults}
+                onCheckedChange={(interimResults) => updateVoice({ interimResults })}
+              />
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
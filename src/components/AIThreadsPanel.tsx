@@ -0,0 +1,220 @@
+/**
+ * Saved Mizzie conversations: switch, start, rename, export and delete threads,
+ * search everything said, and jump back to pinned answers
+ */
+import { useState } from "react";
+import { Download, MessageSquarePlus, Pencil, Pin, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { getPinnedMessages, searchThreads, type AIThread } from "@/lib/aiThreads";
+
+interface AIThreadsPanelProps {
+  threads: AIThread[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  onExport: (thread: AIThread) => void;
+  onUnpin: (threadId: string, messageId: string) => void;
+}
+
+const AIThreadsPanel = ({
+  threads,
+  activeThreadId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onExport,
+  onUnpin,
+}: AIThreadsPanelProps) => {
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<AIThread | null>(null);
+
+  const results = searchThreads(threads, query);
+  const pinned = getPinnedMessages(threads);
+
+  const finishRename = () => {
+    if (editing) onRename(editing.id, editing.title);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="flex gap-2 border-b p-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className="h-9 pl-8"
+          />
+        </div>
+        <Button variant="outline" size="sm" className="h-9" onClick={onNew}>
+          <MessageSquarePlus className="h-4 w-4 mr-1" aria-hidden="true" />
+          New
+        </Button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {query.trim() ? (
+          results.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">No matches for "{query.trim()}".</p>
+          ) : (
+            <ul className="divide-y" aria-label="Search results">
+              {results.map((result) => (
+                <li key={`${result.thread.id}:${result.message?.id ?? "title"}`}>
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 text-left hover:bg-muted/50"
+                    onClick={() => onSelect(result.thread.id)}
+                  >
+                    <p className="truncate text-xs font-medium text-muted-foreground">{result.thread.title}</p>
+                    <p className="text-sm">
+                      {result.message && <span className="text-muted-foreground">{result.message.role === "user" ? "You: " : "Mizzie: "}</span>}
+                      {result.snippet}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        ) : (
+          <>
+            {pinned.length > 0 && (
+              <section className="border-b" aria-labelledby="pinned-heading">
+                <h4 id="pinned-heading" className="px-3 pt-3 text-xs font-medium uppercase text-muted-foreground">
+                  Pinned answers
+                </h4>
+                <ul>
+                  {pinned.map(({ thread, message }) => (
+                    <li key={message.id} className="flex items-start gap-1 px-3 py-2">
+                      <button type="button" className="min-w-0 flex-1 text-left" onClick={() => onSelect(thread.id)}>
+                        <p className="line-clamp-3 text-sm">{message.content}</p>
+                        <p className="truncate text-xs text-muted-foreground">{thread.title}</p>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => onUnpin(thread.id, message.id)}
+                        aria-label="Unpin answer"
+                      >
+                        <Pin className="h-3.5 w-3.5 fill-current" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {threads.length === 0 ? (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                No saved conversations yet. Ask Mizzie something to start one.
+              </p>
+            ) : (
+              <ul className="divide-y" aria-label="Conversations">
+                {threads.map((thread) => (
+                  <li
+                    key={thread.id}
+                    className={cn("flex items-center gap-1 px-3 py-2", thread.id === activeThreadId && "bg-muted/50")}
+                  >
+                    {editing?.id === thread.id ? (
+                      <Input
+                        autoFocus
+                        value={editing.title}
+                        onChange={(event) => setEditing({ id: thread.id, title: event.target.value })}
+                        onBlur={finishRename}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") finishRename();
+                          if (event.key === "Escape") {
+                            event.stopPropagation();
+                            setEditing(null);
+                          }
+                        }}
+                        aria-label="Conversation name"
+                        className="h-8 flex-1"
+                      />
+                    ) : (
+                      <button type="button" className="min-w-0 flex-1 text-left" onClick={() => onSelect(thread.id)}>
+                        <p className="truncate text-sm font-medium">{thread.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {thread.messages.length} {thread.messages.length === 1 ? "message" : "messages"} ·{" "}
+                          {new Date(thread.updatedAt).toLocaleDateString()}
+                        </p>
+                      </button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setEditing({ id: thread.id, title: thread.title })}
+                      aria-label={`Rename ${thread.title}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onExport(thread)}
+                      aria-label={`Export ${thread.title} as Markdown`}
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => setDeleteTarget(thread)}
+                      aria-label={`Delete ${thread.title}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The conversation and its pinned answers will be permanently deleted. Export it first if you might need it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && onDelete(deleteTarget.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete conversation
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AIThreadsPanel;
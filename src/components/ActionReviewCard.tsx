@@ -0,0 +1,86 @@
+/**
+ * An edit Mizzie proposed, shown as a diff for the user to accept or reject
+ */
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import FieldChangeList from "@/components/FieldChangeList";
+import { cn } from "@/lib/utils";
+import type { PlannedAction } from "@/lib/mizzieActions";
+
+export type ActionProposalStatus = "pending" | "applying" | "applied" | "rejected" | "invalid";
+
+export interface ActionProposal {
+  id: string;
+  /** When it was proposed, to place it after the reply it came with */
+  timestamp: Date;
+  status: ActionProposalStatus;
+  planned?: PlannedAction;
+  /** Why the edit can't be applied */
+  error?: string;
+}
+
+interface ActionReviewCardProps {
+  proposal: ActionProposal;
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
+const STATUS_LABELS: Partial<Record<ActionProposalStatus, string>> = {
+  applied: "Applied",
+  rejected: "Rejected",
+};
+
+const ActionReviewCard = ({ proposal, onAccept, onReject }: ActionReviewCardProps) => {
+  const { planned, status, error } = proposal;
+
+  if (!planned) {
+    return (
+      <div className="rounded-lg border border-dashed px-3 py-2 text-xs text-muted-foreground">
+        Mizzie suggested an edit that can't be applied. {error}
+      </div>
+    );
+  }
+
+  const isOpen = status === "pending" || status === "applying";
+
+  return (
+    <div
+      className={cn("rounded-lg border bg-background px-3 py-2", !isOpen && "opacity-70")}
+      role="group"
+      aria-label={`Proposed edit: ${planned.label}`}
+    >
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm font-medium">{planned.label}</p>
+        <p className="text-xs text-muted-foreground">{planned.section}</p>
+      </div>
+      <FieldChangeList changes={planned.diff} className="mt-1" />
+      {error && isOpen && <p className="mt-1 text-xs text-destructive">{error}</p>}
+      {isOpen ? (
+        <div className="mt-2 flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => onReject(proposal.id)}
+            disabled={status === "applying"}
+          >
+            <X className="h-3 w-3 mr-1" aria-hidden="true" />
+            Reject
+          </Button>
+          <Button size="sm" className="h-7" onClick={() => onAccept(proposal.id)} disabled={status === "applying"}>
+            {status === "applying" ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" aria-hidden="true" />
+            ) : (
+              <Check className="h-3 w-3 mr-1" aria-hidden="true" />
+            )}
+            Accept
+          </Button>
+        </div>
+      ) : (
+        <p className="mt-1 text-right text-xs text-muted-foreground">{STATUS_LABELS[status]}</p>
+      )}
+    </div>
+  );
+};
+
+export default ActionReviewCard;
@@ -0,0 +1,155 @@
+/**
+ * Password prompt for encrypted backups: choose one when exporting,
+ * enter it when importing a protected file
+ */
+import { useEffect, useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ExportScope } from "@/lib/exportUtils";
+import { MIN_PASSWORD_LENGTH } from "@/lib/workspaceLock";
+
+export type BackupPasswordMode = "export" | "import";
+
+interface BackupPasswordDialogProps {
+  /** null = closed */
+  mode: BackupPasswordMode | null;
+  /** Name of the file being imported */
+  fileName?: string;
+  onOpenChange: (open: boolean) => void;
+  /** Scope is only chosen when exporting */
+  onSubmit: (password: string, scope: ExportScope) => Promise<void>;
+}
+
+const BackupPasswordDialog = ({ mode, fileName, onOpenChange, onSubmit }: BackupPasswordDialogProps) => {
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [scope, setScope] = useState<ExportScope>("project");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (mode) {
+      setPassword("");
+      setConfirm("");
+    }
+  }, [mode]);
+
+  const isExport = mode === "export";
+  const error = isExport
+    ? password && password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+      : confirm && confirm !== password
+        ? "Passwords don't match."
+        : null
+    : null;
+  const canSubmit =
+    !isWorking && (isExport ? password.length >= MIN_PASSWORD_LENGTH && confirm === password : password.length > 0);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsWorking(true);
+    try {
+      await onSubmit(password, scope);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !isWorking && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {isExport ? "Export Encrypted Backup" : "Password Protected Backup"}
+          </DialogTitle>
+          <DialogDescription>
+            {isExport
+              ? "The backup can only be imported with this password. It can't be recovered if you forget it."
+              : `Enter the password for ${fileName ? `"${fileName}"` : "this backup"} to import it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-3 py-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          {isExport && (
+            <div className="space-y-2">
+              <Label htmlFor="backup-scope">Include</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+                <SelectTrigger id="backup-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="project">This project</SelectItem>
+                  <SelectItem value="all">All projects</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="backup-password">Password</Label>
+            <Input
+              id="backup-password"
+              type="password"
+              autoFocus
+              autoComplete={isExport ? "new-password" : "off"}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </div>
+          {isExport && (
+            <div className="space-y-2">
+              <Label htmlFor="backup-confirm">Confirm password</Label>
+              <Input
+                id="backup-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirm}
+                onChange={(event) => setConfirm(event.target.value)}
+                aria-describedby={error ? "backup-password-error" : undefined}
+              />
+            </div>
+          )}
+          {error && (
+            <p id="backup-password-error" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+            {isExport ? "Export" : "Continue"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupPasswordDialog;
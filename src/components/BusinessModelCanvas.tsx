@@ -3,9 +3,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Save, Download, Loader2, FileImage, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import { useExport } from "@/hooks/useExport";
-import { CanvasDataSchema, type CanvasData } from "@/lib/validators/schemas";
+import type { CanvasData } from "@/lib/validators/schemas";
 import BrandHeader from "./BrandHeader";
 import {
   DropdownMenu,
@@ -14,27 +14,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-const defaultCanvasData: CanvasData = {
-  keyPartners: "",
-  keyActivities: "",
-  keyResources: "",
-  valuePropositions: "",
-  customerRelationships: "",
-  channels: "",
-  customerSegments: "",
-  costStructure: "",
-  revenueStreams: "",
-};
-
 const BusinessModelCanvas = () => {
   const { toast } = useToast();
 
   // Use custom hooks
-  const [data, setData, { save }] = useLocalStorage<CanvasData>(
-    "businessModelCanvas",
-    defaultCanvasData,
-    { schema: CanvasDataSchema }
-  );
+  const [data, setData, { save }] = useStorageDomain("canvas");
 
   const { isExporting, exportPNG, exportPDF } = useExport({
     elementId: "business-model-canvas-content",
@@ -6,7 +6,7 @@
  * Follows modular, scalable architecture with lazy loading.
  */
 
-import { useState, Suspense, useEffect, useRef, lazy } from "react";
+import { useState, Suspense, useEffect, useRef, lazy, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -24,7 +24,8 @@ import {
   FileText,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import { usePlanFocus } from "@/hooks/usePlanFocus";
 import BrandHeader from "./BrandHeader";
 import {
   PHASE_CONFIGS,
@@ -35,7 +36,6 @@ import {
 } from "@/components/business-plan/phaseRegistry";
 import {
   BusinessPlanData,
-  BusinessPlanDataSchema,
   DEFAULT_BUSINESS_PLAN_DATA,
 } from "@/lib/validators/schemas";
 
@@ -57,11 +57,7 @@ const BusinessPlan = () => {
   const mobileScrollRef = useRef<HTMLDivElement>(null);
 
   // Use validated localStorage hook with auto-save
-  const [data, setData, { save }] = useLocalStorage<BusinessPlanData>(
-    "businessPlan",
-    DEFAULT_BUSINESS_PLAN_DATA,
-    { schema: BusinessPlanDataSchema, debounceMs: 300 }
-  );
+  const [data, setData, { save }] = useStorageDomain("businessPlan", { debounceMs: 300 });
 
   const [currentPhase, setCurrentPhase] = useState(data.currentPhase || 1);
   const [viewMode, setViewMode] = useState<"edit" | "preview">("edit");
@@ -73,6 +69,12 @@ const BusinessPlan = () => {
     }
   }, []);
 
+  // Open the phase a plan review finding points at
+  usePlanFocus("businessplan", useCallback(({ phase }) => {
+    if (phase) setCurrentPhase(phase);
+    setViewMode("edit");
+  }, []));
+
   // Sync currentPhase with data
   // We intentionally only sync when currentPhase changes, not when data changes
   // to avoid infinite loops since setData updates data
@@ -5,9 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, Sparkles, RefreshCw, ChevronDown, ChevronUp, Rocket, ClipboardList, Eye, Pencil } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import {
+  STORAGE_DOMAIN_CHANGED_EVENT,
+  hasDomainData,
+  readDomain,
+  type StorageDomainChangedDetail,
+  type StorageDomainId,
+} from "@/lib/storageRegistry";
 import {
-  ChecklistDataSchema,
   type ChecklistItem,
   type CanvasData,
   type SWOTData,
@@ -85,16 +91,10 @@ const Checklist = () => {
 
   // Brand strategy state
   const [brandStrategy, setBrandStrategy] = useState<BrandStrategy | null>(null);
-  const [completedBrandActions, setCompletedBrandActions] = useLocalStorage<string[]>(
-    "completedBrandActions",
-    []
-  );
+  const [completedBrandActions, setCompletedBrandActions] = useStorageDomain("completedBrandActions");
 
   // Business tasks state
-  const [completedBusinessTasks, setCompletedBusinessTasks] = useLocalStorage<string[]>(
-    "completedBusinessTasks",
-    []
-  );
+  const [completedBusinessTasks, setCompletedBusinessTasks] = useStorageDomain("completedBusinessTasks");
   const [businessTasksExpanded, setBusinessTasksExpanded] = useState<Record<string, boolean>>({
     'legal-admin': true,
     'financial-setup': false,
@@ -132,28 +132,23 @@ const Checklist = () => {
     businessPlan?: BusinessPlanData;
   }>({});
 
-  // Load tab data from localStorage
+  // Load tab data from the storage registry
   useEffect(() => {
     const loadData = () => {
       try {
-        const canvas = localStorage.getItem('canvas');
-        const swot = localStorage.getItem('swot');
-        const roadmap = localStorage.getItem('roadmap');
-        const forecast = localStorage.getItem('forecast');
-        const orgChart = localStorage.getItem('orgChart');
-        const pitchDeck = localStorage.getItem('pitchDeck');
-        const porters = localStorage.getItem('porters');
-        const businessPlan = localStorage.getItem('businessPlan');
+        // Only pass data the user has actually saved, so generators can tell "not started" apart
+        const load = <D extends StorageDomainId>(domain: D) =>
+          hasDomainData(domain) ? readDomain(domain) : undefined;
 
         setTabData({
-          canvas: canvas ? JSON.parse(canvas) : undefined,
-          swot: swot ? JSON.parse(swot) : undefined,
-          milestones: roadmap ? JSON.parse(roadmap) : undefined,
-          forecast: forecast ? JSON.parse(forecast) : undefined,
-          roles: orgChart ? JSON.parse(orgChart) : undefined,
-          slides: pitchDeck ? JSON.parse(pitchDeck) : undefined,
-          porters: porters ? JSON.parse(porters) : undefined,
-          businessPlan: businessPlan ? JSON.parse(businessPlan) : undefined,
+          canvas: load('canvas'),
+          swot: load('swot'),
+          milestones: load('roadmap'),
+          forecast: load('forecasting'),
+          roles: load('orgChart'),
+          slides: load('pitchDeck'),
+          porters: load('porters'),
+          businessPlan: load('businessPlan'),
         });
       } catch (error) {
         console.error('Error loading tab data:', error);
@@ -161,9 +156,9 @@ const Checklist = () => {
     };
 
     loadData();
-    // Re-load when storage changes
-    window.addEventListener('storage', loadData);
-    return () => window.removeEventListener('storage', loadData);
+    // Re-load when a section changes, in this tab or another one
+    window.addEventListener(STORAGE_DOMAIN_CHANGED_EVENT, loadData);
+    return () => window.removeEventListener(STORAGE_DOMAIN_CHANGED_EVENT, loadData);
   }, []);
 
   // Load brand strategy
@@ -178,8 +173,19 @@ const Checklist = () => {
         setBrandStrategy(e.detail);
       }
     };
+    // Brand strategy saved in another tab
+    const handleDomainChange = (e: CustomEvent<StorageDomainChangedDetail>) => {
+      if (e.detail.remote && e.detail.domain === 'brandStrategy') {
+        const updated = getBrandStrategy();
+        setBrandStrategy(updated.completedStations.length > 0 ? updated : null);
+      }
+    };
     window.addEventListener('brandStrategyChanged', handleChange as EventListener);
-    return () => window.removeEventListener('brandStrategyChanged', handleChange as EventListener);
+    window.addEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleDomainChange as EventListener);
+    return () => {
+      window.removeEventListener('brandStrategyChanged', handleChange as EventListener);
+      window.removeEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleDomainChange as EventListener);
+    };
   }, []);
 
   // Generate all business tasks
@@ -265,11 +271,7 @@ const Checklist = () => {
   };
 
   // Use custom hooks for localStorage
-  const [items, setItems, { save }] = useLocalStorage<ChecklistItem[]>(
-    "checklist",
-    [],
-    { schema: ChecklistDataSchema }
-  );
+  const [items, setItems, { save }] = useStorageDomain("checklist");
 
   const [newItem, setNewItem] = useState({
     title: "",
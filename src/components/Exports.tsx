@@ -4,7 +4,7 @@
  * Generates a complete, investor-ready business plan PDF by pulling data from:
  * - Plan tab (BusinessPlanData)
  * - Org tab (Roles)
- * - Financials tab (ForecastData)
+ * - Financials tab (ForecastData, plus the generated financial statements)
  * - Pitch tab (Slides - for Exit Strategy)
  * - SWOT tab (SWOTData)
  * - Canvas tab (CanvasData)
@@ -22,7 +22,7 @@ import {
   Download, FileText, Loader2, RefreshCw, Edit, Eye, FileCheck,
   Building2, Users, Target, TrendingUp, DollarSign, Shield, Rocket,
   BookOpen, Briefcase, BarChart3, PieChart, ArrowRight, ChevronRight,
-  Share2, Mail, Copy, Check
+  Share2, Mail, Copy, Check, Link2
 } from "lucide-react";
 import { getBrandColors, getCompanyLogo, type BrandColors } from "@/lib/assetManager";
 import {
@@ -30,7 +30,16 @@ import {
   CanvasData, Milestone, PortersData, DEFAULT_BUSINESS_PLAN_DATA
 } from "@/lib/validators/schemas";
 import { getBrandStrategy, type BrandStrategy } from "@/lib/brandStrategy";
+import { hasDomainData, readDomain } from "@/lib/storageRegistry";
+import { applyModelToForecast } from "@/lib/financialModel";
+import {
+  computeFinancialStatements,
+  getStatementValue,
+  STATEMENTS,
+  type FinancialStatements,
+} from "@/lib/financialStatements";
 import BrandHeader from "./BrandHeader";
+import ShareLinkDialog from "./ShareLinkDialog";
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, AlignmentType, BorderStyle } from "docx";
@@ -69,6 +78,7 @@ interface AllBusinessData {
   plan: BusinessPlanData;
   roles: ExtendedRole[];
   forecast: ForecastData;
+  statements: FinancialStatements;
   slides: Slide[];
   swot: SWOTData | null;
   canvas: CanvasData | null;
@@ -146,34 +156,25 @@ const generateExecutiveSummary = (data: AllBusinessData): string => {
 // ============ Default Data Loader ============
 
 const loadAllData = (): AllBusinessData => {
-  let plan = DEFAULT_BUSINESS_PLAN_DATA;
-  let roles: ExtendedRole[] = [];
-  let forecast: ForecastData = { year1Revenue: "", year1Expenses: "", year2Revenue: "", year2Expenses: "", year3Revenue: "", year3Expenses: "", year5Revenue: "", year5Expenses: "", year10Revenue: "", year10Expenses: "", year15Revenue: "", year15Expenses: "", year25Revenue: "", year25Expenses: "", assumptions: "" };
-  let slides: Slide[] = [];
-  let swot: SWOTData | null = null;
-  let canvas: CanvasData | null = null;
-  let milestones: Milestone[] = [];
-  let porters: PortersData | null = null;
+  // Registry reads validate and fall back to defaults, so no parse guards are needed here
+  const plan: BusinessPlanData = readDomain("businessPlan");
+  const roles: ExtendedRole[] = readDomain("orgChart");
+  const model = readDomain("financialModel");
+  const forecast: ForecastData = applyModelToForecast(readDomain("forecasting"), model);
+  const slides: Slide[] = readDomain("pitchDeck");
+  const swot: SWOTData | null = hasDomainData("swot") ? readDomain("swot") : null;
+  const canvas: CanvasData | null = hasDomainData("canvas") ? readDomain("canvas") : null;
+  const milestones: Milestone[] = readDomain("roadmap");
+  const porters: PortersData | null = hasDomainData("porters") ? readDomain("porters") : null;
   let brandStrategy: BrandStrategy | null = null;
 
-  try { plan = JSON.parse(localStorage.getItem("businessPlan") || "{}"); } catch { /* Ignore parse errors, use default */ }
-  try {
-    const orgData = JSON.parse(localStorage.getItem("orgChart") || "[]");
-    // OrgChart stores roles array directly, not wrapped in an object
-    roles = Array.isArray(orgData) ? orgData : (orgData.roles || []);
-  } catch { /* Ignore parse errors, use default */ }
-  try { forecast = JSON.parse(localStorage.getItem("forecasting") || "{}"); } catch { /* Ignore parse errors, use default */ }
-  try { const pitch = JSON.parse(localStorage.getItem("pitchDeck") || "{}"); slides = pitch.slides || []; } catch { /* Ignore parse errors, use default */ }
-  try { swot = JSON.parse(localStorage.getItem("swotAnalysis") || "null"); } catch { /* Ignore parse errors, use default */ }
-  try { canvas = JSON.parse(localStorage.getItem("businessModelCanvas") || "null"); } catch { /* Ignore parse errors, use default */ }
-  try { milestones = JSON.parse(localStorage.getItem("roadmap") || "[]"); } catch { /* Ignore parse errors, use default */ }
-  try { porters = JSON.parse(localStorage.getItem("portersFiveForces") || "null"); } catch { /* Ignore parse errors, use default */ }
   try { brandStrategy = getBrandStrategy(); } catch { /* Ignore errors, use default */ }
 
   return {
     plan: { ...DEFAULT_BUSINESS_PLAN_DATA, ...plan },
     roles,
     forecast,
+    statements: computeFinancialStatements(model, forecast, plan.fundingSources),
     slides,
     swot,
     canvas,
@@ -433,12 +434,12 @@ const Exports = () => {
     setExportProgress("Creating Word document...");
 
     try {
-      const { plan, roles, forecast, slides, milestones, swot } = data;
+      const { plan, roles, forecast, statements, slides, milestones, swot } = data;
       const exitStrategySlide = slides[11];
       const exitStrategy = exitStrategySlide?.content || "";
 
       // Helper to create a heading
-      const createHeading = (text: string, level: typeof HeadingLevel.HEADING_1) =>
+      const createHeading = (text: string, level: (typeof HeadingLevel)[keyof typeof HeadingLevel]) =>
         new Paragraph({ text, heading: level, spacing: { after: 200, before: 400 } });
 
       // Helper to create body text
@@ -455,6 +456,31 @@ const Exports = () => {
           spacing: { after: 100 },
         });
 
+      // Helper to create a statement table, one column per year
+      const createStatementTable = (statement: (typeof STATEMENTS)[number]) =>
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              children: ["", ...statements.years.map((year) => `Year ${year.period}`)].map(
+                (text) => new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })] })
+              ),
+            }),
+            ...statement.rows.map((row) =>
+              new TableRow({
+                children: [
+                  row.label,
+                  ...statements.years.map((year) =>
+                    formatFullCurrency(Math.round(getStatementValue(year, statement.key, row.key)))
+                  ),
+                ].map(
+                  (text) => new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold: row.total })] })] })
+                ),
+              })
+            ),
+          ],
+        });
+
       const doc = new Document({
         sections: [
           {
@@ -545,6 +571,11 @@ const Exports = () => {
                 ],
               }),
 
+              ...STATEMENTS.flatMap((statement) => [
+                createHeading(statement.title, HeadingLevel.HEADING_2),
+                createStatementTable(statement),
+              ]),
+
               // 7. Funding Request
               createHeading("7. Funding Request", HeadingLevel.HEADING_1),
               createLabeledParagraph("Total Funding Required", formatFullCurrency(parseCurrency(forecast?.fundingAsk) || parseCurrency(plan.cashRequired))),
@@ -603,6 +634,7 @@ const Exports = () => {
   // Share functionality
   const [showShareOptions, setShowShareOptions] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showShareLink, setShowShareLink] = useState(false);
 
   const handleShare = async () => {
     const businessName = data.plan.businessName || "Business Plan";
@@ -657,7 +689,7 @@ const Exports = () => {
   };
 
   const primaryColor = data.brandColors.primary;
-  const { plan, roles, forecast, slides, swot, canvas, milestones } = data;
+  const { plan, roles, forecast, statements, slides, swot, canvas, milestones } = data;
 
   // Get exit strategy from pitch slides (slide 12, index 11)
   const exitStrategySlide = slides[11];
@@ -736,6 +768,16 @@ const Exports = () => {
                         {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
                         {copied ? "Copied!" : "Copy Summary"}
                       </button>
+                      <button
+                        onClick={() => {
+                          setShowShareOptions(false);
+                          setShowShareLink(true);
+                        }}
+                        className="flex items-center gap-2 w-full px-3 py-2 text-sm hover:bg-muted rounded-md transition-colors"
+                      >
+                        <Link2 className="h-4 w-4" />
+                        Share Link
+                      </button>
                     </div>
                   )}
                 </div>
@@ -1236,6 +1278,33 @@ const Exports = () => {
                       <p className="text-sm text-gray-600">{forecast.assumptions}</p>
                     </div>
                   )}
+                  {STATEMENTS.map((statement) => (
+                    <div key={statement.key} className="mt-6 keep-together">
+                      <h3 className="font-bold mb-2">{statement.title}</h3>
+                      <table className="w-full text-sm border-collapse">
+                        <thead>
+                          <tr className="border-b-2">
+                            <th className="text-left py-1">&nbsp;</th>
+                            {statements.years.map((year) => (
+                              <th key={year.period} className="text-right py-1">Year {year.period}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {statement.rows.map((row) => (
+                            <tr key={row.key} className={row.total ? "border-b font-medium" : undefined}>
+                              <td className="py-1">{row.label}</td>
+                              {statements.years.map((year) => (
+                                <td key={year.period} className="text-right">
+                                  {formatFullCurrency(Math.round(getStatementValue(year, statement.key, row.key)))}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
                 </div>
 
                 {/* 11. Funding Request */}
@@ -1302,6 +1371,8 @@ const Exports = () => {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <ShareLinkDialog open={showShareLink} onOpenChange={setShowShareLink} />
     </div>
   );
 };
@@ -0,0 +1,52 @@
+/**
+ * Field-level change list shared by version history and the import wizard
+ */
+import { ArrowRight } from "lucide-react";
+import { formatDiffValue, type FieldChange } from "@/lib/snapshots";
+import { cn } from "@/lib/utils";
+
+/** Changes listed before collapsing into "and N more" */
+const MAX_VISIBLE_CHANGES = 25;
+
+const CHANGE_STYLES: Record<FieldChange["type"], string> = {
+  added: "text-green-600 dark:text-green-400",
+  removed: "text-red-600 dark:text-red-400",
+  changed: "text-yellow-600 dark:text-yellow-400",
+};
+
+function FieldChangeRow({ change }: { change: FieldChange }) {
+  return (
+    <li className="py-1 text-xs">
+      <span className={cn("font-mono", CHANGE_STYLES[change.type])}>
+        {change.type === "added" ? "+" : change.type === "removed" ? "−" : "~"} {change.path || "(value)"}
+      </span>
+      <div className="flex items-start gap-1 pl-3 text-muted-foreground break-all">
+        {change.type !== "added" && <span className="line-through">{formatDiffValue(change.before)}</span>}
+        {change.type === "changed" && <ArrowRight className="h-3 w-3 mt-0.5 shrink-0" aria-hidden="true" />}
+        {change.type !== "removed" && <span className="text-foreground">{formatDiffValue(change.after)}</span>}
+      </div>
+    </li>
+  );
+}
+
+interface FieldChangeListProps {
+  changes: FieldChange[];
+  className?: string;
+}
+
+const FieldChangeList = ({ changes, className }: FieldChangeListProps) => (
+  <div className={className}>
+    <ul className="divide-y divide-border/50">
+      {changes.slice(0, MAX_VISIBLE_CHANGES).map((change) => (
+        <FieldChangeRow key={`${change.type}:${change.path}`} change={change} />
+      ))}
+    </ul>
+    {changes.length > MAX_VISIBLE_CHANGES && (
+      <p className="pt-1 text-xs text-muted-foreground">
+        and {changes.length - MAX_VISIBLE_CHANGES} more changes
+      </p>
+    )}
+  </div>
+);
+
+export default FieldChangeList;
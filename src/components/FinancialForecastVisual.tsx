@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { type ForecastData } from "@/lib/validators/schemas";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import { getProjections } from "@/lib/financialModel";
 import FinancialChartVisual from "./visuals/FinancialChartVisual";
 import GrowthMountainVisual from "./visuals/GrowthMountainVisual";
 import MoneyTreeVisual from "./visuals/MoneyTreeVisual";
@@ -13,6 +15,8 @@ interface FinancialForecastVisualProps {
 
 const FinancialForecastVisual = ({ data }: FinancialForecastVisualProps) => {
   const [activeTab, setActiveTab] = useState("chart");
+  const [model] = useStorageDomain("financialModel");
+  const projections = getProjections(data, model);
 
   return (
     <div className="w-full">
@@ -36,11 +40,11 @@ const FinancialForecastVisual = ({ data }: FinancialForecastVisualProps) => {
         </TabsList>
 
         <TabsContent value="chart" className="mt-0">
-          <FinancialChartVisual data={data} />
+          <FinancialChartVisual projections={projections} />
         </TabsContent>
 
         <TabsContent value="mountain" className="mt-0">
-          <GrowthMountainVisual data={data} />
+          <GrowthMountainVisual projections={projections} />
         </TabsContent>
 
         <TabsContent value="tree" className="mt-0">
@@ -4,9 +4,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Save, Download, Loader2, FileImage, FileText, Plus, Trash2, DollarSign, PieChart } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import { useExport } from "@/hooks/useExport";
-import { ForecastDataSchema, type ForecastData, type UseOfFundsItem } from "@/lib/validators/schemas";
+import { type ForecastData, type UseOfFundsItem } from "@/lib/validators/schemas";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import BrandHeader from "./BrandHeader";
 import FinancialForecastVisual from "./FinancialForecastVisual";
@@ -17,27 +17,6 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-const defaultForecastData: ForecastData = {
-  year1Revenue: "",
-  year1Expenses: "",
-  year2Revenue: "",
-  year2Expenses: "",
-  year3Revenue: "",
-  year3Expenses: "",
-  year5Revenue: "",
-  year5Expenses: "",
-  year10Revenue: "",
-  year10Expenses: "",
-  year15Revenue: "",
-  year15Expenses: "",
-  year25Revenue: "",
-  year25Expenses: "",
-  assumptions: "",
-  fundingAsk: undefined,
-  fundingStage: "",
-  useOfFunds: [],
-};
-
 const FUNDING_STAGES = [
   "Pre-seed",
   "Seed",
@@ -65,11 +44,7 @@ const Forecasting = () => {
   const { toast } = useToast();
 
   // Use the new custom hooks
-  const [data, setData, { save }] = useLocalStorage<ForecastData>(
-    "forecasting",
-    defaultForecastData,
-    { schema: ForecastDataSchema }
-  );
+  const [data, setData, { save }] = useStorageDomain("forecasting");
 
   const { isExporting, exportPNG, exportPDF } = useExport({
     elementId: "forecasting-content",
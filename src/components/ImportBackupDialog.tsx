@@ -0,0 +1,311 @@
+/**
+ * Import wizard: review what a backup would change section by section, choose
+ * keep mine / take theirs / merge by id, then see a report of what was imported
+ */
+import { useState, useEffect, useMemo } from "react";
+import { AlertTriangle, CheckCircle2, GitMerge, MinusCircle, Replace, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import FieldChangeList from "@/components/FieldChangeList";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applyImportPlan,
+  countOutcomes,
+  getDefaultResolution,
+  hasImportedData,
+  previewResolution,
+  type ImportOutcome,
+  type ImportPlan,
+  type ImportReport,
+  type ImportResolution,
+  type ImportResolutions,
+  type SectionImportPlan,
+} from "@/lib/importPlan";
+
+interface ImportBackupDialogProps {
+  /** Plan for the chosen backup file; the dialog is open while set */
+  plan: ImportPlan | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  mine: "Keep mine",
+  theirs: "Take theirs",
+  merge: "Merge by id",
+};
+
+const OUTCOME_COPY: Record<ImportOutcome, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  added: { label: "Added", icon: CheckCircle2, className: "text-green-600 dark:text-green-400" },
+  replaced: { label: "Replaced", icon: Replace, className: "text-blue-600 dark:text-blue-400" },
+  merged: { label: "Merged", icon: GitMerge, className: "text-purple-600 dark:text-purple-400" },
+  kept: { label: "Kept mine", icon: MinusCircle, className: "text-muted-foreground" },
+  unchanged: { label: "Unchanged", icon: MinusCircle, className: "text-muted-foreground" },
+  invalid: { label: "Invalid", icon: AlertTriangle, className: "text-destructive" },
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const StatusBadge = ({ section }: { section: SectionImportPlan }) => {
+  switch (section.status) {
+    case "new":
+      return <Badge variant="secondary">New</Badge>;
+    case "changed":
+      return <Badge variant="outline">{section.changes.length} changes</Badge>;
+    case "invalid":
+      return <Badge variant="destructive">Invalid</Badge>;
+    default:
+      return <Badge variant="outline" className="text-muted-foreground">Unchanged</Badge>;
+  }
+};
+
+function ResolutionToggle({
+  section,
+  value,
+  onChange,
+}: {
+  section: SectionImportPlan;
+  value: ImportResolution;
+  onChange: (resolution: ImportResolution) => void;
+}) {
+  const options: ImportResolution[] = section.mergeable ? ["mine", "theirs", "merge"] : ["mine", "theirs"];
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={value}
+      onValueChange={(next) => next && onChange(next as ImportResolution)}
+      aria-label={`How to import ${section.label}`}
+    >
+      {options.map((option) => (
+        <ToggleGroupItem key={option} value={option} className="h-7 px-2 text-xs">
+          {section.status === "new" ? (option === "mine" ? "Skip" : "Add") : RESOLUTION_LABELS[option]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
+
+function ImportReportView({ report }: { report: ImportReport }) {
+  const counts = countOutcomes(report);
+  const showProject = report.createdProjects.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {(Object.keys(counts) as ImportOutcome[])
+          .filter((outcome) => counts[outcome] > 0)
+          .map((outcome) => `${counts[outcome]} ${OUTCOME_COPY[outcome].label.toLowerCase()}`)
+          .join(" · ") || "Nothing to import."}
+      </p>
+      {report.createdProjects.length > 0 && (
+        <p className="text-sm">
+          New projects: <strong>{report.createdProjects.join(", ")}</strong>
+        </p>
+      )}
+      <ul className="max-h-[50vh] overflow-y-auto divide-y rounded-lg border" aria-label="Import report">
+        {report.entries.map((entry) => {
+          const { label, icon: Icon, className } = OUTCOME_COPY[entry.outcome];
+          return (
+            <li key={`${entry.project}:${entry.domain}`} className="flex items-start gap-2 px-3 py-2 text-sm">
+              <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${className}`} aria-hidden="true" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    {showProject && <span className="text-muted-foreground">{entry.project}: </span>}
+                    {entry.label}
+                  </span>
+                  <span className={`shrink-0 text-xs ${className}`}>{label}</span>
+                </div>
+                {entry.detail && <p className="text-xs text-muted-foreground break-all line-clamp-2">{entry.detail}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+const ImportBackupDialog = ({ plan, onOpenChange }: ImportBackupDialogProps) => {
+  const { toast } = useToast();
+  const [resolutions, setResolutions] = useState<ImportResolutions>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start every new file from the default resolutions
+  useEffect(() => {
+    setReport(null);
+    if (!plan) return;
+    const defaults: ImportResolutions = {};
+    plan.projects.forEach((project) =>
+      project.sections.forEach((section) => {
+        defaults[section.domain] = getDefaultResolution(section);
+      })
+    );
+    setResolutions(defaults);
+  }, [plan]);
+
+  // Conflicts only arise when merging into the current project
+  const isMerge = Boolean(plan?.projects[0]?.projectId);
+  const sections = useMemo(() => plan?.projects.flatMap((project) => project.sections) ?? [], [plan]);
+  const conflicts = sections.filter((section) => section.status === "changed");
+
+  const setAll = (resolution: ImportResolution) => {
+    setResolutions((current) => {
+      const next = { ...current };
+      conflicts.forEach((section) => {
+        next[section.domain] = resolution === "merge" && !section.mergeable ? "theirs" : resolution;
+      });
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    try {
+      setReport(await applyImportPlan(plan, resolutions));
+    } catch (error) {
+      console.error("[ImportBackupDialog] Import failed:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    onOpenChange(false);
+    if (report && hasImportedData(report)) {
+      toast({ title: "Backup imported", description: "Loading imported data..." });
+      // Reload so every tab reads the imported data
+      setTimeout(() => window.location.reload(), 500);
+    }
+  };
+
+  if (!plan) return null;
+  const { backup } = plan;
+  const source = backup.scope === "all" ? `${backup.projects.length} projects` : `"${backup.projects[0].name}"`;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" aria-hidden="true" />
+            {report ? "Import report" : "Import backup"}
+          </DialogTitle>
+          <DialogDescription>
+            Backup of {source}
+            {backup.exportDate && ` from ${formatDate(backup.exportDate)}`}
+            {backup.appVersion !== "unknown" && ` (Mizzie ${backup.appVersion})`}.{" "}
+            {!report &&
+              (isMerge
+                ? `Choose what to import into "${plan.projects[0].name}".`
+                : "Each project will be added as a new project.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <ImportReportView report={report} />
+        ) : (
+          <div className="space-y-3">
+            {isMerge && conflicts.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {conflicts.length} {conflicts.length === 1 ? "section differs" : "sections differ"}:
+                </span>
+                {(Object.keys(RESOLUTION_LABELS) as ImportResolution[]).map((resolution) => (
+                  <Button key={resolution} variant="outline" size="sm" className="h-7" onClick={() => setAll(resolution)}>
+                    {RESOLUTION_LABELS[resolution]} for all
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {sections.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">This backup doesn't contain any data.</p>
+            ) : (
+              <Accordion type="multiple" className="max-h-[55vh] overflow-y-auto rounded-lg border px-3">
+                {plan.projects.map((project) =>
+                  project.sections.map((section) => {
+                    const resolution = resolutions[section.domain] ?? getDefaultResolution(section);
+                    const changes = isMerge ? previewResolution(section, resolution) : section.changes;
+                    const canResolve = isMerge && (section.status === "changed" || section.status === "new");
+                    return (
+                      <AccordionItem key={`${project.name}:${section.domain}`} value={`${project.name}:${section.domain}`}>
+                        <div className="flex items-center gap-2">
+                          <div className="min-w-0 flex-1">
+                            <AccordionTrigger className="py-3 text-sm hover:no-underline">
+                              <span className="flex min-w-0 items-center gap-2">
+                                <span className="truncate">
+                                  {!isMerge && <span className="text-muted-foreground">{project.name}: </span>}
+                                  {section.label}
+                                </span>
+                                <StatusBadge section={section} />
+                              </span>
+                            </AccordionTrigger>
+                          </div>
+                          {canResolve && (
+                            <ResolutionToggle
+                              section={section}
+                              value={resolution}
+                              onChange={(next) => setResolutions((current) => ({ ...current, [section.domain]: next }))}
+                            />
+                          )}
+                        </div>
+                        <AccordionContent>
+                          {section.status === "invalid" ? (
+                            <p className="text-xs text-destructive break-all">{section.error}</p>
+                          ) : changes.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">
+                              {section.status === "unchanged" ? "Identical to your data." : "Your data stays as it is."}
+                            </p>
+                          ) : (
+                            <FieldChangeList changes={changes} />
+                          )}
+                        </AccordionContent>
+                      </AccordionItem>
+                    );
+                  })
+                )}
+              </Accordion>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={handleClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || sections.length === 0}>
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBackupDialog;
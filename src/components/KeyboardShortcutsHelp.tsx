@@ -91,6 +91,8 @@ export default function KeyboardShortcutsHelp({ open, onOpenChange }: KeyboardSh
             <h4 className="text-sm font-medium mb-2">Actions</h4>
             <div className="space-y-1">
               <ShortcutRow shortcut="Ctrl + S" description="Save current tab" mac={showMacKeys} />
+              <ShortcutRow shortcut="Ctrl + Z" description="Undo last change" mac={showMacKeys} />
+              <ShortcutRow shortcut="Ctrl + Shift + Z" description="Redo" mac={showMacKeys} />
               <ShortcutRow shortcut="Escape" description="Close dialogs" mac={showMacKeys} />
             </div>
           </div>
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import MizzieAssistant from './MizzieAssistant';
+import { overrideAIProvider, saveAISettings } from '@/lib/aiProvider';
+import { createMockAIProvider, type MockAIProvider } from '@/lib/aiMockProvider';
+import { readDomain } from '@/lib/storageRegistry';
+import { getVoiceSettings } from '@/lib/voiceSettings';
+import { getActiveThread } from '@/lib/aiThreads';
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: vi.fn() }),
+  toast: vi.fn(),
+}));
+
+type FakeResult = { transcript: string }[] & { isFinal: boolean };
+
+/** Speech recognition that hears whatever the test says */
+class FakeRecognition {
+  static current: FakeRecognition | null = null;
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onresult: ((event: { resultIndex: number; results: FakeResult[] }) => void) | null = null;
+  start() {
+    FakeRecognition.current = this;
+    this.onstart?.();
+  }
+  stop() {
+    this.onend?.();
+  }
+  abort() {}
+}
+
+class FakeUtterance {
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  constructor(public text: string) {}
+}
+
+// The assistant waits for a pause before answering
+const REPLY_TIMEOUT = { timeout: 4000 };
+
+const say = (transcript: string) => {
+  fireEvent.click(screen.getByRole('button', { name: 'Start talking' }));
+  const result = Object.assign([{ transcript }], { isFinal: true });
+  act(() => FakeRecognition.current!.onresult!({ resultIndex: 0, results: [result] }));
+};
+
+describe('MizzieAssistant', () => {
+  let model: MockAIProvider;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('SpeechRecognition', FakeRecognition);
+    vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+    vi.stubGlobal('speechSynthesis', { speak: vi.fn(), cancel: vi.fn(), getVoices: () => [] });
+    saveAISettings({ provider: 'groq', apiKey: 'test-key' });
+    model = createMockAIProvider();
+    overrideAIProvider(model);
+  });
+
+  afterEach(() => {
+    overrideAIProvider(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('should stream the answer and offer proposed edits for review', async () => {
+    model.enqueue(
+      'A loyal commuter crowd is a real strength. <action>{"type":"add_swot_item","quadrant":"strengths","text":"Loyal commuters"}</action>'
+    );
+    render(<MizzieAssistant />);
+    fireEvent.click(screen.getByRole('button', { name: 'Open Mizzie Assistant' }));
+
+    say('What are my strengths?');
+
+    await screen.findByText('A loyal commuter crowd is a real strength.', {}, REPLY_TIMEOUT);
+    expect(model.requests[0].messages.at(-1)).toEqual({ role: 'user', content: 'What are my strengths?' });
+    expect(model.requests[0].messages[0].content).toContain('<action>');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Accept' }));
+    await vi.waitFor(() => expect(readDomain('swot').strengths.map((item) => item.text)).toEqual(['Loyal commuters']));
+  });
+
+  it('should propose spoken edit commands without asking the model', async () => {
+    render(<MizzieAssistant />);
+    fireEvent.click(screen.getByRole('button', { name: 'Open Mizzie Assistant' }));
+
+    say('Add strength: great location');
+
+    await screen.findByText("Here's that change. Accept it to update your plan.", {}, REPLY_TIMEOUT);
+    expect(model.requests).toHaveLength(0);
+    expect(getActiveThread()?.messages.map((message) => message.content)).toEqual([
+      'Add strength: great location',
+      "Here's that change. Accept it to update your plan.",
+    ]);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Accept' }));
+    await vi.waitFor(() => expect(readDomain('swot').strengths.map((item) => item.text)).toEqual(['great location']));
+  });
+
+  it('should explain provider errors in the conversation', async () => {
+    model.enqueue({ error: 'Incorrect API key provided: sk-...', status: 401 });
+    render(<MizzieAssistant />);
+    fireEvent.click(screen.getByRole('button', { name: 'Open Mizzie Assistant' }));
+
+    say('Hello?');
+
+    await screen.findByText('Mock model rejected the API key. Check it in Settings → AI Settings.', {}, REPLY_TIMEOUT);
+    expect(screen.queryByText(/Incorrect API key/)).not.toBeInTheDocument();
+  });
+
+  it('should listen and answer in the chosen language while the mic is held', async () => {
+    saveAISettings({
+      provider: 'groq',
+      apiKey: 'test-key',
+      voice: { ...getVoiceSettings({ provider: 'groq' }), language: 'fr-FR', mode: 'push-to-talk' },
+    });
+    model.enqueue('Vos clients fidèles sont une vraie force.');
+    render(<MizzieAssistant />);
+    fireEvent.click(screen.getByRole('button', { name: 'Open Mizzie Assistant' }));
+
+    const mic = screen.getByRole('button', { name: 'Hold to talk' });
+    fireEvent.pointerDown(mic);
+    expect(FakeRecognition.current!.lang).toBe('fr-FR');
+    const result = Object.assign([{ transcript: 'Quelles sont mes forces ?' }], { isFinal: true });
+    act(() => FakeRecognition.current!.onresult!({ resultIndex: 0, results: [result] }));
+    expect(model.requests).toHaveLength(0);
+    fireEvent.pointerUp(mic);
+
+    await screen.findByText('Vos clients fidèles sont une vraie force.');
+    expect(model.requests[0].messages[0].content).toContain('Always answer in French');
+  });
+});
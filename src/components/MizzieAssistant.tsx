@@ -1,5 +1,5 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import { Mic, MicOff, VolumeX, Loader2 } from "lucide-react";
+import { useState, useCallback, useEffect, useRef, type KeyboardEvent } from "react";
+import { Mic, MicOff, VolumeX, Loader2, Square, MessagesSquare, Pin, ClipboardCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Progress } from "@/components/ui/progress";
@@ -10,96 +10,351 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useVoiceAgent, type VoiceMessage } from "@/hooks/useVoiceAgent";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
-import { CanvasDataSchema, type CanvasData } from "@/lib/validators/schemas";
+import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import { chat, getAISettings, isWebLLMSupported, type ChatMessage, type CanvasContext } from "@/lib/aiProvider";
-
-const defaultCanvasData: CanvasData = {
-  keyPartners: "",
-  keyActivities: "",
-  keyResources: "",
-  valuePropositions: "",
-  customerRelationships: "",
-  channels: "",
-  customerSegments: "",
-  costStructure: "",
-  revenueStreams: "",
+import {
+  streamChat,
+  getAISettings,
+  getContextBudget,
+  saveAISettings,
+  isWebLLMSupported,
+} from "@/lib/aiProvider";
+import { buildAIContext, type AIContext, type AIContextSectionId } from "@/lib/aiContext";
+import {
+  ACTION_PROMPT,
+  applyAction,
+  parseActionCommand,
+  planAction,
+  stripActionTags,
+  type MizzieAction,
+} from "@/lib/mizzieActions";
+import {
+  appendThreadMessage,
+  createThread,
+  deleteThread,
+  getActiveThread,
+  getSummaryInstructions,
+  getThread,
+  getThreadHistory,
+  getThreads,
+  getThreadsData,
+  needsSummary,
+  renameThread,
+  setActiveThread,
+  summarizeThread,
+  togglePinnedMessage,
+  type AIThread,
+} from "@/lib/aiThreads";
+import { getAIErrorMessage } from "@/lib/aiErrors";
+import { getLanguageInstructions, getVoiceSettings } from "@/lib/voiceSettings";
+import { isPlanReviewCommand } from "@/lib/planReview";
+import { exportThreadMarkdown } from "@/lib/exportUtils";
+import {
+  STORAGE_DOMAIN_CHANGED_EVENT,
+  type StorageDomainChangedDetail,
+} from "@/lib/storageRegistry";
+import AIContextPopover from "./AIContextPopover";
+import ActionReviewCard, { type ActionProposal } from "./ActionReviewCard";
+import AIThreadsPanel from "./AIThreadsPanel";
+import PlanReviewDialog from "./PlanReviewDialog";
+
+/** Earlier questions that still count towards ranking, for follow-ups like "what about year two?" */
+const RANKING_HISTORY = 2;
+
+const WELCOME_MESSAGE: VoiceMessage = {
+  id: "welcome",
+  role: "assistant",
+  content: "Hi! I'm Mizzie, your business planning assistant. Ask me anything about your business plan, from your canvas to your financials, and I'll help you improve it!",
+  timestamp: new Date(0),
+};
+
+const toVoiceMessages = (thread?: AIThread): VoiceMessage[] =>
+  (thread?.messages ?? []).map(({ id, role, content, timestamp }) => ({
+    id,
+    role,
+    content,
+    timestamp: new Date(timestamp),
+  }));
+
+// Recent questions, for ranking which parts of the plan to share
+const getRankingQuestion = (messages: { role: string; content: string }[]): string =>
+  messages
+    .filter((message) => message.role === "user")
+    .slice(-(RANKING_HISTORY + 1))
+    .map((message) => message.content)
+    .join("\n");
+
+// Business context for a question, honouring the user's sharing choices and budget
+const prepareContext = (question: string, budget?: number): AIContext => {
+  const settings = getAISettings();
+  return buildAIContext({
+    question,
+    budget: budget ?? getContextBudget(settings),
+    excluded: settings.contextExclusions,
+  });
 };
 
 const MizzieAssistant = () => {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingText, setLoadingText] = useState("");
-  const chatHistoryRef = useRef<ChatMessage[]>([]);
+  const [isReplying, setIsReplying] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [threads, setThreads] = useState<AIThread[]>(getThreads);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(() => getThreadsData().activeThreadId);
+  const [showThreads, setShowThreads] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [context, setContext] = useState<AIContext | null>(null);
+  const [isContextPreview, setIsContextPreview] = useState(true);
+  const rankingQuestionRef = useRef("");
+  const [proposals, setProposals] = useState<ActionProposal[]>([]);
 
-  // Get canvas data for context
-  const [canvasData] = useLocalStorage<CanvasData>(
-    "businessModelCanvas",
-    defaultCanvasData,
-    { schema: CanvasDataSchema }
-  );
+  // Edits from a reply wait for review; ones that don't fit the plan are shown as such
+  const proposeAction = useCallback((action: MizzieAction) => {
+    const proposal: ActionProposal = { id: crypto.randomUUID(), timestamp: new Date(), status: "pending" };
+    try {
+      proposal.planned = planAction(action);
+    } catch (error) {
+      proposal.status = "invalid";
+      proposal.error = error instanceof Error ? error.message : undefined;
+    }
+    setProposals((current) => [...current, proposal]);
+  }, []);
+
+  const updateProposal = useCallback((id: string, updates: Partial<ActionProposal>) => {
+    setProposals((current) => current.map((proposal) => (proposal.id === id ? { ...proposal, ...updates } : proposal)));
+  }, []);
+
+  // Handle transcript processing with AI, streaming the reply as it's generated
+  const handleTranscript = useCallback(async function* (transcript: string): AsyncGenerator<string> {
+    // "Review my plan" opens the structured review, and direct edits such as
+    // "add strength: great location" are proposed, without asking the model
+    let commandReply: string | undefined;
+    if (isPlanReviewCommand(transcript)) {
+      setShowReview(true);
+      commandReply = "Opening your plan review. Choose who should review it and I'll score every section.";
+    } else {
+      const command = parseActionCommand(transcript);
+      if (command) {
+        proposeAction(command);
+        commandReply = "Here's that change. Accept it to update your plan.";
+      }
+    }
+    if (commandReply) {
+      // Kept in the conversation like any other turn
+      const commandThreadId = getActiveThread()?.id ?? createThread().id;
+      appendThreadMessage(commandThreadId, "user", transcript);
+      yield commandReply;
+      appendThreadMessage(commandThreadId, "assistant", commandReply);
+      if (getThreadsData().activeThreadId === commandThreadId) {
+        replaceMessagesRef.current(toVoiceMessages(getThread(commandThreadId)));
+      }
+      return;
+    }
 
-  // Handle transcript processing with AI
-  const handleTranscript = useCallback(async (transcript: string): Promise<string> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
+    let reply = "";
+    let replyStartedAt: Date | undefined;
+    const threadId = getActiveThread()?.id ?? createThread().id;
 
     try {
-      // Add user message to history
-      chatHistoryRef.current.push({ role: "user", content: transcript });
-
-      // Pass current canvas data as context
-      const canvasContext: CanvasContext = canvasData;
-      console.log("Canvas data being sent to AI:", canvasContext); // Debug
-
-      // Get AI response with canvas context
-      const response = await chat(
-        chatHistoryRef.current,
-        canvasContext,
-        (progress, text) => {
-          setLoadingProgress(progress);
-          setLoadingText(text);
+      appendThreadMessage(threadId, "user", transcript);
+      let thread = getThread(threadId);
+      if (!thread) throw new Error("The conversation was deleted.");
+
+      // Fold older turns into the summary so long threads still fit the model
+      if (needsSummary(thread)) {
+        setIsSummarizing(true);
+        try {
+          thread = (await summarizeThread(threadId, { signal: controller.signal })) ?? thread;
+        } catch (error) {
+          console.warn("[MizzieAssistant] Couldn't summarize the conversation:", error);
+        } finally {
+          setIsSummarizing(false);
         }
-      );
+      }
+      const history = getThreadHistory(thread);
 
-      // Add assistant response to history
-      chatHistoryRef.current.push({ role: "assistant", content: response });
+      // Share the parts of the plan most relevant to the conversation
+      const question = getRankingQuestion(history);
+      const questionContext = prepareContext(question);
+      rankingQuestionRef.current = question;
+      setContext(questionContext);
+      setIsContextPreview(false);
 
-      return response;
+      const tokens = stripActionTags(
+        streamChat(history, questionContext.text, {
+          signal: controller.signal,
+          instructions: [
+            ACTION_PROMPT,
+            getSummaryInstructions(thread),
+            getLanguageInstructions(getVoiceSettings().language),
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          onProgress: (progress, text) => {
+            setLoadingProgress(progress);
+            setLoadingText(text);
+          },
+          buildContext: (budget) => prepareContext(question, budget).text,
+          onFallback: (error, fallback) => {
+            toast({
+              title: `Answering with ${fallback.label}`,
+              description: `${error.message} Mizzie switched to the in-browser model for this answer.`,
+            });
+          },
+        }),
+        proposeAction
+      );
+      for await (const token of tokens) {
+        if (!reply) {
+          replyStartedAt = new Date();
+          setIsReplying(true);
+          setLoadingProgress(0);
+          setLoadingText("");
+        }
+        reply += token;
+        yield token;
+      }
     } catch (error) {
       console.error("AI chat error:", error);
+      if (reply) return;
       const settings = getAISettings();
-      if (settings.provider === "webllm" && !isWebLLMSupported()) {
-        return "Sorry, your browser doesn't support WebLLM. Please go to Settings → AI Settings and configure Groq or OpenAI API instead.";
-      }
-      return `Sorry, I had trouble processing that. ${error instanceof Error ? error.message : "Please try again."}`;
+      reply = settings.provider === "webllm" && !isWebLLMSupported()
+        ? "Sorry, your browser doesn't support WebLLM. Please go to Settings → AI Settings and configure Groq or OpenAI API instead."
+        : getAIErrorMessage(error);
+      yield reply;
     } finally {
+      // Keep partial replies from stopped generations so follow-ups have context
+      if (reply.trim()) {
+        appendThreadMessage(threadId, "assistant", reply.trim(), replyStartedAt);
+      }
+      // Show the saved turn (with its ids, so answers can be pinned) unless another thread was opened
+      if (getThreadsData().activeThreadId === threadId) {
+        replaceMessagesRef.current(toVoiceMessages(getThread(threadId)));
+      }
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
+      setIsReplying(false);
       setLoadingProgress(0);
       setLoadingText("");
     }
-  }, [canvasData]);
+  }, [proposeAction, toast]);
+
+  const handleAccept = useCallback(async (id: string) => {
+    const planned = proposals.find((proposal) => proposal.id === id)?.planned;
+    if (!planned) return;
+
+    updateProposal(id, { status: "applying", error: undefined });
+    try {
+      const applied = await applyAction(planned.action);
+      updateProposal(id, { status: "applied", planned: applied });
+      toast({ title: "Change applied", description: `${applied.label} in ${applied.section}. Press Ctrl+Z to undo.` });
+    } catch (error) {
+      console.error("[MizzieAssistant] Failed to apply action:", error);
+      const message = error instanceof Error ? error.message : "Please try again.";
+      updateProposal(id, { status: "pending", error: message });
+      toast({ title: "Couldn't apply the change", description: message, variant: "destructive" });
+    }
+  }, [proposals, updateProposal, toast]);
+
+  const handleReject = useCallback((id: string) => updateProposal(id, { status: "rejected" }), [updateProposal]);
+
+  // Sharing choices apply from the next question on
+  const handleToggleContext = useCallback((id: AIContextSectionId, shared: boolean) => {
+    const settings = getAISettings();
+    const exclusions = (settings.contextExclusions ?? []).filter((section) => section !== id);
+    saveAISettings({ ...settings, contextExclusions: shared ? exclusions : [...exclusions, id] });
+    setContext(prepareContext(rankingQuestionRef.current));
+    setIsContextPreview(true);
+  }, []);
+
+  // Preview what will be shared until the first question is asked
+  useEffect(() => {
+    if (isOpen && isContextPreview) {
+      setContext(prepareContext(rankingQuestionRef.current));
+    }
+  }, [isOpen, isContextPreview]);
 
   const {
     isListening,
     isSpeaking,
     isSupported,
     messages,
+    interimTranscript,
     startListening,
     stopListening,
     speak,
     stopSpeaking,
-    addMessage,
+    replaceMessages,
   } = useVoiceAgent({ onTranscript: handleTranscript });
+  const replaceMessagesRef = useRef(replaceMessages);
+  replaceMessagesRef.current = replaceMessages;
+
+  const stopGenerating = useCallback(() => {
+    abortRef.current?.abort();
+    stopSpeaking();
+  }, [stopSpeaking]);
+
+  // Don't keep generating after the assistant goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  // Welcome message when dialog opens
+  // Keep the thread list current, including changes from other tabs
   useEffect(() => {
-    if (isOpen && messages.length === 0) {
-      const welcomeMessage = "Hi! I'm Mizzie, your business planning assistant. Tell me about your business idea, and I'll help you fill out your Business Model Canvas!";
-      addMessage("assistant", welcomeMessage);
+    const handleChange = (event: CustomEvent<StorageDomainChangedDetail>) => {
+      if (event.detail.domain !== "aiThreads") return;
+      setThreads(getThreads());
+      setActiveThreadId(getThreadsData().activeThreadId);
+    };
+    window.addEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange as EventListener);
+    return () => window.removeEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange as EventListener);
+  }, []);
+
+  // Show a thread (or a fresh conversation), dropping anything still being generated
+  const openThread = useCallback((threadId: string | null) => {
+    abortRef.current?.abort();
+    stopSpeaking();
+    setActiveThread(threadId);
+    const thread = threadId ? getThread(threadId) : undefined;
+    replaceMessages(toVoiceMessages(thread));
+    setProposals([]);
+    rankingQuestionRef.current = getRankingQuestion(thread?.messages ?? []);
+    setIsContextPreview(true);
+    setShowThreads(false);
+  }, [replaceMessages, stopSpeaking]);
+
+  // Pick up where the last conversation left off
+  useEffect(() => {
+    const thread = getActiveThread();
+    if (thread) {
+      replaceMessages(toVoiceMessages(thread));
+      rankingQuestionRef.current = getRankingQuestion(thread.messages);
     }
-  }, [isOpen, messages.length, addMessage]);
+  }, [replaceMessages]);
+
+  const handleDeleteThread = useCallback((threadId: string) => {
+    if (threadId === getThreadsData().activeThreadId) openThread(null);
+    deleteThread(threadId);
+    toast({ title: "Conversation deleted" });
+  }, [openThread, toast]);
+
+  // Push to talk: listen while the mic button (or Space/Enter on it) is held down
+  const pushToTalk = getVoiceSettings().mode === "push-to-talk";
+  const handlePushToTalkKey = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if ((e.key !== " " && e.key !== "Enter") || e.repeat) return;
+    e.preventDefault();
+    if (e.type === "keydown") startListening();
+    else stopListening();
+  };
+
+  const activeThread = threads.find((thread) => thread.id === activeThreadId);
+  const savedIds = new Set(activeThread?.messages.map((message) => message.id));
+  const pinnedIds = new Set(activeThread?.messages.filter((message) => message.pinned).map((message) => message.id));
 
   if (!isSupported) {
     return null; // Don't show if browser doesn't support speech
@@ -128,16 +383,40 @@ const MizzieAssistant = () => {
             <DialogTitle className="flex items-center gap-2">
               <span className="text-2xl">🐝</span>
               Mizzie Assistant
-              {isSpeaking && (
+              <div className="ml-auto mr-6 flex items-center gap-1">
+                {isSpeaking && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={stopSpeaking}
+                    className="h-8 w-8"
+                  >
+                    <VolumeX className="h-4 w-4" />
+                  </Button>
+                )}
+                {context && (
+                  <AIContextPopover context={context} isPreview={isContextPreview} onToggle={handleToggleContext} />
+                )}
+                <Button
+                  variant={showThreads ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => setShowThreads((shown) => !shown)}
+                  className="h-8 w-8"
+                  aria-label="Conversations"
+                  aria-pressed={showThreads}
+                >
+                  <MessagesSquare className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={stopSpeaking}
-                  className="ml-auto h-8 w-8"
+                  onClick={() => setShowReview(true)}
+                  className="h-8 w-8"
+                  aria-label="Review my plan"
                 >
-                  <VolumeX className="h-4 w-4" />
+                  <ClipboardCheck className="h-4 w-4" />
                 </Button>
-              )}
+              </div>
             </DialogTitle>
           </DialogHeader>
 
@@ -153,38 +432,97 @@ const MizzieAssistant = () => {
             </div>
           )}
 
-          {/* Messages */}
-          <ScrollArea className="flex-1 p-4">
-            <div className="space-y-4">
-              {messages.map((msg) => (
-                <MessageBubble key={msg.id} message={msg} />
-              ))}
-              {isListening && (
-                <div className="flex items-center gap-2 text-muted-foreground text-sm">
-                  <div className="flex gap-1">
-                    <span className="animate-bounce">●</span>
-                    <span className="animate-bounce" style={{ animationDelay: "0.1s" }}>●</span>
-                    <span className="animate-bounce" style={{ animationDelay: "0.2s" }}>●</span>
+          {showThreads ? (
+            <AIThreadsPanel
+              threads={threads}
+              activeThreadId={activeThreadId}
+              onSelect={openThread}
+              onNew={() => openThread(null)}
+              onRename={renameThread}
+              onDelete={handleDeleteThread}
+              onExport={exportThreadMarkdown}
+              onUnpin={togglePinnedMessage}
+            />
+          ) : (
+            // Messages
+            <ScrollArea className="flex-1 p-4">
+              <div className="space-y-4">
+                {activeThread && <p className="text-center text-xs text-muted-foreground truncate">{activeThread.title}</p>}
+                {messages.length === 0 && <MessageBubble message={WELCOME_MESSAGE} />}
+                {[
+                  ...messages.map((msg) => ({
+                    timestamp: msg.timestamp,
+                    node: (
+                      <MessageBubble
+                        key={msg.id}
+                        message={msg}
+                        isPinned={pinnedIds.has(msg.id)}
+                        onTogglePin={
+                          activeThreadId && msg.role === "assistant" && savedIds.has(msg.id)
+                            ? () => togglePinnedMessage(activeThreadId, msg.id)
+                            : undefined
+                        }
+                      />
+                    ),
+                  })),
+                  ...proposals.map((proposal) => ({
+                    timestamp: proposal.timestamp,
+                    node: (
+                      <ActionReviewCard
+                        key={proposal.id}
+                        proposal={proposal}
+                        onAccept={handleAccept}
+                        onReject={handleReject}
+                      />
+                    ),
+                  })),
+                ]
+                  .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+                  .map((item) => item.node)}
+                {isListening && (
+                  <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                    <div className="flex gap-1">
+                      <span className="animate-bounce">●</span>
+                      <span className="animate-bounce" style={{ animationDelay: "0.1s" }}>●</span>
+                      <span className="animate-bounce" style={{ animationDelay: "0.2s" }}>●</span>
+                    </div>
+                    {interimTranscript ? <span className="italic">{interimTranscript}</span> : "Listening..."}
                   </div>
-                  Listening...
-                </div>
-              )}
-              {isLoading && !loadingText && (
-                <div className="flex items-center gap-2 text-muted-foreground text-sm">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Thinking...
-                </div>
-              )}
-            </div>
-          </ScrollArea>
+                )}
+                {isLoading && !isReplying && !loadingText && (
+                  <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {isSummarizing ? "Summarizing earlier conversation..." : "Thinking..."}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
 
           {/* Controls */}
           <div className="p-4 border-t bg-muted/50">
             <div className="flex items-center justify-center gap-4">
+              {isLoading && (
+                <Button
+                  onClick={stopGenerating}
+                  variant="outline"
+                  size="icon"
+                  className="h-12 w-12 rounded-full"
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-5 w-5 fill-current" />
+                </Button>
+              )}
               <Button
-                onClick={isListening ? stopListening : startListening}
+                onClick={pushToTalk ? undefined : isListening ? stopListening : startListening}
+                onPointerDown={pushToTalk ? startListening : undefined}
+                onPointerUp={pushToTalk ? stopListening : undefined}
+                onPointerLeave={pushToTalk && isListening ? stopListening : undefined}
+                onKeyDown={pushToTalk ? handlePushToTalkKey : undefined}
+                onKeyUp={pushToTalk ? handlePushToTalkKey : undefined}
                 size="lg"
                 disabled={isLoading}
+                aria-label={pushToTalk ? "Hold to talk" : isListening ? "Stop listening" : "Start talking"}
                 className={cn(
                   "h-16 w-16 rounded-full",
                   isListening
@@ -202,21 +540,36 @@ const MizzieAssistant = () => {
               </Button>
             </div>
             <p className="text-center text-sm text-muted-foreground mt-3">
-              {isLoading ? "Processing..." : isListening ? "Tap to stop listening" : "Tap to start talking to Mizzie"}
+              {isReplying
+                ? "Tap stop to interrupt Mizzie"
+                : isLoading
+                  ? "Processing..."
+                  : pushToTalk
+                    ? isListening ? "Release to send" : "Hold to talk to Mizzie"
+                    : isListening ? "Tap to stop listening" : "Tap to start talking to Mizzie"}
             </p>
           </div>
         </DialogContent>
       </Dialog>
+
+      <PlanReviewDialog open={showReview} onOpenChange={setShowReview} onNavigate={() => setIsOpen(false)} />
     </>
   );
 };
 
+interface MessageBubbleProps {
+  message: VoiceMessage;
+  isPinned?: boolean;
+  /** Omitted for messages that can't be pinned (questions, replies still arriving) */
+  onTogglePin?: () => void;
+}
+
 // Message bubble component
-const MessageBubble = ({ message }: { message: VoiceMessage }) => {
+const MessageBubble = ({ message, isPinned, onTogglePin }: MessageBubbleProps) => {
   const isUser = message.role === "user";
 
   return (
-    <div className={cn("flex", isUser ? "justify-end" : "justify-start")}>
+    <div className={cn("group flex items-start gap-1", isUser ? "justify-end" : "justify-start")}>
       <div
         className={cn(
           "max-w-[85%] rounded-2xl px-4 py-2",
@@ -225,8 +578,28 @@ const MessageBubble = ({ message }: { message: VoiceMessage }) => {
             : "bg-muted rounded-bl-md"
         )}
       >
-        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        <p className="text-sm whitespace-pre-wrap">
+          {message.content}
+          {message.isStreaming && (
+            <span className="ml-0.5 inline-block h-3 w-1.5 animate-pulse bg-current align-middle" aria-hidden="true" />
+          )}
+        </p>
       </div>
+      {onTogglePin && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onTogglePin}
+          className={cn(
+            "h-7 w-7 shrink-0 text-muted-foreground",
+            !isPinned && "opacity-0 focus-visible:opacity-100 group-hover:opacity-100"
+          )}
+          aria-label={isPinned ? "Unpin answer" : "Pin answer"}
+          aria-pressed={isPinned}
+        >
+          <Pin className={cn("h-3.5 w-3.5", isPinned && "fill-current")} />
+        </Button>
+      )}
     </div>
   );
 };
@@ -5,7 +5,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Plus, Save, Trash2, Edit, Eye, Download, FileImage, FileText, Loader2, User, X, ImageIcon, LayoutList, Network, Search, Linkedin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import BrandHeader from "./BrandHeader";
 import OrgChartPreview from "./OrgChartPreview";
 import {
@@ -23,7 +23,6 @@ import {
 } from "@/components/ui/dialog";
 import { exportOrgChartAsPNG, exportOrgChartAsPDF } from "@/lib/orgChartExport";
 import { getAssets } from "@/lib/assetManager";
-import { OrgChartDataSchema } from "@/lib/validators/schemas";
 
 interface Role {
   id: string;
@@ -62,15 +61,10 @@ const OrgChart = () => {
   const { toast } = useToast();
 
   // Use validated localStorage hook with auto-save and migration
-  const [roles, setRoles, { save }] = useLocalStorage<Role[]>(
-    "orgChart",
-    [],
-    {
-      schema: OrgChartDataSchema,
-      debounceMs: 300,
-      migrate: migrateOrgChartData,
-    }
-  );
+  const [roles, setRoles, { save }] = useStorageDomain("orgChart", {
+    debounceMs: 300,
+    migrate: migrateOrgChartData,
+  });
 
   const [newRole, setNewRole] = useState({
     title: "",
@@ -117,7 +111,7 @@ const OrgChart = () => {
 
     if (editingRole) {
       // Update existing role
-      setRoles(roles.map(r => r.id === editingRole.id ? { ...editingRole, ...newRole } : r));
+      setRoles(roles.map(r => r.id === editingRole.id ? { ...editingRole, ...newRole } : r), `Update role "${newRole.title}"`);
       setEditingRole(null);
       toast({
         title: "Role updated",
@@ -129,7 +123,7 @@ const OrgChart = () => {
         id: `role-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         ...newRole,
       };
-      setRoles([...roles, role]);
+      setRoles([...roles, role], `Add role "${role.title}"`);
       toast({
         title: "Role added",
         description: "New role has been added to the org chart",
@@ -159,7 +153,8 @@ const OrgChart = () => {
   };
 
   const removeRole = (id: string) => {
-    setRoles(roles.filter((r) => r.id !== id));
+    const role = roles.find((r) => r.id === id);
+    setRoles(roles.filter((r) => r.id !== id), `Delete role "${role?.title ?? ""}"`);
   };
 
   const getRolesByDepartment = () => {
@@ -15,6 +15,8 @@ interface Role {
 interface OrgChartPreviewProps {
   roles: Role[];
   layoutStyle?: "vertical" | "horizontal";
+  brandColors?: BrandColors;
+  photos?: Record<string, string>;
 }
 
 interface BrandColors {
@@ -23,16 +25,23 @@ interface BrandColors {
   accent: string;
 }
 
-const OrgChartPreview = ({ roles, layoutStyle = "vertical" }: OrgChartPreviewProps) => {
-  const [brandColors, setBrandColors] = useState<BrandColors>({
+const OrgChartPreview = ({
+  roles,
+  layoutStyle = "vertical",
+  brandColors: brandColorsOverride,
+  photos,
+}: OrgChartPreviewProps) => {
+  const [storedBrandColors, setBrandColors] = useState<BrandColors>({
     primary: "#f97316",
     secondary: "#6366f1",
     accent: "#ec4899",
   });
+  const brandColors = brandColorsOverride ?? storedBrandColors;
 
   // Helper function to get photo URL from asset ID
   const getPhotoUrl = (assetId?: string): string | undefined => {
     if (!assetId) return undefined;
+    if (photos) return photos[assetId];
     const assets = getAssets();
     const asset = assets.find(a => a.id === assetId);
     return asset?.dataUrl;
@@ -1,17 +1,20 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Save, ChevronLeft, ChevronRight, Edit, Eye, Columns2, Download, FileImage, FileText, Presentation, Loader2, Image as ImageIcon, X, GripVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import { usePlanFocus } from "@/hooks/usePlanFocus";
 import BrandHeader from "./BrandHeader";
 import SlidePreview from "./SlidePreview";
 import ImagePicker from "./ImagePicker";
 import { exportPitchDeckAsPNG, exportPitchDeckAsPDF, exportPitchDeckAsPPTX } from "@/lib/pitchDeckExport";
 import { getCompanyLogo } from "@/lib/assetManager";
-import { PitchDeckDataSchema } from "@/lib/validators/schemas";
+import { readDomain } from "@/lib/storageRegistry";
+import { getScenarioProjections } from "@/lib/scenarios";
+import { getExitSlide, getRoundSlide } from "@/lib/capTable";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -36,10 +39,24 @@ interface Slide {
   title: string;
   content: string;
   images?: SlideImage[]; // Array of image objects with settings
+  scenarioId?: string; // Scenario shown on the Financial Projections slide
+  roundId?: string; // Funding round shown on the Investment Ask slide
+  showExitWaterfall?: boolean; // Exit waterfall shown on the Exit Strategy slide
 }
 
 type ViewMode = "edit" | "split" | "preview";
 
+/** Index of the Financial Projections slide, which can show a scenario's figures */
+const FINANCIAL_PROJECTIONS_SLIDE = 9;
+
+/** Indexes of the Investment Ask and Exit Strategy slides, which can show cap table figures */
+const INVESTMENT_ASK_SLIDE = 10;
+const EXIT_STRATEGY_SLIDE = 11;
+
+// Select value for showing no scenario or cap table figures
+const NO_FIGURES = "none";
+const EXIT_WATERFALL = "waterfall";
+
 const defaultSlides: Slide[] = [
   { title: "", content: "" },
   { title: "", content: "" },
@@ -77,11 +94,10 @@ const PitchDeck = () => {
   const { toast } = useToast();
 
   // Use validated localStorage hook with auto-save
-  const [slides, setSlides, { save }] = useLocalStorage<Slide[]>(
-    "pitchDeck",
-    defaultSlides,
-    { schema: PitchDeckDataSchema, debounceMs: 300 }
-  );
+  const [slides, setSlides, { save }] = useStorageDomain("pitchDeck", {
+    defaultValue: defaultSlides,
+    debounceMs: 300,
+  });
 
   const [currentSlide, setCurrentSlide] = useState(0);
   const [viewMode, setViewMode] = useState<ViewMode>("edit");
@@ -91,6 +107,27 @@ const PitchDeck = () => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [draggedImageIndex, setDraggedImageIndex] = useState<number | null>(null);
 
+  // Scenarios from Financials, read once when the deck opens
+  const [scenarioInputs] = useState(() => ({
+    scenarios: readDomain("financials").scenarios,
+    model: readDomain("financialModel"),
+    forecast: readDomain("forecasting"),
+    fundingSources: readDomain("businessPlan").fundingSources,
+  }));
+  const getSlideProjections = (slide: Slide) =>
+    getScenarioProjections(scenarioInputs.scenarios, slide.scenarioId, scenarioInputs);
+
+  // Cap table from Financials, read once when the deck opens
+  const [capTable] = useState(() => readDomain("capTable"));
+  const getSlideCapTable = (slide: Slide) =>
+    slide.showExitWaterfall ? getExitSlide(capTable) : getRoundSlide(capTable, slide.roundId);
+
+  // Open the slide a plan review finding points at
+  usePlanFocus("pitch", useCallback(({ slide }) => {
+    if (slide !== undefined && slide < slides.length) setCurrentSlide(slide);
+    setViewMode("edit");
+  }, [slides.length]));
+
   // Listen for company logo changes from Brand Manager
   useEffect(() => {
     const handleLogoChange = (event: CustomEvent<string>) => {
@@ -126,12 +163,83 @@ const PitchDeck = () => {
     });
   };
 
-  const updateSlide = (index: number, field: keyof Slide, value: string) => {
+  const updateSlide = <K extends keyof Slide>(index: number, field: K, value: Slide[K]) => {
     const newSlides = [...slides];
     newSlides[index] = { ...newSlides[index], [field]: value };
     setSlides(newSlides);
   };
 
+  // Scenario picker for the Financial Projections slide
+  const scenarioPicker = currentSlide === FINANCIAL_PROJECTIONS_SLIDE && (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Scenario to show</label>
+      <Select
+        value={slides[currentSlide].scenarioId || NO_FIGURES}
+        onValueChange={(value) => updateSlide(currentSlide, "scenarioId", value === NO_FIGURES ? "" : value)}
+      >
+        <SelectTrigger aria-label="Scenario to show">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIGURES}>No figures</SelectItem>
+          {scenarioInputs.scenarios.map((scenario) => (
+            <SelectItem key={scenario.id} value={scenario.id}>
+              {scenario.name || "Untitled scenario"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Shows yearly revenue, expenses and profit from the scenarios in Financials
+      </p>
+    </div>
+  );
+
+  // Cap table figures for the Investment Ask and Exit Strategy slides
+  const capTablePicker = currentSlide === INVESTMENT_ASK_SLIDE ? (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Round to show</label>
+      <Select
+        value={slides[currentSlide].roundId || NO_FIGURES}
+        onValueChange={(value) => updateSlide(currentSlide, "roundId", value === NO_FIGURES ? "" : value)}
+      >
+        <SelectTrigger aria-label="Round to show">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIGURES}>No figures</SelectItem>
+          {capTable.rounds.map((round) => (
+            <SelectItem key={round.id} value={round.id}>
+              {round.name || "Untitled round"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Shows the round's valuation and ownership before and after it, from the cap table in Financials
+      </p>
+    </div>
+  ) : currentSlide === EXIT_STRATEGY_SLIDE ? (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Figures to show</label>
+      <Select
+        value={slides[currentSlide].showExitWaterfall ? EXIT_WATERFALL : NO_FIGURES}
+        onValueChange={(value) => updateSlide(currentSlide, "showExitWaterfall", value === EXIT_WATERFALL)}
+      >
+        <SelectTrigger aria-label="Figures to show">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIGURES}>No figures</SelectItem>
+          <SelectItem value={EXIT_WATERFALL}>Exit waterfall</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Shows what each holder gets at the exit valuation in the cap table in Financials
+      </p>
+    </div>
+  ) : null;
+
   const addImageToSlide = (imageUrl: string) => {
     const newSlides = [...slides];
     const currentImages = newSlides[currentSlide].images || [];
@@ -144,7 +252,7 @@ const PitchDeck = () => {
       ...newSlides[currentSlide],
       images: [...currentImages, newImage]
     };
-    setSlides(newSlides);
+    setSlides(newSlides, `Add image to slide ${currentSlide + 1}`);
     toast({
       title: "Image added",
       description: "Image has been added to the slide",
@@ -158,7 +266,7 @@ const PitchDeck = () => {
       ...newSlides[slideIndex],
       images: currentImages.filter((_, i) => i !== imageIndex)
     };
-    setSlides(newSlides);
+    setSlides(newSlides, `Remove image from slide ${slideIndex + 1}`);
   };
 
   const updateImageSettings = (slideIndex: number, imageIndex: number, settings: Partial<SlideImage>) => {
@@ -314,7 +422,15 @@ const PitchDeck = () => {
 
     try {
       const filename = generateFilename("pptx");
-      await exportPitchDeckAsPPTX(filename, slides, companyLogo || undefined);
+      await exportPitchDeckAsPPTX(
+        filename,
+        slides.map((slide) => ({
+          ...slide,
+          projections: getSlideProjections(slide),
+          capTable: getSlideCapTable(slide),
+        })),
+        companyLogo || undefined
+      );
       toast({
         title: "✅ Export successful!",
         description: `Exported as ${filename}`,
@@ -465,6 +581,8 @@ const PitchDeck = () => {
               placeholder={slidePlaceholders[currentSlide].content}
               className="min-h-[300px] md:min-h-[400px] text-sm md:text-base"
             />
+            {scenarioPicker}
+            {capTablePicker}
 
             {/* Image Management */}
             <div className="space-y-3">
@@ -592,6 +710,8 @@ const PitchDeck = () => {
                   className="min-h-[150px] text-sm"
                 />
               </div>
+              {scenarioPicker}
+              {capTablePicker}
 
               {/* Image Management */}
               <div className="space-y-2">
@@ -695,6 +815,8 @@ const PitchDeck = () => {
               totalSlides={slides.length}
               companyLogo={companyLogo ?? undefined}
               images={slides[currentSlide].images}
+              projections={getSlideProjections(slides[currentSlide])}
+              capTable={getSlideCapTable(slides[currentSlide])}
             />
           </div>
         </div>
@@ -716,6 +838,8 @@ const PitchDeck = () => {
                   totalSlides={slides.length}
                   companyLogo={companyLogo ?? undefined}
                   images={slide.images}
+                  projections={getSlideProjections(slide)}
+                  capTable={getSlideCapTable(slide)}
                 />
               </div>
             ))}
@@ -0,0 +1,457 @@
+/**
+ * Plan review: pick who reviews the plan (seed VC, bank loan officer...), tune
+ * the rubric, run the review and read the scored report with links to each field
+ */
+import { useState, useEffect, useRef } from "react";
+import {
+  AlertTriangle,
+  ArrowRight,
+  CheckCircle2,
+  ClipboardCheck,
+  Copy,
+  FileDown,
+  FileText,
+  GitCompare,
+  Loader2,
+  Square,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  REVIEW_RUBRICS,
+  deletePlanReview,
+  getActiveRubric,
+  getPlanReviewsData,
+  getRubricPreset,
+  isPresetRubric,
+  runPlanReview,
+  saveActiveRubric,
+  type PlanReview,
+  type ReviewFinding,
+  type ReviewRubric,
+} from "@/lib/planReview";
+import { focusPlanField } from "@/lib/planFocus";
+import { exportPlanReviewMarkdown, exportToPDF } from "@/lib/exportUtils";
+import {
+  STORAGE_DOMAIN_CHANGED_EVENT,
+  type StorageDomainChangedDetail,
+} from "@/lib/storageRegistry";
+
+interface PlanReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called when a finding's link leaves the dialog for a tab */
+  onNavigate?: () => void;
+}
+
+const REPORT_ELEMENT_ID = "plan-review-report";
+
+const WEIGHT_LABELS = ["Off", "Low", "Normal", "High"];
+
+const FINDING_STYLES: Record<ReviewFinding["kind"], { icon: typeof CheckCircle2; className: string; label: string }> = {
+  strength: { icon: CheckCircle2, className: "text-green-600", label: "Strength" },
+  gap: { icon: AlertTriangle, className: "text-amber-600", label: "Gap" },
+  inconsistency: { icon: GitCompare, className: "text-destructive", label: "Inconsistency" },
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const scoreColor = (score: number, max: number) =>
+  score / max >= 0.7 ? "text-green-600" : score / max >= 0.4 ? "text-amber-600" : "text-destructive";
+
+const PlanReviewDialog = ({ open, onOpenChange, onNavigate }: PlanReviewDialogProps) => {
+  const { toast } = useToast();
+  const [rubric, setRubric] = useState<ReviewRubric>(getActiveRubric);
+  const [reviews, setReviews] = useState<PlanReview[]>(() => getPlanReviewsData().reviews);
+  const [selectedId, setSelectedId] = useState<string | undefined>(() => getPlanReviewsData().reviews[0]?.id);
+  const [progress, setProgress] = useState<{ done: number; total: number; label: string } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PlanReview | null>(null);
+  const [isExportingPDF, setIsExportingPDF] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = () => {
+    const data = getPlanReviewsData();
+    setRubric(data.rubric ?? REVIEW_RUBRICS[0]);
+    setReviews(data.reviews);
+    setSelectedId((current) => (data.reviews.some((review) => review.id === current) ? current : data.reviews[0]?.id));
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  // Pick up reviews from other tabs and project switches
+  useEffect(() => {
+    const handleChange = (event: CustomEvent<StorageDomainChangedDetail>) => {
+      if (event.detail.domain === "planReviews") refresh();
+    };
+    window.addEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange as EventListener);
+    return () => window.removeEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange as EventListener);
+  }, []);
+
+  // Stop a running review when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const review = reviews.find((candidate) => candidate.id === selectedId);
+  const isRunning = progress !== null;
+
+  const updateRubric = (updated: ReviewRubric) => {
+    setRubric(updated);
+    saveActiveRubric(updated);
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: rubric.criteria.length, label: "" });
+    try {
+      const result = await runPlanReview(rubric, {
+        signal: controller.signal,
+        onProgress: (done, total, label) => setProgress({ done, total, label }),
+      });
+      if (result) {
+        refresh();
+        setSelectedId(result.id);
+      }
+    } catch (error) {
+      console.error("[PlanReview] Review failed:", error);
+      toast({
+        title: "Couldn't review your plan",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = (target: PlanReview) => {
+    deletePlanReview(target.id);
+    refresh();
+    toast({ title: "Review deleted", description: `The ${target.rubric.name} review was removed.` });
+  };
+
+  const handleExportPDF = async () => {
+    if (!review) return;
+    setIsExportingPDF(true);
+    try {
+      await exportToPDF(REPORT_ELEMENT_ID, `plan-review-${review.rubric.id}-${review.createdAt.slice(0, 10)}.pdf`);
+    } catch (error) {
+      console.error("[PlanReview] PDF export failed:", error);
+      toast({ title: "Export failed", description: "Couldn't create the PDF.", variant: "destructive" });
+    } finally {
+      setIsExportingPDF(false);
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Rewrite copied", description: "Paste it into the field to use it." });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the text and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  const openTarget = (finding: ReviewFinding) => {
+    if (!finding.target) return;
+    onOpenChange(false);
+    onNavigate?.();
+    focusPlanField(finding.target);
+  };
+
+  const renderFinding = (finding: ReviewFinding) => {
+    const style = FINDING_STYLES[finding.kind];
+    const Icon = style.icon;
+    return (
+      <li key={finding.id} className="flex gap-2">
+        <Icon className={cn("mt-0.5 h-4 w-4 shrink-0", style.className)} aria-label={style.label} />
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-sm">{finding.text}</p>
+          {finding.target && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => openTarget(finding)}>
+              {finding.target.label}
+              <ArrowRight className="ml-1 h-3 w-3" />
+            </Button>
+          )}
+          {finding.rewrite && (
+            <div className="flex items-start gap-2 rounded-md border-l-2 border-primary bg-muted/40 px-2 py-1">
+              <p className="flex-1 whitespace-pre-wrap text-xs italic">{finding.rewrite}</p>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => handleCopy(finding.rewrite!)}
+                aria-label="Copy suggested rewrite"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Plan Review
+            </DialogTitle>
+            <DialogDescription>
+              Mizzie scores your business plan, projections, pitch deck and competitive analysis the way your reader would.
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Rubric */}
+          <section aria-label="Rubric" className="space-y-3 rounded-lg border p-3">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="min-w-[12rem] flex-1 space-y-1">
+                <Label htmlFor="review-rubric">Reviewer</Label>
+                <Select
+                  value={rubric.id}
+                  onValueChange={(id) => updateRubric(getRubricPreset(id) ?? rubric)}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger id="review-rubric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVIEW_RUBRICS.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}
+                        {preset.id === rubric.id && !isPresetRubric(rubric) ? " (customized)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isRunning ? (
+                <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={handleRun}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Review my plan
+                </Button>
+              )}
+            </div>
+
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="link" size="sm" className="h-auto p-0" disabled={isRunning}>
+                  Customize rubric
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3 space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="review-persona">Reviewing as</Label>
+                  <Input
+                    id="review-persona"
+                    value={rubric.persona}
+                    onChange={(event) => updateRubric({ ...rubric, persona: event.target.value })}
+                  />
+                </div>
+                <ul className="divide-y rounded-md border" aria-label="Criteria">
+                  {rubric.criteria.map((criterion) => (
+                    <li key={criterion.id} className="flex items-center gap-3 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium">{criterion.label}</p>
+                        <p className="text-xs text-muted-foreground">{criterion.question}</p>
+                      </div>
+                      <Select
+                        value={String(criterion.weight)}
+                        onValueChange={(weight) =>
+                          updateRubric({
+                            ...rubric,
+                            criteria: rubric.criteria.map((candidate) =>
+                              candidate.id === criterion.id ? { ...candidate, weight: Number(weight) } : candidate
+                            ),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-28" aria-label={`Weight of ${criterion.label}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEIGHT_LABELS.map((label, weight) => (
+                            <SelectItem key={label} value={String(weight)}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </li>
+                  ))}
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {progress && (
+              <div aria-live="polite">
+                <div className="mb-1 flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {progress.label
+                    ? `Reviewing ${progress.label} (${progress.done + 1} of ${progress.total})...`
+                    : "Starting review..."}
+                </div>
+                <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+              </div>
+            )}
+          </section>
+
+          {/* Saved reports */}
+          {reviews.length === 0 ? (
+            <p className="rounded-lg bg-muted/30 p-4 text-center text-sm text-muted-foreground">
+              No reviews yet. Choose a reviewer and press "Review my plan".
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={selectedId} onValueChange={setSelectedId}>
+                <SelectTrigger className="min-w-[14rem] flex-1" aria-label="Saved reviews">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviews.map((saved) => (
+                    <SelectItem key={saved.id} value={saved.id}>
+                      {saved.rubric.name} · {formatDate(saved.createdAt)}
+                      {saved.overallScore !== null ? ` · ${saved.overallScore}/100` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => review && exportPlanReviewMarkdown(review)} disabled={!review}>
+                <FileText className="h-4 w-4 mr-1" />
+                Markdown
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportPDF} disabled={!review || isExportingPDF}>
+                {isExportingPDF ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileDown className="h-4 w-4 mr-1" />}
+                PDF
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => review && setDeleteTarget(review)}
+                disabled={!review}
+                aria-label="Delete review"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          {/* Report */}
+          {review && (
+            <article id={REPORT_ELEMENT_ID} className="space-y-4 bg-background" aria-label="Review report">
+              <div className="flex items-center gap-4 rounded-lg border p-4">
+                <p
+                  className={cn(
+                    "text-4xl font-bold",
+                    review.overallScore !== null ? scoreColor(review.overallScore, 100) : "text-muted-foreground"
+                  )}
+                >
+                  {review.overallScore ?? "—"}
+                  <span className="text-base font-normal text-muted-foreground">/100</span>
+                </p>
+                <div className="min-w-0">
+                  <p className="font-medium">{review.rubric.name} review</p>
+                  <p className="text-sm text-muted-foreground">
+                    As {review.rubric.persona} · {formatDate(review.createdAt)}
+                  </p>
+                </div>
+              </div>
+
+              {review.checks.length > 0 && (
+                <section className="rounded-lg border border-destructive/40 p-3" aria-label="Consistency checks">
+                  <h4 className="mb-2 text-sm font-medium">Consistency checks</h4>
+                  <ul className="space-y-2">{review.checks.map(renderFinding)}</ul>
+                </section>
+              )}
+
+              {review.results.map((result) => (
+                <section key={result.criterionId} className="rounded-lg border p-3" aria-label={result.label}>
+                  <div className="flex items-baseline justify-between gap-2">
+                    <h4 className="font-medium">{result.label}</h4>
+                    <span
+                      className={cn(
+                        "text-sm font-semibold",
+                        result.score !== null ? scoreColor(result.score, 10) : "text-muted-foreground"
+                      )}
+                    >
+                      {result.score !== null ? `${result.score}/10` : "Not scored"}
+                    </span>
+                  </div>
+                  {result.error && <p className="mt-1 text-sm text-muted-foreground">{result.error}</p>}
+                  {result.summary && <p className="mt-1 text-sm text-muted-foreground">{result.summary}</p>}
+                  {result.findings.length > 0 && <ul className="mt-3 space-y-3">{result.findings.map(renderFinding)}</ul>}
+                </section>
+              ))}
+            </article>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(isOpen) => !isOpen && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this review?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {deleteTarget?.rubric.name} review from {deleteTarget && formatDate(deleteTarget.createdAt)} will be
+              permanently deleted. Export it first if you might need it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && handleDelete(deleteTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete review
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default PlanReviewDialog;
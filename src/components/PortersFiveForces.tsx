@@ -3,12 +3,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, Swords, Package, ShoppingCart, RefreshCw, DoorOpen, LucideIcon } from "lucide-react";
+import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, Swords, Package, ShoppingCart, RefreshCw, DoorOpen, Sparkles, LucideIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import { useExport } from "@/hooks/useExport";
-import { PortersDataSchema, type PortersData, type Factor } from "@/lib/validators/schemas";
+import { useAIDraft } from "@/hooks/useAIDraft";
+import type { DraftCandidate } from "@/lib/aiDrafts";
+import type { PortersData, Factor } from "@/lib/validators/schemas";
 import BrandHeader from "./BrandHeader";
+import AIDraftTray from "./AIDraftTray";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,29 +26,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-const defaultPortersData: PortersData = {
-  competitiveRivalry: { rating: "", factors: [], notes: "" },
-  supplierPower: { rating: "", factors: [], notes: "" },
-  buyerPower: { rating: "", factors: [], notes: "" },
-  threatOfSubstitutes: { rating: "", factors: [], notes: "" },
-  threatOfNewEntrants: { rating: "", factors: [], notes: "" },
-};
-
 const PortersFiveForces = () => {
   const { toast } = useToast();
 
   // Use custom hooks with debounce for auto-save
-  const [data, setData, { save }] = useLocalStorage<PortersData>(
-    "portersFiveForces",
-    defaultPortersData,
-    { schema: PortersDataSchema, debounceMs: 500 }
-  );
+  const [data, setData, { save }] = useStorageDomain("porters", { debounceMs: 500 });
 
   const { isExporting, exportPNG, exportPDF } = useExport({
     elementId: "porters-content",
     filename: "porters-five-forces",
   });
 
+  const { candidates, isDrafting, loadingProgress, draft, stop, updateCandidate, dismiss } = useAIDraft("porters");
+
   const [newFactors, setNewFactors] = useState({
     competitiveRivalry: "",
     supplierPower: "",
@@ -112,6 +105,26 @@ const PortersFiveForces = () => {
     }));
   };
 
+  const acceptCandidates = (accepted: DraftCandidate[]) => {
+    setData((prev) => {
+      const next = { ...prev };
+      for (const candidate of accepted) {
+        if (candidate.type === "factor") {
+          const newFactor: Factor = {
+            id: `factor-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            text: candidate.text.trim(),
+          };
+          next[candidate.force] = { ...next[candidate.force], factors: [...next[candidate.force].factors, newFactor] };
+        } else if (candidate.type === "rating") {
+          next[candidate.force] = { ...next[candidate.force], rating: candidate.rating };
+        }
+      }
+      return next;
+    });
+
+    dismiss(accepted.map((candidate) => candidate.id));
+  };
+
   const updateNotes = (force: keyof PortersData, notes: string) => {
     setData((prev) => ({
       ...prev,
@@ -239,6 +252,10 @@ const PortersFiveForces = () => {
           </p>
         </div>
         <div className="flex gap-2 w-full sm:w-auto">
+          <Button variant="outline" onClick={draft} disabled={isDrafting} className="flex-1 sm:flex-none">
+            <Sparkles className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Draft with AI</span>
+          </Button>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" disabled={isExporting} className="flex-1 sm:flex-none">
@@ -273,6 +290,16 @@ const PortersFiveForces = () => {
         </div>
       </div>
 
+      <AIDraftTray
+        candidates={candidates}
+        isDrafting={isDrafting}
+        loadingProgress={loadingProgress}
+        onStop={stop}
+        onChange={updateCandidate}
+        onAccept={acceptCandidates}
+        onDiscard={dismiss}
+      />
+
       <div id="porters-content" className="space-y-4 md:space-y-6">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
           {renderForceCard(
@@ -4,9 +4,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, Map, List } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import { useExport } from "@/hooks/useExport";
-import { RoadmapDataSchema, type Milestone } from "@/lib/validators/schemas";
+import type { Milestone } from "@/lib/validators/schemas";
 import BrandHeader from "./BrandHeader";
 import RoadmapVisual from "./RoadmapVisual";
 import {
@@ -21,11 +21,7 @@ const Roadmap = () => {
   const [viewMode, setViewMode] = useState<"visual" | "list">("visual");
 
   // Use custom hooks
-  const [milestones, setMilestones, { save }] = useLocalStorage<Milestone[]>(
-    "roadmap",
-    [],
-    { schema: RoadmapDataSchema }
-  );
+  const [milestones, setMilestones, { save }] = useStorageDomain("roadmap");
 
   const { isExporting, exportPNG, exportPDF } = useExport({
     elementId: "roadmap-content",
@@ -62,7 +58,7 @@ const Roadmap = () => {
       ...newMilestone,
     };
 
-    setMilestones([...milestones, milestone]);
+    setMilestones([...milestones, milestone], `Add milestone "${milestone.title}"`);
     setNewMilestone({ title: "", description: "", timeframe: "", category: "1-year" });
     toast({
       title: "Milestone added",
@@ -71,7 +67,8 @@ const Roadmap = () => {
   };
 
   const removeMilestone = (id: string) => {
-    setMilestones(milestones.filter((m) => m.id !== id));
+    const milestone = milestones.find((m) => m.id === id);
+    setMilestones(milestones.filter((m) => m.id !== id), `Delete milestone "${milestone?.title ?? ""}"`);
   };
 
   const getMilestonesByCategory = (category: Milestone["category"]) => {
@@ -5,6 +5,7 @@ import { getBrandColors, type BrandColors } from "@/lib/assetManager";
 interface RoadmapVisualProps {
   milestones: Milestone[];
   onMilestoneClick?: (milestone: Milestone) => void;
+  brandColors?: BrandColors;
 }
 
 // Helper to lighten/darken a hex color
@@ -63,10 +64,11 @@ const getMilestoneIcon = (title: string, category: string): string => {
   return "✨";
 };
 
-const RoadmapVisual = ({ milestones, onMilestoneClick }: RoadmapVisualProps) => {
+const RoadmapVisual = ({ milestones, onMilestoneClick, brandColors: brandColorsOverride }: RoadmapVisualProps) => {
   const [hoveredMilestone, setHoveredMilestone] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
-  const [brandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
+  const [storedBrandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
+  const brandColors = brandColorsOverride ?? storedBrandColors;
   const [isDarkMode, setIsDarkMode] = useState(false);
 
   // Detect dark mode
@@ -2,12 +2,15 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, TrendingUp, AlertTriangle, Target, Shield } from "lucide-react";
+import { Plus, Save, Trash2, Download, Loader2, FileImage, FileText, TrendingUp, AlertTriangle, Target, Shield, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
 import { useExport } from "@/hooks/useExport";
-import { SWOTDataSchema, type SWOTData, type SWOTItem } from "@/lib/validators/schemas";
+import { useAIDraft } from "@/hooks/useAIDraft";
+import type { DraftCandidate } from "@/lib/aiDrafts";
+import type { SWOTData, SWOTItem } from "@/lib/validators/schemas";
 import BrandHeader from "./BrandHeader";
+import AIDraftTray from "./AIDraftTray";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,28 +18,27 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-const defaultSWOTData: SWOTData = {
-  strengths: [],
-  weaknesses: [],
-  opportunities: [],
-  threats: [],
+// Singular item names for undo history labels
+const ITEM_LABELS: Record<keyof SWOTData, string> = {
+  strengths: "strength",
+  weaknesses: "weakness",
+  opportunities: "opportunity",
+  threats: "threat",
 };
 
 const SWOTAnalysis = () => {
   const { toast } = useToast();
 
   // Use custom hooks
-  const [data, setData, { save }] = useLocalStorage<SWOTData>(
-    "swotAnalysis",
-    defaultSWOTData,
-    { schema: SWOTDataSchema }
-  );
+  const [data, setData, { save }] = useStorageDomain("swot");
 
   const { isExporting, exportPNG, exportPDF } = useExport({
     elementId: "swot-content",
     filename: "swot-analysis",
   });
 
+  const { candidates, isDrafting, loadingProgress, draft, stop, updateCandidate, dismiss } = useAIDraft("swot");
+
   const [newItems, setNewItems] = useState({
     strengths: "",
     weaknesses: "",
@@ -71,7 +73,7 @@ const SWOTAnalysis = () => {
     setData((prev) => ({
       ...prev,
       [category]: [...prev[category], newItem],
-    }));
+    }), `Add ${ITEM_LABELS[category]}`);
 
     setNewItems((prev) => ({
       ...prev,
@@ -79,11 +81,30 @@ const SWOTAnalysis = () => {
     }));
   };
 
+  const acceptCandidates = (accepted: DraftCandidate[]) => {
+    const items = accepted.flatMap((candidate) => (candidate.type === "swot" ? [candidate] : []));
+    if (items.length === 0) return;
+
+    setData((prev) => {
+      const next = { ...prev };
+      for (const { quadrant, text } of items) {
+        const newItem: SWOTItem = {
+          id: `swot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          text: text.trim(),
+        };
+        next[quadrant] = [...next[quadrant], newItem];
+      }
+      return next;
+    }, items.length === 1 ? `Add ${ITEM_LABELS[items[0].quadrant]}` : `Add ${items.length} SWOT items`);
+
+    dismiss(items.map((item) => item.id));
+  };
+
   const removeItem = (category: keyof SWOTData, id: string) => {
     setData((prev) => ({
       ...prev,
       [category]: prev[category].filter((item) => item.id !== id),
-    }));
+    }), `Delete ${ITEM_LABELS[category]}`);
   };
 
   return (
@@ -97,6 +118,10 @@ const SWOTAnalysis = () => {
           </p>
         </div>
         <div className="flex gap-2 w-full sm:w-auto">
+          <Button variant="outline" onClick={draft} disabled={isDrafting} className="flex-1 sm:flex-none">
+            <Sparkles className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Draft with AI</span>
+          </Button>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" disabled={isExporting} className="flex-1 sm:flex-none">
@@ -131,6 +156,16 @@ const SWOTAnalysis = () => {
         </div>
       </div>
 
+      <AIDraftTray
+        candidates={candidates}
+        isDrafting={isDrafting}
+        loadingProgress={loadingProgress}
+        onStop={stop}
+        onChange={updateCandidate}
+        onAccept={acceptCandidates}
+        onDiscard={dismiss}
+      />
+
       <div id="swot-content">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
           {/* Strengths */}
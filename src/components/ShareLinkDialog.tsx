@@ -0,0 +1,248 @@
+/**
+ * Create a read-only share link: pick the sections to include, optionally
+ * add images and a password, then copy the generated link
+ */
+import { useEffect, useState } from "react";
+import { AlertTriangle, Check, Copy, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SHARE_LINK_WARNING_LENGTH,
+  SHARE_SECTIONS,
+  buildShareUrl,
+  createSharePayload,
+  encodeSharePayload,
+  getShareLinkSize,
+} from "@/lib/shareLink";
+import { MIN_PASSWORD_LENGTH } from "@/lib/workspaceLock";
+import type { ShareSectionId } from "@/lib/validators";
+
+interface ShareLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_SECTIONS = SHARE_SECTIONS.map((section) => section.id);
+
+const ShareLinkDialog = ({ open, onOpenChange }: ShareLinkDialogProps) => {
+  const { toast } = useToast();
+  const [sections, setSections] = useState<ShareSectionId[]>(ALL_SECTIONS);
+  const [includeImages, setIncludeImages] = useState(false);
+  const [usePassword, setUsePassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [link, setLink] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPassword("");
+      setConfirm("");
+      setLink(null);
+      setCopied(false);
+    }
+  }, [open]);
+
+  // Any change to the options makes the current link stale
+  useEffect(() => {
+    setLink(null);
+    setCopied(false);
+  }, [sections, includeImages, usePassword, password]);
+
+  const passwordError = usePassword
+    ? password && password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+      : confirm && confirm !== password
+        ? "Passwords don't match."
+        : null
+    : null;
+  const canGenerate =
+    !isWorking &&
+    sections.length > 0 &&
+    (!usePassword || (password.length >= MIN_PASSWORD_LENGTH && confirm === password));
+  const size = link ? getShareLinkSize(link) : "ok";
+
+  const toggleSection = (id: ShareSectionId, checked: boolean) =>
+    setSections((current) =>
+      checked
+        ? ALL_SECTIONS.filter((section) => section === id || current.includes(section))
+        : current.filter((section) => section !== id)
+    );
+
+  const handleGenerate = async () => {
+    if (!canGenerate) return;
+    setIsWorking(true);
+    try {
+      const encoded = await encodeSharePayload(
+        createSharePayload(sections, { includeImages }),
+        usePassword ? password : undefined
+      );
+      setLink(buildShareUrl(encoded));
+    } catch (error) {
+      console.error("[ShareLinkDialog] Failed to create link:", error);
+      toast({ title: "Couldn't create the link", description: "Please try again.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      toast({
+        title: "Link copied",
+        description: usePassword ? "Send the password separately." : "Anyone with the link can view it.",
+      });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isWorking && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Share Link
+          </DialogTitle>
+          <DialogDescription>
+            A read-only snapshot of your plan stored entirely in the link. Later edits aren't included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4 py-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleGenerate();
+          }}
+        >
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium mb-2">Include</legend>
+            {SHARE_SECTIONS.map((section) => (
+              <div key={section.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`share-${section.id}`}
+                  checked={sections.includes(section.id)}
+                  onCheckedChange={(checked) => toggleSection(section.id, checked === true)}
+                />
+                <Label htmlFor={`share-${section.id}`} className="font-normal">
+                  {section.label}
+                </Label>
+              </div>
+            ))}
+          </fieldset>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="share-images">Include images</Label>
+              <p className="text-xs text-muted-foreground">Logo, slide images and team photos. Makes links much longer.</p>
+            </div>
+            <Switch id="share-images" checked={includeImages} onCheckedChange={setIncludeImages} />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="share-protect">Password protect</Label>
+              <p className="text-xs text-muted-foreground">Viewers need the password to open the link.</p>
+            </div>
+            <Switch id="share-protect" checked={usePassword} onCheckedChange={setUsePassword} />
+          </div>
+
+          {usePassword && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-confirm">Confirm password</Label>
+                <Input
+                  id="share-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirm}
+                  onChange={(event) => setConfirm(event.target.value)}
+                  aria-describedby={passwordError ? "share-password-error" : undefined}
+                />
+              </div>
+              {passwordError && (
+                <p id="share-password-error" className="text-sm text-destructive">
+                  {passwordError}
+                </p>
+              )}
+            </div>
+          )}
+
+          {link && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={link}
+                  aria-label="Share link"
+                  onFocus={(event) => event.target.select()}
+                  className="font-mono text-xs"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleCopy}
+                  disabled={size === "too-long"}
+                  aria-label="Copy link"
+                >
+                  {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{link.length.toLocaleString()} characters</p>
+              {size !== "ok" && (
+                <p role="alert" className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+                  {size === "too-long"
+                    ? "This link is too long for browsers to open. Leave out images or some sections."
+                    : `Links over ${SHARE_LINK_WARNING_LENGTH.toLocaleString()} characters may be cut off by email and chat apps. Leave out images to shorten it.`}
+                </p>
+              )}
+            </div>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isWorking}>
+            Close
+          </Button>
+          <Button onClick={handleGenerate} disabled={!canGenerate || link !== null}>
+            {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+            Create Link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareLinkDialog;
@@ -1,5 +1,8 @@
 import { useState, useEffect } from "react";
 import { getBrandColors, BrandColors } from "@/lib/assetManager";
+import type { ScenarioProjections } from "@/lib/scenarios";
+import type { CapTableSlide } from "@/lib/capTable";
+import { formatCompact } from "@/components/financials/types";
 
 interface SlideImage {
   url: string;
@@ -14,15 +17,32 @@ interface SlidePreviewProps {
   totalSlides: number;
   companyLogo?: string;
   images?: SlideImage[];
+  /** Overrides the saved brand colors */
+  brandColors?: BrandColors;
+  /** Scenario figures for the Financial Projections slide */
+  projections?: ScenarioProjections;
+  /** Cap table figures for the Investment Ask and Exit Strategy slides */
+  capTable?: CapTableSlide;
 }
 
-const SlidePreview = ({ title, content, slideNumber, totalSlides, companyLogo, images }: SlidePreviewProps) => {
+const SlidePreview = ({
+  title,
+  content,
+  slideNumber,
+  totalSlides,
+  companyLogo,
+  images,
+  brandColors: brandColorsOverride,
+  projections,
+  capTable,
+}: SlidePreviewProps) => {
   // Determine slide type based on title for different layouts
   const isTitleSlide = slideNumber === 1;
   const isContactSlide = title.toLowerCase().includes("contact");
 
   // Get brand colors with live updates
-  const [brandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
+  const [storedBrandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
+  const brandColors = brandColorsOverride ?? storedBrandColors;
 
   useEffect(() => {
     // Listen for brand color changes
@@ -149,6 +169,74 @@ const SlidePreview = ({ title, content, slideNumber, totalSlides, companyLogo, i
                 </p>
               )}
 
+              {/* Projections for the chosen scenario */}
+              {projections && projections.projections.length > 0 && (
+                <div>
+                  <table className="w-full text-sm md:text-base">
+                    <thead>
+                      <tr className="border-b" style={{ borderColor: `${brandColors.primary}40` }}>
+                        <th className="text-left py-1 font-medium text-muted-foreground">&nbsp;</th>
+                        {projections.projections.map((p) => (
+                          <th key={p.year} className="text-right py-1 font-semibold" style={{ color: brandColors.primary }}>
+                            Year {p.year}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-muted-foreground">
+                      <tr>
+                        <td className="py-1">Revenue</td>
+                        {projections.projections.map((p) => (
+                          <td key={p.year} className="text-right">{formatCompact(p.revenue)}</td>
+                        ))}
+                      </tr>
+                      <tr>
+                        <td className="py-1">Expenses</td>
+                        {projections.projections.map((p) => (
+                          <td key={p.year} className="text-right">{formatCompact(p.expenses)}</td>
+                        ))}
+                      </tr>
+                      <tr className="font-medium">
+                        <td className="py-1">Profit</td>
+                        {projections.projections.map((p) => (
+                          <td key={p.year} className="text-right">{formatCompact(p.revenue - p.expenses)}</td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground/60 mt-1">{projections.name}</p>
+                </div>
+              )}
+
+              {/* Round or exit figures from the cap table */}
+              {capTable && capTable.rows.length > 0 && (
+                <div>
+                  <table className="w-full text-sm md:text-base">
+                    <thead>
+                      <tr className="border-b" style={{ borderColor: `${brandColors.primary}40` }}>
+                        <th className="text-left py-1 font-medium text-muted-foreground">&nbsp;</th>
+                        {capTable.columns.map((column) => (
+                          <th key={column} className="text-right py-1 font-semibold" style={{ color: brandColors.primary }}>
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-muted-foreground">
+                      {capTable.rows.map((row) => (
+                        <tr key={row.label}>
+                          <td className="py-1">{row.label}</td>
+                          {row.values.map((value, index) => (
+                            <td key={capTable.columns[index]} className="text-right">{value}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground/60 mt-1">{capTable.caption}</p>
+                </div>
+              )}
+
               {/* Display regular images (non-full size) */}
               {regularImages.length > 0 && (
                 <div className="space-y-3">
@@ -184,7 +272,7 @@ const SlidePreview = ({ title, content, slideNumber, totalSlides, companyLogo, i
                 </div>
               )}
 
-              {!content && (!images || images.length === 0) && (
+              {!content && (!images || images.length === 0) && !projections?.projections.length && !capTable?.rows.length && (
                 <p className="text-sm md:text-lg text-muted-foreground/40">
                   Add your content here...
                 </p>
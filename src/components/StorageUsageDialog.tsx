@@ -1,5 +1,5 @@
 /**
- * Dialog showing localStorage usage with visual breakdown
+ * Dialog showing storage usage (quota from navigator.storage.estimate()) with visual breakdown
  */
 import { HardDrive, AlertTriangle, RefreshCw, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -12,7 +12,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
-import { useStorageMonitor, type StorageBreakdown } from "@/hooks/useStorageMonitor";
+import { useStorageMonitor, formatBytes, type StorageBreakdown } from "@/hooks/useStorageMonitor";
 import { cn } from "@/lib/utils";
 
 interface StorageUsageDialogProps {
@@ -20,32 +20,17 @@ interface StorageUsageDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
-// Friendly names for storage keys
-const KEY_LABELS: Record<string, string> = {
-  businessModelCanvas: "Business Model Canvas",
-  businessPlan: "Business Plan",
-  pitchDeck: "Pitch Deck",
-  roadmap: "Roadmap",
-  orgChart: "Team & Org Chart",
-  checklist: "Checklist",
-  forecasting: "Financial Forecasting",
-  financials: "Financials",
-  brandAssets: "Brand Assets (Images)",
-  brandColors: "Brand Colors",
-  companyLogo: "Company Logo",
-  swotAnalysis: "SWOT Analysis",
-  portersFiveForces: "Porter's Five Forces",
-  nameChecker: "Name Checker",
-  marketResearch: "Market Research",
-  aiSettings: "AI Settings",
-};
-
 function StorageBreakdownItem({ item }: { item: StorageBreakdown }) {
-  const label = KEY_LABELS[item.key] || item.key;
-  
+  const label = item.label || item.key;
+
   return (
     <div className="flex items-center justify-between py-1.5 border-b border-border/50 last:border-0">
-      <span className="text-sm text-foreground">{label}</span>
+      <span className="text-sm text-foreground">
+        {label}
+        {item.backend === "indexedDB" && (
+          <span className="ml-1.5 text-xs text-muted-foreground">(IndexedDB)</span>
+        )}
+      </span>
       <div className="flex items-center gap-2">
         <span className="text-sm font-medium">{item.formatted}</span>
         <span className="text-xs text-muted-foreground w-12 text-right">
@@ -93,6 +78,9 @@ export default function StorageUsageDialog({ open, onOpenChange }: StorageUsageD
             <div className="flex justify-between text-sm">
               <span className="font-medium">
                 {storage.usedFormatted} of {storage.limitFormatted}
+                <span className="ml-1 text-xs font-normal text-muted-foreground">
+                  {storage.source === "estimate" ? "browser quota" : "localStorage limit"}
+                </span>
               </span>
               <span className={cn(
                 "font-bold",
@@ -117,6 +105,12 @@ export default function StorageUsageDialog({ open, onOpenChange }: StorageUsageD
             </div>
           </div>
 
+          {storage.source === "estimate" && storage.localStorageBytes > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {formatBytes(storage.localStorageBytes)} still in localStorage (limited to about 5 MB).
+            </p>
+          )}
+
           {/* Warning Messages */}
           {storage.isCritical && (
             <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3">
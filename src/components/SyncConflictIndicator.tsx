@@ -0,0 +1,81 @@
+/**
+ * Header indicator shown while the same fields are being edited in another tab or window
+ */
+import { useSyncExternalStore } from "react";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { clearConflict, getConflicts, subscribeToConflicts, type SyncConflict } from "@/lib/crossTabSync";
+import { STORAGE_REGISTRY, findDomainByKey } from "@/lib/storageRegistry";
+
+/** Fields listed per conflict before collapsing into "and N more" */
+const MAX_VISIBLE_FIELDS = 3;
+
+const getSectionLabel = (key: string) => {
+  const domain = findDomainByKey(key);
+  return domain ? STORAGE_REGISTRY[domain].label : key;
+};
+
+function ConflictRow({ conflict }: { conflict: SyncConflict }) {
+  const fields = conflict.fields.map((field) => field || "(whole section)");
+  return (
+    <li className="space-y-1 px-3 py-2">
+      <p className="text-sm font-medium">{getSectionLabel(conflict.key)}</p>
+      <p className="text-xs text-muted-foreground">
+        {conflict.kind === "editing"
+          ? "Also being edited in another tab:"
+          : "Changed in another tab while you were editing. Your version was kept for:"}
+      </p>
+      <p className="font-mono text-xs break-all">
+        {fields.slice(0, MAX_VISIBLE_FIELDS).join(", ")}
+        {fields.length > MAX_VISIBLE_FIELDS && ` and ${fields.length - MAX_VISIBLE_FIELDS} more`}
+      </p>
+      {conflict.kind === "overwritten" && (
+        <div className="flex gap-2 pt-1">
+          {conflict.useTheirs && (
+            <Button variant="outline" size="sm" className="h-7" onClick={conflict.useTheirs}>
+              Use theirs
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => clearConflict(conflict.key, conflict.kind)}>
+            Keep mine
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+const SyncConflictIndicator = () => {
+  const conflicts = useSyncExternalStore(subscribeToConflicts, getConflicts);
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 text-yellow-600 dark:text-yellow-400"
+          aria-label={`Editing conflicts in ${conflicts.length} sections`}
+          title="Editing conflict with another tab"
+        >
+          <Users className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-3 py-2">
+          <h4 className="text-sm font-medium">Editing Conflicts</h4>
+          <p className="text-xs text-muted-foreground">Mizzie is open in another tab or window</p>
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y" aria-label="Editing conflicts">
+          {conflicts.map((conflict) => (
+            <ConflictRow key={`${conflict.key}:${conflict.kind}`} conflict={conflict} />
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncConflictIndicator;
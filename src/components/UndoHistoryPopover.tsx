@@ -0,0 +1,95 @@
+/**
+ * Header controls for the app-wide undo/redo history
+ */
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { cn } from "@/lib/utils";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+const UndoHistoryPopover = () => {
+  const { past, future, canUndo, canRedo, undo, redo, undoTo } = useUndoHistory();
+  const lastAction = past[past.length - 1];
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={undo}
+        disabled={!canUndo}
+        aria-label={lastAction ? `Undo ${lastAction.label}` : "Nothing to undo"}
+        title={lastAction ? `Undo ${lastAction.label} (Ctrl+Z)` : "Nothing to undo"}
+      >
+        <Undo2 className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9 hidden sm:inline-flex"
+        onClick={redo}
+        disabled={!canRedo}
+        aria-label={future[0] ? `Redo ${future[0].label}` : "Nothing to redo"}
+        title={future[0] ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+      >
+        <Redo2 className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 hidden sm:inline-flex"
+            aria-label="Edit history"
+          >
+            <History className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-0">
+          <div className="border-b px-3 py-2">
+            <h4 className="text-sm font-medium">Edit History</h4>
+            <p className="text-xs text-muted-foreground">Click an action to undo back to it</p>
+          </div>
+          {past.length === 0 && future.length === 0 ? (
+            <p className="px-3 py-4 text-sm text-muted-foreground text-center">No changes yet</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto py-1" aria-label="Edit history">
+              {/* Undone actions, most recently undone nearest the current state */}
+              {[...future].reverse().map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-muted-foreground line-through"
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0 text-xs">{formatTime(entry.timestamp)}</span>
+                </li>
+              ))}
+              {[...past].reverse().map((entry, index) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted",
+                      index === 0 && "font-medium"
+                    )}
+                    onClick={() => undoTo(entry.id)}
+                  >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{formatTime(entry.timestamp)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default UndoHistoryPopover;
@@ -0,0 +1,85 @@
+/**
+ * Password prompt shown on start while the workspace is locked (see workspaceLock.ts)
+ */
+import { useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { unlockWorkspace } from "@/lib/workspaceLock";
+
+interface UnlockScreenProps {
+  onUnlock: () => void;
+}
+
+const UnlockScreen = ({ onUnlock }: UnlockScreenProps) => {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!password || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockWorkspace(password);
+      onUnlock();
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : "Couldn't unlock the workspace.");
+      setPassword("");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-background p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-5 rounded-lg border bg-card p-6 shadow-sm"
+        aria-labelledby="unlock-title"
+      >
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Lock className="h-6 w-6 text-primary" aria-hidden="true" />
+          </div>
+          <h1 id="unlock-title" className="text-xl font-semibold">
+            Workspace locked
+          </h1>
+          <p className="text-sm text-muted-foreground">Enter your password to open your business plans.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="unlock-password">Password</Label>
+          <Input
+            id="unlock-password"
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            aria-invalid={error !== null}
+            aria-describedby={error ? "unlock-error" : undefined}
+          />
+          {error && (
+            <p id="unlock-error" role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={!password || isUnlocking}>
+          {isUnlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />}
+          Unlock
+        </Button>
+
+        <p className="text-xs text-muted-foreground text-center">
+          Forgot your password? Encrypted data can't be recovered without it.
+        </p>
+      </form>
+    </main>
+  );
+};
+
+export default UnlockScreen;
@@ -0,0 +1,320 @@
+/**
+ * Version history: save named snapshots, compare any two versions field by field,
+ * and restore a single section or the whole project
+ */
+import { useState, useEffect, useMemo } from "react";
+import { History, Save, RotateCcw, Trash2, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import FieldChangeList from "@/components/FieldChangeList";
+import { useToast } from "@/hooks/use-toast";
+import {
+  captureProjectData,
+  countChanges,
+  createSnapshot,
+  deleteSnapshot,
+  diffSnapshotData,
+  getSnapshots,
+  restoreSnapshot,
+  SnapshotRestoreError,
+  type SectionDiff,
+} from "@/lib/snapshots";
+import { STORAGE_REGISTRY, type StorageDomainId } from "@/lib/storageRegistry";
+import type { Snapshot } from "@/lib/validators";
+import { cn } from "@/lib/utils";
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Value of the "to" selector that compares against the live data */
+const CURRENT = "current";
+
+interface PendingRestore {
+  snapshot: Snapshot;
+  section?: SectionDiff;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const VersionHistoryDialog = ({ open, onOpenChange }: VersionHistoryDialogProps) => {
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const refresh = () => {
+    const list = getSnapshots();
+    setSnapshots(list);
+    setFromId((current) => (list.some((s) => s.id === current) ? current : list[0]?.id ?? ""));
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  const fromSnapshot = snapshots.find((snapshot) => snapshot.id === fromId);
+
+  const diff = useMemo(() => {
+    if (!open || !fromSnapshot) return [];
+    const target = toId === CURRENT ? captureProjectData() : snapshots.find((s) => s.id === toId)?.data ?? {};
+    return diffSnapshotData(fromSnapshot.data, target);
+  }, [open, fromSnapshot, toId, snapshots]);
+
+  const handleSave = () => {
+    const snapshot = createSnapshot(snapshotName);
+    setSnapshotName("");
+    refresh();
+    toast({ title: "Snapshot saved", description: `"${snapshot.name}" added to version history.` });
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    deleteSnapshot(snapshot.id);
+    refresh();
+    toast({ title: "Snapshot deleted", description: `"${snapshot.name}" was removed.` });
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+    const { snapshot, section } = pendingRestore;
+    const domains: StorageDomainId[] | undefined = section ? [section.domain] : undefined;
+
+    setIsRestoring(true);
+    try {
+      await restoreSnapshot(snapshot, domains);
+      toast({
+        title: "Version restored",
+        description: `${section ? section.label : "Everything"} restored from "${snapshot.name}". Refreshing...`,
+      });
+      // Reload so every tab reads the restored data
+      setTimeout(() => window.location.reload(), 1000);
+    } catch (error) {
+      console.error("[VersionHistory] Restore failed:", error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof SnapshotRestoreError
+          ? `Only ${error.restored.map((domain) => STORAGE_REGISTRY[domain].label).join(", ")} ${error.restored.length === 1 ? "was" : "were"} restored. Restore "${error.backupName}" to undo it.`
+          : "Your current data was not changed.",
+        variant: "destructive",
+      });
+      setIsRestoring(false);
+    }
+    setPendingRestore(null);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </DialogTitle>
+            <DialogDescription>
+              Snapshots cover every section of this project. Mizzie also autosaves one after significant edits.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleSave();
+            }}
+          >
+            <Input
+              placeholder="Snapshot name, e.g. Before investor meeting"
+              value={snapshotName}
+              onChange={(event) => setSnapshotName(event.target.value)}
+              aria-label="Snapshot name"
+            />
+            <Button type="submit" className="shrink-0">
+              <Save className="h-4 w-4 mr-2" />
+              Save Snapshot
+            </Button>
+          </form>
+
+          <div className="grid gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+            {/* Snapshot List */}
+            <section aria-label="Snapshots" className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Snapshots ({snapshots.length})</h4>
+              {snapshots.length === 0 ? (
+                <p className="text-sm text-muted-foreground bg-muted/30 rounded-lg p-4 text-center">
+                  No snapshots yet. Save one above to start your history.
+                </p>
+              ) : (
+                <ul className="max-h-[50vh] overflow-y-auto divide-y divide-border rounded-lg border">
+                  {snapshots.map((snapshot) => (
+                    <li
+                      key={snapshot.id}
+                      className={cn(
+                        "flex items-center gap-2 p-2 cursor-pointer hover:bg-muted/50",
+                        snapshot.id === fromId && "bg-muted"
+                      )}
+                      onClick={() => setFromId(snapshot.id)}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate text-sm font-medium">{snapshot.name}</span>
+                          {snapshot.kind === "auto" && <Badge variant="outline">Auto</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDate(snapshot.createdAt)} · {Object.keys(snapshot.data).length} sections
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setPendingRestore({ snapshot });
+                        }}
+                        aria-label={`Restore everything from ${snapshot.name}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleDelete(snapshot);
+                        }}
+                        aria-label={`Delete ${snapshot.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Comparison */}
+            <section aria-label="Compare versions" className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Compare</h4>
+              <div className="flex items-center gap-2">
+                <Select value={fromId} onValueChange={setFromId} disabled={snapshots.length === 0}>
+                  <SelectTrigger aria-label="Compare from">
+                    <SelectValue placeholder="Select a snapshot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>
+                        {snapshot.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+                <Select value={toId} onValueChange={setToId} disabled={snapshots.length === 0}>
+                  <SelectTrigger aria-label="Compare to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT}>Current data</SelectItem>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>
+                        {snapshot.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {fromSnapshot && (
+                <p className="text-xs text-muted-foreground">
+                  {diff.length === 0
+                    ? "No differences."
+                    : `${countChanges(diff)} changed fields in ${diff.length} sections.`}
+                </p>
+              )}
+
+              <div className="max-h-[50vh] overflow-y-auto space-y-3">
+                {diff.map((section) => (
+                  <div key={section.domain} className="rounded-lg border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{section.label}</span>
+                        <Badge variant="secondary">{section.changes.length}</Badge>
+                      </div>
+                      {fromSnapshot && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => setPendingRestore({ snapshot: fromSnapshot, section })}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Restore section
+                        </Button>
+                      )}
+                    </div>
+                    <FieldChangeList changes={section.changes} className="mt-2" />
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore Confirmation Dialog */}
+      <AlertDialog open={pendingRestore !== null} onOpenChange={(isOpen) => !isOpen && setPendingRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Restore {pendingRestore?.section ? pendingRestore.section.label : "everything"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRestore?.section ? "This section" : "Every section"} will be replaced with the version
+              from "{pendingRestore?.snapshot.name}". Your current data is autosaved to the history first, so
+              you can switch back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={isRestoring}>
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default VersionHistoryDialog;
@@ -0,0 +1,265 @@
+/**
+ * Settings for the password-protected workspace: turn encryption on or off,
+ * change the password, pick the auto-lock timeout and lock right away
+ */
+import { useEffect, useState } from "react";
+import { KeyRound, Loader2, Lock, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUTO_LOCK_OPTIONS,
+  MIN_PASSWORD_LENGTH,
+  changeWorkspacePassword,
+  disableWorkspaceLock,
+  enableWorkspaceLock,
+  getWorkspaceLockConfig,
+  lockWorkspace,
+  setAutoLockMinutes,
+} from "@/lib/workspaceLock";
+
+interface WorkspaceLockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type LockAction = "enable" | "change" | "disable";
+
+const formatAutoLock = (minutes: number) =>
+  minutes === 0 ? "Never" : minutes === 60 ? "After 1 hour" : `After ${minutes} minutes`;
+
+const EMPTY_FORM = { current: "", password: "", confirm: "" };
+
+const WorkspaceLockDialog = ({ open, onOpenChange }: WorkspaceLockDialogProps) => {
+  const { toast } = useToast();
+  const [config, setConfig] = useState(getWorkspaceLockConfig);
+  const [action, setAction] = useState<LockAction | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [autoLockMinutes, setAutoLock] = useState(15);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      const current = getWorkspaceLockConfig();
+      setConfig(current);
+      setAction(current ? null : "enable");
+      setForm(EMPTY_FORM);
+      setAutoLock(current?.autoLockMinutes ?? 15);
+    }
+  }, [open]);
+
+  const needsNewPassword = action === "enable" || action === "change";
+  const passwordError =
+    needsNewPassword && form.password && form.password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+      : needsNewPassword && form.confirm && form.confirm !== form.password
+        ? "Passwords don't match."
+        : null;
+  const canSubmit =
+    !isWorking &&
+    (action === "disable"
+      ? form.current.length > 0
+      : form.password.length >= MIN_PASSWORD_LENGTH &&
+        form.confirm === form.password &&
+        (action !== "change" || form.current.length > 0));
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = Number(value);
+    setAutoLock(minutes);
+    if (config) {
+      setAutoLockMinutes(minutes);
+      toast({ title: "Auto-lock updated", description: formatAutoLock(minutes) });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!action || !canSubmit) return;
+    setIsWorking(true);
+    try {
+      if (action === "enable") {
+        await enableWorkspaceLock(form.password, autoLockMinutes);
+        toast({ title: "Workspace encrypted", description: "You'll need your password the next time you open Mizzie." });
+      } else if (action === "change") {
+        await changeWorkspacePassword(form.current, form.password);
+        toast({ title: "Password changed" });
+      } else {
+        await disableWorkspaceLock(form.current);
+        toast({ title: "Password protection turned off", description: "Your data is no longer encrypted." });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't update the workspace lock",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateForm = (field: keyof typeof EMPTY_FORM) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isWorking && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Workspace Lock
+          </DialogTitle>
+          <DialogDescription>
+            {config
+              ? "Your projects are encrypted on this device and need your password to open."
+              : "Encrypt every project on this device with a password. Useful on shared computers."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="auto-lock">Lock automatically</Label>
+            <Select value={String(autoLockMinutes)} onValueChange={handleAutoLockChange}>
+              <SelectTrigger id="auto-lock">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {formatAutoLock(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">After this long without using Mizzie.</p>
+          </div>
+
+          {config && action === null && (
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setAction("change")}>
+                <KeyRound className="h-4 w-4 mr-2" aria-hidden="true" />
+                Change Password
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAction("disable")}>
+                <ShieldOff className="h-4 w-4 mr-2" aria-hidden="true" />
+                Turn Off
+              </Button>
+            </div>
+          )}
+
+          {action && (
+            <form
+              className="space-y-3"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleSubmit();
+              }}
+            >
+              {(action === "change" || action === "disable") && (
+                <div className="space-y-2">
+                  <Label htmlFor="lock-current">Current password</Label>
+                  <Input
+                    id="lock-current"
+                    type="password"
+                    autoComplete="current-password"
+                    autoFocus
+                    value={form.current}
+                    onChange={updateForm("current")}
+                  />
+                </div>
+              )}
+              {needsNewPassword && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="lock-password">{action === "change" ? "New password" : "Password"}</Label>
+                    <Input
+                      id="lock-password"
+                      type="password"
+                      autoComplete="new-password"
+                      autoFocus={action === "enable"}
+                      value={form.password}
+                      onChange={updateForm("password")}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lock-confirm">Confirm password</Label>
+                    <Input
+                      id="lock-confirm"
+                      type="password"
+                      autoComplete="new-password"
+                      value={form.confirm}
+                      onChange={updateForm("confirm")}
+                      aria-describedby={passwordError ? "lock-password-error" : undefined}
+                    />
+                  </div>
+                  {passwordError && (
+                    <p id="lock-password-error" className="text-sm text-destructive">
+                      {passwordError}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    There is no way to recover a forgotten password. Export a backup first if you're unsure.
+                  </p>
+                </>
+              )}
+              {action === "disable" && (
+                <p className="text-xs text-muted-foreground">
+                  Your projects will be stored unencrypted and open without a password.
+                </p>
+              )}
+            </form>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {config && action === null ? (
+            <Button onClick={() => lockWorkspace()}>
+              <Lock className="h-4 w-4 mr-2" aria-hidden="true" />
+              Lock Now
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => (config ? setAction(null) : onOpenChange(false))}
+                disabled={isWorking}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={!canSubmit}
+                variant={action === "disable" ? "destructive" : "default"}
+              >
+                {isWorking ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+                ) : (
+                  action === "enable" && <ShieldCheck className="h-4 w-4 mr-2" aria-hidden="true" />
+                )}
+                {action === "enable" ? "Encrypt Workspace" : action === "change" ? "Change Password" : "Turn Off"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceLockDialog;
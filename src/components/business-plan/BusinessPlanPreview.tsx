@@ -28,6 +28,8 @@ import {
 interface BusinessPlanPreviewProps {
   data: BusinessPlanData;
   compact?: boolean; // For inline preview vs full document
+  brandColors?: BrandColors;
+  companyLogo?: string | null;
 }
 
 // Phase icons mapping
@@ -45,9 +47,16 @@ const PHASE_ICONS = {
   11: Wallet,
 };
 
-const BusinessPlanPreview = ({ data, compact = false }: BusinessPlanPreviewProps) => {
-  const [brandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
-  const [logo, setLogo] = useState<string | null>(getCompanyLogo());
+const BusinessPlanPreview = ({
+  data,
+  compact = false,
+  brandColors: brandColorsOverride,
+  companyLogo,
+}: BusinessPlanPreviewProps) => {
+  const [storedBrandColors, setBrandColors] = useState<BrandColors>(getBrandColors());
+  const [storedLogo, setLogo] = useState<string | null>(getCompanyLogo());
+  const brandColors = brandColorsOverride ?? storedBrandColors;
+  const logo = companyLogo !== undefined ? companyLogo : storedLogo;
   const [isDarkMode, setIsDarkMode] = useState(false);
 
   useEffect(() => {
@@ -393,7 +402,10 @@ const BusinessPlanPreview = ({ data, compact = false }: BusinessPlanPreviewProps
                   }`}>
                     {risk.impact}
                   </span>
-                  <span>{risk.description}</span>
+                  <span>
+                    {risk.description}
+                    {risk.mitigation && <span className="text-muted-foreground"> — Mitigation: {risk.mitigation}</span>}
+                  </span>
                 </div>
               ))}
             </div>
@@ -11,10 +11,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Plus, Trash2, Beaker, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, Trash2, Beaker, ChevronDown, ChevronUp, Sparkles } from "lucide-react";
 import { PhaseProps } from "../types";
 import { generateId } from "../utils";
 import { Risk, Experiment } from "@/lib/validators/schemas";
+import { useAIDraft } from "@/hooks/useAIDraft";
+import type { DraftCandidate } from "@/lib/aiDrafts";
+import AIDraftTray from "@/components/AIDraftTray";
 import {
   Select,
   SelectContent,
@@ -34,6 +37,7 @@ const IMPACT_OPTIONS = ["Low", "Medium", "High"] as const;
 
 const RisksPlanPhase = ({ data, updateData }: PhaseProps) => {
   const [experimentsOpen, setExperimentsOpen] = useState(true);
+  const { candidates, isDrafting, loadingProgress, draft, stop, updateCandidate, dismiss } = useAIDraft("risks");
 
   // Risk handlers
   const addRisk = () => {
@@ -42,10 +46,26 @@ const RisksPlanPhase = ({ data, updateData }: PhaseProps) => {
       description: "",
       likelihood: "Medium",
       impact: "Medium",
+      mitigation: "",
     };
     updateData({ risks: [...data.risks, newRisk] });
   };
 
+  const acceptCandidates = (accepted: DraftCandidate[]) => {
+    const drafted = accepted.flatMap((candidate) => (candidate.type === "risk" ? [candidate] : []));
+    if (drafted.length === 0) return;
+
+    const newRisks: Risk[] = drafted.map(({ description, likelihood, impact, mitigation }) => ({
+      id: generateId("risk"),
+      description: description.trim(),
+      likelihood,
+      impact,
+      mitigation: mitigation.trim(),
+    }));
+    updateData({ risks: [...data.risks, ...newRisks] });
+    dismiss(drafted.map((candidate) => candidate.id));
+  };
+
   // Experiment handlers
   const addExperiment = () => {
     const newExperiment: Experiment = {
@@ -103,12 +123,28 @@ const RisksPlanPhase = ({ data, updateData }: PhaseProps) => {
               What could go wrong? Identify and assess key risks.
             </p>
           </div>
-          <Button variant="outline" size="sm" onClick={addRisk}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Risk
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={draft} disabled={isDrafting}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Draft with AI
+            </Button>
+            <Button variant="outline" size="sm" onClick={addRisk}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Risk
+            </Button>
+          </div>
         </div>
 
+        <AIDraftTray
+          candidates={candidates}
+          isDrafting={isDrafting}
+          loadingProgress={loadingProgress}
+          onStop={stop}
+          onChange={updateCandidate}
+          onAccept={acceptCandidates}
+          onDiscard={dismiss}
+        />
+
         {data.risks.length === 0 ? (
           <Card className="p-4 text-center text-muted-foreground">
             <p>No risks identified yet.</p>
@@ -176,6 +212,12 @@ const RisksPlanPhase = ({ data, updateData }: PhaseProps) => {
                     </Select>
                   </div>
                 </div>
+                <Input
+                  value={risk.mitigation}
+                  onChange={(e) => updateRisk(risk.id, { mitigation: e.target.value })}
+                  placeholder="How will you reduce or handle this risk?"
+                  aria-label="Mitigation"
+                />
               </Card>
             ))}
           </div>
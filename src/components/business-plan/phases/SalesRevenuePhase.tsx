@@ -1,16 +1,26 @@
 /**
  * Phase 7: Sales & Revenue
  * 
- * Captures sales targets and revenue projections.
+ * Captures sales targets and revenue projections. Once the break-even
+ * calculator in Financials has a price, it sets the sales target and units needed.
  */
 
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import { getSalesTargets, hasUnitEconomics } from "@/lib/unitEconomics";
 import { PhaseProps } from "../types";
 
+const CALCULATED_NOTE = "Calculated by the break-even calculator in Financials.";
+
 const SalesRevenuePhase = ({ data, updateData, isExistingBusiness }: PhaseProps) => {
+  const [financials] = useStorageDomain("financials");
+  const calculated = hasUnitEconomics(financials.unitEconomicsInputs)
+    ? getSalesTargets(financials.unitEconomicsInputs)
+    : null;
+
   return (
     <div className="space-y-6">
       {/* Year One Sales Target */}
@@ -27,10 +37,12 @@ const SalesRevenuePhase = ({ data, updateData, isExistingBusiness }: PhaseProps)
             <Label htmlFor="year1-target">Year One Sales Target</Label>
             <Input
               id="year1-target"
-              value={data.yearOneSalesTarget}
+              value={calculated?.yearOneSalesTarget ?? data.yearOneSalesTarget}
               onChange={(e) => updateData({ yearOneSalesTarget: e.target.value })}
               placeholder="e.g., $100,000"
+              readOnly={Boolean(calculated)}
             />
+            {calculated && <p className="text-xs text-muted-foreground">{CALCULATED_NOTE}</p>}
           </div>
           {isExistingBusiness && (
             <div className="space-y-2">
@@ -69,14 +81,15 @@ const SalesRevenuePhase = ({ data, updateData, isExistingBusiness }: PhaseProps)
           How many units or customers do you need?
         </Label>
         <p className="text-sm text-muted-foreground">
-          Break down your target into actionable numbers.
+          {calculated ? CALCULATED_NOTE : "Break down your target into actionable numbers."}
         </p>
         <Textarea
           id="units"
-          value={data.unitsOrCustomersNeeded}
+          value={calculated?.unitsOrCustomersNeeded ?? data.unitsOrCustomersNeeded}
           onChange={(e) => updateData({ unitsOrCustomersNeeded: e.target.value })}
           placeholder="e.g., 50 customers at $2,000/year = $100,000..."
           className="min-h-[100px]"
+          readOnly={Boolean(calculated)}
         />
       </div>
 
@@ -0,0 +1,286 @@
+/**
+ * Cap Table
+ *
+ * Founders, option pool, SAFEs, convertible notes and priced rounds, with
+ * ownership after each round, a dilution chart and an exit waterfall. Rounds
+ * and the exit feed the Investment Ask and Exit Strategy pitch slides.
+ */
+
+import { useMemo } from "react";
+import { Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CapTableData, Convertible, Founder, ForecastData, FundingRound } from "@/lib/validators";
+import { computeCapTable, computeExitWaterfall, getHolders, getOwnership } from "@/lib/capTable";
+import { formatCurrency, generateId } from "./types";
+import DriverList, { type DriverColumn } from "./DriverList";
+import { DilutionChart } from "./charts";
+
+interface CapTableProps {
+  capTable: CapTableData;
+  updateCapTable: (updates: Partial<CapTableData>) => void;
+  forecast: ForecastData;
+}
+
+const FOUNDER_COLUMNS: DriverColumn<Founder>[] = [
+  { key: "name", label: "Founder", type: "text", placeholder: "e.g. Co-founder" },
+  { key: "shares", label: "Shares", type: "number", min: 0, step: 1 },
+];
+
+const CONVERTIBLE_COLUMNS: DriverColumn<Convertible>[] = [
+  { key: "name", label: "Investor", type: "text", placeholder: "e.g. Angel investor" },
+  { key: "amount", label: "Amount", type: "number", prefix: "$", min: 0 },
+  { key: "valuationCap", label: "Valuation cap", type: "number", prefix: "$", min: 0, placeholder: "No cap" },
+  { key: "discount", label: "Discount", type: "number", suffix: "%", min: 0, max: 99 },
+];
+
+const NOTE_COLUMNS: DriverColumn<Convertible>[] = [
+  ...CONVERTIBLE_COLUMNS,
+  { key: "interestRate", label: "Interest per year", type: "number", suffix: "%", min: 0, max: 100, step: 0.1 },
+  { key: "monthsToConversion", label: "Months to conversion", type: "number", min: 0, step: 1 },
+];
+
+const ROUND_COLUMNS: DriverColumn<FundingRound>[] = [
+  { key: "name", label: "Round", type: "text", placeholder: "e.g. Seed" },
+  { key: "preMoneyValuation", label: "Pre-money valuation", type: "number", prefix: "$", min: 0 },
+  { key: "amount", label: "Raising", type: "number", prefix: "$", min: 0 },
+  { key: "optionPoolPercent", label: "Option pool after", type: "number", suffix: "%", min: 0, max: 50 },
+  { key: "liquidationPreference", label: "Liquidation preference", type: "number", suffix: "x", min: 0, step: 0.5 },
+];
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const CapTable = ({ capTable, updateCapTable, forecast }: CapTableProps) => {
+  const stages = useMemo(() => computeCapTable(capTable), [capTable]);
+  const holders = getHolders(stages);
+  const latest = stages[stages.length - 1];
+  const waterfall = useMemo(
+    () => (capTable.exitValuation > 0 ? computeExitWaterfall(latest, capTable.exitValuation) : []),
+    [latest, capTable.exitValuation]
+  );
+
+  // SAFEs and notes are edited in separate lists but stored together
+  const updateConvertibles = (type: Convertible["type"], items: Convertible[]) =>
+    updateCapTable({
+      convertibles: [...capTable.convertibles.filter((convertible) => convertible.type !== type), ...items],
+    });
+  const addConvertible = (type: Convertible["type"]) =>
+    updateCapTable({
+      convertibles: [
+        ...capTable.convertibles,
+        {
+          id: generateId(type),
+          name: "",
+          type,
+          amount: 0,
+          valuationCap: 0,
+          discount: 0,
+          interestRate: 0,
+          monthsToConversion: 12,
+        },
+      ],
+    });
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Cap Table
+          </CardTitle>
+          <CardDescription>
+            Who owns the company before and after each funding round. SAFEs and notes convert in the first priced
+            round, at their cap or discount, whichever gives the lower price.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <DriverList
+            title="Founders"
+            description="Common shares issued at founding"
+            emptyText="Add founders and their shares"
+            items={capTable.founders}
+            columns={FOUNDER_COLUMNS}
+            onAdd={() =>
+              updateCapTable({ founders: [...capTable.founders, { id: generateId("founder"), name: "", shares: 0 }] })
+            }
+            onChange={(founders) => updateCapTable({ founders })}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="optionPoolShares">Option pool at founding (shares)</Label>
+              <Input
+                id="optionPoolShares"
+                type="number"
+                min={0}
+                placeholder="0"
+                value={capTable.optionPoolShares || ""}
+                onChange={(e) =>
+                  updateCapTable({ optionPoolShares: Math.max(0, Math.round(parseFloat(e.target.value) || 0)) })
+                }
+              />
+            </div>
+          </div>
+
+          <DriverList
+            title="SAFEs"
+            description="Caps are pre-money valuations; leave blank for no cap"
+            emptyText="Add SAFEs you've raised or plan to raise"
+            items={capTable.convertibles.filter((convertible) => convertible.type === "safe")}
+            columns={CONVERTIBLE_COLUMNS}
+            onAdd={() => addConvertible("safe")}
+            onChange={(items) => updateConvertibles("safe", items)}
+          />
+          <DriverList
+            title="Convertible notes"
+            description="Principal and simple interest convert together"
+            emptyText="Add convertible notes"
+            items={capTable.convertibles.filter((convertible) => convertible.type === "note")}
+            columns={NOTE_COLUMNS}
+            onAdd={() => addConvertible("note")}
+            onChange={(items) => updateConvertibles("note", items)}
+          />
+          <DriverList
+            title="Priced rounds"
+            description="The option pool is topped up before each round to reach its target size"
+            emptyText="Add a priced round, starting from your funding ask"
+            items={capTable.rounds}
+            columns={ROUND_COLUMNS}
+            onAdd={() =>
+              updateCapTable({
+                rounds: [
+                  ...capTable.rounds,
+                  {
+                    id: generateId("round"),
+                    // The first round starts from the ask on the Funding tab
+                    name: capTable.rounds.length === 0 ? forecast.fundingStage : "",
+                    preMoneyValuation: 0,
+                    amount: capTable.rounds.length === 0 ? (forecast.fundingAsk ?? 0) : 0,
+                    optionPoolPercent: 0,
+                    liquidationPreference: 1,
+                  },
+                ],
+              })
+            }
+            onChange={(rounds) => updateCapTable({ rounds })}
+          />
+
+          {/* Ownership after each round */}
+          {latest.totalShares > 0 && (
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    {stages.map((stage) => (
+                      <TableHead key={stage.id} className="text-right whitespace-nowrap">
+                        {stage.name}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holders.map((holder) => (
+                    <TableRow key={holder.id}>
+                      <TableCell>{holder.name}</TableCell>
+                      {stages.map((stage) => (
+                        <TableCell key={stage.id} className="text-right tabular-nums">
+                          {stage.holdings.some((holding) => holding.id === holder.id)
+                            ? formatPercent(getOwnership(stage, holder.id))
+                            : "—"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>Price per share</TableCell>
+                    {stages.map((stage) => (
+                      <TableCell key={stage.id} className="text-right tabular-nums">
+                        {stage.pricePerShare === null ? "—" : `$${stage.pricePerShare.toFixed(4)}`}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow className="font-medium">
+                    <TableCell>Post-money valuation</TableCell>
+                    {stages.map((stage) => (
+                      <TableCell key={stage.id} className="text-right tabular-nums">
+                        {stage.pricePerShare === null ? "—" : formatCurrency(stage.postMoneyValuation)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {latest.totalShares > 0 && <DilutionChart stages={stages} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exit Waterfall</CardTitle>
+          <CardDescription>
+            How a sale of the company would be split after the last round. Investors take their liquidation preference
+            first, or convert to common shares when that pays more. Assumes every option has been granted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="exitValuation">Exit valuation</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                <Input
+                  id="exitValuation"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  className="pl-7"
+                  value={capTable.exitValuation || ""}
+                  onChange={(e) => updateCapTable({ exitValuation: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+          </div>
+
+          {waterfall.length > 0 ? (
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holder</TableHead>
+                    <TableHead className="text-right">Ownership</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead>Takes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {waterfall.map(({ holding, payout, converted }) => (
+                    <TableRow key={holding.id}>
+                      <TableCell>{holding.name}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatPercent(getOwnership(latest, holding.id))}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(payout)}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {holding.preference === 0 ? "Common" : converted ? "Converts to common" : "Preference"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Add shares and an exit valuation to see who gets what.</p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+export default CapTable;
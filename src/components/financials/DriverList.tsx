@@ -0,0 +1,128 @@
+/**
+ * Driver List
+ *
+ * Editable rows of one kind of driver (revenue streams, costs, assets, loans),
+ * used by the monthly model and the financial statements assumptions.
+ */
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface DriverColumn<T> {
+  key: keyof T & string;
+  label: string;
+  type: "text" | "number";
+  placeholder?: string;
+  prefix?: string;
+  suffix?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Left blank rather than 0 when empty, for values that fall back to another figure */
+  optional?: boolean;
+}
+
+interface DriverListProps<T extends { id: string }> {
+  title: string;
+  description: string;
+  emptyText: string;
+  items: T[];
+  columns: DriverColumn<T>[];
+  onAdd: () => void;
+  onChange: (items: T[]) => void;
+}
+
+const DriverList = <T extends { id: string }>({
+  title,
+  description,
+  emptyText,
+  items,
+  columns,
+  onAdd,
+  onChange,
+}: DriverListProps<T>) => {
+  const update = (id: string, changes: Partial<T>) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+  const parseValue = (column: DriverColumn<T>, text: string): number => {
+    // Months and people are whole numbers
+    const value = column.step === 1 ? Math.round(parseFloat(text) || 0) : parseFloat(text) || 0;
+    return Math.min(column.max ?? Infinity, Math.max(column.min ?? -Infinity, value));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="font-medium">{title}</h4>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={onAdd}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic py-3 text-center border rounded-md">{emptyText}</p>
+      ) : (
+        items.map((item) => (
+          <div key={item.id} className="flex gap-2 items-end p-3 border rounded-md bg-muted/30">
+            <div className="flex-1 grid grid-cols-2 md:grid-cols-5 gap-2">
+              {columns.map((column) => (
+                <div key={column.key} className={column.type === "text" ? "col-span-2 md:col-span-1" : undefined}>
+                  <Label className="text-xs text-muted-foreground">{column.label}</Label>
+                  <div className="relative">
+                    {column.prefix && (
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                        {column.prefix}
+                      </span>
+                    )}
+                    <Input
+                      type={column.type}
+                      aria-label={column.label}
+                      placeholder={column.placeholder ?? "0"}
+                      min={column.min}
+                      max={column.max}
+                      step={column.step}
+                      className={column.prefix ? "pl-7" : undefined}
+                      value={String((column.optional ? item[column.key] : item[column.key] || "") ?? "")}
+                      onChange={(e) =>
+                        update(item.id, {
+                          [column.key]:
+                            column.type === "text"
+                              ? e.target.value
+                              : column.optional && e.target.value === ""
+                                ? undefined
+                                : parseValue(column, e.target.value),
+                        } as Partial<T>)
+                      }
+                    />
+                    {column.suffix && (
+                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                        {column.suffix}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive"
+              aria-label={`Remove from ${title.toLowerCase()}`}
+              onClick={() => onChange(items.filter((other) => other.id !== item.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default DriverList;
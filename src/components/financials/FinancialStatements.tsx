@@ -0,0 +1,224 @@
+/**
+ * Financial Statements
+ *
+ * Income statement, cash flow statement and balance sheet generated from the
+ * monthly model, with the assumptions they add: payment terms, inventory,
+ * fixed assets and loans. Equity comes from the plan's funding sources.
+ */
+
+import { useMemo, useState } from "react";
+import { CheckCircle2, AlertTriangle, Landmark } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  MODEL_MONTHS,
+  type FinancialModel,
+  type FixedAsset,
+  type ForecastData,
+  type FundingSource,
+  type Loan,
+} from "@/lib/validators";
+import { getMonthLabel, MODEL_YEARS } from "@/lib/financialModel";
+import {
+  computeFinancialStatements,
+  getEquityInjections,
+  getStatementValue,
+  isBalanced,
+  STATEMENTS,
+  type StatementKey,
+  type StatementPeriod,
+} from "@/lib/financialStatements";
+import { formatCurrency, generateId } from "./types";
+import DriverList, { type DriverColumn } from "./DriverList";
+
+interface FinancialStatementsProps {
+  model: FinancialModel;
+  updateModel: (updates: Partial<FinancialModel>) => void;
+  forecast: ForecastData;
+  fundingSources?: FundingSource;
+}
+
+const MONTH = { min: 1, max: MODEL_MONTHS, step: 1 };
+
+const ASSET_COLUMNS: DriverColumn<FixedAsset>[] = [
+  { key: "name", label: "Asset", type: "text", placeholder: "e.g. Delivery van" },
+  { key: "cost", label: "Cost", type: "number", prefix: "$", min: 0 },
+  { key: "month", label: "Bought in month", type: "number", ...MONTH },
+  { key: "usefulLifeMonths", label: "Useful life (months)", type: "number", min: 1, step: 1 },
+];
+
+const LOAN_COLUMNS: DriverColumn<Loan>[] = [
+  { key: "name", label: "Loan", type: "text", placeholder: "e.g. Bank loan" },
+  { key: "amount", label: "Amount", type: "number", prefix: "$", min: 0 },
+  { key: "drawMonth", label: "Drawn in month", type: "number", ...MONTH },
+  { key: "termMonths", label: "Term (months)", type: "number", min: 1, step: 1 },
+  { key: "annualInterestRate", label: "Interest per year", type: "number", suffix: "%", min: 0, max: 100, step: 0.1 },
+];
+
+const TERMS: { key: "dso" | "dpo" | "inventoryDays"; label: string }[] = [
+  { key: "dso", label: "Days customers take to pay (DSO)" },
+  { key: "dpo", label: "Days we take to pay suppliers (DPO)" },
+  { key: "inventoryDays", label: "Days of inventory held" },
+];
+
+const FinancialStatements = ({ model, updateModel, forecast, fundingSources }: FinancialStatementsProps) => {
+  const [statement, setStatement] = useState<StatementKey>("incomeStatement");
+  const [view, setView] = useState("annual");
+  const statements = useMemo(
+    () => computeFinancialStatements(model, forecast, fundingSources),
+    [model, forecast, fundingSources]
+  );
+  const equity = getEquityInjections(fundingSources);
+  const { rows } = STATEMENTS.find((item) => item.key === statement) ?? STATEMENTS[0];
+  const periods: StatementPeriod[] =
+    view === "annual" ? statements.years : statements.months.slice((Number(view) - 1) * 12, Number(view) * 12);
+  const balanced = statements.months.every((month) => isBalanced(month.balanceSheet));
+
+  const periodLabel = (period: StatementPeriod) =>
+    view === "annual" ? `Year ${period.period}` : getMonthLabel(model, period.period);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Financial Statements
+        </CardTitle>
+        <CardDescription>
+          Income statement, cash flow and balance sheet for years 1–{MODEL_YEARS},{" "}
+          {statements.fromModel
+            ? "built from your monthly model."
+            : "built from your yearly projections until you add drivers to the monthly model."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {TERMS.map((term) => (
+            <div key={term.key} className="space-y-1">
+              <Label htmlFor={term.key}>{term.label}</Label>
+              <Input
+                id={term.key}
+                type="number"
+                min={0}
+                placeholder="0"
+                value={model[term.key] || ""}
+                onChange={(e) => updateModel({ [term.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DriverList
+          title="Fixed assets"
+          description="Depreciated straight-line over their useful life"
+          emptyText="Add equipment, vehicles and other assets you'll buy"
+          items={model.fixedAssets}
+          columns={ASSET_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              fixedAssets: [
+                ...model.fixedAssets,
+                { id: generateId("asset"), name: "", cost: 0, month: 1, usefulLifeMonths: 36 },
+              ],
+            })
+          }
+          onChange={(fixedAssets) => updateModel({ fixedAssets })}
+        />
+        <DriverList
+          title="Loans"
+          description="Repaid in equal monthly instalments from the month after they're drawn"
+          emptyText="Add bank loans and lines of credit from your funding plan"
+          items={model.loans}
+          columns={LOAN_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              loans: [
+                ...model.loans,
+                { id: generateId("loan"), name: "", amount: 0, drawMonth: 1, termMonths: 36, annualInterestRate: 0 },
+              ],
+            })
+          }
+          onChange={(loans) => updateModel({ loans })}
+        />
+        <p className="text-sm text-muted-foreground">
+          Equity injected in month 1: <span className="font-medium text-foreground">{formatCurrency(equity)}</span>{" "}
+          from personal investment, family, investors, grants and other funding sources in your Business Plan.
+        </p>
+
+        {/* Generated statements */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Tabs value={statement} onValueChange={(value) => setStatement(value as StatementKey)}>
+              <TabsList>
+                {STATEMENTS.map((item) => (
+                  <TabsTrigger key={item.key} value={item.key}>
+                    {item.title}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Tabs value={view} onValueChange={setView}>
+              <TabsList>
+                <TabsTrigger value="annual">Annual</TabsTrigger>
+                {statements.years.map((year) => (
+                  <TabsTrigger key={year.period} value={String(year.period)}>
+                    Year {year.period} by month
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="overflow-x-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky left-0 bg-background">&nbsp;</TableHead>
+                  {periods.map((period) => (
+                    <TableHead key={period.period} className="text-right whitespace-nowrap">
+                      {periodLabel(period)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key} className={row.total ? "font-semibold" : undefined}>
+                    <TableCell className="sticky left-0 bg-background whitespace-nowrap">{row.label}</TableCell>
+                    {periods.map((period) => {
+                      // Round first so tiny negatives don't show as "-$0"
+                      const value = Math.round(getStatementValue(period, statement, row.key)) || 0;
+                      return (
+                        <TableCell
+                          key={period.period}
+                          className={`text-right tabular-nums whitespace-nowrap ${value < 0 ? "text-red-600" : ""}`}
+                        >
+                          {formatCurrency(value)}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {balanced ? (
+            <p className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle2 className="h-4 w-4" />
+              Assets equal liabilities plus equity in every month
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              The balance sheet doesn't balance. Check the assumptions above.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FinancialStatements;
@@ -3,6 +3,11 @@
  *
  * Complete financial dashboard that:
  * - Allows editing projections, the ask, and use of funds (saves to "forecasting")
+ * - Builds years 1-3 from the driver-based monthly model (saves to "financialModel")
+ * - Generates the income statement, cash flow statement and balance sheet
+ * - Compares base, best and worst case scenarios (saves to "financials")
+ * - Works out break-even and unit economics, which set the plan's sales targets
+ * - Simulates ownership and dilution round by round (saves to "capTable")
  * - Displays data from businessPlan (phases 7, 8, 11) as read-only
  * - Shows professional charts instead of whimsical visuals
  *
@@ -33,13 +38,25 @@ import {
 } from "lucide-react";
 import {
   ForecastData,
-  ForecastDataSchema,
-  BusinessPlanData,
   DEFAULT_BUSINESS_PLAN_DATA,
-  YearlyProjection,
   UseOfFundsItem,
+  type FinancialModel,
+  type Scenario,
+  type UnitEconomicsInputs,
+  type CapTableData,
 } from "@/lib/validators/schemas";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { getProjections, isModelledYear } from "@/lib/financialModel";
+import { useStorageDomain } from "@/hooks/useLocalStorage";
+import { getSalesTargets, hasUnitEconomics } from "@/lib/unitEconomics";
+import {
+  getStorageKey,
+  hasDomainData,
+  readDomain,
+  readDomainRaw,
+  writeDomain,
+  type StorageDomainId,
+} from "@/lib/storageRegistry";
+import { recordChange } from "@/lib/undoHistory";
 import { useExport } from "@/hooks/useExport";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -58,6 +75,11 @@ import {
 } from "./charts";
 
 import { formatCurrency, formatCompact } from "./types";
+import MonthlyModel from "./MonthlyModel";
+import FinancialStatements from "./FinancialStatements";
+import Scenarios from "./Scenarios";
+import UnitEconomicsCalculator from "./UnitEconomicsCalculator";
+import CapTable from "./CapTable";
 
 // Helper to parse currency strings
 const parseCurrency = (value: string | undefined): number => {
@@ -67,26 +89,8 @@ const parseCurrency = (value: string | undefined): number => {
   return isNaN(parsed) ? 0 : parsed;
 };
 
-const defaultForecastData: ForecastData = {
-  year1Revenue: "",
-  year1Expenses: "",
-  year2Revenue: "",
-  year2Expenses: "",
-  year3Revenue: "",
-  year3Expenses: "",
-  year5Revenue: "",
-  year5Expenses: "",
-  year10Revenue: "",
-  year10Expenses: "",
-  year15Revenue: "",
-  year15Expenses: "",
-  year25Revenue: "",
-  year25Expenses: "",
-  assumptions: "",
-  fundingAsk: undefined,
-  fundingStage: "",
-  useOfFunds: [],
-};
+/** Years with a card on the Projections tab */
+const PROJECTION_CARD_YEARS = [1, 2, 3, 5, 10] as const;
 
 const FUNDING_STAGES = [
   "Pre-seed",
@@ -138,11 +142,10 @@ const Financials = () => {
   const { toast } = useToast();
 
   // Editable forecast data (saved to "forecasting" localStorage)
-  const [data, setData, { save }] = useLocalStorage<ForecastData>(
-    "forecasting",
-    defaultForecastData,
-    { schema: ForecastDataSchema }
-  );
+  const [data, setData, { save }] = useStorageDomain("forecasting");
+  const [model, setModel, { save: saveModel }] = useStorageDomain("financialModel");
+  const [financials, setFinancials, { save: saveFinancials }] = useStorageDomain("financials");
+  const [capTable, setCapTable, { save: saveCapTable }] = useStorageDomain("capTable");
 
   // Read-only business plan data
   const [planData, setPlanData] = useState<BusinessPlanFinancials | null>(null);
@@ -156,9 +159,8 @@ const Financials = () => {
   // Load business plan data (read-only)
   useEffect(() => {
     try {
-      const stored = localStorage.getItem("businessPlan");
-      if (stored) {
-        const plan: BusinessPlanData = JSON.parse(stored);
+      if (hasDomainData("businessPlan")) {
+        const plan = readDomain("businessPlan");
         setPlanData({
           yearOneSalesTarget: plan.yearOneSalesTarget || "",
           howYouCalculatedSales: plan.howYouCalculatedSales || "",
@@ -185,6 +187,9 @@ const Financials = () => {
 
   const handleSave = () => {
     save();
+    saveModel();
+    saveFinancials();
+    saveCapTable();
     toast({
       title: "Saved successfully",
       description: "Your financial data has been saved",
@@ -195,23 +200,44 @@ const Financials = () => {
     setData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateProfit = (revenue: string, expenses: string) => {
-    const rev = parseFloat(revenue) || 0;
-    const exp = parseFloat(expenses) || 0;
-    return rev - exp;
+  const updateModel = (updates: Partial<FinancialModel>) => {
+    setModel((prev) => ({ ...prev, ...updates, lastUpdated: new Date().toISOString() }));
+  };
+
+  const updateScenarios = (scenarios: Scenario[]) => {
+    setFinancials((prev) => ({ ...prev, scenarios, lastUpdated: new Date().toISOString() }));
   };
 
-  // Build projections for charts
-  const projections: YearlyProjection[] = [
-    { year: 1, revenue: parseCurrency(data.year1Revenue), expenses: parseCurrency(data.year1Expenses), notes: "" },
-    { year: 2, revenue: parseCurrency(data.year2Revenue), expenses: parseCurrency(data.year2Expenses), notes: "" },
-    { year: 3, revenue: parseCurrency(data.year3Revenue), expenses: parseCurrency(data.year3Expenses), notes: "" },
-    { year: 5, revenue: parseCurrency(data.year5Revenue), expenses: parseCurrency(data.year5Expenses), notes: "" },
-  ];
+  const updateCapTable = (updates: Partial<CapTableData>) => {
+    setCapTable((prev) => ({ ...prev, ...updates, lastUpdated: new Date().toISOString() }));
+  };
 
-  if (data.year10Revenue || data.year10Expenses) {
-    projections.push({ year: 10, revenue: parseCurrency(data.year10Revenue), expenses: parseCurrency(data.year10Expenses), notes: "" });
-  }
+  // The calculator's targets replace the ones typed into the business plan. Both sections
+  // are written together and recorded as one undo entry, so undo can't leave them apart.
+  const updateUnitEconomics = (updates: Partial<UnitEconomicsInputs>) => {
+    // Built from the stored value, not this render's, so edits saved since aren't reverted
+    const current = readDomain("financials");
+    const unitEconomicsInputs = { ...current.unitEconomicsInputs, ...updates };
+    const targets = hasUnitEconomics(unitEconomicsInputs) ? getSalesTargets(unitEconomicsInputs) : {};
+    const domains: StorageDomainId[] = hasUnitEconomics(unitEconomicsInputs) ? ["financials", "businessPlan"] : ["financials"];
+    const before = domains.map((domain) => readDomainRaw(domain));
+
+    writeDomain("financials", { ...current, ...targets, unitEconomicsInputs, lastUpdated: new Date().toISOString() });
+    if (hasUnitEconomics(unitEconomicsInputs)) {
+      writeDomain("businessPlan", { ...readDomain("businessPlan"), ...targets });
+      setPlanData((prev) => (prev ? { ...prev, ...targets } : prev));
+    }
+    recordChange(
+      "Edit unit economics",
+      domains.map((domain, index) => ({ key: getStorageKey(domain), before: before[index], after: readDomainRaw(domain) }))
+    );
+  };
+
+  // Build projections for charts (years 1-3 from the monthly model once it has drivers)
+  const allProjections = getProjections(data, model);
+  const projections = allProjections.filter(
+    (p) => p.year <= 5 || (p.year === 10 && (data.year10Revenue || data.year10Expenses))
+  );
 
   const hasProjections = projections.some(p => p.revenue > 0 || p.expenses > 0);
   const hasUseOfFunds = (data.useOfFunds || []).length > 0;
@@ -276,10 +302,14 @@ const Financials = () => {
 
       <div id="financials-content">
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-8 h-auto">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="projections">Projections</TabsTrigger>
+            <TabsTrigger value="statements">Statements</TabsTrigger>
+            <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
+            <TabsTrigger value="breakEven">Break-even</TabsTrigger>
             <TabsTrigger value="funding">Funding</TabsTrigger>
+            <TabsTrigger value="capTable">Cap table</TabsTrigger>
             <TabsTrigger value="position">Position</TabsTrigger>
           </TabsList>
 
@@ -305,7 +335,7 @@ const Financials = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    {data.year1Revenue ? `$${parseCurrency(data.year1Revenue).toLocaleString()}` : "—"}
+                    {projections[0].revenue ? `$${projections[0].revenue.toLocaleString()}` : "—"}
                   </div>
                   <p className="text-xs text-muted-foreground">Projected</p>
                 </CardContent>
@@ -364,172 +394,67 @@ const Financials = () => {
 
           {/* ========== PROJECTIONS TAB ========== */}
           <TabsContent value="projections" className="space-y-6">
-            {/* Editable Projection Cards */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
-              {/* Year 1 */}
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Year 1</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year1Revenue}
-                      onChange={(e) => updateField("year1Revenue", e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year1Expenses}
-                      onChange={(e) => updateField("year1Expenses", e.target.value)}
-                    />
-                  </div>
-                  <div className="pt-2 border-t">
-                    <p className="text-sm text-muted-foreground">Net Profit</p>
-                    <p className={`text-xl font-bold ${calculateProfit(data.year1Revenue, data.year1Expenses) >= 0 ? "text-green-600" : "text-red-600"}`}>
-                      ${calculateProfit(data.year1Revenue, data.year1Expenses).toLocaleString()}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
+            {/* Driver-based monthly model (years 1-3) */}
+            <MonthlyModel model={model} updateModel={updateModel} />
 
-              {/* Year 2 */}
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Year 2</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year2Revenue}
-                      onChange={(e) => updateField("year2Revenue", e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year2Expenses}
-                      onChange={(e) => updateField("year2Expenses", e.target.value)}
-                    />
-                  </div>
-                  <div className="pt-2 border-t">
-                    <p className="text-sm text-muted-foreground">Net Profit</p>
-                    <p className={`text-xl font-bold ${calculateProfit(data.year2Revenue, data.year2Expenses) >= 0 ? "text-green-600" : "text-red-600"}`}>
-                      ${calculateProfit(data.year2Revenue, data.year2Expenses).toLocaleString()}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Year 3 */}
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Year 3</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year3Revenue}
-                      onChange={(e) => updateField("year3Revenue", e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year3Expenses}
-                      onChange={(e) => updateField("year3Expenses", e.target.value)}
-                    />
-                  </div>
-                  <div className="pt-2 border-t">
-                    <p className="text-sm text-muted-foreground">Net Profit</p>
-                    <p className={`text-xl font-bold ${calculateProfit(data.year3Revenue, data.year3Expenses) >= 0 ? "text-green-600" : "text-red-600"}`}>
-                      ${calculateProfit(data.year3Revenue, data.year3Expenses).toLocaleString()}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Year 5 */}
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Year 5</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year5Revenue}
-                      onChange={(e) => updateField("year5Revenue", e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year5Expenses}
-                      onChange={(e) => updateField("year5Expenses", e.target.value)}
-                    />
-                  </div>
-                  <div className="pt-2 border-t">
-                    <p className="text-sm text-muted-foreground">Net Profit</p>
-                    <p className={`text-xl font-bold ${calculateProfit(data.year5Revenue, data.year5Expenses) >= 0 ? "text-green-600" : "text-red-600"}`}>
-                      ${calculateProfit(data.year5Revenue, data.year5Expenses).toLocaleString()}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Year 10 - Optional */}
-              <Card className="border-dashed">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg text-muted-foreground">Year 10 (Optional)</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year10Revenue}
-                      onChange={(e) => updateField("year10Revenue", e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={data.year10Expenses}
-                      onChange={(e) => updateField("year10Expenses", e.target.value)}
-                    />
-                  </div>
-                  <div className="pt-2 border-t">
-                    <p className="text-sm text-muted-foreground">Net Profit</p>
-                    <p className={`text-xl font-bold ${calculateProfit(data.year10Revenue, data.year10Expenses) >= 0 ? "text-green-600" : "text-red-600"}`}>
-                      ${calculateProfit(data.year10Revenue, data.year10Expenses).toLocaleString()}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
+            {/* Yearly Projection Cards */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+              {PROJECTION_CARD_YEARS.map((year) => {
+                const projection = allProjections.find((p) => p.year === year)!;
+                const profit = projection.revenue - projection.expenses;
+                const isOptional = year === 10;
+                return (
+                  <Card key={year} className={isOptional ? "border-dashed" : undefined}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className={`text-lg ${isOptional ? "text-muted-foreground" : ""}`}>
+                        Year {year}{isOptional && " (Optional)"}
+                      </CardTitle>
+                      {isModelledYear(model, year) && <CardDescription>From the monthly model</CardDescription>}
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {isModelledYear(model, year) ? (
+                        <>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Revenue</p>
+                            <p className="font-semibold">${projection.revenue.toLocaleString()}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Expenses</p>
+                            <p className="font-semibold">${projection.expenses.toLocaleString()}</p>
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div>
+                            <label className="text-sm font-medium mb-1 block">Revenue ($)</label>
+                            <Input
+                              type="number"
+                              placeholder="0"
+                              value={data[`year${year}Revenue`]}
+                              onChange={(e) => updateField(`year${year}Revenue`, e.target.value)}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-sm font-medium mb-1 block">Expenses ($)</label>
+                            <Input
+                              type="number"
+                              placeholder="0"
+                              value={data[`year${year}Expenses`]}
+                              onChange={(e) => updateField(`year${year}Expenses`, e.target.value)}
+                            />
+                          </div>
+                        </>
+                      )}
+                      <div className="pt-2 border-t">
+                        <p className="text-sm text-muted-foreground">Net Profit</p>
+                        <p className={`text-xl font-bold ${profit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                          ${profit.toLocaleString()}
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
 
             {/* Key Assumptions */}
@@ -585,6 +510,32 @@ const Financials = () => {
             )}
           </TabsContent>
 
+          {/* ========== STATEMENTS TAB ========== */}
+          <TabsContent value="statements" className="space-y-6">
+            <FinancialStatements
+              model={model}
+              updateModel={updateModel}
+              forecast={data}
+              fundingSources={planData?.fundingSources}
+            />
+          </TabsContent>
+
+          {/* ========== SCENARIOS TAB ========== */}
+          <TabsContent value="scenarios" className="space-y-6">
+            <Scenarios
+              scenarios={financials.scenarios}
+              onChange={updateScenarios}
+              model={model}
+              forecast={data}
+              fundingSources={planData?.fundingSources}
+            />
+          </TabsContent>
+
+          {/* ========== BREAK-EVEN TAB ========== */}
+          <TabsContent value="breakEven" className="space-y-6">
+            <UnitEconomicsCalculator inputs={financials.unitEconomicsInputs} onChange={updateUnitEconomics} />
+          </TabsContent>
+
           {/* ========== FUNDING TAB ========== */}
           <TabsContent value="funding" className="space-y-6">
             {/* The Ask - Editable */}
@@ -825,6 +776,11 @@ const Financials = () => {
             )}
           </TabsContent>
 
+          {/* ========== CAP TABLE TAB ========== */}
+          <TabsContent value="capTable" className="space-y-6">
+            <CapTable capTable={capTable} updateCapTable={updateCapTable} forecast={data} />
+          </TabsContent>
+
           {/* ========== POSITION TAB ========== */}
           <TabsContent value="position" className="space-y-6">
             {/* ===== Business Plan Financial Summary (Read-Only) ===== */}
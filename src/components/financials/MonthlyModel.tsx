@@ -0,0 +1,239 @@
+/**
+ * Monthly Model
+ *
+ * Driver-based model for months 1-36: revenue streams (units × price × growth),
+ * COGS as a percentage of revenue, fixed costs, headcount and one-off expenses.
+ * Years 1-3 of the projections are calculated from it.
+ */
+
+import { useMemo, useState } from "react";
+import { Calculator } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  MODEL_MONTHS,
+  type FinancialModel,
+  type FixedCost,
+  type HeadcountItem,
+  type OneOffExpense,
+  type RevenueStream,
+} from "@/lib/validators";
+import { computeMonthlyModel, getModelYears, getMonthLabel, MODEL_YEARS, type ModelMonth } from "@/lib/financialModel";
+import { formatCurrency, generateId } from "./types";
+import DriverList, { type DriverColumn } from "./DriverList";
+
+interface MonthlyModelProps {
+  model: FinancialModel;
+  updateModel: (updates: Partial<FinancialModel>) => void;
+}
+
+const MONTH = { min: 1, max: MODEL_MONTHS, step: 1 };
+
+const STREAM_COLUMNS: DriverColumn<RevenueStream>[] = [
+  { key: "name", label: "Stream", type: "text", placeholder: "e.g. Subscriptions" },
+  { key: "units", label: "Units in first month", type: "number", min: 0 },
+  { key: "price", label: "Price per unit", type: "number", prefix: "$", min: 0 },
+  { key: "monthlyGrowth", label: "Growth per month", type: "number", suffix: "%", min: -100, step: 0.5 },
+  { key: "startMonth", label: "Starts in month", type: "number", ...MONTH },
+];
+
+const FIXED_COST_COLUMNS: DriverColumn<FixedCost>[] = [
+  { key: "name", label: "Cost", type: "text", placeholder: "e.g. Rent" },
+  { key: "monthlyAmount", label: "Per month", type: "number", prefix: "$", min: 0 },
+  { key: "startMonth", label: "Starts in month", type: "number", ...MONTH },
+];
+
+const HEADCOUNT_COLUMNS: DriverColumn<HeadcountItem>[] = [
+  { key: "role", label: "Role", type: "text", placeholder: "e.g. Engineer" },
+  { key: "count", label: "People", type: "number", min: 0, step: 1 },
+  { key: "annualSalary", label: "Salary per year", type: "number", prefix: "$", min: 0 },
+  { key: "startMonth", label: "Starts in month", type: "number", ...MONTH },
+];
+
+const ONE_OFF_COLUMNS: DriverColumn<OneOffExpense>[] = [
+  { key: "name", label: "Expense", type: "text", placeholder: "e.g. Equipment" },
+  { key: "amount", label: "Amount", type: "number", prefix: "$", min: 0 },
+  { key: "month", label: "Month", type: "number", ...MONTH },
+];
+
+const ROWS: { key: keyof Omit<ModelMonth, "month" | "streamRevenue" | "headcount">; label: string }[] = [
+  { key: "revenue", label: "Revenue" },
+  { key: "cogs", label: "COGS" },
+  { key: "grossProfit", label: "Gross profit" },
+  { key: "fixedCosts", label: "Fixed costs" },
+  { key: "headcountCosts", label: "Headcount" },
+  { key: "oneOffExpenses", label: "One-off" },
+  { key: "expenses", label: "Total expenses" },
+  { key: "profit", label: "Profit" },
+];
+
+const MonthlyModel = ({ model, updateModel }: MonthlyModelProps) => {
+  const [year, setYear] = useState("1");
+  const months = useMemo(() => computeMonthlyModel(model), [model]);
+  const years = useMemo(() => getModelYears(months), [months]);
+  const shownMonths = months.slice((Number(year) - 1) * 12, Number(year) * 12);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Monthly Model
+        </CardTitle>
+        <CardDescription>
+          Build months 1–{MODEL_MONTHS} from your drivers. Years 1–{MODEL_YEARS} of your projections and charts are
+          calculated from this model.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="modelStartMonth">First month</Label>
+            <Input
+              id="modelStartMonth"
+              type="month"
+              value={model.startMonth ?? ""}
+              onChange={(e) => updateModel({ startMonth: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cogsPercent">Cost of goods sold (% of revenue)</Label>
+            <Input
+              id="cogsPercent"
+              type="number"
+              min={0}
+              max={100}
+              placeholder="0"
+              value={model.cogsPercent || ""}
+              onChange={(e) => updateModel({ cogsPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            />
+          </div>
+        </div>
+
+        <DriverList
+          title="Revenue streams"
+          description="Units × price, with units growing each month"
+          emptyText="Add what you sell to model your revenue"
+          items={model.revenueStreams}
+          columns={STREAM_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              revenueStreams: [
+                ...model.revenueStreams,
+                { id: generateId("stream"), name: "", units: 0, price: 0, monthlyGrowth: 0, startMonth: 1 },
+              ],
+            })
+          }
+          onChange={(revenueStreams) => updateModel({ revenueStreams })}
+        />
+        <DriverList
+          title="Fixed costs"
+          description="Costs that don't change with sales"
+          emptyText="Add rent, software, insurance and other monthly costs"
+          items={model.fixedCosts}
+          columns={FIXED_COST_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              fixedCosts: [...model.fixedCosts, { id: generateId("cost"), name: "", monthlyAmount: 0, startMonth: 1 }],
+            })
+          }
+          onChange={(fixedCosts) => updateModel({ fixedCosts })}
+        />
+        <DriverList
+          title="Headcount"
+          description="Salaries, from the month each role is hired"
+          emptyText="Add the people you'll pay, including yourself"
+          items={model.headcount}
+          columns={HEADCOUNT_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              headcount: [
+                ...model.headcount,
+                { id: generateId("role"), role: "", count: 1, annualSalary: 0, startMonth: 1 },
+              ],
+            })
+          }
+          onChange={(headcount) => updateModel({ headcount })}
+        />
+        <DriverList
+          title="One-off expenses"
+          description="Paid once, in the month given"
+          emptyText="Add equipment, launch costs and other one-off spending"
+          items={model.oneOffExpenses}
+          columns={ONE_OFF_COLUMNS}
+          onAdd={() =>
+            updateModel({
+              oneOffExpenses: [...model.oneOffExpenses, { id: generateId("expense"), name: "", amount: 0, month: 1 }],
+            })
+          }
+          onChange={(oneOffExpenses) => updateModel({ oneOffExpenses })}
+        />
+
+        {/* Calculated figures */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-medium">Months</h4>
+            <Tabs value={year} onValueChange={setYear}>
+              <TabsList>
+                {years.map((item) => (
+                  <TabsTrigger key={item.year} value={String(item.year)}>
+                    Year {item.year}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="overflow-x-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky left-0 bg-background">&nbsp;</TableHead>
+                  {shownMonths.map((month) => (
+                    <TableHead key={month.month} className="text-right whitespace-nowrap">
+                      {getMonthLabel(model, month.month)}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right whitespace-nowrap">Year {year}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ROWS.map((row) => (
+                  <TableRow key={row.key} className={row.key === "profit" ? "font-semibold" : undefined}>
+                    <TableCell className="sticky left-0 bg-background whitespace-nowrap">{row.label}</TableCell>
+                    {shownMonths.map((month) => (
+                      <TableCell
+                        key={month.month}
+                        className={`text-right tabular-nums whitespace-nowrap ${row.key === "profit" && month.profit < 0 ? "text-red-600" : ""}`}
+                      >
+                        {formatCurrency(month[row.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums whitespace-nowrap font-medium">
+                      {formatCurrency(years[Number(year) - 1][row.key])}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="sticky left-0 bg-background whitespace-nowrap">People</TableCell>
+                  {shownMonths.map((month) => (
+                    <TableCell key={month.month} className="text-right tabular-nums">
+                      {month.headcount}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right tabular-nums font-medium">
+                    {years[Number(year) - 1].headcount}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonthlyModel;
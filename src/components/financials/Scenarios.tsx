@@ -0,0 +1,119 @@
+/**
+ * Scenarios
+ *
+ * Named what-if scenarios (e.g. base, best and worst case) that override the
+ * monthly model's growth, prices, churn and hiring pace, compared side by side
+ * on revenue, net income, runway and funding need.
+ */
+
+import { useMemo } from "react";
+import { Layers } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MODEL_MONTHS, type FinancialModel, type ForecastData, type FundingSource, type Scenario } from "@/lib/validators";
+import { hasModelDrivers, MODEL_YEARS } from "@/lib/financialModel";
+import { computeScenario, describeScenario } from "@/lib/scenarios";
+import { formatCurrency, generateId } from "./types";
+import DriverList, { type DriverColumn } from "./DriverList";
+import { ScenarioChart } from "./charts";
+
+interface ScenariosProps {
+  scenarios: Scenario[];
+  onChange: (scenarios: Scenario[]) => void;
+  model: FinancialModel;
+  forecast: ForecastData;
+  fundingSources?: FundingSource;
+}
+
+const SCENARIO_COLUMNS: DriverColumn<Scenario>[] = [
+  { key: "name", label: "Scenario", type: "text", placeholder: "e.g. Slow launch" },
+  {
+    key: "monthlyGrowth",
+    label: "Growth per month",
+    type: "number",
+    suffix: "%",
+    min: -100,
+    step: 0.5,
+    placeholder: "As modelled",
+    optional: true,
+  },
+  { key: "priceChange", label: "Price change", type: "number", suffix: "%", min: -100 },
+  { key: "churnRate", label: "Churn per month", type: "number", suffix: "%", min: 0, max: 100, step: 0.5 },
+  { key: "hiringDelayMonths", label: "Hire later by (months)", type: "number", step: 1 },
+];
+
+const Scenarios = ({ scenarios, onChange, model, forecast, fundingSources }: ScenariosProps) => {
+  const results = useMemo(
+    () => scenarios.map((scenario) => computeScenario(scenario, { model, forecast, fundingSources })),
+    [scenarios, model, forecast, fundingSources]
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Scenarios
+          </CardTitle>
+          <CardDescription>
+            Each scenario overrides assumptions in your monthly model. Leave a field blank to keep the modelled figure.
+            {!hasModelDrivers(model) && " Add revenue streams and costs to the monthly model to see scenarios diverge."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <DriverList
+            title="Scenarios"
+            description="Negative hiring delays bring hires forward"
+            emptyText="Add a scenario to compare it with your model"
+            items={scenarios}
+            columns={SCENARIO_COLUMNS}
+            onAdd={() => onChange([...scenarios, { id: generateId("scenario"), name: "" }])}
+            onChange={onChange}
+          />
+
+          {/* Side-by-side comparison */}
+          <div className="overflow-x-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scenario</TableHead>
+                  <TableHead className="text-right whitespace-nowrap">Revenue (years 1–{MODEL_YEARS})</TableHead>
+                  <TableHead className="text-right whitespace-nowrap">Net income (years 1–{MODEL_YEARS})</TableHead>
+                  <TableHead className="text-right">Runway</TableHead>
+                  <TableHead className="text-right whitespace-nowrap">Funding need</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result, index) => (
+                  <TableRow key={result.scenario.id}>
+                    <TableCell>
+                      <p className="font-medium">{result.scenario.name || `Scenario ${index + 1}`}</p>
+                      <p className="text-xs text-muted-foreground">{describeScenario(result.scenario)}</p>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(result.revenue)}</TableCell>
+                    <TableCell className={`text-right tabular-nums ${result.profit < 0 ? "text-red-600" : ""}`}>
+                      {formatCurrency(result.profit)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {result.runwayMonths === null ? `${MODEL_MONTHS}+ months` : `${result.runwayMonths} months`}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(result.fundingNeed)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Runway counts the months before cash falls below zero, starting from the equity and loans on the Statements
+            tab. Funding need is the extra cash that would keep it above zero.
+          </p>
+        </CardContent>
+      </Card>
+
+      {results.length > 0 && <ScenarioChart results={results} />}
+    </>
+  );
+};
+
+export default Scenarios;
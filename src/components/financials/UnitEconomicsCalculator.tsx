@@ -0,0 +1,169 @@
+/**
+ * Unit Economics Calculator
+ *
+ * Price, variable cost, fixed costs and customer acquisition inputs, with the
+ * contribution margin, break-even volume and date, LTV, LTV:CAC and payback
+ * they imply. Once a price is set, its year one figures become the plan's
+ * sales target and units needed.
+ */
+
+import { useMemo } from "react";
+import { Calculator } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UnitEconomicsInputs } from "@/lib/validators";
+import {
+  computeUnitEconomics,
+  getBreakEvenDate,
+  getBreakEvenSeries,
+  getSalesTargets,
+  hasUnitEconomics,
+} from "@/lib/unitEconomics";
+import { formatCurrency } from "./types";
+import { BreakEvenChart } from "./charts";
+
+interface UnitEconomicsCalculatorProps {
+  inputs: UnitEconomicsInputs;
+  onChange: (updates: Partial<UnitEconomicsInputs>) => void;
+}
+
+type NumberInputKey = Exclude<keyof UnitEconomicsInputs, "startMonth">;
+
+const INPUTS: { key: NumberInputKey; label: string; prefix?: string; suffix?: string; min?: number; max?: number }[] = [
+  { key: "pricePerUnit", label: "Price per unit", prefix: "$", min: 0 },
+  { key: "variableCostPerUnit", label: "Variable cost per unit", prefix: "$", min: 0 },
+  { key: "fixedCostsPerMonth", label: "Fixed costs per month", prefix: "$", min: 0 },
+  { key: "unitsFirstMonth", label: "Units sold in first month", min: 0 },
+  { key: "monthlyGrowth", label: "Unit growth per month", suffix: "%", min: -100 },
+  { key: "cac", label: "Cost to acquire a customer (CAC)", prefix: "$", min: 0 },
+  { key: "unitsPerCustomerPerMonth", label: "Units per customer per month", min: 0 },
+  { key: "monthlyChurn", label: "Customer churn per month", suffix: "%", min: 0, max: 100 },
+];
+
+const formatMonths = (months: number | null) => (months === null ? "—" : `${months.toFixed(1)} months`);
+
+const UnitEconomicsCalculator = ({ inputs, onChange }: UnitEconomicsCalculatorProps) => {
+  const results = useMemo(() => computeUnitEconomics(inputs), [inputs]);
+  const series = useMemo(() => getBreakEvenSeries(inputs), [inputs]);
+  const active = hasUnitEconomics(inputs);
+  const targets = active ? getSalesTargets(inputs) : null;
+
+  const metrics = [
+    {
+      label: "Contribution margin",
+      value: formatCurrency(results.contributionMargin),
+      note: `${results.contributionMarginPercent.toFixed(0)}% of price`,
+    },
+    {
+      label: "Break-even volume",
+      value: results.breakEvenUnits === null ? "—" : `${Math.ceil(results.breakEvenUnits).toLocaleString()} units`,
+      note: results.breakEvenRevenue === null ? "Price must exceed variable cost" : `${formatCurrency(results.breakEvenRevenue)} a month`,
+    },
+    {
+      label: "Break-even date",
+      value: results.breakEvenMonth === null ? "—" : getBreakEvenDate(inputs, results.breakEvenMonth),
+      note: results.breakEvenMonth === null ? "Not reached at this growth" : `Month ${results.breakEvenMonth}`,
+    },
+    {
+      label: "Customer lifetime value",
+      value: results.ltv === null ? "—" : formatCurrency(results.ltv),
+      note: results.customerLifetimeMonths === null ? "Set churn to estimate" : `Over ${formatMonths(results.customerLifetimeMonths)}`,
+    },
+    {
+      label: "LTV:CAC",
+      value: results.ltvToCac === null ? "—" : `${results.ltvToCac.toFixed(1)}x`,
+      note: "3x or more is healthy",
+    },
+    {
+      label: "CAC payback",
+      value: formatMonths(results.paybackMonths),
+      note: "Months of contribution to repay CAC",
+    },
+  ];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Break-Even & Unit Economics
+          </CardTitle>
+          <CardDescription>
+            What each sale earns, how many sales cover your fixed costs, and what a customer is worth.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {INPUTS.map((input) => (
+              <div key={input.key} className="space-y-1">
+                <Label htmlFor={input.key}>
+                  {input.label}
+                  {input.suffix && ` (${input.suffix})`}
+                </Label>
+                <div className="relative">
+                  {input.prefix && (
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">{input.prefix}</span>
+                  )}
+                  <Input
+                    id={input.key}
+                    type="number"
+                    min={input.min}
+                    max={input.max}
+                    placeholder="0"
+                    className={input.prefix ? "pl-7" : undefined}
+                    value={inputs[input.key] || ""}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value) || 0;
+                      onChange({
+                        [input.key]: Math.min(input.max ?? Infinity, Math.max(input.min ?? -Infinity, value)),
+                      });
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="unitEconomicsStartMonth">First month of sales</Label>
+              <Input
+                id="unitEconomicsStartMonth"
+                type="month"
+                value={inputs.startMonth ?? ""}
+                onChange={(e) => onChange({ startMonth: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {metrics.map((metric) => (
+              <div key={metric.label} className="rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">{metric.label}</p>
+                <p className="text-xl font-bold tabular-nums">{metric.value}</p>
+                <p className="text-xs text-muted-foreground">{metric.note}</p>
+              </div>
+            ))}
+          </div>
+
+          {targets ? (
+            <div className="rounded-md bg-muted/50 p-4 space-y-1">
+              <p className="text-sm font-medium">Year one sales target: {targets.yearOneSalesTarget}</p>
+              <p className="text-sm text-muted-foreground">{targets.unitsOrCustomersNeeded}</p>
+              <p className="text-xs text-muted-foreground">
+                These replace the sales target and units needed in your business plan.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Set a price per unit to work out your year one sales target and units needed.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {active && <BreakEvenChart series={series} breakEvenMonth={results.breakEvenMonth} />}
+    </>
+  );
+};
+
+export default UnitEconomicsCalculator;
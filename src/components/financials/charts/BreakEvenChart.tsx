@@ -0,0 +1,106 @@
+/**
+ * Break-Even Chart
+ *
+ * Line chart of monthly revenue against total costs, marking the month they cross.
+ */
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ReferenceLine } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Crosshair } from "lucide-react";
+import type { BreakEvenPoint } from "@/lib/unitEconomics";
+import { formatCompact } from "../types";
+
+interface BreakEvenChartProps {
+  series: BreakEvenPoint[];
+  /** Month revenue first covers total costs */
+  breakEvenMonth: number | null;
+  className?: string;
+}
+
+const chartConfig = {
+  revenue: {
+    label: "Revenue",
+    color: "hsl(var(--chart-1))",
+  },
+  totalCosts: {
+    label: "Total costs",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+const BreakEvenChart = ({ series, breakEvenMonth, className }: BreakEvenChartProps) => {
+  const chartData = series.map((point) => ({
+    month: `M${point.month}`,
+    revenue: Math.round(point.revenue),
+    totalCosts: Math.round(point.totalCosts),
+  }));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          Break-Even Point
+        </CardTitle>
+        <CardDescription>
+          {breakEvenMonth === null
+            ? `Revenue doesn't catch up with costs within ${series.length} months`
+            : `Revenue covers costs from month ${breakEvenMonth}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-[300px] w-full">
+          <LineChart data={chartData} accessibilityLayer>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} interval={5} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => formatCompact(value)}
+              width={60}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <span>
+                      {name}: {formatCompact(value as number)}
+                    </span>
+                  )}
+                />
+              }
+            />
+            <Legend />
+            {breakEvenMonth !== null && breakEvenMonth <= series.length && (
+              <ReferenceLine
+                x={`M${breakEvenMonth}`}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="3 3"
+                label={{ value: "Break-even", position: "insideTopLeft", fontSize: 12 }}
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="revenue"
+              stroke="var(--color-revenue)"
+              strokeWidth={2}
+              dot={false}
+              name="Revenue"
+            />
+            <Line
+              type="monotone"
+              dataKey="totalCosts"
+              stroke="var(--color-totalCosts)"
+              strokeWidth={2}
+              dot={false}
+              name="Total costs"
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BreakEvenChart;
@@ -0,0 +1,79 @@
+/**
+ * Dilution Chart
+ *
+ * Stacked bar chart of each holder's ownership at founding and after every round.
+ */
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { PieChart } from "lucide-react";
+import { getHolders, getOwnership, type CapTableStage } from "@/lib/capTable";
+
+interface DilutionChartProps {
+  stages: CapTableStage[];
+  className?: string;
+}
+
+const DilutionChart = ({ stages, className }: DilutionChartProps) => {
+  const holders = getHolders(stages);
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    holders.map((holder, index) => [holder.id, { label: holder.name, color: `hsl(var(--chart-${(index % 5) + 1}))` }])
+  );
+
+  const chartData = stages.map((stage) => ({
+    stage: stage.name,
+    ...Object.fromEntries(holders.map((holder) => [holder.id, Math.round(getOwnership(stage, holder.id) * 1000) / 10])),
+  }));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PieChart className="h-5 w-5" />
+          Dilution by Round
+        </CardTitle>
+        <CardDescription>Ownership at founding and after each priced round</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-[300px] w-full">
+          <BarChart data={chartData} accessibilityLayer>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="stage" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              domain={[0, 100]}
+              tickFormatter={(value) => `${value}%`}
+              width={50}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <span>
+                      {name}: {value}%
+                    </span>
+                  )}
+                />
+              }
+            />
+            <Legend />
+            {holders.map((holder) => (
+              <Bar
+                key={holder.id}
+                dataKey={holder.id}
+                stackId="ownership"
+                fill={`var(--color-${holder.id})`}
+                name={holder.name}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DilutionChart;
@@ -0,0 +1,110 @@
+/**
+ * Scenario Chart
+ *
+ * Line chart overlaying every scenario's monthly revenue, net income or cash.
+ */
+
+import { useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ReferenceLine } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GitCompareArrows } from "lucide-react";
+import type { ScenarioResult } from "@/lib/scenarios";
+import type { StatementPeriod } from "@/lib/financialStatements";
+import { formatCompact } from "../types";
+
+interface ScenarioChartProps {
+  results: ScenarioResult[];
+  className?: string;
+}
+
+const METRICS: Record<string, { label: string; value: (month: StatementPeriod) => number }> = {
+  revenue: { label: "Revenue", value: (month) => month.incomeStatement.revenue },
+  netIncome: { label: "Net income", value: (month) => month.incomeStatement.netIncome },
+  cash: { label: "Cash", value: (month) => month.cashFlow.closingCash },
+};
+
+const ScenarioChart = ({ results, className }: ScenarioChartProps) => {
+  const [metric, setMetric] = useState("revenue");
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    results.map((result, index) => [
+      result.scenario.id,
+      { label: result.scenario.name || `Scenario ${index + 1}`, color: `hsl(var(--chart-${(index % 5) + 1}))` },
+    ])
+  );
+
+  const months = results[0]?.statements.months ?? [];
+  const chartData = months.map((month, index) => ({
+    month: `M${month.period}`,
+    ...Object.fromEntries(
+      results.map((result) => [result.scenario.id, Math.round(METRICS[metric].value(result.statements.months[index]))])
+    ),
+  }));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompareArrows className="h-5 w-5" />
+              Scenarios Compared
+            </CardTitle>
+            <CardDescription>{METRICS[metric].label} by month for each scenario</CardDescription>
+          </div>
+          <Tabs value={metric} onValueChange={setMetric}>
+            <TabsList>
+              {Object.entries(METRICS).map(([key, { label }]) => (
+                <TabsTrigger key={key} value={key}>
+                  {label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-[300px] w-full">
+          <LineChart data={chartData} accessibilityLayer>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} interval={5} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => formatCompact(value)}
+              width={60}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <span>
+                      {name}: {formatCompact(value as number)}
+                    </span>
+                  )}
+                />
+              }
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+            {results.map((result) => (
+              <Line
+                key={result.scenario.id}
+                type="monotone"
+                dataKey={result.scenario.id}
+                stroke={`var(--color-${result.scenario.id})`}
+                strokeWidth={2}
+                dot={false}
+                name={String(chartConfig[result.scenario.id].label)}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScenarioChart;
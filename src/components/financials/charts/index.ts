@@ -7,4 +7,6 @@
 export { default as RevenueExpenseChart } from "./RevenueExpenseChart";
 export { default as UseOfFundsPieChart } from "./UseOfFundsPieChart";
 export { default as ProfitMarginChart } from "./ProfitMarginChart";
-
+export { default as ScenarioChart } from "./ScenarioChart";
+export { default as BreakEvenChart } from "./BreakEvenChart";
+export { default as DilutionChart } from "./DilutionChart";
@@ -1,6 +1,6 @@
 import { Suspense, lazy, useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Moon, Sun, Settings, Download, Trash2, Loader2, RefreshCw, Bot, HardDrive } from "lucide-react";
+import { Moon, Sun, Settings, Download, Trash2, Loader2, RefreshCw, Bot, HardDrive, History, Lock } from "lucide-react";
 import { useTheme } from "next-themes";
 import {
   DropdownMenu,
@@ -21,8 +21,20 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useStorageMonitor } from "@/hooks/useStorageMonitor";
+import { BACKUP_DOMAIN_IDS, deleteDomain, getStorageKey, readDomainRaw } from "@/lib/storageRegistry";
+import { saveSnapshot } from "@/lib/snapshots";
+import { recordChange } from "@/lib/undoHistory";
+import { isWorkspaceLockEnabled } from "@/lib/workspaceLock";
 import AISettingsDialog from "@/components/AISettingsDialog";
+import WorkspaceLockDialog from "@/components/WorkspaceLockDialog";
 import StorageUsageDialog from "@/components/StorageUsageDialog";
+import VersionHistoryDialog from "@/components/VersionHistoryDialog";
+import UndoHistoryPopover from "@/components/UndoHistoryPopover";
+import SyncConflictIndicator from "@/components/SyncConflictIndicator";
+import ProjectSwitcher from "./ProjectSwitcher";
+
+/** Version history snapshot taken before "Clear all data" */
+const CLEAR_ALL_SNAPSHOT_NAME = "Before clearing all data";
 
 // Lazy load AssetManager
 const AssetManager = lazy(() => import("@/components/AssetManager"));
@@ -38,10 +50,20 @@ const Header = () => {
   const storage = useStorageMonitor();
   const [showClearDialog, setShowClearDialog] = useState(false);
   const [showAISettings, setShowAISettings] = useState(false);
+  const [showWorkspaceLock, setShowWorkspaceLock] = useState(false);
+  const [isLockEnabled, setIsLockEnabled] = useState(isWorkspaceLockEnabled);
   const [showStorageUsage, setShowStorageUsage] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [canInstall, setCanInstall] = useState(false);
 
+  // Keep the lock status in the menu current
+  useEffect(() => {
+    const handleChange = () => setIsLockEnabled(isWorkspaceLockEnabled());
+    window.addEventListener("workspaceLockChanged", handleChange);
+    return () => window.removeEventListener("workspaceLockChanged", handleChange);
+  }, []);
+
   // Listen for PWA install prompt
   useEffect(() => {
     const handler = (e: Event) => {
@@ -71,29 +93,39 @@ const Header = () => {
     setCanInstall(false);
   };
 
-  const handleClearAllData = () => {
-    // Get all Mizzie-related localStorage keys
-    const keysToRemove = [
-      'businessModelCanvas',
-      'businessPlan',
-      'pitchDeck',
-      'roadmap',
-      'orgChart',
-      'checklist',
-      'forecasting',
-      'brandAssets',
-      'brandColors',
-      'companyLogo',
-      'swotAnalysis',
-      'portersFiveForces',
-      'nameChecker',
-    ];
-
-    keysToRemove.forEach(key => localStorage.removeItem(key));
+  const handleClearAllData = async () => {
+    // Snapshot first: unlike the undo history it survives the reload and closing the tab
+    try {
+      await saveSnapshot(CLEAR_ALL_SNAPSHOT_NAME);
+    } catch (error) {
+      console.error("[Header] Snapshot before clearing failed:", error);
+      toast({
+        title: "Couldn't clear project data",
+        description: "A backup snapshot couldn't be saved, so nothing was deleted.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Also let Ctrl+Z bring it back while the history lasts
+    recordChange(
+      "Clear all data",
+      BACKUP_DOMAIN_IDS.map(domain => ({ key: getStorageKey(domain), before: readDomainRaw(domain), after: null })),
+      { reload: true }
+    );
+
+    // Remove the active project's business data from localStorage and IndexedDB
+    // (version history is kept so the reset can be rolled back)
+    const results = await Promise.allSettled(BACKUP_DOMAIN_IDS.map(domain => deleteDomain(domain)));
+    const failed = results.filter(result => result.status === "rejected");
+    if (failed.length > 0) {
+      console.error("[Header] Clear all data failed:", failed);
+    }
 
     toast({
-      title: "All data cleared",
-      description: "Your business plan has been reset. Refreshing...",
+      title: failed.length > 0 ? "Some project data wasn't cleared" : "Project data cleared",
+      description: `Restore "${CLEAR_ALL_SNAPSHOT_NAME}" in Version History to undo. Refreshing...`,
+      ...(failed.length > 0 ? { variant: "destructive" as const } : {}),
     });
 
     // Reload to reset all components
@@ -160,6 +192,11 @@ const Header = () => {
             className="flex items-center gap-1.5 md:gap-2"
             aria-label="Main actions"
           >
+            <SyncConflictIndicator />
+            <UndoHistoryPopover />
+
+            <ProjectSwitcher />
+
             <Suspense
               fallback={
                 <div className="h-9 w-9 flex items-center justify-center">
@@ -196,6 +233,16 @@ const Header = () => {
                   AI Settings
                   <span className="ml-auto text-xs text-muted-foreground">Mizzie</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowWorkspaceLock(true)}>
+                  <Lock className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Workspace Lock
+                  <span className="ml-auto text-xs text-muted-foreground">{isLockEnabled ? "On" : "Off"}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowVersionHistory(true)}>
+                  <History className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Version History
+                  <span className="ml-auto text-xs text-muted-foreground">Snapshots</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setShowStorageUsage(true)}>
                   <HardDrive className="h-4 w-4 mr-2" aria-hidden="true" />
                   Storage Usage
@@ -247,11 +294,12 @@ const Header = () => {
       <AlertDialog open={showClearDialog} onOpenChange={setShowClearDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Clear all data?</AlertDialogTitle>
+            <AlertDialogTitle>Clear all data in this project?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete all your business plan data including your canvas,
-              pitch deck, roadmap, org chart, and all other saved information.
-              This action cannot be undone.
+              This will permanently delete all business plan data in the current project including
+              your canvas, pitch deck, roadmap, org chart, and all other saved information.
+              Your other projects are not affected. A snapshot is saved to Version History first, so you
+              can restore it later.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -268,9 +316,13 @@ const Header = () => {
 
       {/* AI Settings Dialog */}
       <AISettingsDialog open={showAISettings} onOpenChange={setShowAISettings} />
+      <WorkspaceLockDialog open={showWorkspaceLock} onOpenChange={setShowWorkspaceLock} />
 
       {/* Storage Usage Dialog */}
       <StorageUsageDialog open={showStorageUsage} onOpenChange={setShowStorageUsage} />
+
+      {/* Version History Dialog */}
+      <VersionHistoryDialog open={showVersionHistory} onOpenChange={setShowVersionHistory} />
     </header>
   );
 };
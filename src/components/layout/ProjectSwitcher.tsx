@@ -0,0 +1,429 @@
+/**
+ * Project switcher for the header: switch, create, duplicate, rename, archive,
+ * delete, export and import business projects
+ */
+import { useState, useEffect, useRef } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  ChevronDown,
+  Copy,
+  Download,
+  FolderCog,
+  FolderOpen,
+  Lock,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ImportBackupDialog from "@/components/ImportBackupDialog";
+import BackupPasswordDialog, { type BackupPasswordMode } from "@/components/BackupPasswordDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  loadProjects,
+  renameProject,
+  setProjectArchived,
+  switchProject,
+} from "@/lib/projects";
+import { exportAllData, isEncryptedBackupFile, readBackupFile, type ExportScope } from "@/lib/exportUtils";
+import { planImport, type ImportPlan } from "@/lib/importPlan";
+import type { Project, ProjectsData } from "@/lib/validators";
+
+type NameDialogMode = "create" | "duplicate" | "rename";
+
+interface NameDialogState {
+  mode: NameDialogMode;
+  project?: Project;
+  value: string;
+}
+
+const NAME_DIALOG_COPY: Record<NameDialogMode, { title: string; description: string; action: string }> = {
+  create: {
+    title: "New project",
+    description: "Start a blank business plan. Your current project stays as it is.",
+    action: "Create & open",
+  },
+  duplicate: {
+    title: "Duplicate project",
+    description: "Copy every section of this project into a new one.",
+    action: "Duplicate & open",
+  },
+  rename: {
+    title: "Rename project",
+    description: "Give this project a new name.",
+    action: "Rename",
+  },
+};
+
+const ProjectSwitcher = () => {
+  const { toast } = useToast();
+  const [{ activeProjectId, projects }, setProjectsData] = useState<ProjectsData>(loadProjects);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [showManager, setShowManager] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Project | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [passwordMode, setPasswordMode] = useState<BackupPasswordMode | null>(null);
+  const [protectedFile, setProtectedFile] = useState<File | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProject = projects.find((project) => project.id === activeProjectId) ?? projects[0];
+  const openProjects = projects.filter((project) => !project.archived);
+
+  // Keep the list in sync with changes made elsewhere (e.g. importing a backup)
+  useEffect(() => {
+    const handleChange = () => setProjectsData(loadProjects());
+    window.addEventListener("projectsChanged", handleChange);
+    return () => window.removeEventListener("projectsChanged", handleChange);
+  }, []);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const openProject = (project: Project) => {
+    if (project.id === activeProjectId) return;
+
+    switchProject(project.id);
+    toast({
+      title: `Opening "${project.name}"`,
+      description: "Loading project data...",
+    });
+
+    // Reload so every tab reads the new project's data
+    setTimeout(() => window.location.reload(), 500);
+  };
+
+  const handleNameSubmit = async () => {
+    if (!nameDialog) return;
+    const { mode, project, value } = nameDialog;
+
+    try {
+      if (mode === "rename" && project) {
+        renameProject(project.id, value);
+        toast({ title: "Project renamed" });
+      } else if (mode === "duplicate" && project) {
+        openProject(await duplicateProject(project.id, value.trim() || undefined));
+      } else {
+        openProject(createProject(value));
+      }
+      setNameDialog(null);
+    } catch (error) {
+      showError(`Couldn't ${mode} project`, error);
+    }
+  };
+
+  const handleArchive = (project: Project, archived: boolean) => {
+    try {
+      setProjectArchived(project.id, archived);
+      toast({ title: archived ? `"${project.name}" archived` : `"${project.name}" restored` });
+    } catch (error) {
+      showError(`Couldn't ${archived ? "archive" : "restore"} project`, error);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    try {
+      deleteProject(deleteTarget.id);
+      toast({ title: `"${deleteTarget.name}" deleted` });
+    } catch (error) {
+      showError("Couldn't delete project", error);
+    }
+    setDeleteTarget(null);
+  };
+
+  const handleExport = async (scope: ExportScope, password?: string) => {
+    try {
+      await exportAllData(scope, password);
+      toast({
+        title: password ? "Encrypted backup downloaded" : "Backup downloaded",
+        description: scope === "all" ? `Exported ${projects.length} projects` : `Exported "${activeProject.name}"`,
+      });
+      return true;
+    } catch (error) {
+      showError("Export failed", error);
+      return false;
+    }
+  };
+
+  const handleImportFile = async (file: File, password?: string) => {
+    try {
+      if (!password && (await isEncryptedBackupFile(file))) {
+        setProtectedFile(file);
+        setPasswordMode("import");
+        return;
+      }
+      setImportPlan(planImport(await readBackupFile(file, password)));
+      setPasswordMode(null);
+    } catch (error) {
+      showError("Import failed", error);
+    }
+  };
+
+  const handlePasswordSubmit = async (password: string, scope: ExportScope) => {
+    if (passwordMode === "export") {
+      if (await handleExport(scope, password)) setPasswordMode(null);
+    } else if (protectedFile) {
+      await handleImportFile(protectedFile, password);
+    }
+  };
+
+  const nameCopy = nameDialog ? NAME_DIALOG_COPY[nameDialog.mode] : null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 px-2 md:px-3 max-w-[9rem] md:max-w-[14rem]"
+            aria-label={`Current project: ${activeProject.name}. Switch project`}
+          >
+            <FolderOpen className="h-4 w-4 shrink-0 md:mr-2" aria-hidden="true" />
+            <span className="hidden sm:inline truncate">{activeProject.name}</span>
+            <ChevronDown className="h-3 w-3 ml-1 shrink-0 opacity-60" aria-hidden="true" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          {openProjects.map((project) => (
+            <DropdownMenuItem key={project.id} onClick={() => openProject(project)}>
+              <Check
+                className={`h-4 w-4 mr-2 ${project.id === activeProjectId ? "opacity-100" : "opacity-0"}`}
+                aria-hidden="true"
+              />
+              <span className="truncate">{project.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setNameDialog({ mode: "create", value: "" })}>
+            <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+            New Project
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              setNameDialog({ mode: "duplicate", project: activeProject, value: `${activeProject.name} (Copy)` })
+            }
+          >
+            <Copy className="h-4 w-4 mr-2" aria-hidden="true" />
+            Duplicate Project
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setNameDialog({ mode: "rename", project: activeProject, value: activeProject.name })}
+          >
+            <Pencil className="h-4 w-4 mr-2" aria-hidden="true" />
+            Rename Project
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowManager(true)}>
+            <FolderCog className="h-4 w-4 mr-2" aria-hidden="true" />
+            Manage Projects
+            <span className="ml-auto text-xs text-muted-foreground">{projects.length}</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleExport("project")}>
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            Export This Project
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("all")}>
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            Export All Projects
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setPasswordMode("export")}>
+            <Lock className="h-4 w-4 mr-2" aria-hidden="true" />
+            Export Encrypted Backup...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => importInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" aria-hidden="true" />
+            Import Backup...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".zip,.json,.mizzie,application/zip,application/json"
+        className="hidden"
+        aria-hidden="true"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) handleImportFile(file);
+        }}
+      />
+
+      <ImportBackupDialog plan={importPlan} onOpenChange={(open) => !open && setImportPlan(null)} />
+
+      <BackupPasswordDialog
+        mode={passwordMode}
+        fileName={protectedFile?.name}
+        onOpenChange={(open) => !open && setPasswordMode(null)}
+        onSubmit={handlePasswordSubmit}
+      />
+
+      {/* Create / Duplicate / Rename Dialog */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameCopy?.title}</DialogTitle>
+            <DialogDescription>{nameCopy?.description}</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-2 py-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleNameSubmit();
+            }}
+          >
+            <Label htmlFor="project-name">Project name</Label>
+            <Input
+              id="project-name"
+              autoFocus
+              placeholder="e.g., Coffee Cart Co."
+              value={nameDialog?.value ?? ""}
+              onChange={(event) => setNameDialog((current) => current && { ...current, value: event.target.value })}
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleNameSubmit}>{nameCopy?.action}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manage Projects Dialog */}
+      <Dialog open={showManager} onOpenChange={setShowManager}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FolderCog className="h-5 w-5" />
+              Manage Projects
+            </DialogTitle>
+            <DialogDescription>
+              Each project keeps its own canvas, plan, financials, brand, name checks, team, roadmap and tasks.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="divide-y divide-border max-h-[50vh] overflow-y-auto">
+            {projects.map((project) => {
+              const isActive = project.id === activeProjectId;
+              return (
+                <li key={project.id} className="flex items-center gap-2 py-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">{project.name}</span>
+                      {isActive && <Badge variant="secondary">Current</Badge>}
+                      {project.archived && <Badge variant="outline">Archived</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Updated {new Date(project.updatedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {!isActive && (
+                    <Button variant="ghost" size="sm" onClick={() => openProject(project)}>
+                      Open
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setNameDialog({ mode: "rename", project, value: project.name })}
+                    aria-label={`Rename ${project.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleArchive(project, !project.archived)}
+                    disabled={isActive}
+                    aria-label={project.archived ? `Restore ${project.name}` : `Archive ${project.name}`}
+                  >
+                    {project.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => setDeleteTarget(project)}
+                    disabled={isActive}
+                    aria-label={`Delete ${project.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Project Confirmation Dialog */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the project and all of its data. Export it first if you
+              might need it later. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ProjectSwitcher;
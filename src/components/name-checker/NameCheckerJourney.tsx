@@ -27,8 +27,7 @@ import {
 import ComparisonView from "./ComparisonView";
 import type { NameCheckerData, StationProps } from "./types";
 import type { SavedBrandName } from "@/lib/validators/schemas";
-
-const STORAGE_KEY = "nameChecker";
+import { readDomainRaw, removeDomain, writeDomainRaw } from "@/lib/storageRegistry";
 
 // Default initial state
 const createInitialSearch = (name: string = ""): SavedBrandName => ({
@@ -65,7 +64,7 @@ interface NameCheckerJourneyProps {
 // Load saved state from localStorage
 const loadSavedState = () => {
   try {
-    const saved = localStorage.getItem(STORAGE_KEY);
+    const saved = readDomainRaw("nameChecker");
     if (saved) {
       const parsed = JSON.parse(saved);
       return {
@@ -120,7 +119,7 @@ const NameCheckerJourney = ({
       currentStation,
       completedStations: Array.from(completedStations),
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    writeDomainRaw("nameChecker", JSON.stringify(state));
   }, [currentSearch, data, currentStation, completedStations, isLoading]);
 
   const stationConfig = getStationConfig(currentStation);
@@ -180,7 +179,7 @@ const NameCheckerJourney = ({
 
   // Full reset - clears everything (for settings/troubleshooting)
   const resetJourney = () => {
-    localStorage.removeItem(STORAGE_KEY);
+    removeDomain("nameChecker");
     setCurrentSearch(createInitialSearch());
     setData(createInitialData());
     setCompletedStations(new Set());
@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef } from "react";
-import { type ForecastData } from "@/lib/validators/schemas";
+import { type YearlyProjection } from "@/lib/validators/schemas";
 import { getBrandColors, type BrandColors } from "@/lib/assetManager";
 
 interface FinancialChartVisualProps {
-  data: ForecastData;
+  /** Yearly totals, computed by getProjections */
+  projections: YearlyProjection[];
 }
 
 // Helper to format large numbers properly
@@ -23,7 +24,7 @@ const formatCurrency = (value: number): string => {
   }
 };
 
-const FinancialChartVisual = ({ data }: FinancialChartVisualProps) => {
+const FinancialChartVisual = ({ projections }: FinancialChartVisualProps) => {
   const [brandColors, setBrandColors] = useState<BrandColors>({
     primary: "#f97316",
     secondary: "#6366f1",
@@ -63,16 +64,8 @@ const FinancialChartVisual = ({ data }: FinancialChartVisualProps) => {
     };
   }, []);
 
-  // Parse financial data
-  const years = [
-    { year: 1, revenue: parseFloat(data.year1Revenue) || 0, expenses: parseFloat(data.year1Expenses) || 0 },
-    { year: 2, revenue: parseFloat(data.year2Revenue) || 0, expenses: parseFloat(data.year2Expenses) || 0 },
-    { year: 3, revenue: parseFloat(data.year3Revenue) || 0, expenses: parseFloat(data.year3Expenses) || 0 },
-    { year: 5, revenue: parseFloat(data.year5Revenue) || 0, expenses: parseFloat(data.year5Expenses) || 0 },
-    { year: 10, revenue: parseFloat(data.year10Revenue) || 0, expenses: parseFloat(data.year10Expenses) || 0 },
-    { year: 15, revenue: parseFloat(data.year15Revenue) || 0, expenses: parseFloat(data.year15Expenses) || 0 },
-    { year: 25, revenue: parseFloat(data.year25Revenue) || 0, expenses: parseFloat(data.year25Expenses) || 0 },
-  ];
+  // Yearly figures to plot
+  const years = projections.map(({ year, revenue, expenses }) => ({ year, revenue, expenses }));
 
   const maxValue = Math.max(...years.map(y => Math.max(y.revenue, y.expenses)), 1);
   const hasData = years.some(y => y.revenue > 0 || y.expenses > 0);
@@ -1,9 +1,10 @@
 import { useState, useEffect } from "react";
-import { type ForecastData } from "@/lib/validators/schemas";
+import { type YearlyProjection } from "@/lib/validators/schemas";
 import { getBrandColors, type BrandColors } from "@/lib/assetManager";
 
 interface GrowthMountainVisualProps {
-  data: ForecastData;
+  /** Yearly totals, computed by getProjections */
+  projections: YearlyProjection[];
 }
 
 const formatCurrency = (value: number): string => {
@@ -41,7 +42,7 @@ const hexToHSL = (hex: string): { h: number; s: number; l: number } => {
   return { h: Math.round(h * 360), s: Math.round(s * 100), l: Math.round(l * 100) };
 };
 
-const GrowthMountainVisual = ({ data }: GrowthMountainVisualProps) => {
+const GrowthMountainVisual = ({ projections }: GrowthMountainVisualProps) => {
   const [brandColors, setBrandColors] = useState<BrandColors>({
     primary: "#f97316",
     secondary: "#6366f1",
@@ -68,16 +69,8 @@ const GrowthMountainVisual = ({ data }: GrowthMountainVisualProps) => {
     };
   }, []);
 
-  // Parse financial data for display
-  const years = [
-    { year: 1, revenue: parseFloat(data.year1Revenue) || 0, expenses: parseFloat(data.year1Expenses) || 0 },
-    { year: 2, revenue: parseFloat(data.year2Revenue) || 0, expenses: parseFloat(data.year2Expenses) || 0 },
-    { year: 3, revenue: parseFloat(data.year3Revenue) || 0, expenses: parseFloat(data.year3Expenses) || 0 },
-    { year: 5, revenue: parseFloat(data.year5Revenue) || 0, expenses: parseFloat(data.year5Expenses) || 0 },
-    { year: 10, revenue: parseFloat(data.year10Revenue) || 0, expenses: parseFloat(data.year10Expenses) || 0 },
-    { year: 15, revenue: parseFloat(data.year15Revenue) || 0, expenses: parseFloat(data.year15Expenses) || 0 },
-    { year: 25, revenue: parseFloat(data.year25Revenue) || 0, expenses: parseFloat(data.year25Expenses) || 0 },
-  ];
+  // Yearly figures to display
+  const years = projections.map(({ year, revenue, expenses }) => ({ year, revenue, expenses }));
 
   const maxRevenue = Math.max(...years.map(y => y.revenue), 1);
 
@@ -0,0 +1,78 @@
+/**
+ * Hook running a "Draft with AI" request and holding its candidates until the
+ * user accepts, edits or discards them
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { draftCandidates, type DraftCandidate, type DraftTarget } from "@/lib/aiDrafts";
+
+interface UseAIDraftResult {
+  candidates: DraftCandidate[];
+  isDrafting: boolean;
+  /** Model download progress while WebLLM loads, 0-100 */
+  loadingProgress: number;
+  draft: () => Promise<void>;
+  stop: () => void;
+  /** Replace a candidate with an edited copy */
+  updateCandidate: (candidate: DraftCandidate) => void;
+  /** Remove candidates from the tray (after accepting or discarding them) */
+  dismiss: (ids: string[]) => void;
+}
+
+export const useAIDraft = (target: DraftTarget): UseAIDraftResult => {
+  const [candidates, setCandidates] = useState<DraftCandidate[]>([]);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [loadingProgress, setLoadingProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop drafting if the editor closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const draft = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setCandidates([]);
+    setIsDrafting(true);
+
+    try {
+      const drafted = await draftCandidates(target, {
+        signal: controller.signal,
+        onCandidate: (candidate) => setCandidates((current) => [...current, candidate]),
+        onProgress: (progress) => setLoadingProgress(progress),
+      });
+      if (drafted.length === 0 && !controller.signal.aborted) {
+        toast({
+          title: "No suggestions",
+          description: "Mizzie couldn't draft anything new. Add more to your plan and try again.",
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`[useAIDraft] Drafting ${target} failed:`, error);
+      toast({
+        title: "Couldn't draft suggestions",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsDrafting(false);
+        setLoadingProgress(0);
+      }
+    }
+  }, [target]);
+
+  const stop = useCallback(() => abortRef.current?.abort(), []);
+
+  const updateCandidate = useCallback((candidate: DraftCandidate) => {
+    setCandidates((current) => current.map((existing) => (existing.id === candidate.id ? candidate : existing)));
+  }, []);
+
+  const dismiss = useCallback((ids: string[]) => {
+    setCandidates((current) => current.filter((candidate) => !ids.includes(candidate.id)));
+  }, []);
+
+  return { candidates, isDrafting, loadingProgress, draft, stop, updateCandidate, dismiss };
+};
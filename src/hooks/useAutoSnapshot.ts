@@ -0,0 +1,54 @@
+/**
+ * Hook that autosaves a version history snapshot after significant edits
+ */
+import { useEffect } from "react";
+import {
+  BACKUP_DOMAIN_IDS,
+  STORAGE_DOMAIN_CHANGED_EVENT,
+  getActiveProjectId,
+  type StorageDomainChangedDetail,
+} from "@/lib/storageRegistry";
+import { autoSnapshotIfNeeded } from "@/lib/snapshots";
+
+/** Wait for editing to pause before comparing against the last snapshot */
+const AUTO_SNAPSHOT_IDLE_MS = 60 * 1000;
+
+export function useAutoSnapshot(idleMs: number = AUTO_SNAPSHOT_IDLE_MS): void {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const takeSnapshot = () => {
+      timer = null;
+      try {
+        autoSnapshotIfNeeded();
+      } catch (error) {
+        console.error("[useAutoSnapshot] Failed to autosave snapshot:", error);
+      }
+    };
+
+    const handleChange = (event: Event) => {
+      const { domain, projectId, remote } = (event as CustomEvent<StorageDomainChangedDetail>).detail;
+      // Ignore writes to the history itself, to other projects, and edits other tabs snapshot themselves
+      if (remote || !BACKUP_DOMAIN_IDS.includes(domain) || projectId !== getActiveProjectId()) return;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(takeSnapshot, idleMs);
+    };
+
+    // Catch edits made just before the tab is closed
+    const handleBeforeUnload = () => {
+      if (timer) {
+        clearTimeout(timer);
+        takeSnapshot();
+      }
+    };
+
+    window.addEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener(STORAGE_DOMAIN_CHANGED_EVENT, handleChange);
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+    };
+  }, [idleMs]);
+}
@@ -1,18 +1,9 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { BACKUP_DOMAIN_IDS, readDomainRaw, type StorageDomainId } from '@/lib/storageRegistry';
 
-interface BackupData {
-  canvas?: string;
-  pitchDeck?: string;
-  roadmap?: string;
-  orgChart?: string;
-  checklist?: string;
-  forecasting?: string;
-  brandAssets?: string;
-  marketResearch?: string;
-  swot?: string;
-  porters?: string;
+type BackupData = Partial<Record<StorageDomainId, string>> & {
   timestamp: string;
-}
+};
 
 interface UseBackgroundSyncResult {
   /** Whether background sync is supported */
@@ -41,20 +32,13 @@ export function useBackgroundSync(): UseBackgroundSyncResult {
   const triggerBackupInternal = useCallback(async () => {
     if (!navigator.serviceWorker.controller) return;
 
-    // Collect all data from localStorage
+    // Collect every registered domain from localStorage
     const backupData: BackupData = {
-      canvas: localStorage.getItem('mizzie-canvas') || undefined,
-      pitchDeck: localStorage.getItem('mizzie-pitch-deck') || undefined,
-      roadmap: localStorage.getItem('mizzie-roadmap') || undefined,
-      orgChart: localStorage.getItem('mizzie-org-chart') || undefined,
-      checklist: localStorage.getItem('mizzie-checklist') || undefined,
-      forecasting: localStorage.getItem('mizzie-forecasting') || undefined,
-      brandAssets: localStorage.getItem('mizzie-brand-assets') || undefined,
-      marketResearch: localStorage.getItem('mizzie-market-research') || undefined,
-      swot: localStorage.getItem('mizzie-swot') || undefined,
-      porters: localStorage.getItem('mizzie-porters') || undefined,
       timestamp: new Date().toISOString(),
     };
+    for (const domain of BACKUP_DOMAIN_IDS) {
+      backupData[domain] = readDomainRaw(domain) || undefined;
+    }
 
     // Send to service worker for storage
     navigator.serviceWorker.controller.postMessage({
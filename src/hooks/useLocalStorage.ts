@@ -1,5 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { z } from "zod";
+import {
+  STORAGE_REGISTRY,
+  findDomainByKey,
+  getDomainAdapter,
+  getStorageKey,
+  migrateLegacyKeys,
+  notifyDomainChanged,
+  type DomainValue,
+  type StorageDomainId,
+} from "@/lib/storageRegistry";
+import { migrateFromLocalStorage, type StorageAdapter } from "@/lib/storageAdapter";
+import { recordChange, registerHistoryTarget } from "@/lib/undoHistory";
+import {
+  announceEditing,
+  clearConflict,
+  publishChange,
+  reportConflict,
+  subscribeToKey,
+} from "@/lib/crossTabSync";
+import { getChangedPaths, mergeThreeWay } from "@/lib/jsonDiff";
+import { readLocal, writeLocal } from "@/lib/workspaceVault";
 
 interface UseLocalStorageOptions<T> {
   /** Zod schema for validation - accepts any schema that outputs T */
@@ -12,72 +33,161 @@ interface UseLocalStorageOptions<T> {
   onSaveSuccess?: () => void;
   /** Callback on load/parse error */
   onError?: (error: Error) => void;
+  /** Async storage backend (e.g. IndexedDB); omit for synchronous localStorage */
+  adapter?: StorageAdapter;
+  /** Undo history label for setter calls that don't pass their own */
+  historyLabel?: string;
 }
 
+/**
+ * Setter that also records the change in the undo history.
+ * Pass a label (e.g. "Delete milestone") to name the action in the history popover.
+ */
+export type HistorySetter<T> = (value: React.SetStateAction<T>, label?: string) => void;
+
 /**
  * Custom hook for localStorage with:
  * - Safe JSON parsing with try-catch
  * - Optional Zod schema validation
  * - Optional data migration for old formats
  * - Debounced auto-save
+ * - Optional async adapter (IndexedDB) with transparent migration from localStorage
+ * - Setter changes recorded in the app-wide undo history
+ * - Live sync with other instances of the key and other tabs (see crossTabSync)
  * - Type safety
  */
 export function useLocalStorage<T>(
   key: string,
   defaultValue: T,
   options: UseLocalStorageOptions<T> = {}
-): [T, React.Dispatch<React.SetStateAction<T>>, { save: () => void; isLoading: boolean }] {
-  const { schema, debounceMs = 0, migrate, onSaveSuccess, onError } = options;
+): [T, HistorySetter<T>, { save: () => void; isLoading: boolean }] {
+  const { schema, debounceMs = 0, migrate, onSaveSuccess, onError, adapter, historyLabel = `Edit ${key}` } = options;
   const [data, setData] = useState<T>(defaultValue);
   const [isLoading, setIsLoading] = useState(true);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isInitialMount = useRef(true);
+  // Last value written to (or read from) storage: the "before" of the next history entry
+  const lastSavedRef = useRef<string | null>(null);
+  // Label of setter calls not yet saved; null when the pending change isn't a user edit
+  const pendingLabelRef = useRef<string | null>(null);
+  const defaultValueRef = useRef(defaultValue);
+  defaultValueRef.current = defaultValue;
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  // Identifies this instance so its own saves aren't synced back to it
+  const instanceIdRef = useRef<string>("");
+  if (!instanceIdRef.current) instanceIdRef.current = crypto.randomUUID();
 
-  // Load from localStorage on mount
+  // Load from storage on mount
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(key);
-      if (saved) {
-        let parsed = JSON.parse(saved);
-
-        // Apply migration function if provided
-        if (migrate) {
-          parsed = migrate(parsed);
-        }
+    let cancelled = false;
 
-        // Validate with Zod schema if provided
-        if (schema) {
-          const result = schema.safeParse(parsed);
-          if (result.success) {
-            setData(result.data);
-          } else {
-            console.warn(`[useLocalStorage] Validation failed for "${key}":`, result.error.errors);
-            onError?.(new Error(`Validation failed: ${result.error.message}`));
-            // Keep default value
-          }
-        } else {
-          setData(parsed);
-        }
-      }
-    } catch (error) {
+    const reportError = (error: unknown) => {
       console.error(`[useLocalStorage] Failed to load "${key}":`, error);
       onError?.(error instanceof Error ? error : new Error(String(error)));
       // Keep default value on error
-    } finally {
-      setIsLoading(false);
+    };
+
+    const applySaved = (saved: string | null) => {
+      lastSavedRef.current = saved;
+      if (!saved) return;
+      const result = decodeSaved(saved, schema, migrate);
+      if (result.success) {
+        setData(result.data);
+      } else {
+        console.warn(`[useLocalStorage] Validation failed for "${key}":`, result.error.errors);
+        onError?.(new Error(`Validation failed: ${result.error.message}`));
+        // Keep default value
+      }
+    };
+
+    // Pick up data stored under a registered domain's legacy keys
+    const migrateLegacy = () => {
+      const domain = findDomainByKey(key);
+      if (domain) {
+        migrateLegacyKeys(domain);
+      }
+    };
+
+    if (!adapter || adapter.kind === "localStorage") {
+      try {
+        migrateLegacy();
+        applySaved(readLocal(key));
+      } catch (error) {
+        reportError(error);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
     }
-  }, [key, schema, migrate, onError]);
 
-  // Save function
-  const saveToStorage = useCallback(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(data));
-      onSaveSuccess?.();
-    } catch (error) {
+    const loadAsync = async () => {
+      try {
+        migrateLegacy();
+        // Data written before this key moved off localStorage is carried over on first load
+        await migrateFromLocalStorage(adapter, key);
+        const saved = await adapter.getItem(key);
+        if (!cancelled) applySaved(saved);
+      } catch (error) {
+        if (!cancelled) reportError(error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadAsync();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, schema, migrate, onError, adapter]);
+
+  // Save function (skips unchanged values unless forced)
+  const saveToStorage = useCallback((force = false) => {
+    const reportError = (error: unknown) => {
       console.error(`[useLocalStorage] Failed to save "${key}":`, error);
       onError?.(error instanceof Error ? error : new Error(String(error)));
+    };
+
+    const serialized = JSON.stringify(data);
+    const before = lastSavedRef.current;
+    const label = pendingLabelRef.current;
+    pendingLabelRef.current = null;
+    // Nothing new to store (e.g. a value just loaded, synced or restored)
+    if (!force && serialized === before) return;
+
+    if (label !== null) {
+      recordChange(label, [{ key, before, after: serialized }]);
     }
-  }, [key, data, onSaveSuccess, onError]);
+    lastSavedRef.current = serialized;
+
+    const handleSaved = () => {
+      const domain = findDomainByKey(key);
+      if (domain) notifyDomainChanged(domain);
+      publishChange(key, serialized, {
+        fields: getChangedPaths(parseJson(before), JSON.parse(serialized)),
+        sourceId: instanceIdRef.current,
+      });
+      onSaveSuccess?.();
+    };
+
+    if (adapter && adapter.kind !== "localStorage") {
+      adapter.setItem(key, serialized).then(handleSaved, reportError);
+      return;
+    }
+
+    try {
+      writeLocal(key, serialized);
+      handleSaved();
+    } catch (error) {
+      reportError(error);
+    }
+  }, [key, data, onSaveSuccess, onError, adapter]);
+
+  // Let other tabs know which fields are being edited here
+  useEffect(() => {
+    if (pendingLabelRef.current === null) return;
+    announceEditing(key, () => getChangedPaths(parseJson(lastSavedRef.current), JSON.parse(JSON.stringify(data))));
+  }, [key, data]);
 
   // Auto-save with debounce
   useEffect(() => {
@@ -115,10 +225,164 @@ export function useLocalStorage<T>(
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
     }
-    saveToStorage();
+    saveToStorage(true);
   }, [saveToStorage]);
 
-  return [data, setData, { save, isLoading }];
+  const setValue = useCallback<HistorySetter<T>>(
+    (value, label) => {
+      pendingLabelRef.current = label ?? pendingLabelRef.current ?? historyLabel;
+      setData(value);
+    },
+    [historyLabel]
+  );
+
+  // Decode a stored value (null = nothing stored); undefined when it can't be used
+  const decodeStored = useCallback(
+    (value: string | null): T | undefined => {
+      if (value === null) return defaultValueRef.current;
+      try {
+        const result = decodeSaved(value, schema, migrate);
+        if (result.success) return result.data;
+      } catch (error) {
+        console.error(`[useLocalStorage] Failed to decode "${key}":`, error);
+      }
+      return undefined;
+    },
+    [key, schema, migrate]
+  );
+
+  // Show a value that is already stored, without saving or recording it
+  const applyStored = useCallback(
+    (value: string | null) => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
+      pendingLabelRef.current = null;
+      lastSavedRef.current = value;
+      const decoded = decodeStored(value);
+      if (decoded !== undefined) setData(decoded);
+    },
+    [decodeStored]
+  );
+
+  // Let undo/redo update this editor in place, and flush pending edits before they run
+  const saveRef = useRef(saveToStorage);
+  saveRef.current = saveToStorage;
+  useEffect(
+    () =>
+      registerHistoryTarget(key, {
+        apply: applyStored,
+        flush: () => {
+          if (debounceTimerRef.current && pendingLabelRef.current !== null) {
+            clearTimeout(debounceTimerRef.current);
+            debounceTimerRef.current = null;
+            saveRef.current();
+          }
+        },
+      }),
+    [key, applyStored]
+  );
+
+  // Pick up saves from other instances of this key and from other tabs
+  useEffect(
+    () =>
+      subscribeToKey(key, instanceIdRef.current, (change) => {
+        if (pendingLabelRef.current === null) {
+          clearConflict(key, "overwritten");
+          applyStored(change.value);
+          return;
+        }
+
+        // Unsaved edits here: keep them and fold in the other edit's changes to other fields
+        const base = decodeStored(lastSavedRef.current);
+        const theirs = decodeStored(change.value);
+        if (theirs === undefined) return;
+        const { value, conflicts } = mergeThreeWay(base, dataRef.current, theirs);
+        const merged = schema ? schema.safeParse(value) : { success: true as const, data: value as T };
+
+        lastSavedRef.current = change.value;
+        if (merged.success) setData(merged.data);
+        if (conflicts.length > 0) {
+          reportConflict({
+            key,
+            kind: "overwritten",
+            fields: conflicts,
+            useTheirs: () => {
+              clearConflict(key, "overwritten");
+              pendingLabelRef.current = "Use version from another tab";
+              setData(theirs);
+            },
+          });
+        }
+      }),
+    [key, schema, applyStored, decodeStored]
+  );
+
+  return [data, setValue, { save, isLoading }];
+}
+
+/**
+ * Parse a stored JSON string for diffing (undefined when missing or unreadable)
+ */
+const parseJson = (saved: string | null): unknown => {
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parse a stored JSON string, then migrate and validate it
+ */
+function decodeSaved<T>(
+  saved: string,
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>,
+  migrate?: (data: T) => T
+): { success: true; data: T } | { success: false; error: z.ZodError } {
+  let parsed = JSON.parse(saved);
+
+  // Apply migration function if provided
+  if (migrate) {
+    parsed = migrate(parsed);
+  }
+
+  // Validate with Zod schema if provided
+  if (schema) {
+    return schema.safeParse(parsed);
+  }
+  return { success: true, data: parsed };
+}
+
+type UseStorageDomainOptions<T> = Omit<UseLocalStorageOptions<T>, "schema"> & {
+  /** Override the registry default (e.g. seeded starter content) */
+  defaultValue?: T;
+};
+
+/**
+ * useLocalStorage bound to a domain from the storage registry,
+ * so the key, schema and default value always match backups and imports
+ */
+export function useStorageDomain<D extends StorageDomainId>(
+  domain: D,
+  options: UseStorageDomainOptions<DomainValue<D>> = {}
+) {
+  const { defaultValue, ...rest } = options;
+  const entry = STORAGE_REGISTRY[domain] as unknown as {
+    key: string;
+    label: string;
+    schema: z.ZodType<DomainValue<D>, z.ZodTypeDef, unknown>;
+    defaultValue: DomainValue<D>;
+  };
+
+  return useLocalStorage<DomainValue<D>>(getStorageKey(domain), defaultValue ?? entry.defaultValue, {
+    schema: entry.schema,
+    adapter: getDomainAdapter(domain),
+    historyLabel: `Edit ${entry.label}`,
+    ...rest,
+  });
 }
 
 export default useLocalStorage;
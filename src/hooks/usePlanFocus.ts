@@ -0,0 +1,30 @@
+/**
+ * Hook letting a tab open the phase, slide or field a focus request points at
+ */
+import { useEffect } from "react";
+import {
+  PLAN_FOCUS_EVENT,
+  focusElementWhenReady,
+  takePlanFocus,
+  type PlanFocusRequest,
+} from "@/lib/planFocus";
+
+/**
+ * @param tab - the tab this component renders
+ * @param onFocus - opens the requested phase or slide; keep it stable (useCallback)
+ */
+export const usePlanFocus = (tab: string, onFocus: (request: PlanFocusRequest) => void) => {
+  useEffect(() => {
+    const handleRequest = () => {
+      const request = takePlanFocus(tab);
+      if (!request) return;
+      onFocus(request);
+      if (request.elementId) focusElementWhenReady(request.elementId);
+    };
+
+    // A request made before the tab mounted is waiting already
+    handleRequest();
+    window.addEventListener(PLAN_FOCUS_EVENT, handleRequest);
+    return () => window.removeEventListener(PLAN_FOCUS_EVENT, handleRequest);
+  }, [tab, onFocus]);
+};
@@ -1,9 +1,12 @@
 /**
- * Hook to monitor localStorage usage and provide warnings
+ * Hook to monitor storage usage (localStorage + IndexedDB) and provide warnings
  */
 import { useState, useEffect, useCallback } from "react";
+import { STORAGE_REGISTRY, STORAGE_DOMAIN_IDS, getDomainAdapter, readDomainRaw } from "@/lib/storageRegistry";
+import { getStorageEstimate, type StorageBackend, type StorageEstimateInfo } from "@/lib/storageAdapter";
 
-// localStorage limit is typically 5MB for most browsers
+// localStorage limit is typically 5MB for most browsers (also the fallback when
+// navigator.storage.estimate() is unavailable)
 const STORAGE_LIMIT_BYTES = 5 * 1024 * 1024; // 5MB
 const WARNING_THRESHOLD = 0.8; // 80%
 const CRITICAL_THRESHOLD = 0.95; // 95%
@@ -19,6 +22,10 @@ export interface StorageInfo {
   usedFormatted: string;
   /** Human-readable limit */
   limitFormatted: string;
+  /** Whether usage/limit come from navigator.storage.estimate() or the localStorage fallback */
+  source: "estimate" | "localStorage";
+  /** Bytes still held in localStorage (capped at ~5MB regardless of quota) */
+  localStorageBytes: number;
   /** Whether usage is in warning zone (>80%) */
   isWarning: boolean;
   /** Whether usage is critical (>95%) */
@@ -29,9 +36,11 @@ export interface StorageInfo {
 
 export interface StorageBreakdown {
   key: string;
+  label: string;
   bytes: number;
   formatted: string;
   percent: number;
+  backend: StorageBackend;
 }
 
 /**
@@ -46,52 +55,40 @@ function formatBytes(bytes: number): string {
 }
 
 /**
- * Get the size of a localStorage item in bytes
+ * Get the approximate size of a stored domain in bytes
  */
-function getItemSize(key: string): number {
-  const item = localStorage.getItem(key);
-  if (!item) return 0;
-  // Each character in localStorage uses 2 bytes (UTF-16)
-  return (key.length + item.length) * 2;
+function getItemSize(key: string, value: string | null, backend: StorageBackend): number {
+  if (!value) return 0;
+  // Each character in localStorage uses 2 bytes (UTF-16);
+  // IndexedDB keeps images as binary Blobs, roughly 3/4 of their base64 length
+  return backend === "localStorage" ? (key.length + value.length) * 2 : Math.ceil(value.length * 0.75);
 }
 
 /**
- * Get total localStorage usage
+ * Get usage for every registered domain
  */
-function calculateStorageUsage(): { total: number; breakdown: StorageBreakdown[] } {
+function calculateStorageUsage(): { total: number; localStorageTotal: number; breakdown: StorageBreakdown[] } {
   let total = 0;
+  let localStorageTotal = 0;
   const breakdown: StorageBreakdown[] = [];
 
-  // Only track Mizzie-related keys
-  const mizzieKeys = [
-    "businessModelCanvas",
-    "businessPlan",
-    "pitchDeck",
-    "roadmap",
-    "orgChart",
-    "checklist",
-    "forecasting",
-    "financials",
-    "brandAssets",
-    "brandColors",
-    "companyLogo",
-    "swotAnalysis",
-    "portersFiveForces",
-    "nameChecker",
-    "marketResearch",
-    "aiSettings",
-  ];
-
-  for (const key of mizzieKeys) {
+  // Only track keys owned by the storage registry
+  for (const domain of STORAGE_DOMAIN_IDS) {
+    const { key, label } = STORAGE_REGISTRY[domain];
     try {
-      const bytes = getItemSize(key);
+      const value = readDomainRaw(domain);
+      const backend: StorageBackend = localStorage.getItem(key) !== null ? "localStorage" : getDomainAdapter(domain).kind;
+      const bytes = getItemSize(key, value, backend);
       if (bytes > 0) {
         total += bytes;
+        if (backend === "localStorage") localStorageTotal += bytes;
         breakdown.push({
           key,
+          label,
           bytes,
           formatted: formatBytes(bytes),
           percent: 0, // Will be calculated after total is known
+          backend,
         });
       }
     } catch {
@@ -107,40 +104,44 @@ function calculateStorageUsage(): { total: number; breakdown: StorageBreakdown[]
   // Sort by size descending
   breakdown.sort((a, b) => b.bytes - a.bytes);
 
-  return { total, breakdown };
+  return { total, localStorageTotal, breakdown };
 }
 
 /**
- * Hook to monitor localStorage usage
+ * Combine the registry breakdown with the browser's quota estimate (when available)
+ */
+function buildStorageInfo(estimate: StorageEstimateInfo | null): StorageInfo {
+  const { total, localStorageTotal, breakdown } = calculateStorageUsage();
+  const usedBytes = estimate ? estimate.usage : total;
+  const limitBytes = estimate ? estimate.quota : STORAGE_LIMIT_BYTES;
+  const usagePercent = (usedBytes / limitBytes) * 100;
+  // localStorage keeps its own ~5MB ceiling even when the origin quota is much larger
+  const worstPercent = Math.max(usagePercent, (localStorageTotal / STORAGE_LIMIT_BYTES) * 100);
+
+  return {
+    usedBytes,
+    limitBytes,
+    usagePercent,
+    usedFormatted: formatBytes(usedBytes),
+    limitFormatted: formatBytes(limitBytes),
+    source: estimate ? "estimate" : "localStorage",
+    localStorageBytes: localStorageTotal,
+    isWarning: worstPercent >= WARNING_THRESHOLD * 100,
+    isCritical: worstPercent >= CRITICAL_THRESHOLD * 100,
+    breakdown,
+  };
+}
+
+/**
+ * Hook to monitor storage usage
  */
 export function useStorageMonitor() {
-  const [storageInfo, setStorageInfo] = useState<StorageInfo>(() => {
-    const { total, breakdown } = calculateStorageUsage();
-    const usagePercent = (total / STORAGE_LIMIT_BYTES) * 100;
-    return {
-      usedBytes: total,
-      limitBytes: STORAGE_LIMIT_BYTES,
-      usagePercent,
-      usedFormatted: formatBytes(total),
-      limitFormatted: formatBytes(STORAGE_LIMIT_BYTES),
-      isWarning: usagePercent >= WARNING_THRESHOLD * 100,
-      isCritical: usagePercent >= CRITICAL_THRESHOLD * 100,
-      breakdown,
-    };
-  });
+  const [storageInfo, setStorageInfo] = useState<StorageInfo>(() => buildStorageInfo(null));
 
   const refresh = useCallback(() => {
-    const { total, breakdown } = calculateStorageUsage();
-    const usagePercent = (total / STORAGE_LIMIT_BYTES) * 100;
-    setStorageInfo({
-      usedBytes: total,
-      limitBytes: STORAGE_LIMIT_BYTES,
-      usagePercent,
-      usedFormatted: formatBytes(total),
-      limitFormatted: formatBytes(STORAGE_LIMIT_BYTES),
-      isWarning: usagePercent >= WARNING_THRESHOLD * 100,
-      isCritical: usagePercent >= CRITICAL_THRESHOLD * 100,
-      breakdown,
+    setStorageInfo(buildStorageInfo(null));
+    getStorageEstimate().then((estimate) => {
+      if (estimate) setStorageInfo(buildStorageInfo(estimate));
     });
   }, []);
 
@@ -165,4 +166,3 @@ export function useStorageMonitor() {
 }
 
 export { formatBytes };
-
@@ -0,0 +1,91 @@
+/**
+ * Hook exposing the app-wide undo/redo history
+ */
+import { useCallback, useSyncExternalStore } from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  getHistoryState,
+  subscribeToHistory,
+  undo as undoLast,
+  redo as redoLast,
+  undoTo as undoToEntry,
+  type HistoryEntry,
+} from "@/lib/undoHistory";
+
+interface UseUndoHistoryResult {
+  /** Undoable entries, oldest first */
+  past: HistoryEntry[];
+  /** Redoable entries, next first */
+  future: HistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  /** Undo back to (and including) an entry */
+  undoTo: (entryId: string) => Promise<void>;
+}
+
+const finish = (entries: HistoryEntry[], verb: "Undid" | "Redid") => {
+  if (entries.length === 0) return;
+
+  toast({
+    title: `${verb}: ${entries[0].label}`,
+    description: entries.length > 1 ? `and ${entries.length - 1} earlier actions` : undefined,
+  });
+
+  // Bulk actions touch data outside the mounted editors
+  if (entries.some((entry) => entry.reload)) {
+    setTimeout(() => window.location.reload(), 500);
+  }
+};
+
+const reportError = (error: unknown) => {
+  console.error("[useUndoHistory] Failed to apply history change:", error);
+  toast({
+    title: "Couldn't apply change",
+    description: "Your data was not fully restored. Please try again.",
+    variant: "destructive",
+  });
+};
+
+export function useUndoHistory(): UseUndoHistoryResult {
+  const { past, future } = useSyncExternalStore(subscribeToHistory, getHistoryState);
+
+  const undo = useCallback(async () => {
+    try {
+      const entry = await undoLast();
+      finish(entry ? [entry] : [], "Undid");
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  const redo = useCallback(async () => {
+    try {
+      const entry = await redoLast();
+      finish(entry ? [entry] : [], "Redid");
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  const undoTo = useCallback(async (entryId: string) => {
+    try {
+      finish(await undoToEntry(entryId), "Undid");
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  return {
+    past,
+    future,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undo,
+    redo,
+    undoTo,
+  };
+}
+
+export default useUndoHistory;
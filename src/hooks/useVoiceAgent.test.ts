@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { splitSentences, useVoiceAgent } from './useVoiceAgent';
+import { saveAISettings } from '@/lib/aiProvider';
+import { getVoiceSettings, type VoiceSettings } from '@/lib/voiceSettings';
+
+type MockResult = { transcript: string }[] & { isFinal: boolean };
+
+const result = (transcript: string, isFinal = true): MockResult => Object.assign([{ transcript }], { isFinal });
+
+class MockRecognition {
+  static current: MockRecognition | null = null;
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onresult: ((event: { resultIndex: number; results: MockResult[] }) => void) | null = null;
+  start() {
+    MockRecognition.current = this;
+    this.onstart?.();
+  }
+  stop() {
+    this.onend?.();
+  }
+}
+
+const voice = (name: string, lang: string) =>
+  ({ name, lang, voiceURI: name, default: false, localService: true }) as SpeechSynthesisVoice;
+
+const saveVoiceSettings = (voice: Partial<VoiceSettings>) =>
+  saveAISettings({ provider: 'webllm', voice: { ...getVoiceSettings({ provider: 'webllm' }), ...voice } });
+
+class MockUtterance {
+  text: string;
+  lang = '';
+  voice: SpeechSynthesisVoice | null = null;
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+describe('splitSentences', () => {
+  it('should split off finished sentences and keep the remainder', () => {
+    expect(splitSentences('Great idea! Your canvas looks good. Next')).toEqual({
+      sentences: ['Great idea!', 'Your canvas looks good.'],
+      rest: 'Next',
+    });
+  });
+
+  it('should wait for whitespace after punctuation before ending a sentence', () => {
+    expect(splitSentences('It costs $2.50')).toEqual({ sentences: [], rest: 'It costs $2.50' });
+    expect(splitSentences('Really?" she asked.\nOk')).toEqual({
+      sentences: ['Really?"', 'she asked.'],
+      rest: 'Ok',
+    });
+  });
+});
+
+describe('useVoiceAgent', () => {
+  const speakMock = vi.fn();
+
+  beforeEach(() => {
+    speakMock.mockReset();
+    vi.stubGlobal('SpeechSynthesisUtterance', MockUtterance);
+    vi.stubGlobal('speechSynthesis', {
+      speak: speakMock,
+      cancel: vi.fn(),
+      getVoices: () => [voice('Samantha', 'en-US'), voice('Amélie', 'fr-CA'), voice('Thomas', 'fr-FR')],
+    });
+    vi.stubGlobal('SpeechRecognition', MockRecognition);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should start speaking streamed text before the stream ends', async () => {
+    const { result } = renderHook(() => useVoiceAgent({ onTranscript: async () => '' }));
+
+    let release!: () => void;
+    const waiting = new Promise<void>((resolve) => (release = resolve));
+    async function* tokens() {
+      yield 'Hello there. ';
+      yield 'How are';
+      await waiting;
+      yield ' you?';
+    }
+
+    let done!: Promise<void>;
+    await act(async () => {
+      done = result.current.speak(tokens());
+      await Promise.resolve();
+    });
+    await vi.waitFor(() => expect(speakMock).toHaveBeenCalledTimes(1));
+    expect(speakMock.mock.calls[0][0].text).toBe('Hello there.');
+
+    await act(async () => {
+      release();
+      await done;
+    });
+    expect(speakMock.mock.calls.map(([utterance]) => utterance.text)).toEqual(['Hello there.', 'How are you?']);
+  });
+
+  it('should drop queued sentences after speech is stopped', async () => {
+    const { result } = renderHook(() => useVoiceAgent({ onTranscript: async () => '' }));
+
+    let release!: () => void;
+    const waiting = new Promise<void>((resolve) => (release = resolve));
+    async function* tokens() {
+      yield 'First. ';
+      await waiting;
+      yield 'Second.';
+    }
+
+    let done!: Promise<void>;
+    await act(async () => {
+      done = result.current.speak(tokens());
+    });
+    await vi.waitFor(() => expect(speakMock).toHaveBeenCalledTimes(1));
+
+    await act(async () => {
+      result.current.stopSpeaking();
+      release();
+      await done;
+    });
+    expect(speakMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read replies with the chosen language, voice, rate and pitch', async () => {
+    saveVoiceSettings({ language: 'fr-FR', rate: 1.2, pitch: 0.8 });
+    const { result: agent } = renderHook(() => useVoiceAgent({ onTranscript: async () => '' }));
+
+    await act(() => agent.current.speak('Bonjour.'));
+    expect(speakMock.mock.calls[0][0]).toMatchObject({ lang: 'fr-FR', rate: 1.2, pitch: 0.8 });
+    expect(speakMock.mock.calls[0][0].voice.name).toBe('Thomas');
+
+    saveVoiceSettings({ language: 'fr-FR', voiceURI: 'Amélie' });
+    await act(() => agent.current.speak('Salut.'));
+    expect(speakMock.mock.calls[1][0].voice.name).toBe('Amélie');
+  });
+
+  it('should show interim words and send everything heard after a pause', async () => {
+    vi.useFakeTimers();
+    saveVoiceSettings({ language: 'es-ES', interimResults: true });
+    const onTranscript = vi.fn(async () => 'Claro.');
+    const { result: agent } = renderHook(() => useVoiceAgent({ onTranscript }));
+
+    act(() => agent.current.startListening());
+    const recognition = MockRecognition.current!;
+    expect(recognition).toMatchObject({ lang: 'es-ES', interimResults: true, continuous: true });
+
+    act(() => recognition.onresult!({ resultIndex: 0, results: [result('Hola'), result('mi plan', false)] }));
+    expect(agent.current.interimTranscript).toBe('Hola mi plan');
+    expect(onTranscript).not.toHaveBeenCalled();
+
+    act(() => recognition.onresult!({ resultIndex: 1, results: [result('Hola'), result('mi plan es bueno')] }));
+    await act(() => vi.advanceTimersByTimeAsync(1500));
+    expect(onTranscript).toHaveBeenCalledWith('Hola mi plan es bueno');
+    expect(agent.current.interimTranscript).toBe('');
+    vi.useRealTimers();
+  });
+
+  it('should send the transcript when push to talk is released', async () => {
+    saveVoiceSettings({ mode: 'push-to-talk' });
+    const onTranscript = vi.fn(async () => 'Sure.');
+    const { result: agent } = renderHook(() => useVoiceAgent({ onTranscript }));
+
+    act(() => agent.current.startListening());
+    act(() => MockRecognition.current!.onresult!({ resultIndex: 0, results: [result('Review my plan')] }));
+    expect(onTranscript).not.toHaveBeenCalled();
+
+    await act(async () => agent.current.stopListening());
+    expect(onTranscript).toHaveBeenCalledWith('Review my plan');
+    expect(agent.current.isListening).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { useState, useRef, useCallback, useEffect } from "react";
+import { getVoiceSettings, pickVoice } from "@/lib/voiceSettings";
 
 // Extend Window interface for webkit prefixed Speech Recognition
 interface WebkitWindow extends Window {
@@ -24,10 +25,15 @@ export interface VoiceMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  /** Reply is still arriving */
+  isStreaming?: boolean;
 }
 
+/** A full reply, or its tokens as they're generated */
+export type VoiceReply = Promise<string> | AsyncIterable<string>;
+
 interface UseVoiceAgentProps {
-  onTranscript: (transcript: string) => Promise<string>;
+  onTranscript: (transcript: string) => VoiceReply;
 }
 
 interface UseVoiceAgentReturn {
@@ -35,105 +41,273 @@ interface UseVoiceAgentReturn {
   isSpeaking: boolean;
   isSupported: boolean;
   messages: VoiceMessage[];
+  /** Words heard so far that haven't been sent yet (when interim results are on) */
+  interimTranscript: string;
   startListening: () => void;
+  /** Stop listening; in push-to-talk mode, also sends what was heard */
   stopListening: () => void;
-  speak: (text: string) => void;
+  /** Speak text, or a stream of tokens sentence by sentence as they arrive */
+  speak: (text: string | AsyncIterable<string>) => Promise<void>;
   stopSpeaking: () => void;
-  addMessage: (role: "user" | "assistant", content: string) => void;
+  addMessage: (role: "user" | "assistant", content: string) => string;
+  /** Show a different conversation, e.g. a saved thread */
+  replaceMessages: (messages: VoiceMessage[]) => void;
   clearMessages: () => void;
 }
 
+const isAsyncIterable = (value: VoiceReply): value is AsyncIterable<string> =>
+  Symbol.asyncIterator in value;
+
+/**
+ * Split finished sentences off the front of streamed text, keeping the
+ * unfinished remainder for when more tokens arrive
+ */
+export const splitSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?…]+["')\]]*\s+|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text))) {
+    const sentence = text.slice(start, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+  return { sentences, rest: text.slice(start) };
+};
+
 export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAgentReturn => {
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [messages, setMessages] = useState<VoiceMessage[]>([]);
+  const [interimTranscript, setInterimTranscript] = useState("");
 
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const shouldStopRef = useRef(false);
   const commandTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Finished phrases waiting to be sent as one question
+  const pendingTranscriptRef = useRef("");
+  // Bumped whenever speech is cancelled so queued sentences from it are dropped
+  const speechIdRef = useRef(0);
 
   // Check browser support
   const isSupported = typeof window !== "undefined" && 
     ("webkitSpeechRecognition" in window || "SpeechRecognition" in window) &&
     "speechSynthesis" in window;
 
-  const addMessage = useCallback((role: "user" | "assistant", content: string) => {
+  const addMessage = useCallback((role: "user" | "assistant", content: string, isStreaming?: boolean) => {
     const message: VoiceMessage = {
       id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       role,
       content,
       timestamp: new Date(),
+      isStreaming,
     };
     setMessages((prev) => [...prev, message]);
+    return message.id;
   }, []);
 
-  const clearMessages = useCallback(() => {
-    setMessages([]);
+  const updateMessage = useCallback((id: string, changes: Partial<VoiceMessage>) => {
+    setMessages((prev) => prev.map((message) => (message.id === id ? { ...message, ...changes } : message)));
   }, []);
 
-  // Text-to-speech
-  const speak = useCallback((text: string) => {
-    if (!("speechSynthesis" in window)) return;
+  const removeMessage = useCallback((id: string) => {
+    setMessages((prev) => prev.filter((message) => message.id !== id));
+  }, []);
+
+  const replaceMessages = useCallback((next: VoiceMessage[]) => {
+    setMessages(next);
+  }, []);
 
-    window.speechSynthesis.cancel();
+  const clearMessages = useCallback(() => {
+    setMessages([]);
+  }, []);
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1.0;
-    utterance.pitch = 1.0;
-    utterance.volume = 1.0;
+  // Text-to-speech: replaces anything being spoken, then queues each sentence
+  // as soon as it's complete so long replies start playing right away
+  const startSpeech = useCallback(() => {
+    const synth = "speechSynthesis" in window ? window.speechSynthesis : null;
+    synth?.cancel();
+    const settings = getVoiceSettings();
+    const voice = synth ? pickVoice(synth.getVoices(), settings) : undefined;
+
+    const speechId = ++speechIdRef.current;
+    let buffer = "";
+    let queued = 0;
+    let ended = false;
+
+    const settle = () => {
+      if (speechIdRef.current === speechId && ended && queued === 0) setIsSpeaking(false);
+    };
 
-    utterance.onstart = () => setIsSpeaking(true);
-    utterance.onend = () => setIsSpeaking(false);
-    utterance.onerror = () => setIsSpeaking(false);
+    const say = (sentence: string) => {
+      if (!synth || !sentence.trim() || speechIdRef.current !== speechId) return;
+
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.lang = settings.language;
+      if (voice) utterance.voice = voice;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      utterance.volume = 1.0;
+
+      utterance.onstart = () => {
+        if (speechIdRef.current === speechId) setIsSpeaking(true);
+      };
+      utterance.onend = utterance.onerror = () => {
+        queued--;
+        settle();
+      };
+
+      queued++;
+      synth.speak(utterance);
+    };
 
-    window.speechSynthesis.speak(utterance);
+    return {
+      push: (text: string) => {
+        const { sentences, rest } = splitSentences(buffer + text);
+        buffer = rest;
+        sentences.forEach(say);
+      },
+      end: () => {
+        say(buffer);
+        buffer = "";
+        ended = true;
+        settle();
+      },
+    };
   }, []);
 
+  const speak = useCallback(async (text: string | AsyncIterable<string>) => {
+    const speech = startSpeech();
+    try {
+      if (typeof text === "string") {
+        speech.push(text);
+      } else {
+        for await (const token of text) {
+          speech.push(token);
+        }
+      }
+    } finally {
+      speech.end();
+    }
+  }, [startSpeech]);
+
   const stopSpeaking = useCallback(() => {
+    speechIdRef.current++;
     if ("speechSynthesis" in window) {
       window.speechSynthesis.cancel();
-      setIsSpeaking(false);
     }
+    setIsSpeaking(false);
   }, []);
 
   // Process transcript and get response
   const processTranscript = useCallback(async (transcript: string) => {
     addMessage("user", transcript);
-    
+    const errorMessage = "Sorry, I had trouble processing that. Could you try again?";
+
+    let reply: VoiceReply;
     try {
-      const response = await onTranscript(transcript);
-      addMessage("assistant", response);
-      speak(response);
+      reply = onTranscript(transcript);
+    } catch {
+      reply = Promise.resolve(errorMessage);
+    }
+
+    if (!isAsyncIterable(reply)) {
+      try {
+        const response = await reply;
+        addMessage("assistant", response);
+        speak(response);
+      } catch {
+        addMessage("assistant", errorMessage);
+        speak(errorMessage);
+      }
+      return;
+    }
+
+    // Show and speak the reply while it's still being generated
+    const speech = startSpeech();
+    let messageId: string | null = null;
+    let content = "";
+    try {
+      for await (const token of reply) {
+        content += token;
+        speech.push(token);
+        if (messageId) {
+          updateMessage(messageId, { content });
+        } else {
+          messageId = addMessage("assistant", content, true);
+        }
+      }
     } catch (error) {
-      const errorMessage = "Sorry, I had trouble processing that. Could you try again?";
-      addMessage("assistant", errorMessage);
-      speak(errorMessage);
+      console.error("[useVoiceAgent] Reply stream failed:", error);
+      if (!content) {
+        content = errorMessage;
+        speech.push(errorMessage);
+      }
+    } finally {
+      speech.end();
+      if (!content.trim()) {
+        if (messageId) removeMessage(messageId);
+      } else if (messageId) {
+        updateMessage(messageId, { content: content.trim(), isStreaming: false });
+      } else {
+        addMessage("assistant", content);
+      }
+    }
+  }, [onTranscript, addMessage, updateMessage, removeMessage, speak, startSpeech]);
+
+  // Send the phrases heard so far as one question
+  const sendPendingTranscript = useCallback(() => {
+    if (commandTimeoutRef.current) {
+      clearTimeout(commandTimeoutRef.current);
+      commandTimeoutRef.current = null;
     }
-  }, [onTranscript, addMessage, speak]);
+    const transcript = pendingTranscriptRef.current.trim();
+    pendingTranscriptRef.current = "";
+    setInterimTranscript("");
+    if (transcript) processTranscript(transcript);
+  }, [processTranscript]);
 
   // Start listening
   const startListening = useCallback(() => {
     if (!isSupported) return;
 
     shouldStopRef.current = false;
+    pendingTranscriptRef.current = "";
+    setInterimTranscript("");
 
     const SpeechRecognitionCtor = getSpeechRecognitionConstructor();
     if (!SpeechRecognitionCtor) return;
 
     const recognition = new SpeechRecognitionCtor();
+    const settings = getVoiceSettings();
+    const pushToTalk = settings.mode === "push-to-talk";
 
     recognition.continuous = true;
-    recognition.interimResults = false;
-    recognition.lang = "en-US";
+    recognition.interimResults = settings.interimResults;
+    recognition.lang = settings.language;
 
     recognition.onstart = () => {
       setIsListening(true);
     };
 
     recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const transcript = event.results[event.results.length - 1][0].transcript.trim();
-      
-      if (!transcript) return;
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0].transcript.trim();
+        if (!transcript) continue;
+        if (result.isFinal) {
+          pendingTranscriptRef.current += ` ${transcript}`;
+        } else {
+          interim += ` ${transcript}`;
+        }
+      }
+      if (settings.interimResults) {
+        setInterimTranscript(`${pendingTranscriptRef.current} ${interim}`.replace(/\s+/g, " ").trim());
+      }
+
+      // Push to talk sends when the button is released
+      if (pushToTalk || !pendingTranscriptRef.current.trim()) return;
 
       // Clear any existing timeout
       if (commandTimeoutRef.current) {
@@ -141,9 +315,7 @@ export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAge
       }
 
       // Wait 1.5 seconds for user to finish speaking
-      commandTimeoutRef.current = setTimeout(() => {
-        processTranscript(transcript);
-      }, 1500);
+      commandTimeoutRef.current = setTimeout(sendPendingTranscript, 1500);
     };
 
     // Auto-restart on end (unless intentionally stopped)
@@ -157,6 +329,8 @@ export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAge
         }
       } else {
         setIsListening(false);
+        // The last words are recognized after the button is released
+        if (pushToTalk) sendPendingTranscript();
       }
     };
 
@@ -174,7 +348,7 @@ export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAge
     } catch (error) {
       console.error("Error starting recognition:", error);
     }
-  }, [isSupported, processTranscript]);
+  }, [isSupported, sendPendingTranscript]);
 
   // Stop listening
   const stopListening = useCallback(() => {
@@ -188,6 +362,10 @@ export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAge
       recognitionRef.current.stop();
       setIsListening(false);
     }
+    if (getVoiceSettings().mode === "continuous") {
+      pendingTranscriptRef.current = "";
+      setInterimTranscript("");
+    }
   }, []);
 
   // Cleanup on unmount
@@ -211,11 +389,13 @@ export const useVoiceAgent = ({ onTranscript }: UseVoiceAgentProps): UseVoiceAge
     isSpeaking,
     isSupported,
     messages,
+    interimTranscript,
     startListening,
     stopListening,
     speak,
     stopSpeaking,
     addMessage,
+    replaceMessages,
     clearMessages,
   };
 };
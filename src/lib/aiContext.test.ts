@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildAIContext,
+  collectContextSummaries,
+  estimateTokens,
+  summarizeFinancials,
+  summarizeForecast,
+  summarizeTeam,
+  type AIContextSectionId,
+} from './aiContext';
+import { readDomain, writeDomain } from './storageRegistry';
+import { DEFAULT_FINANCIALS_DATA } from './validators';
+
+const summaries = (overrides: Partial<Record<AIContextSectionId, string>>): Record<AIContextSectionId, string> => ({
+  canvas: '',
+  businessPlan: '',
+  financials: '',
+  swot: '',
+  porters: '',
+  roadmap: '',
+  team: '',
+  brandStrategy: '',
+  nameChecker: '',
+  ...overrides,
+});
+
+describe('aiContext', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('summaries', () => {
+    it('should be empty for a new project', () => {
+      expect(Object.values(collectContextSummaries()).every((summary) => summary === '')).toBe(true);
+    });
+
+    it('should summarize what the user entered in each tab', () => {
+      writeDomain('businessPlan', { ...readDomain('businessPlan'), businessName: 'Coffee Cart', businessIdea: 'Mobile espresso' });
+      writeDomain('swot', { ...readDomain('swot'), threats: [{ id: 't1', text: 'Chain cafes nearby' }] });
+
+      const result = collectContextSummaries();
+
+      expect(result.businessPlan).toContain('Business name: Coffee Cart');
+      expect(result.businessPlan).toContain('Idea: Mobile espresso');
+      expect(result.swot).toBe('Threats:\n- Chain cafes nearby');
+      expect(result.financials).toBe('');
+    });
+
+    it('should format money in the plan currency and include profit', () => {
+      const summary = summarizeFinancials({
+        ...DEFAULT_FINANCIALS_DATA,
+        currency: 'CAD',
+        fundingAsk: 50000,
+        projections: [{ year: 1, revenue: 120000, expenses: 90000, notes: '' }],
+      });
+
+      expect(summary).toContain('Funding ask: CA$50,000');
+      expect(summary).toContain('Year 1: revenue CA$120,000, expenses CA$90,000, profit CA$30,000');
+    });
+
+    it('should include projections entered on the Financials tab', () => {
+      const summary = summarizeForecast({
+        ...readDomain('forecasting'),
+        year1Revenue: '120000',
+        year2Expenses: '80000',
+      });
+
+      expect(summary).toBe('Projections:\n- Year 1: revenue 120000, expenses ?\n- Year 2: revenue ?, expenses 80000');
+    });
+
+    it('should use the monthly model for years 1-3 and describe its drivers', () => {
+      const summary = summarizeForecast(
+        { ...readDomain('forecasting'), year1Revenue: '1', year5Revenue: '500000' },
+        {
+          ...readDomain('financialModel'),
+          revenueStreams: [{ id: 's', name: 'Boxes', units: 10, price: 50, monthlyGrowth: 0, startMonth: 1 }],
+          cogsPercent: 40,
+        },
+        readDomain('financials').scenarios
+      );
+
+      expect(summary).toContain('- Year 1: revenue 6000, expenses 2400 (monthly model)');
+      expect(summary).toContain('- Year 5: revenue 500000, expenses ?');
+      expect(summary).toContain('- Boxes: 10 units at 50 from month 1, 0% growth a month');
+      expect(summary).toContain('COGS (% of revenue): 40');
+      expect(summary).toContain('- Worst case: price -10%, churn 3%/month');
+    });
+
+    it('should describe reporting lines and open roles', () => {
+      const summary = summarizeTeam([
+        { id: 'ceo', title: 'CEO', name: 'Ana', department: '', responsibilities: '', reportsTo: '', bio: '', linkedinUrl: '' },
+        { id: 'cto', title: 'CTO', name: '', department: 'Tech', responsibilities: '', reportsTo: 'ceo', bio: '', linkedinUrl: '' },
+      ]);
+
+      expect(summary).toBe('Roles:\n- CEO: Ana\n- CTO (open) [Tech] reports to CEO');
+    });
+  });
+
+  describe('buildAIContext', () => {
+    const data = summaries({
+      businessPlan: 'Business name: Coffee Cart',
+      financials: 'Funding ask: $50,000',
+      swot: 'Strengths:\n- Great coffee',
+      team: 'Roles:\n- CEO: Ana',
+    });
+
+    it('should put the sections most relevant to the question first', () => {
+      const context = buildAIContext({ question: 'How much funding should I raise?', budget: 1000, summaries: data });
+
+      expect(context.sections[0].id).toBe('financials');
+      expect(context.text.startsWith('## Financials\nFunding ask: $50,000')).toBe(true);
+    });
+
+    it('should keep the default order for general questions', () => {
+      const context = buildAIContext({ question: '', budget: 1000, summaries: data });
+
+      expect(context.sections.map((section) => section.id).slice(0, 2)).toEqual(['businessPlan', 'canvas']);
+      expect(context.sections.find((section) => section.id === 'canvas')?.status).toBe('empty');
+    });
+
+    it('should leave out sections the user turned off', () => {
+      const context = buildAIContext({ question: 'funding', budget: 1000, excluded: ['financials'], summaries: data });
+
+      expect(context.sections.find((section) => section.id === 'financials')?.status).toBe('excluded');
+      expect(context.text).not.toContain('Funding ask');
+    });
+
+    it('should trim to the token budget', () => {
+      const long = summaries({
+        businessPlan: Array.from({ length: 50 }, (_, index) => `Line ${index} about the plan`).join('\n'),
+        swot: 'Strengths:\n- Great coffee',
+      });
+
+      const context = buildAIContext({ question: '', budget: 100, summaries: long });
+      const plan = context.sections.find((section) => section.id === 'businessPlan')!;
+
+      expect(plan.status).toBe('trimmed');
+      expect(context.sections.find((section) => section.id === 'swot')?.status).toBe('over-budget');
+      expect(context.usedTokens).toBeLessThanOrEqual(100);
+      expect(estimateTokens(context.text)).toBeLessThanOrEqual(100);
+      expect(context.text.endsWith('…')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * AI Context
+ * Summarizes each part of the plan as compact text for the assistant's system
+ * prompt, ranks the summaries by relevance to the question and trims them to
+ * the model's token budget. Users can leave sections out (AISettings.contextExclusions).
+ */
+import {
+  FORECAST_YEARS,
+  NameCheckerDataSchema,
+  type AIContextSectionId,
+  type BusinessPlanData,
+  type CanvasData,
+  type FinancialModel,
+  type FinancialsData,
+  type ForecastData,
+  type Milestone,
+  type PortersData,
+  type Role,
+  type Scenario,
+  type SWOTData,
+} from "./validators";
+import { readDomain } from "./storageRegistry";
+import { getProjections, hasModelDrivers, isModelledYear } from "./financialModel";
+import { describeScenario } from "./scenarios";
+import { getBrandStrategy, type BrandStrategy } from "./brandStrategy";
+
+export type { AIContextSectionId };
+
+// ============ Sections ============
+
+export const AI_CONTEXT_SECTIONS: { id: AIContextSectionId; label: string; keywords: string[] }[] = [
+  {
+    id: "businessPlan",
+    label: "Business Plan",
+    keywords: ["plan", "idea", "problem", "product", "service", "market", "customer", "competitor", "compet", "pricing", "price", "sales", "risk", "tam", "sam", "som", "launch"],
+  },
+  {
+    id: "canvas",
+    label: "Business Model Canvas",
+    keywords: ["canvas", "business model", "value prop", "segment", "channel", "revenue stream", "partner", "activit", "resource", "cost structure", "relationship"],
+  },
+  {
+    id: "financials",
+    label: "Financials",
+    keywords: ["financ", "money", "revenue", "expense", "cost", "profit", "fund", "invest", "cash", "burn", "runway", "budget", "projection", "forecast", "margin", "break-even", "raise", "loan"],
+  },
+  {
+    id: "swot",
+    label: "SWOT Analysis",
+    keywords: ["swot", "strength", "weakness", "opportunit", "threat"],
+  },
+  {
+    id: "porters",
+    label: "Porter's Five Forces",
+    keywords: ["porter", "five forces", "rivalry", "supplier", "buyer", "substitute", "new entrant", "competition", "competitive", "industry"],
+  },
+  {
+    id: "roadmap",
+    label: "Roadmap",
+    keywords: ["roadmap", "milestone", "timeline", "goal", "next step", "year", "long term", "vision"],
+  },
+  {
+    id: "team",
+    label: "Team & Org Chart",
+    keywords: ["team", "hire", "hiring", "role", "org chart", "staff", "employee", "founder", "ceo", "people", "who "],
+  },
+  {
+    id: "brandStrategy",
+    label: "Brand Strategy",
+    keywords: ["brand", "archetype", "voice", "tone", "story", "emotion", "promise", "messaging", "marketing"],
+  },
+  {
+    id: "nameChecker",
+    label: "Name Checker",
+    keywords: ["name", "domain", "trademark", "handle", "social media", "app store", "available", "slogan"],
+  },
+];
+
+// ============ Summaries ============
+
+/** Longest a single free-text answer may run before it's shortened */
+const MAX_FIELD_LENGTH = 400;
+
+export const clip = (text: string, max = MAX_FIELD_LENGTH): string => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > max ? `${clean.slice(0, max - 1).trimEnd()}…` : clean;
+};
+
+/** "Label: value" lines for the non-empty fields */
+const fields = (entries: [string, string | number | undefined | null][]): string[] =>
+  entries
+    .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== "")
+    .map(([label, value]) => `${label}: ${typeof value === "string" ? clip(value) : value}`);
+
+const bullets = (label: string, items: string[]): string[] =>
+  items.length > 0 ? [`${label}:`, ...items.map((item) => `- ${clip(item, 200)}`)] : [];
+
+export const summarizeCanvas = (canvas: CanvasData): string =>
+  fields([
+    ["Value propositions", canvas.valuePropositions],
+    ["Customer segments", canvas.customerSegments],
+    ["Channels", canvas.channels],
+    ["Customer relationships", canvas.customerRelationships],
+    ["Revenue streams", canvas.revenueStreams],
+    ["Key resources", canvas.keyResources],
+    ["Key activities", canvas.keyActivities],
+    ["Key partners", canvas.keyPartners],
+    ["Cost structure", canvas.costStructure],
+  ]).join("\n");
+
+export const summarizeBusinessPlan = (plan: BusinessPlanData): string =>
+  [
+    ...fields([
+      ["Business name", plan.businessName],
+      ["Type", [plan.businessType, plan.businessClassification].filter(Boolean).join(", ")],
+      ["Stage", plan.isExistingBusiness ? "Existing business" : ""],
+      ["Problem", plan.problemStatement],
+      ["Idea", plan.businessIdea],
+      ["Products & services", plan.productsServices],
+      ["How they sell", plan.howYouSell],
+      ["Market", plan.marketDefinition],
+      ["TAM / SAM / SOM", [plan.tamCurrent, plan.samCurrent, plan.somCurrent].some(Boolean)
+        ? `${plan.tamCurrent || "?"} / ${plan.samCurrent || "?"} / ${plan.somCurrent || "?"}`
+        : ""],
+      ["Market trends", plan.marketTrends],
+      ["Target customers", plan.customerDescription],
+    ]),
+    ...bullets("Customer segments", plan.customerSegments.map((segment) =>
+      [segment.name, segment.jtbd].filter(Boolean).join(" - ")
+    )),
+    ...bullets("Competitors", plan.competitors.map((competitor) =>
+      [competitor.name, competitor.coreOffer, competitor.pricingModel && `pricing: ${competitor.pricingModel}`]
+        .filter(Boolean)
+        .join(" - ")
+    )),
+    ...fields([
+      ["How they're different", plan.howYouAreDifferent],
+      ["Why customers buy", plan.whyCustomersBuyFromYou],
+      ["Pricing", plan.pricingInfo],
+      ["Year one sales target", plan.yearOneSalesTarget],
+      ["Cash required", plan.cashRequired],
+      ["Use of funds", plan.useOfFunds],
+      ["Distribution", plan.distributionChannels],
+      ["Regulations", plan.regulatoryInfo],
+      ["Entry plan", plan.entryPlan],
+    ]),
+    ...bullets("Risks", plan.risks.map((risk) =>
+      `${risk.description} (likelihood ${risk.likelihood}, impact ${risk.impact})${risk.mitigation ? ` - mitigation: ${risk.mitigation}` : ""}`
+    )),
+  ].join("\n");
+
+export const summarizeFinancials = (financials: FinancialsData): string => {
+  const money = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: financials.currency || "USD",
+      maximumFractionDigits: 0,
+    }).format(amount);
+  const optionalMoney = (amount?: number) => (amount ? money(amount) : undefined);
+
+  return [
+    ...fields([
+      ["Funding ask", optionalMoney(financials.fundingAsk)],
+      ["Funding stage", financials.fundingStage],
+      ["Funding purpose", financials.fundingPurpose],
+      ["Secured funding", optionalMoney(financials.totalSecuredFunding)],
+      ["Startup costs", optionalMoney(financials.startupCosts)],
+      ["Monthly burn", optionalMoney(financials.monthlyBurnRate)],
+      ["Runway", financials.runwayMonths ? `${financials.runwayMonths} months` : undefined],
+    ]),
+    ...bullets("Use of funds", financials.useOfFunds.map((item) => `${item.category}: ${money(item.amount)}`)),
+    ...bullets("Funding sources", financials.fundingSources.map((source) =>
+      `${source.source}: ${money(source.amount)}${source.secured ? " (secured)" : ""}`
+    )),
+    ...bullets("Projections", financials.projections
+      .filter((year) => year.revenue || year.expenses)
+      .map((year) =>
+        `Year ${year.year}: revenue ${money(year.revenue)}, expenses ${money(year.expenses)}, profit ${money(year.revenue - year.expenses)}`
+      )),
+    ...fields([
+      ["Revenue model", financials.revenueModel],
+      ["Pricing strategy", financials.pricingStrategy],
+      ["Unit economics", financials.unitEconomics],
+      ["Year one sales target", financials.yearOneSalesTarget],
+      ["Assumptions", financials.assumptions],
+    ]),
+  ].join("\n");
+};
+
+// Drivers behind the monthly model, so answers can explain the numbers
+const summarizeModelDrivers = (model: FinancialModel): string[] => [
+  ...bullets("Revenue streams", model.revenueStreams.map((stream) =>
+    `${stream.name || "Unnamed"}: ${stream.units} units at ${stream.price} from month ${stream.startMonth}, ${stream.monthlyGrowth}% growth a month`
+  )),
+  ...fields([["COGS (% of revenue)", model.cogsPercent || undefined]]),
+  ...bullets("Fixed costs", model.fixedCosts.map((cost) =>
+    `${cost.name || "Unnamed"}: ${cost.monthlyAmount} a month from month ${cost.startMonth}`
+  )),
+  ...bullets("Headcount", model.headcount.map((item) =>
+    `${item.count} × ${item.role || "Unnamed role"} at ${item.annualSalary} a year from month ${item.startMonth}`
+  )),
+  ...bullets("One-off expenses", model.oneOffExpenses.map((expense) =>
+    `${expense.name || "Unnamed"}: ${expense.amount} in month ${expense.month}`
+  )),
+];
+
+/** Projections as entered on the Financials tab, with years 1-3 from the monthly model and its scenarios */
+export const summarizeForecast = (forecast: ForecastData, model?: FinancialModel, scenarios: Scenario[] = []): string => {
+  const isModelled = (year: number) => !!model && isModelledYear(model, year);
+  const projections = getProjections(forecast, model);
+  return [
+    ...bullets("Projections", FORECAST_YEARS
+      .filter((year) => isModelled(year) || forecast[`year${year}Revenue`] || forecast[`year${year}Expenses`])
+      .map((year) => {
+        if (isModelled(year)) {
+          const { revenue, expenses } = projections.find((projection) => projection.year === year)!;
+          return `Year ${year}: revenue ${revenue}, expenses ${expenses} (monthly model)`;
+        }
+        return `Year ${year}: revenue ${forecast[`year${year}Revenue`] || "?"}, expenses ${forecast[`year${year}Expenses`] || "?"}`;
+      })),
+    ...(model && hasModelDrivers(model) ? summarizeModelDrivers(model) : []),
+    // Scenarios only change the model's figures
+    ...(model && hasModelDrivers(model)
+      ? bullets("Scenarios", scenarios.map((scenario) => `${scenario.name || "Untitled"}: ${describeScenario(scenario)}`))
+      : []),
+    ...fields([
+      ["Funding ask", forecast.fundingAsk],
+      ["Funding stage", forecast.fundingStage],
+      ["Assumptions", forecast.assumptions],
+    ]),
+    ...bullets("Use of funds", forecast.useOfFunds.map((item) => `${item.category}: ${item.amount}`)),
+  ].join("\n");
+};
+
+export const summarizeSWOT = (swot: SWOTData): string =>
+  [
+    ...bullets("Strengths", swot.strengths.map((item) => item.text)),
+    ...bullets("Weaknesses", swot.weaknesses.map((item) => item.text)),
+    ...bullets("Opportunities", swot.opportunities.map((item) => item.text)),
+    ...bullets("Threats", swot.threats.map((item) => item.text)),
+  ].join("\n");
+
+const PORTERS_FORCES: [keyof PortersData, string][] = [
+  ["competitiveRivalry", "Competitive rivalry"],
+  ["supplierPower", "Supplier power"],
+  ["buyerPower", "Buyer power"],
+  ["threatOfSubstitutes", "Threat of substitutes"],
+  ["threatOfNewEntrants", "Threat of new entrants"],
+];
+
+export const summarizePorters = (porters: PortersData): string =>
+  PORTERS_FORCES.flatMap(([key, label]) => {
+    const force = porters[key];
+    const factors = force.factors.map((factor) => factor.text).filter(Boolean);
+    if (!force.rating && factors.length === 0 && !force.notes.trim()) return [];
+    const details = [...factors, force.notes].filter((text) => text.trim()).map((text) => clip(text, 200));
+    return [`${label}: ${force.rating || "unrated"}${details.length ? ` - ${details.join("; ")}` : ""}`];
+  }).join("\n");
+
+export const summarizeRoadmap = (milestones: Milestone[]): string =>
+  (["1-year", "5-year", "10-year"] as const)
+    .flatMap((category) =>
+      bullets(`${category} goals`, milestones
+        .filter((milestone) => milestone.category === category)
+        .map((milestone) =>
+          [milestone.title, milestone.timeframe && `(${milestone.timeframe})`, milestone.description && `- ${milestone.description}`]
+            .filter(Boolean)
+            .join(" ")
+        ))
+    )
+    .join("\n");
+
+export const summarizeTeam = (roles: Role[]): string =>
+  bullets("Roles", roles.map((role) => {
+    const manager = roles.find((candidate) => candidate.id === role.reportsTo);
+    return [
+      role.name ? `${role.title}: ${role.name}` : `${role.title} (open)`,
+      role.department && `[${role.department}]`,
+      manager && `reports to ${manager.title}`,
+      role.responsibilities && `- ${role.responsibilities}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+  })).join("\n");
+
+export const summarizeBrandStrategy = (strategy: BrandStrategy): string =>
+  fields([
+    ["Brand name", strategy.brandName],
+    ["Associations", strategy.associations.map((association) => association.word).join(", ")],
+    ["Desired outcome", strategy.desiredOutcome],
+    ["Archetype", [strategy.primaryArchetype, strategy.secondaryArchetype].filter(Boolean).join(" / ")],
+    ["Origin story", [strategy.story.catalyst, strategy.story.coreTruth, strategy.story.proof].filter(Boolean).join(" ")],
+    ["Voice", [strategy.voice.primaryStyle, strategy.voice.secondaryStyle].filter(Boolean).join(" / ")],
+    ["Topic focus", strategy.voice.topicFocus],
+    ["Emotions", strategy.emotions.join(", ")],
+    ["Emotional promise", strategy.emotionalPromise],
+  ]).join("\n");
+
+/** Summarize the stored name checker state (the journey saves it loosely typed) */
+export const summarizeNameChecker = (stored: Record<string, unknown> | null | undefined): string => {
+  const parsed = NameCheckerDataSchema.safeParse(stored ?? {});
+  if (!parsed.success) return "";
+  const data = parsed.data;
+
+  return [
+    ...fields([
+      ["Current name", data.currentBrandName],
+      ["Slogan", data.currentSlogan],
+      ["Country", data.currentBrandName ? data.selectedCountry : ""],
+    ]),
+    ...bullets("Names checked", data.savedNames.map((name) => {
+      const available = (list: { status: string }[]) => list.filter((item) => item.status === "available").length;
+      return [
+        name.name,
+        name.overallScore !== undefined && `score ${name.overallScore}/100`,
+        name.domains.length > 0 && `${available(name.domains)}/${name.domains.length} domains available`,
+        name.socialMedia.length > 0 && `${available(name.socialMedia)}/${name.socialMedia.length} handles available`,
+        name.trademarks.some((trademark) => trademark.status === "conflict") && "trademark conflict",
+        name.isFavorite && "favorite",
+      ]
+        .filter(Boolean)
+        .join(", ");
+    })),
+  ].join("\n");
+};
+
+/**
+ * Current summary of every section for the active project ("" = nothing entered)
+ */
+export const collectContextSummaries = (): Record<AIContextSectionId, string> => ({
+  businessPlan: summarizeBusinessPlan(readDomain("businessPlan")),
+  canvas: summarizeCanvas(readDomain("canvas")),
+  financials: [
+    summarizeForecast(readDomain("forecasting"), readDomain("financialModel"), readDomain("financials").scenarios),
+    summarizeFinancials(readDomain("financials")),
+  ]
+    .filter(Boolean)
+    .join("\n"),
+  swot: summarizeSWOT(readDomain("swot")),
+  porters: summarizePorters(readDomain("porters")),
+  roadmap: summarizeRoadmap(readDomain("roadmap")),
+  team: summarizeTeam(readDomain("orgChart")),
+  brandStrategy: summarizeBrandStrategy(getBrandStrategy()),
+  nameChecker: summarizeNameChecker(readDomain("nameChecker").data),
+});
+
+// ============ Budgeting ============
+
+/** Rough count for English text (about four characters per token) */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Sections trimmed to less than this are left out rather than cut to a stub */
+const MIN_SECTION_TOKENS = 60;
+
+export type AIContextStatus = "shared" | "trimmed" | "over-budget" | "excluded" | "empty";
+
+export interface AIContextSection {
+  id: AIContextSectionId;
+  label: string;
+  status: AIContextStatus;
+  /** Tokens of this section that were sent */
+  tokens: number;
+  /** Tokens of the full summary */
+  fullTokens: number;
+  relevance: number;
+}
+
+export interface AIContext {
+  /** Text for the system prompt ("" when nothing is shared) */
+  text: string;
+  /** Every section, most relevant first */
+  sections: AIContextSection[];
+  usedTokens: number;
+  budget: number;
+}
+
+const STOP_WORDS = new Set(["what", "which", "that", "this", "with", "have", "does", "about", "should", "would", "could", "there", "their", "they", "them", "from", "your", "mine", "into", "when", "where", "will", "more", "less", "some", "than", "then", "make", "help"]);
+
+/**
+ * How relevant a section is to the question: topic keywords count most,
+ * then words the question shares with what the user wrote
+ */
+export const scoreRelevance = (id: AIContextSectionId, summary: string, question: string): number => {
+  const query = question.toLowerCase();
+  const section = AI_CONTEXT_SECTIONS.find((candidate) => candidate.id === id)!;
+  const keywordScore = section.keywords.filter((keyword) => query.includes(keyword)).length * 3;
+
+  const text = summary.toLowerCase();
+  const words = new Set(query.match(/[a-z0-9][a-z0-9-]{3,}/g) ?? []);
+  const overlapScore = Math.min(5, [...words].filter((word) => !STOP_WORDS.has(word) && text.includes(word)).length);
+
+  return keywordScore + overlapScore;
+};
+
+/** Cut text to a token budget at a line break where possible */
+export const trimToTokens = (text: string, tokens: number): string => {
+  const maxLength = tokens * 4 - 1;
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lineEnd = cut.lastIndexOf("\n");
+  return `${lineEnd > maxLength / 2 ? cut.slice(0, lineEnd) : cut.trimEnd()}…`;
+};
+
+interface BuildContextOptions {
+  /** The user's question (and recent messages), used for ranking */
+  question: string;
+  budget: number;
+  excluded?: AIContextSectionId[];
+  /** Defaults to the active project's data */
+  summaries?: Record<AIContextSectionId, string>;
+}
+
+/**
+ * Pick the most relevant sections that fit in the budget. Ties keep the
+ * order of AI_CONTEXT_SECTIONS, so general questions get the plan overview first.
+ */
+export const buildAIContext = ({
+  question,
+  budget,
+  excluded = [],
+  summaries = collectContextSummaries(),
+}: BuildContextOptions): AIContext => {
+  const ranked = AI_CONTEXT_SECTIONS
+    .map((section, order) => ({
+      ...section,
+      order,
+      summary: summaries[section.id].trim(),
+      relevance: scoreRelevance(section.id, summaries[section.id], question),
+    }))
+    .sort((a, b) => b.relevance - a.relevance || a.order - b.order);
+
+  let remaining = budget;
+  const parts: string[] = [];
+  const sections = ranked.map(({ id, label, summary, relevance }): AIContextSection => {
+    const header = `## ${label}\n`;
+    const fullTokens = summary ? estimateTokens(header + summary) : 0;
+    const result = { id, label, relevance, fullTokens, tokens: 0 };
+
+    if (!summary) return { ...result, status: "empty" };
+    if (excluded.includes(id)) return { ...result, status: "excluded" };
+
+    if (fullTokens <= remaining) {
+      parts.push(header + summary);
+      remaining -= fullTokens;
+      return { ...result, status: "shared", tokens: fullTokens };
+    }
+    if (remaining >= MIN_SECTION_TOKENS) {
+      const trimmed = header + trimToTokens(summary, remaining - estimateTokens(header));
+      const tokens = estimateTokens(trimmed);
+      parts.push(trimmed);
+      remaining -= tokens;
+      return { ...result, status: "trimmed", tokens };
+    }
+    return { ...result, status: "over-budget" };
+  });
+
+  return { text: parts.join("\n\n"), sections, usedTokens: budget - remaining, budget };
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { buildDraftPrompt, draftCandidates, toCandidate, type DraftModel } from './aiDrafts';
+import { readDomain, writeDomain } from './storageRegistry';
+
+/** A model that streams the given reply in small chunks */
+const streamingModel = (reply: string, chunkSize = 7): DraftModel =>
+  async function* () {
+    for (let i = 0; i < reply.length; i += chunkSize) yield reply.slice(i, i + chunkSize);
+  };
+
+describe('aiDrafts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    writeDomain('businessPlan', {
+      ...readDomain('businessPlan'),
+      businessIdea: 'A coffee cart by the station.',
+    });
+  });
+
+  it('should build a prompt from the plan that lists what the user already has', () => {
+    writeDomain('swot', { ...readDomain('swot'), strengths: [{ id: 's1', text: 'Great location' }] });
+
+    const prompt = buildDraftPrompt('swot');
+
+    expect(prompt.context).toContain('A coffee cart by the station.');
+    expect(prompt.instructions).toContain('one JSON object per line');
+    expect(prompt.instructions).toContain('- strengths: Great location');
+  });
+
+  it('should add researched competitors when the plan lists none', () => {
+    const competitor = {
+      id: 'c1', name: 'Bean There', foundingYear: '', hq: '', fundingRevenue: '', coreOffer: 'Drive-through coffee',
+      pricingModel: '', differentiators: '', gtmMotion: '', notableCustomers: '',
+    };
+    writeDomain('marketResearch', { ...readDomain('marketResearch'), competitors: [competitor] });
+
+    expect(buildDraftPrompt('risks').context).toContain('Bean There - Drive-through coffee');
+  });
+
+  it('should normalise loosely formatted items', () => {
+    expect(toCandidate('swot', { quadrant: 'Opportunity', text: ' Office workers nearby ' })).toMatchObject({
+      type: 'swot',
+      quadrant: 'opportunities',
+      text: 'Office workers nearby',
+    });
+    expect(toCandidate('porters', { force: 'Bargaining power of buyers', factor: 'Many cafés nearby' })).toMatchObject({
+      type: 'factor',
+      force: 'buyerPower',
+    });
+    expect(toCandidate('risks', { risk: 'Rain keeps commuters away', likelihood: 'high', impact: 'severe' })).toMatchObject({
+      type: 'risk',
+      likelihood: 'High',
+      impact: 'Medium',
+      mitigation: '',
+    });
+    expect(toCandidate('swot', { quadrant: 'risks', text: 'Not a quadrant' })).toBeNull();
+    expect(toCandidate('risks', { description: 'Wrong key' })).toBeNull();
+  });
+
+  it('should report candidates as they stream in and skip duplicates', async () => {
+    writeDomain('swot', { ...readDomain('swot'), strengths: [{ id: 's1', text: 'Great location' }] });
+    const reply = [
+      'Sure! Here are some ideas:',
+      '{"quadrant": "strengths", "text": "Great location"}',
+      '{"quadrant": "weaknesses", "text": "One cart only"}',
+      '{"quadrant": "weaknesses", "text": "one cart only"}',
+      '{"quadrant": "threats", "text": "Chains open nearby"}',
+      '{"quadrant": "threats", "text": ',
+    ].join('\n');
+    const onCandidate = vi.fn();
+
+    const candidates = await draftCandidates('swot', { onCandidate, model: streamingModel(reply) });
+
+    expect(candidates.map((candidate) => candidate.type === 'swot' && candidate.text)).toEqual(['One cart only', 'Chains open nearby']);
+    expect(onCandidate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should suggest each force's most common rating when it differs", async () => {
+    const porters = readDomain('porters');
+    writeDomain('porters', { ...porters, supplierPower: { ...porters.supplierPower, rating: 'medium' } });
+    const reply = [
+      '{"force": "buyerPower", "rating": "high", "factor": "Many cafés nearby"}',
+      '{"force": "buyerPower", "rating": "high", "factor": "Low switching costs"}',
+      '{"force": "supplierPower", "rating": "medium", "factor": "Few local roasters"}',
+    ].join('\n');
+
+    const candidates = await draftCandidates('porters', { onCandidate: vi.fn(), model: streamingModel(reply) });
+
+    expect(candidates.filter((candidate) => candidate.type === 'factor')).toHaveLength(3);
+    expect(candidates.filter((candidate) => candidate.type === 'rating')).toEqual([
+      expect.objectContaining({ force: 'buyerPower', rating: 'high' }),
+    ]);
+  });
+
+  it('should keep what streamed before the draft was stopped', async () => {
+    const controller = new AbortController();
+    const model: DraftModel = async function* () {
+      yield '{"force": "buyerPower", "rating": "high", "factor": "Many cafés nearby"}\n';
+      controller.abort();
+    };
+
+    const candidates = await draftCandidates('porters', { onCandidate: vi.fn(), model, signal: controller.signal });
+
+    expect(candidates.map((candidate) => candidate.type)).toEqual(['factor']);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * AI Drafts
+ * "Draft with AI" for the SWOT, Porter's Five Forces and risk editors. The model
+ * reads the canvas, business plan and competitors and replies with one small JSON
+ * object per suggestion, which is parsed as it streams so candidates show up
+ * one by one, even from small in-browser models. Nothing is written until the
+ * user accepts a candidate.
+ */
+import { z } from "zod";
+import { readDomain } from "./storageRegistry";
+import { buildAIContext, collectContextSummaries, type AIContextSectionId } from "./aiContext";
+import { getAISettings, getContextBudget, streamChat } from "./aiProvider";
+import {
+  SWOTQuadrantSchema,
+  type PortersData,
+  type Risk,
+  type SWOTQuadrant,
+} from "./validators";
+
+export type DraftTarget = "swot" | "porters" | "risks";
+
+export type PortersForce = keyof PortersData;
+export type ForceRating = "low" | "medium" | "high";
+type RiskLevel = Risk["likelihood"];
+
+export type DraftCandidate =
+  | { id: string; type: "swot"; quadrant: SWOTQuadrant; text: string }
+  | { id: string; type: "factor"; force: PortersForce; text: string }
+  | { id: string; type: "rating"; force: PortersForce; rating: ForceRating }
+  | { id: string; type: "risk"; description: string; likelihood: RiskLevel; impact: RiskLevel; mitigation: string };
+
+const createId = () => `draft-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+export const PORTERS_FORCE_LABELS: Record<PortersForce, string> = {
+  competitiveRivalry: "Competitive rivalry",
+  supplierPower: "Supplier power",
+  buyerPower: "Buyer power",
+  threatOfSubstitutes: "Threat of substitutes",
+  threatOfNewEntrants: "Threat of new entrants",
+};
+
+// ============ Prompts ============
+
+/** Parts of the plan each draft reads */
+const DRAFT_SECTIONS: Record<DraftTarget, AIContextSectionId[]> = {
+  swot: ["businessPlan", "canvas", "porters"],
+  porters: ["businessPlan", "canvas", "swot"],
+  risks: ["businessPlan", "canvas", "financials", "swot"],
+};
+
+const DRAFT_REQUESTS: Record<DraftTarget, string> = {
+  swot: "Draft a SWOT analysis for my business.",
+  porters: "Draft a Porter's Five Forces analysis for my industry.",
+  risks: "Draft a risk register for my business.",
+};
+
+const FORMAT_RULES = "Reply with one JSON object per line and nothing else: no numbering, no commentary.";
+
+const DRAFT_INSTRUCTIONS: Record<DraftTarget, string> = {
+  swot: `You are now drafting SWOT items from the user's plan. ${FORMAT_RULES}
+Each line looks like {"quadrant": "strengths", "text": "Short, specific point"}.
+quadrant is one of strengths, weaknesses, opportunities, threats. Give two or three per quadrant, each under 15 words, based on the plan and competitors.`,
+  porters: `You are now drafting Porter's Five Forces factors from the user's plan. ${FORMAT_RULES}
+Each line looks like {"force": "buyerPower", "rating": "medium", "factor": "Short, specific factor"}.
+force is one of competitiveRivalry, supplierPower, buyerPower, threatOfSubstitutes, threatOfNewEntrants. rating is how strong that force is: low, medium or high. Give two factors per force, each under 15 words.`,
+  risks: `You are now drafting a risk register from the user's plan. ${FORMAT_RULES}
+Each line looks like {"risk": "What could go wrong", "likelihood": "Medium", "impact": "High", "mitigation": "How to reduce it"}.
+likelihood and impact are Low, Medium or High. Give four to six risks covering market, operations, finance and competition, each under 20 words.`,
+};
+
+/** Items already in the editor, so the model suggests new ones */
+const listExisting = (target: DraftTarget): string[] => {
+  switch (target) {
+    case "swot": {
+      const swot = readDomain("swot");
+      return SWOTQuadrantSchema.options.flatMap((quadrant) => swot[quadrant].map((item) => `${quadrant}: ${item.text}`));
+    }
+    case "porters": {
+      const porters = readDomain("porters");
+      return (Object.keys(PORTERS_FORCE_LABELS) as PortersForce[]).flatMap((force) =>
+        porters[force].factors.map((factor) => `${force}: ${factor.text}`)
+      );
+    }
+    case "risks":
+      return readDomain("businessPlan").risks.map((risk) => risk.description).filter(Boolean);
+  }
+};
+
+/** Competitors researched on the Market Research journey, if the plan doesn't list them */
+const summarizeResearchedCompetitors = (): string =>
+  readDomain("marketResearch").competitors
+    .map((competitor) => [competitor.name, competitor.coreOffer, competitor.differentiators].filter(Boolean).join(" - "))
+    .filter(Boolean)
+    .map((line) => `- ${line}`)
+    .join("\n");
+
+/**
+ * System prompt context and instructions for a draft, within the model's budget
+ * and leaving out sections the user chose not to share
+ */
+export const buildDraftPrompt = (
+  target: DraftTarget,
+  budget?: number
+): { context: string; instructions: string; request: string } => {
+  const settings = getAISettings();
+  const all = collectContextSummaries();
+  const summaries = Object.fromEntries(
+    Object.entries(all).map(([id, summary]) => [id, DRAFT_SECTIONS[target].includes(id as AIContextSectionId) ? summary : ""])
+  ) as Record<AIContextSectionId, string>;
+
+  const plan = readDomain("businessPlan");
+  const researched = summarizeResearchedCompetitors();
+  if (plan.competitors.length === 0 && researched && !settings.contextExclusions?.includes("businessPlan")) {
+    summaries.businessPlan = [summaries.businessPlan, `Competitors:\n${researched}`].filter(Boolean).join("\n");
+  }
+
+  const { text } = buildAIContext({
+    question: DRAFT_REQUESTS[target],
+    budget: budget ?? getContextBudget(settings),
+    excluded: settings.contextExclusions,
+    summaries,
+  });
+
+  const existing = listExisting(target);
+  return {
+    context: text,
+    instructions: [
+      DRAFT_INSTRUCTIONS[target],
+      existing.length > 0 && `Don't repeat what the user already has:\n${existing.map((item) => `- ${item}`).join("\n")}`,
+    ].filter(Boolean).join("\n\n"),
+    request: DRAFT_REQUESTS[target],
+  };
+};
+
+// ============ Parsing ============
+
+/** Lowercase letters only, for lenient enum matching ("Buyer Power" → "buyerpower") */
+const squash = (value: unknown) => (typeof value === "string" ? value.toLowerCase().replace(/[^a-z]/g, "") : value);
+
+const QUADRANT_ALIASES: Record<string, SWOTQuadrant> = {
+  strength: "strengths",
+  strengths: "strengths",
+  weakness: "weaknesses",
+  weaknesses: "weaknesses",
+  opportunity: "opportunities",
+  opportunities: "opportunities",
+  threat: "threats",
+  threats: "threats",
+};
+
+const FORCE_ALIASES: Record<string, PortersForce> = {
+  competitiverivalry: "competitiveRivalry",
+  rivalry: "competitiveRivalry",
+  supplierpower: "supplierPower",
+  bargainingpowerofsuppliers: "supplierPower",
+  buyerpower: "buyerPower",
+  bargainingpowerofbuyers: "buyerPower",
+  threatofsubstitutes: "threatOfSubstitutes",
+  substitutes: "threatOfSubstitutes",
+  threatofnewentrants: "threatOfNewEntrants",
+  newentrants: "threatOfNewEntrants",
+};
+
+const ShortTextSchema = z.string().trim().min(1).max(500);
+const LevelSchema = z.preprocess(
+  (value) => ({ low: "Low", medium: "Medium", high: "High" })[squash(value) as string] ?? value,
+  z.enum(["Low", "Medium", "High"])
+);
+
+const SWOTDraftSchema = z.object({
+  quadrant: z.preprocess((value) => QUADRANT_ALIASES[squash(value) as string], SWOTQuadrantSchema),
+  text: ShortTextSchema,
+});
+
+const FactorDraftSchema = z.object({
+  force: z.preprocess((value) => FORCE_ALIASES[squash(value) as string], z.enum(["competitiveRivalry", "supplierPower", "buyerPower", "threatOfSubstitutes", "threatOfNewEntrants"])),
+  factor: ShortTextSchema,
+  rating: z.preprocess(squash, z.enum(["low", "medium", "high"])).optional().catch(undefined),
+});
+
+const RiskDraftSchema = z.object({
+  risk: ShortTextSchema,
+  likelihood: LevelSchema.catch("Medium"),
+  impact: LevelSchema.catch("Medium"),
+  mitigation: z.string().trim().max(500).catch(""),
+});
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Turn one JSON object from the model into a candidate (null if it doesn't fit)
+ */
+export const toCandidate = (target: DraftTarget, item: unknown): DraftCandidate | null => {
+  switch (target) {
+    case "swot": {
+      const parsed = SWOTDraftSchema.safeParse(item);
+      return parsed.success ? { id: createId(), type: "swot", ...parsed.data } : null;
+    }
+    case "porters": {
+      const parsed = FactorDraftSchema.safeParse(item);
+      return parsed.success ? { id: createId(), type: "factor", force: parsed.data.force, text: parsed.data.factor } : null;
+    }
+    case "risks": {
+      const parsed = RiskDraftSchema.safeParse(item);
+      if (!parsed.success) return null;
+      const { risk, ...rest } = parsed.data;
+      return { id: createId(), type: "risk", description: risk, ...rest };
+    }
+  }
+};
+
+/** Whether the editor (or an earlier candidate) already has this suggestion */
+const isDuplicate = (candidate: DraftCandidate, existing: string[], earlier: DraftCandidate[]): boolean => {
+  const key = candidateKey(candidate);
+  return existing.some((item) => sameText(item, key)) || earlier.some((other) => sameText(candidateKey(other), key));
+};
+
+const candidateKey = (candidate: DraftCandidate): string => {
+  switch (candidate.type) {
+    case "swot":
+      return `${candidate.quadrant}: ${candidate.text}`;
+    case "factor":
+      return `${candidate.force}: ${candidate.text}`;
+    case "rating":
+      return `${candidate.force} rating`;
+    case "risk":
+      return candidate.description;
+  }
+};
+
+/** Most suggested rating per force, where it differs from the current one */
+const suggestRatings = (ratings: { force: PortersForce; rating: ForceRating }[]): DraftCandidate[] => {
+  const porters = readDomain("porters");
+  return (Object.keys(PORTERS_FORCE_LABELS) as PortersForce[]).flatMap((force) => {
+    const votes = ratings.filter((vote) => vote.force === force).map((vote) => vote.rating);
+    if (votes.length === 0) return [];
+    const rating = (["high", "medium", "low"] as const).reduce((best, option) =>
+      votes.filter((vote) => vote === option).length > votes.filter((vote) => vote === best).length ? option : best
+    );
+    return rating === porters[force].rating ? [] : [{ id: createId(), type: "rating" as const, force, rating }];
+  });
+};
+
+// ============ Drafting ============
+
+export type DraftModel = (
+  request: string,
+  context: string,
+  instructions: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: number, text: string) => void;
+    /** The context rebuilt for a smaller budget (see ChatStreamOptions.buildContext) */
+    buildContext?: (budget: number) => string;
+  }
+) => AsyncIterable<string>;
+
+const streamDraft: DraftModel = (request, context, instructions, { signal, onProgress, buildContext }) =>
+  streamChat([{ role: "user", content: request }], context, { signal, instructions, onProgress, buildContext });
+
+/** Flat JSON objects in the text, e.g. from JSON lines, an array or a code block */
+const OBJECT_PATTERN = /\{[^{}]*\}/g;
+
+interface DraftOptions {
+  signal?: AbortSignal;
+  /** Called for each new candidate as soon as it has streamed in */
+  onCandidate: (candidate: DraftCandidate) => void;
+  /** Model download progress (WebLLM) */
+  onProgress?: (progress: number, text: string) => void;
+  model?: DraftModel;
+}
+
+/**
+ * Ask the model for candidates, reporting each one as it arrives
+ * @returns every candidate, including suggested Porter's ratings
+ */
+export const draftCandidates = async (
+  target: DraftTarget,
+  { signal, onCandidate, onProgress, model = streamDraft }: DraftOptions
+): Promise<DraftCandidate[]> => {
+  const { context, instructions, request } = buildDraftPrompt(target);
+  const existing = listExisting(target);
+  const candidates: DraftCandidate[] = [];
+  const ratings: { force: PortersForce; rating: ForceRating }[] = [];
+  let text = "";
+  let scanned = 0;
+
+  const add = (candidate: DraftCandidate) => {
+    if (isDuplicate(candidate, existing, candidates)) return;
+    candidates.push(candidate);
+    onCandidate(candidate);
+  };
+
+  const buildContext = (budget: number) => buildDraftPrompt(target, budget).context;
+  for await (const token of model(request, context, instructions, { signal, onProgress, buildContext })) {
+    text += token;
+    OBJECT_PATTERN.lastIndex = scanned;
+    let match: RegExpExecArray | null;
+    while ((match = OBJECT_PATTERN.exec(text))) {
+      scanned = OBJECT_PATTERN.lastIndex;
+      let item: unknown;
+      try {
+        item = JSON.parse(match[0]);
+      } catch {
+        continue;
+      }
+      const candidate = toCandidate(target, item);
+      if (!candidate) continue;
+      if (candidate.type === "factor") {
+        const { rating } = FactorDraftSchema.parse(item);
+        if (rating) ratings.push({ force: candidate.force, rating });
+      }
+      add(candidate);
+    }
+  }
+
+  if (!signal?.aborted) suggestRatings(ratings).forEach(add);
+  return candidates;
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AIAuthError,
+  AIModelNotFoundError,
+  AIQuotaError,
+  AIRateLimitError,
+  AIServerError,
+  createAIError,
+  getAIErrorMessage,
+  parseRetryAfter,
+} from './aiErrors';
+
+const error = (status: number, body = '', retryAfter: string | null = null) =>
+  createAIError({ provider: 'OpenAI API', status, body, retryAfter, model: 'gpt-4o' });
+
+describe('aiErrors', () => {
+  it('should classify failed responses', () => {
+    expect(error(401)).toBeInstanceOf(AIAuthError);
+    expect(error(429, '', '3')).toMatchObject({ kind: 'rate-limited', retryable: true, retryAfterMs: 3000 });
+    expect(error(429)).toBeInstanceOf(AIRateLimitError);
+    expect(error(429, '{"error":{"message":"You exceeded your current quota","type":"insufficient_quota"}}')).toBeInstanceOf(AIQuotaError);
+    expect(error(400, '{"error":{"code":"model_not_found","message":"Unknown model"}}')).toBeInstanceOf(AIModelNotFoundError);
+    expect(error(502, '<html>Bad gateway</html>')).toBeInstanceOf(AIServerError);
+  });
+
+  it('should give actionable messages without raw response bodies', () => {
+    expect(error(401).message).toBe('OpenAI API rejected the API key. Check it in Settings → AI Settings.');
+    expect(error(404).message).toBe('OpenAI API doesn\'t have the model "gpt-4o". Choose another model in AI Settings.');
+    expect(error(502, '<html>Bad gateway</html>').message).not.toContain('<html>');
+    expect(error(400, '{"error":{"message":"max_tokens is too large"}}').message).toBe(
+      "OpenAI API couldn't answer: max_tokens is too large"
+    );
+  });
+
+  it('should read Retry-After as seconds or a date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('1.5')).toBe(1500);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should fall back to a generic message for other errors', () => {
+    expect(getAIErrorMessage(error(401))).toBe(error(401).message);
+    expect(getAIErrorMessage(new Error('Choose a model'))).toBe('Sorry, I had trouble processing that. Choose a model');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * AI Errors
+ * Typed errors for failed AI requests. Each carries a friendly message that
+ * says what to do next, and whether trying again later could help.
+ */
+
+export type AIErrorKind =
+  | "auth"
+  | "rate-limited"
+  | "quota"
+  | "network"
+  | "timeout"
+  | "model-not-found"
+  | "server"
+  | "unknown";
+
+export class AIProviderError extends Error {
+  readonly kind: AIErrorKind;
+  /** Provider label, e.g. "Groq API" */
+  readonly provider: string;
+  readonly status?: number;
+  /** Whether the same request could succeed if sent again */
+  readonly retryable: boolean;
+  /** How long the server asked us to wait before retrying */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: AIErrorKind,
+    message: string,
+    { provider, status, retryable = false, retryAfterMs }: {
+      provider: string;
+      status?: number;
+      retryable?: boolean;
+      retryAfterMs?: number;
+    }
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+    this.kind = kind;
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AIAuthError extends AIProviderError {
+  constructor(provider: string, status?: number) {
+    super("auth", `${provider} rejected the API key. Check it in Settings → AI Settings.`, { provider, status });
+    this.name = "AIAuthError";
+  }
+}
+
+export class AIRateLimitError extends AIProviderError {
+  constructor(provider: string, retryAfterMs?: number) {
+    const wait = retryAfterMs ? `in ${Math.ceil(retryAfterMs / 1000)} seconds` : "in a moment";
+    super("rate-limited", `${provider} is getting too many requests right now. Try again ${wait}.`, {
+      provider,
+      status: 429,
+      retryable: true,
+      retryAfterMs,
+    });
+    this.name = "AIRateLimitError";
+  }
+}
+
+export class AIQuotaError extends AIProviderError {
+  constructor(provider: string, status?: number) {
+    super(
+      "quota",
+      `Your ${provider} account has run out of credit or hit its usage limit. Check your plan and billing, or choose another provider in AI Settings.`,
+      { provider, status }
+    );
+    this.name = "AIQuotaError";
+  }
+}
+
+export class AINetworkError extends AIProviderError {
+  constructor(provider: string, url?: string) {
+    super(
+      "network",
+      `Couldn't reach ${url ?? provider}. Check your internet connection${url ? " and that the server is running" : ""}.`,
+      { provider, retryable: true }
+    );
+    this.name = "AINetworkError";
+  }
+}
+
+export class AITimeoutError extends AIProviderError {
+  constructor(provider: string) {
+    super("timeout", `${provider} took too long to respond. Try again, or choose a faster model in AI Settings.`, {
+      provider,
+      retryable: true,
+    });
+    this.name = "AITimeoutError";
+  }
+}
+
+export class AIModelNotFoundError extends AIProviderError {
+  constructor(provider: string, model?: string, status?: number) {
+    super(
+      "model-not-found",
+      `${provider} doesn't have the model${model ? ` "${model}"` : " you chose"}. Choose another model in AI Settings.`,
+      { provider, status }
+    );
+    this.name = "AIModelNotFoundError";
+  }
+}
+
+export class AIServerError extends AIProviderError {
+  constructor(provider: string, status: number, detail?: string) {
+    super("server", `${provider} is having problems (error ${status}).${detail ? ` ${detail}` : ""} Try again shortly.`, {
+      provider,
+      status,
+      retryable: true,
+    });
+    this.name = "AIServerError";
+  }
+}
+
+// ============ Responses ============
+
+/**
+ * Retry-After header (seconds or an HTTP date) in milliseconds
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/** Message and code from an OpenAI-style error body, or the raw text */
+const readErrorBody = (text: string): { message: string; code?: string } => {
+  try {
+    const body = JSON.parse(text);
+    const error = body?.error ?? body;
+    if (typeof error === "string") return { message: error };
+    return {
+      message: String(error?.message ?? body?.message ?? text),
+      code: error?.code ?? error?.type ?? undefined,
+    };
+  } catch {
+    return { message: text };
+  }
+};
+
+/**
+ * Typed error for a failed HTTP response from an OpenAI-compatible API
+ */
+export const createAIError = ({
+  provider,
+  status,
+  body = "",
+  retryAfter = null,
+  model,
+}: {
+  provider: string;
+  status: number;
+  body?: string;
+  retryAfter?: string | null;
+  model?: string;
+}): AIProviderError => {
+  const { message, code } = readErrorBody(body);
+  const text = `${code ?? ""} ${message}`.toLowerCase();
+
+  if (status === 402 || text.includes("quota")) {
+    return new AIQuotaError(provider, status);
+  }
+  if (status === 401 || status === 403) return new AIAuthError(provider, status);
+  if (status === 429) return new AIRateLimitError(provider, parseRetryAfter(retryAfter));
+  if (status === 404 || text.includes("model_not_found") || /model .*(not found|does not exist)/.test(text)) {
+    return new AIModelNotFoundError(provider, model, status);
+  }
+  if (status >= 500) return new AIServerError(provider, status);
+  return new AIProviderError("unknown", `${provider} couldn't answer: ${message.slice(0, 200) || `error ${status}`}`, {
+    provider,
+    status,
+  });
+};
+
+/**
+ * Message to show the user for any error from an AI request
+ */
+export const getAIErrorMessage = (error: unknown): string =>
+  error instanceof AIProviderError
+    ? error.message
+    : `Sorry, I had trouble processing that. ${error instanceof Error ? error.message : "Please try again."}`;
@@ -0,0 +1,100 @@
+/**
+ * Mock AI Provider
+ * Replays scripted replies instead of calling a model, so prompt building,
+ * reply parsing and error handling can be tested offline. Every request is
+ * recorded for assertions. The same scripts drive the OpenAI stand-in server
+ * in src/test/openAIStandIn.ts.
+ */
+import type { AIChatRequest, AIProvider } from "./aiProvider";
+import { createAIError } from "./aiErrors";
+
+/**
+ * One scripted reply: text (streamed word by word), exact tokens, a failure
+ * (with an HTTP status for a typed error), or a function choosing the reply
+ * from the request
+ */
+export type MockReply =
+  | string
+  | { tokens: string[] }
+  | MockFailure
+  | ((request: AIChatRequest) => MockReply);
+
+export interface MockFailure {
+  error: string;
+  status?: number;
+  /** Seconds for the Retry-After header */
+  retryAfter?: number;
+}
+
+export type ResolvedMockReply = { tokens: string[] } | MockFailure;
+
+export interface MockAIProvider extends AIProvider {
+  /** Requests received so far, oldest first */
+  requests: AIChatRequest[];
+  /** Script more replies */
+  enqueue: (...replies: MockReply[]) => void;
+  /** Scripted replies not used yet */
+  pending: () => number;
+}
+
+interface MockAIProviderOptions {
+  id?: string;
+  label?: string;
+  contextTokens?: number;
+  replies?: MockReply[];
+}
+
+/** Split text into word-sized tokens that join back into the same text */
+export const tokenize = (text: string): string[] => text.match(/\s*\S+/g) ?? [];
+
+export const resolveMockReply = (reply: MockReply, request: AIChatRequest): ResolvedMockReply => {
+  if (typeof reply === "function") return resolveMockReply(reply(request), request);
+  if (typeof reply === "string") return { tokens: tokenize(reply) };
+  return reply;
+};
+
+export const createMockAIProvider = ({
+  id = "mock",
+  label = "Mock model",
+  contextTokens = 2_000,
+  replies = [],
+}: MockAIProviderOptions = {}): MockAIProvider => {
+  const queue = [...replies];
+  const requests: AIChatRequest[] = [];
+
+  async function* streamChat(request: AIChatRequest): AsyncGenerator<string> {
+    requests.push(request);
+    const next = queue.shift();
+    if (next === undefined) {
+      throw new Error("The mock AI provider has no more scripted replies");
+    }
+
+    const reply = resolveMockReply(next, request);
+    if ("error" in reply) {
+      if (!reply.status) throw new Error(reply.error);
+      throw createAIError({
+        provider: label,
+        status: reply.status,
+        body: JSON.stringify({ error: { message: reply.error } }),
+        retryAfter: reply.retryAfter === undefined ? null : String(reply.retryAfter),
+      });
+    }
+    for (const token of reply.tokens) {
+      // Let other work run between tokens, like a real stream
+      await Promise.resolve();
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  return {
+    id,
+    label,
+    contextTokens,
+    streamChat,
+    listModels: async () => ["mock-model"],
+    requests,
+    enqueue: (...more) => queue.push(...more),
+    pending: () => queue.length,
+  };
+};
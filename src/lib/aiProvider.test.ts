@@ -0,0 +1,383 @@
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import {
+  chat,
+  createOpenAICompatibleProvider,
+  getAIProvider,
+  getAISettings,
+  getContextBudget,
+  getGenerationSettings,
+  listModels,
+  normalizeBaseUrl,
+  overrideAIProvider,
+  registerAIProvider,
+  saveAISettings,
+  streamChat,
+} from './aiProvider';
+import { createMockAIProvider, type MockAIProvider } from './aiMockProvider';
+import { AIAuthError, AIQuotaError, AIServerError, AITimeoutError } from './aiErrors';
+import { startOpenAIStandIn, type OpenAIStandIn } from '@/test/openAIStandIn';
+
+const encoder = new TextEncoder();
+
+/** OpenAI-style event stream, split awkwardly across chunks like a real network read */
+const eventStream = (tokens: string[], { hang = false } = {}) => {
+  const text =
+    tokens.map((token) => `data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`).join('') +
+    (hang ? '' : 'data: [DONE]\n\n');
+  const chunks = [text.slice(0, 10), text.slice(10, 57), text.slice(57)];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      if (!hang) controller.close();
+    },
+  });
+};
+
+describe('aiProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    localStorage.clear();
+    saveAISettings({ provider: 'groq', apiKey: 'test-key' });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('streamChat', () => {
+    it('should yield tokens from the API as they arrive', async () => {
+      fetchMock.mockResolvedValue(new Response(eventStream(['Hello', ' there', '. How can I help?'])));
+
+      const tokens: string[] = [];
+      for await (const token of streamChat([{ role: 'user', content: 'Hi' }])) {
+        tokens.push(token);
+      }
+
+      expect(tokens).toEqual(['Hello', ' there', '. How can I help?']);
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.stream).toBe(true);
+    });
+
+    it('should end quietly with the partial reply when aborted', async () => {
+      const controller = new AbortController();
+      fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+        const body = eventStream(['Partial'], { hang: true });
+        return new Response(body.pipeThrough(new TransformStream(), { signal: init.signal! }));
+      });
+
+      const tokens: string[] = [];
+      for await (const token of streamChat([{ role: 'user', content: 'Hi' }], undefined, {
+        signal: controller.signal,
+      })) {
+        tokens.push(token);
+        controller.abort();
+      }
+
+      expect(tokens).toEqual(['Partial']);
+    });
+
+    it('should turn API errors into friendly typed errors', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('{"error":{"message":"Invalid API Key"}}', { status: 401 }));
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toBeInstanceOf(AIAuthError);
+
+      fetchMock.mockResolvedValueOnce(
+        new Response('{"error":{"message":"messages must not be empty","type":"invalid_request_error"}}', { status: 400 })
+      );
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        "Groq API couldn't answer: messages must not be empty"
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should require an API key for API providers', async () => {
+      saveAISettings({ provider: 'openai' });
+
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('API key required');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chat', () => {
+    it('should collect the streamed reply', async () => {
+      fetchMock.mockResolvedValue(new Response(eventStream(['Sounds ', 'great!'])));
+
+      expect(await chat([{ role: 'user', content: 'Hi' }])).toBe('Sounds great!');
+    });
+  });
+
+  describe('settings', () => {
+    it('should load settings saved before the custom provider existed', () => {
+      localStorage.setItem('mizzie-ai-settings', JSON.stringify({ provider: 'groq', apiKey: 'old-key' }));
+
+      expect(getAISettings()).toEqual({ provider: 'groq', apiKey: 'old-key' });
+    });
+
+    it('should fall back to defaults when stored settings are invalid', () => {
+      localStorage.setItem('mizzie-ai-settings', JSON.stringify({ provider: 'skynet' }));
+
+      expect(getAISettings()).toEqual({ provider: 'webllm' });
+    });
+
+    it('should keep generation settings separately for each provider', () => {
+      const settings = {
+        provider: 'custom' as const,
+        generation: { custom: { temperature: 0.2, maxTokens: 1024 } },
+      };
+
+      expect(getGenerationSettings(settings)).toEqual({ temperature: 0.2, maxTokens: 1024 });
+      expect(getGenerationSettings(settings, 'groq')).toEqual({ temperature: 0.7, maxTokens: 256 });
+    });
+
+    it('should accept server roots as base URLs', () => {
+      expect(normalizeBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+      expect(normalizeBaseUrl(' http://localhost:1234/v1/ ')).toBe('http://localhost:1234/v1');
+    });
+  });
+
+  describe('custom provider', () => {
+    const custom = { provider: 'custom' as const, baseUrl: 'http://localhost:11434', model: 'llama3.2' };
+
+    it('should list the server\'s models', async () => {
+      fetchMock.mockResolvedValue(Response.json({ data: [{ id: 'qwen2.5' }, { id: 'llama3.2' }] }));
+
+      expect(await listModels(custom)).toEqual(['llama3.2', 'qwen2.5']);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/models');
+    });
+
+    it('should explain unreachable servers and non-compatible responses', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      await expect(listModels(custom)).rejects.toThrow("Couldn't reach http://localhost:11434/v1");
+
+      fetchMock.mockResolvedValueOnce(Response.json({ models: [] }));
+      await expect(listModels(custom)).rejects.toThrow('OpenAI-compatible');
+    });
+
+    it('should chat without an API key using the provider\'s generation settings', async () => {
+      saveAISettings({ ...custom, generation: { custom: { temperature: 0.3, maxTokens: 512 } } });
+      fetchMock.mockResolvedValue(new Response(eventStream(['Hi!'])));
+
+      expect(await chat([{ role: 'user', content: 'Hi' }])).toBe('Hi!');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.2', temperature: 0.3, max_tokens: 512 });
+    });
+  });
+
+  describe('provider registry', () => {
+    afterEach(() => overrideAIProvider(null));
+
+    it('should send the system prompt, context and history to the active provider', async () => {
+      const mock = createMockAIProvider({ replies: ['Your canvas looks solid.'] });
+      overrideAIProvider(mock);
+
+      const tokens: string[] = [];
+      for await (const token of streamChat(
+        [{ role: 'user', content: 'How is my canvas?' }],
+        'Canvas: coffee cart',
+        { instructions: 'Answer in one sentence.' }
+      )) {
+        tokens.push(token);
+      }
+
+      expect(tokens).toEqual(['Your', ' canvas', ' looks', ' solid.']);
+      const [request] = mock.requests;
+      expect(request.messages.map((message) => message.role)).toEqual(['system', 'user']);
+      expect(request.messages[0].content).toContain('=== THE USER\'S BUSINESS PLAN ===\nCanvas: coffee cart');
+      expect(request.messages[0].content).toMatch(/Answer in one sentence\.$/);
+      expect(request.settings.provider).toBe('groq');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should surface scripted failures and use the provider\'s context budget', async () => {
+      overrideAIProvider(createMockAIProvider({ contextTokens: 900, replies: [{ error: 'Model overloaded' }] }));
+
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('Model overloaded');
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('no more scripted replies');
+      expect(getContextBudget(getAISettings())).toBe(900);
+    });
+
+    it('should stop replaying when aborted', async () => {
+      const controller = new AbortController();
+      overrideAIProvider(createMockAIProvider({ replies: [{ tokens: ['One', ' two', ' three'] }] }));
+
+      const tokens: string[] = [];
+      for await (const token of streamChat([{ role: 'user', content: 'Hi' }], undefined, { signal: controller.signal })) {
+        tokens.push(token);
+        controller.abort();
+      }
+
+      expect(tokens).toEqual(['One']);
+    });
+
+    it('should default the context budget to the selected provider\'s', () => {
+      expect(getContextBudget({ provider: 'webllm' })).toBe(1_200);
+      expect(getContextBudget({ provider: 'custom', generation: { custom: { temperature: 0.7, maxTokens: 256, contextTokens: 800 } } })).toBe(800);
+    });
+  });
+
+  describe('OpenAI-compatible server', () => {
+    let server: OpenAIStandIn;
+
+    beforeAll(async () => {
+      server = await startOpenAIStandIn({ models: ['qwen2.5', 'llama3.2'] });
+    });
+
+    afterAll(() => server.close());
+
+    beforeEach(() => {
+      vi.unstubAllGlobals();
+      saveAISettings({ provider: 'custom', baseUrl: server.baseUrl, model: 'llama3.2', apiKey: 'local-key' });
+    });
+
+    it('should stream a reply over server-sent events', async () => {
+      server.enqueue('Happy to help with your pricing.');
+
+      expect(await chat([{ role: 'user', content: 'Pricing?' }], 'Price: $4')).toBe('Happy to help with your pricing.');
+
+      const request = server.requests.at(-1)!;
+      expect(request.path).toBe('/v1/chat/completions');
+      expect(request.headers.authorization).toBe('Bearer local-key');
+      expect(request.body).toMatchObject({ model: 'llama3.2', stream: true, max_tokens: 256 });
+    });
+
+    it('should list the server\'s models and report its errors', async () => {
+      expect(await listModels(getAISettings())).toEqual(['llama3.2', 'qwen2.5']);
+
+      server.enqueue({ error: 'The model `llama3.2` does not exist', status: 404 });
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('Custom server doesn\'t have the model "llama3.2"');
+    });
+
+    it('should wait as long as the server asks before retrying', async () => {
+      server.enqueue({ error: 'Rate limit reached', status: 429, retryAfter: 0 }, 'Back again.');
+
+      expect(await chat([{ role: 'user', content: 'Hi' }])).toBe('Back again.');
+      expect(server.requests.filter((request) => request.path === '/v1/chat/completions').slice(-2)).toHaveLength(2);
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    const ask = () => chat([{ role: 'user', content: 'Hi' }]);
+    const useProvider = (options: Partial<Parameters<typeof createOpenAICompatibleProvider>[0]> = {}) =>
+      overrideAIProvider(createOpenAICompatibleProvider({ id: 'groq', contextTokens: 1_000, baseUrl: 'https://api.test/v1', defaultModel: 'test-model', retryDelayMs: 5, ...options }));
+
+    beforeEach(() => vi.spyOn(console, 'warn').mockImplementation(() => {}));
+
+    afterEach(() => {
+      overrideAIProvider(null);
+      vi.useRealTimers();
+    });
+
+    it('should back off and retry server errors', async () => {
+      useProvider();
+      fetchMock
+        .mockResolvedValueOnce(new Response('overloaded', { status: 503 }))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(new Response(eventStream(['Made it.'])));
+
+      expect(await ask()).toBe('Made it.');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honour Retry-After and give up when the wait is too long', async () => {
+      vi.useFakeTimers();
+      useProvider();
+      fetchMock
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }))
+        .mockResolvedValueOnce(new Response(eventStream(['Thanks for waiting.'])));
+
+      const reply = ask();
+      await vi.advanceTimersByTimeAsync(1_999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await reply).toBe('Thanks for waiting.');
+
+      fetchMock.mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '60' } }));
+      await expect(ask()).rejects.toThrow('Groq API is getting too many requests right now. Try again in 60 seconds.');
+    });
+
+    it('should not retry errors the user has to fix', async () => {
+      useProvider();
+      fetchMock.mockResolvedValue(new Response('{"error":{"code":"insufficient_quota"}}', { status: 429 }));
+
+      await expect(ask()).rejects.toBeInstanceOf(AIQuotaError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out when the server stops responding', async () => {
+      useProvider({ timeoutMs: 20, retries: 1 });
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))))
+      );
+
+      const error = await ask().catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(AITimeoutError);
+      expect(error.message).toBe('Groq API took too long to respond. Try again, or choose a faster model in AI Settings.');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('fallback to WebLLM', () => {
+    const webllm = getAIProvider('webllm')!;
+    let local: MockAIProvider;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubGlobal('navigator', { gpu: {} });
+      local = createMockAIProvider({ id: 'webllm', label: 'WebLLM (browser)', contextTokens: 5 });
+      registerAIProvider(local);
+    });
+
+    afterEach(() => {
+      registerAIProvider(webllm);
+      overrideAIProvider(null);
+    });
+
+    it('should answer with the in-browser model when the cloud provider is unavailable', async () => {
+      overrideAIProvider(createMockAIProvider({ replies: [{ error: 'Service unavailable', status: 503 }] }));
+      local.enqueue('Answered locally.');
+      const onFallback = vi.fn();
+      const buildContext = vi.fn((budget: number) => `Canvas: ${budget} tokens of the plan`);
+
+      let reply = '';
+      for await (const token of streamChat([{ role: 'user', content: 'Hi' }], 'Canvas: a long summary of the plan', { onFallback, buildContext })) {
+        reply += token;
+      }
+
+      expect(reply).toBe('Answered locally.');
+      expect(onFallback).toHaveBeenCalledWith(expect.any(AIServerError), local);
+      expect(buildContext).toHaveBeenCalledWith(5);
+      expect(local.requests[0].messages[0].content).toContain('Canvas: 5 tokens of the plan');
+      expect(local.requests[0].messages[0].content).not.toContain('a long summary');
+    });
+
+    it('should trim the context to the in-browser model\'s window when it can\'t be rebuilt', async () => {
+      saveAISettings({ provider: 'groq', apiKey: 'test-key', generation: { webllm: { temperature: 0.7, maxTokens: 256, contextTokens: 128000 } } });
+      overrideAIProvider(createMockAIProvider({ replies: [{ error: 'Service unavailable', status: 503 }, { error: 'Down', status: 503 }] }));
+      local.enqueue('Trimmed.', 'Rebuilt.');
+
+      await chat([{ role: 'user', content: 'Hi' }], 'Canvas: a long summary of the plan');
+      expect(local.requests[0].messages[0].content).toContain('Canvas: a long summ…');
+      expect(local.requests[0].messages[0].content).not.toContain('of the plan');
+
+      const buildContext = vi.fn(() => '');
+      for await (const token of streamChat([{ role: 'user', content: 'Hi' }], 'Canvas', { buildContext })) void token;
+      expect(buildContext).toHaveBeenCalledWith(5);
+    });
+
+    it('should report errors the user has to fix, or when fallback is turned off', async () => {
+      overrideAIProvider(createMockAIProvider({ replies: [{ error: 'Invalid API Key', status: 401 }, { error: 'Down', status: 503 }] }));
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toBeInstanceOf(AIAuthError);
+
+      saveAISettings({ provider: 'groq', apiKey: 'test-key', fallbackToWebLLM: false });
+      await expect(chat([{ role: 'user', content: 'Hi' }])).rejects.toBeInstanceOf(AIServerError);
+      expect(local.requests).toHaveLength(0);
+    });
+  });
+});
@@ -1,16 +1,37 @@
 /**
  * AI Provider - Abstraction layer for WebLLM and API-based models
+ *
+ * Each backend implements AIProvider and is looked up in a registry by the id
+ * stored in the AI settings, so tests can swap in a scripted provider.
  */
 
 import * as webllm from "@mlc-ai/web-llm";
-
-export type AIProviderType = "webllm" | "groq" | "openai";
-
-export interface AISettings {
-  provider: AIProviderType;
-  apiKey?: string;
-  model?: string;
-}
+import {
+  AIGenerationSettingsSchema,
+  AIModelListSchema,
+  AISettingsSchema,
+  type AIGenerationSettings,
+  type AIProviderType,
+  type AISettings,
+} from "./validators";
+import {
+  AINetworkError,
+  AIProviderError,
+  AIServerError,
+  AITimeoutError,
+  createAIError,
+  type AIErrorKind,
+} from "./aiErrors";
+import { trimToTokens } from "./aiContext";
+
+export type { AIGenerationSettings, AIProviderType, AISettings };
+
+export const AI_PROVIDER_LABELS: Record<AIProviderType, string> = {
+  webllm: "WebLLM (browser)",
+  groq: "Groq API",
+  openai: "OpenAI API",
+  custom: "Custom server",
+};
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -24,7 +45,9 @@ export const getAISettings = (): AISettings => {
   try {
     const stored = localStorage.getItem(SETTINGS_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const result = AISettingsSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+      console.error("[aiProvider] Invalid AI settings, using defaults:", result.error.message);
     }
   } catch (e) {
     console.error("Failed to load AI settings:", e);
@@ -33,9 +56,308 @@ export const getAISettings = (): AISettings => {
 };
 
 export const saveAISettings = (settings: AISettings): void => {
-  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(AISettingsSchema.parse(settings)));
+};
+
+// How many tokens of business context to send with each question
+export const getContextBudget = (settings: AISettings): number =>
+  getGenerationSettings(settings).contextTokens ?? getActiveProvider(settings).contextTokens;
+
+// Temperature and reply length for the selected provider
+export const getGenerationSettings = (
+  settings: AISettings,
+  provider: AIProviderType = settings.provider
+): AIGenerationSettings => AIGenerationSettingsSchema.parse(settings.generation?.[provider] ?? {});
+
+// Accepts server roots as well as API roots: http://localhost:11434 -> http://localhost:11434/v1
+export const normalizeBaseUrl = (url: string): string => {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+};
+
+// ============ Provider Registry ============
+
+export interface AIChatRequest {
+  /** The conversation, starting with the system prompt */
+  messages: ChatMessage[];
+  settings: AISettings;
+  generation: AIGenerationSettings;
+  signal?: AbortSignal;
+  /** Model download progress, for providers that load a model first */
+  onProgress?: (progress: number, text: string) => void;
+}
+
+/**
+ * A model backend. Providers stream reply tokens and end quietly with the
+ * partial reply when the request is aborted.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+  /** Business context budget sized for the provider's usual models */
+  contextTokens: number;
+  streamChat: (request: AIChatRequest) => AsyncIterable<string>;
+  /** Models the provider offers, if it can list them */
+  listModels?: (settings: AISettings, signal?: AbortSignal) => Promise<string[]>;
+}
+
+const providers = new Map<string, AIProvider>();
+let providerOverride: AIProvider | null = null;
+
+/** Add a provider, replacing any registered with the same id */
+export const registerAIProvider = (provider: AIProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getAIProvider = (id: string): AIProvider | undefined => providers.get(id);
+
+/**
+ * Send every request to this provider whatever the settings say, e.g. a mock
+ * provider in tests. Pass null to go back to the selected provider.
+ */
+export const overrideAIProvider = (provider: AIProvider | null): void => {
+  providerOverride = provider;
+};
+
+const getActiveProvider = (settings: AISettings): AIProvider => {
+  const provider = providerOverride ?? providers.get(settings.provider);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${settings.provider}`);
+  }
+  return provider;
+};
+
+// ============ OpenAI-Compatible Providers ============
+
+interface OpenAICompatibleOptions {
+  id: AIProviderType;
+  contextTokens: number;
+  /** Fixed API root; without one the server URL comes from the settings */
+  baseUrl?: string;
+  defaultModel?: string;
+  /** Hosted APIs need a key; local servers usually don't */
+  requiresKey?: boolean;
+  /** Give up on a request after this long without a response or a new token */
+  timeoutMs?: number;
+  /** Retries after rate limits, network errors, timeouts and server errors */
+  retries?: number;
+  /** First retry delay, doubled for each further retry */
+  retryDelayMs?: number;
+}
+
+/** Longest wait before a retry; if a server asks for longer, the error is reported instead */
+const MAX_RETRY_DELAY_MS = 20_000;
+
+// Exponential backoff with jitter, or the server's Retry-After when it gives one
+const getRetryDelay = (error: AIProviderError, attempt: number, baseDelayMs: number): number =>
+  error.retryAfterMs ?? baseDelayMs * 2 ** attempt * (1 + Math.random() / 2);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+/**
+ * Abort signal that follows the caller's signal and also fires after `ms`
+ * without activity; call touch() whenever data arrives
+ */
+const createIdleTimeout = (ms: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const abort = () => controller.abort();
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, ms);
+  };
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort);
+  touch();
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    },
+  };
 };
 
+const getHeaders = (settings: AISettings): Record<string, string> => ({
+  "Content-Type": "application/json",
+  // Local servers usually don't need a key
+  ...(settings.apiKey ? { "Authorization": `Bearer ${settings.apiKey}` } : {}),
+});
+
+// Read content tokens from an OpenAI-style server-sent event stream
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) continue;
+        const json = data.slice("data:".length).trim();
+        if (json === "[DONE]") return;
+        const token = JSON.parse(json).choices?.[0]?.delta?.content;
+        if (token) yield token;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/** Provider for Groq, OpenAI or any server implementing the OpenAI chat API */
+export const createOpenAICompatibleProvider = ({
+  id,
+  contextTokens,
+  baseUrl: fixedBaseUrl,
+  defaultModel,
+  requiresKey = false,
+  timeoutMs = 30_000,
+  retries = 2,
+  retryDelayMs = 1_000,
+}: OpenAICompatibleOptions): AIProvider => {
+  const label = AI_PROVIDER_LABELS[id];
+
+  const getBaseUrl = (settings: AISettings): string => {
+    if (fixedBaseUrl) return fixedBaseUrl;
+    if (!settings.baseUrl) {
+      throw new Error(`Server URL required for the ${id} provider`);
+    }
+    return normalizeBaseUrl(settings.baseUrl);
+  };
+
+  // Models offered by the server (GET /models)
+  const listModels = async (settings: AISettings, signal?: AbortSignal): Promise<string[]> => {
+    const baseUrl = getBaseUrl(settings);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/models`, { headers: getHeaders(settings), signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new Error(
+        `Couldn't reach ${baseUrl}. Check the server is running and allows requests from this site (CORS).`
+      );
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        response.status === 401 || response.status === 403
+          ? "The server rejected the API key."
+          : `Server error ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const result = AIModelListSchema.safeParse(await response.json().catch(() => null));
+    if (!result.success) {
+      throw new Error("The server didn't return a model list. Is this an OpenAI-compatible endpoint?");
+    }
+    return result.data.data.map((model) => model.id).sort((a, b) => a.localeCompare(b));
+  };
+
+  async function* streamChat({ messages, settings, generation, signal }: AIChatRequest): AsyncGenerator<string> {
+    if (requiresKey && !settings.apiKey) {
+      throw new AIProviderError("auth", `API key required for ${label}. Add it in Settings → AI Settings.`, { provider: label });
+    }
+    const baseUrl = getBaseUrl(settings);
+    const model = settings.model || defaultModel;
+    if (!model) {
+      throw new Error(`Choose a model for the ${id} provider in AI Settings`);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const timeout = createIdleTimeout(timeoutMs, signal);
+      let started = false;
+      try {
+        let response: Response;
+        try {
+          response = await fetch(`${baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: getHeaders(settings),
+            body: JSON.stringify({
+              model,
+              messages,
+              temperature: generation.temperature,
+              max_tokens: generation.maxTokens,
+              stream: true,
+            }),
+            signal: timeout.signal,
+          });
+        } catch (error) {
+          if (timeout.signal.aborted) throw error;
+          throw new AINetworkError(label, fixedBaseUrl ? undefined : baseUrl);
+        }
+
+        if (!response.ok) {
+          throw createAIError({
+            provider: label,
+            status: response.status,
+            body: await response.text().catch(() => ""),
+            retryAfter: response.headers.get("Retry-After"),
+            model,
+          });
+        }
+        if (!response.body) {
+          throw new AIServerError(label, response.status, "The reply was empty.");
+        }
+
+        for await (const token of readEventStream(response.body)) {
+          started = true;
+          timeout.touch();
+          yield token;
+        }
+        return;
+      } catch (caught) {
+        // Stopped by the user: keep what was generated so far
+        if (signal?.aborted) return;
+        const error = timeout.timedOut() ? new AITimeoutError(label) : caught;
+        if (started || !(error instanceof AIProviderError) || !error.retryable || attempt >= retries) throw error;
+
+        const delay = getRetryDelay(error, attempt, retryDelayMs);
+        if (delay > MAX_RETRY_DELAY_MS) throw error;
+        console.warn(`[aiProvider] ${label} request failed (${error.kind}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, signal);
+        if (signal?.aborted) return;
+      } finally {
+        timeout.clear();
+      }
+    }
+  }
+
+  return { id, label, contextTokens, streamChat, listModels };
+};
+
+// Models offered by the provider in the given settings (which may not be saved yet)
+export const listModels = async (settings: AISettings, signal?: AbortSignal): Promise<string[]> => {
+  const provider = getActiveProvider(settings);
+  if (!provider.listModels) {
+    throw new Error(`${provider.label} can't list its models.`);
+  }
+  return provider.listModels(settings, signal);
+};
+
+// ============ WebLLM ============
+
 // WebLLM Engine singleton
 let webllmEngine: webllm.MLCEngine | null = null;
 let webllmLoading = false;
@@ -79,151 +401,159 @@ export const initWebLLM = async (
   }
 };
 
-// Canvas data interface for context
-export interface CanvasContext {
-  keyPartners?: string;
-  keyActivities?: string;
-  keyResources?: string;
-  valuePropositions?: string;
-  customerRelationships?: string;
-  channels?: string;
-  customerSegments?: string;
-  costStructure?: string;
-  revenueStreams?: string;
-}
-
-// Build system prompt with canvas context
-const buildSystemPrompt = (canvas?: CanvasContext): string => {
-  // Add current canvas state if available
-  if (canvas) {
-    const filledSections: string[] = [];
-    const emptySections: string[] = [];
-
-    const checkSection = (name: string, value?: string) => {
-      if (value && value.trim()) {
-        filledSections.push(`**${name}**: ${value.trim()}`);
-      } else {
-        emptySections.push(name);
-      }
-    };
-
-    checkSection("Value Propositions", canvas.valuePropositions);
-    checkSection("Customer Segments", canvas.customerSegments);
-    checkSection("Channels", canvas.channels);
-    checkSection("Customer Relationships", canvas.customerRelationships);
-    checkSection("Revenue Streams", canvas.revenueStreams);
-    checkSection("Key Resources", canvas.keyResources);
-    checkSection("Key Activities", canvas.keyActivities);
-    checkSection("Key Partners", canvas.keyPartners);
-    checkSection("Cost Structure", canvas.costStructure);
-
-    // Build a more explicit prompt
-    let prompt = `You are Mizzie, a friendly business planning assistant. You have FULL ACCESS to the user's Business Model Canvas.
-
-IMPORTANT: You can already see the user's canvas content below. DO NOT ask them to share it - you already have it!
-
-=== THE USER'S CURRENT BUSINESS MODEL CANVAS ===
-`;
+// Stream from the in-browser model
+async function* streamWithWebLLM({ messages, generation, signal, onProgress }: AIChatRequest): AsyncGenerator<string> {
+  const engine = await initWebLLM(onProgress);
+  if (signal?.aborted) return;
 
-    if (filledSections.length > 0) {
-      prompt += "\nFILLED SECTIONS:\n" + filledSections.join("\n\n");
-    } else {
-      prompt += "\n(All sections are currently empty)";
-    }
+  const chunks = await engine.chat.completions.create({
+    messages,
+    temperature: generation.temperature,
+    max_tokens: generation.maxTokens,
+    stream: true,
+  });
 
-    if (emptySections.length > 0 && filledSections.length > 0) {
-      prompt += "\n\nEMPTY SECTIONS: " + emptySections.join(", ");
+  // The engine keeps generating until interrupted, even if nobody reads the chunks
+  const interrupt = () => engine.interruptGenerate();
+  signal?.addEventListener("abort", interrupt);
+  let finished = false;
+  try {
+    for await (const chunk of chunks) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) yield token;
     }
+    finished = true;
+  } finally {
+    signal?.removeEventListener("abort", interrupt);
+    if (!finished) interrupt();
+  }
+}
 
-    prompt += `
-
-=== END OF CANVAS ===
-
-When the user asks about their canvas, REFER TO THE CONTENT ABOVE. Give specific feedback based on what they've written.
-Be conversational and encouraging. Keep responses concise (2-3 sentences).`;
+// Check if WebLLM is supported
+export const isWebLLMSupported = (): boolean => {
+  return "gpu" in navigator;
+};
 
-    console.log("System prompt with canvas:", prompt); // Debug
-    return prompt;
+// ============ Built-in Providers ============
+
+// Context budgets are sized for each provider's usual models (the WebLLM model has a 4k window)
+registerAIProvider({ id: "webllm", label: AI_PROVIDER_LABELS.webllm, contextTokens: 1_200, streamChat: streamWithWebLLM });
+registerAIProvider(createOpenAICompatibleProvider({
+  id: "groq",
+  contextTokens: 3_000,
+  baseUrl: "https://api.groq.com/openai/v1",
+  defaultModel: "llama-3.1-8b-instant",
+  requiresKey: true,
+}));
+registerAIProvider(createOpenAICompatibleProvider({
+  id: "openai",
+  contextTokens: 3_000,
+  baseUrl: "https://api.openai.com/v1",
+  defaultModel: "gpt-3.5-turbo",
+  requiresKey: true,
+}));
+// Local servers may need to load the model before the first token
+registerAIProvider(createOpenAICompatibleProvider({ id: "custom", contextTokens: 2_000, timeoutMs: 120_000 }));
+
+// ============ Chat ============
+
+// Build system prompt with the business context shared by the user (see aiContext.ts)
+export const buildSystemPrompt = (context?: string, instructions?: string): string => {
+  const extra = instructions ? `\n\n${instructions}` : "";
+  if (context) {
+    return `You are Mizzie, a friendly business planning assistant. You have access to a summary of the user's business plan.
+
+IMPORTANT: You can already see the user's plan below. DO NOT ask them to share it - you already have it!
+Only the sections the user chose to share are included, and long sections may be shortened.
+
+=== THE USER'S BUSINESS PLAN ===
+${context}
+=== END OF PLAN ===
+
+When the user asks about their plan, REFER TO THE CONTENT ABOVE. Give specific feedback based on what they've written.
+If a section they ask about isn't above, say so instead of guessing.
+Be conversational and encouraging. Keep responses concise (2-3 sentences).${extra}`;
   }
 
-  // Fallback if no canvas
-  return `You are Mizzie, a friendly business planning assistant. Help users with their Business Model Canvas.
-Be conversational and encouraging. Keep responses concise (2-3 sentences).`;
+  // Fallback if nothing is shared
+  return `You are Mizzie, a friendly business planning assistant. Help users plan their business.
+Be conversational and encouraging. Keep responses concise (2-3 sentences).${extra}`;
 };
 
-// Chat with WebLLM
-const chatWithWebLLM = async (
-  messages: ChatMessage[],
-  canvas?: CanvasContext,
-  onProgress?: (progress: number, text: string) => void
-): Promise<string> => {
-  const engine = await initWebLLM(onProgress);
-  const systemPrompt = buildSystemPrompt(canvas);
+const FALLBACK_REPLY = "I didn't understand that. Could you try again?";
+
+export interface ChatStreamOptions {
+  /** Abort to stop generating; the stream then ends with what was generated so far */
+  signal?: AbortSignal;
+  /** Extra system prompt instructions, such as how to propose plan edits */
+  instructions?: string;
+  /** WebLLM model download progress */
+  onProgress?: (progress: number, text: string) => void;
+  /** Called when the selected provider failed and the in-browser model answers instead */
+  onFallback?: (error: AIProviderError, fallback: AIProvider) => void;
+  /** Rebuilds the context within a token budget, for the in-browser model's smaller window */
+  buildContext?: (budget: number) => string;
+}
 
-  const response = await engine.chat.completions.create({
-    messages: [{ role: "system", content: systemPrompt }, ...messages],
-    temperature: 0.7,
-    max_tokens: 256,
-  });
+/** Failures where answering with the in-browser model beats showing an error */
+const FALLBACK_ERRORS: AIErrorKind[] = ["network", "timeout", "rate-limited", "quota", "server"];
 
-  return response.choices[0]?.message?.content || "I didn't understand that. Could you try again?";
+const getFallbackProvider = (settings: AISettings, provider: AIProvider, error: unknown): AIProvider | undefined => {
+  if (provider.id === "webllm" || settings.fallbackToWebLLM === false || !isWebLLMSupported()) return undefined;
+  if (!(error instanceof AIProviderError) || !FALLBACK_ERRORS.includes(error.kind)) return undefined;
+  return providers.get("webllm");
 };
 
-// Chat with Groq/OpenAI API
-const chatWithAPI = async (
+// Stream a reply token by token as the selected provider generates it
+export async function* streamChat(
   messages: ChatMessage[],
-  settings: AISettings,
-  canvas?: CanvasContext
-): Promise<string> => {
-  const baseUrl = settings.provider === "groq"
-    ? "https://api.groq.com/openai/v1"
-    : "https://api.openai.com/v1";
-
-  const model = settings.model || (settings.provider === "groq" ? "llama-3.1-8b-instant" : "gpt-3.5-turbo");
-  const systemPrompt = buildSystemPrompt(canvas);
-
-  const response = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${settings.apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: "system", content: systemPrompt }, ...messages],
-      temperature: 0.7,
-      max_tokens: 256,
-    }),
-  });
+  context?: string,
+  { signal, instructions, onProgress, onFallback, buildContext }: ChatStreamOptions = {}
+): AsyncGenerator<string> {
+  const settings = getAISettings();
+  const provider = getActiveProvider(settings);
+  let started = false;
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${error}`);
+  try {
+    for await (const token of provider.streamChat({
+      messages: [{ role: "system", content: buildSystemPrompt(context, instructions) }, ...messages],
+      settings,
+      generation: getGenerationSettings(settings),
+      signal,
+      onProgress,
+    })) {
+      started = true;
+      yield token;
+    }
+  } catch (error) {
+    const fallback = started ? undefined : getFallbackProvider(settings, provider, error);
+    if (!fallback) throw error;
+
+    console.warn(`[aiProvider] ${provider.label} failed, answering with ${fallback.label}:`, error);
+    onFallback?.(error as AIProviderError, fallback);
+    // The smaller model gets the plan re-ranked (or at least trimmed) to fit its window
+    const generation = getGenerationSettings(settings, "webllm");
+    const budget = Math.min(generation.contextTokens ?? Infinity, fallback.contextTokens);
+    const fallbackContext = context && (buildContext ? buildContext(budget) : trimToTokens(context, budget));
+    yield* fallback.streamChat({
+      messages: [{ role: "system", content: buildSystemPrompt(fallbackContext, instructions) }, ...messages],
+      settings,
+      generation,
+      signal,
+      onProgress,
+    });
   }
+}
 
-  const data = await response.json();
-  return data.choices[0]?.message?.content || "I didn't understand that. Could you try again?";
-};
-
-// Main chat function
+// Main chat function: waits for the whole reply
 export const chat = async (
   messages: ChatMessage[],
-  canvas?: CanvasContext,
+  context?: string,
   onProgress?: (progress: number, text: string) => void
 ): Promise<string> => {
-  const settings = getAISettings();
-
-  if (settings.provider === "webllm") {
-    return chatWithWebLLM(messages, canvas, onProgress);
-  } else if (settings.apiKey) {
-    return chatWithAPI(messages, settings, canvas);
-  } else {
-    throw new Error("API key required for " + settings.provider);
+  let reply = "";
+  for await (const token of streamChat(messages, context, { onProgress })) {
+    reply += token;
   }
+  return reply.trim() || FALLBACK_REPLY;
 };
-
-// Check if WebLLM is supported
-export const isWebLLMSupported = (): boolean => {
-  return "gpu" in navigator;
-};
-
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  HISTORY_TOKEN_BUDGET,
+  KEEP_RECENT_MESSAGES,
+  appendThreadMessage,
+  createThread,
+  deleteThread,
+  getActiveThread,
+  getPinnedMessages,
+  getSummaryInstructions,
+  getThread,
+  getThreadHistory,
+  getThreads,
+  needsSummary,
+  searchThreads,
+  summarizeThread,
+  threadToMarkdown,
+  togglePinnedMessage,
+} from './aiThreads';
+
+/** A message long enough that a handful of them overflow the history budget */
+const longText = (label: string) => `${label} ${'x'.repeat(HISTORY_TOKEN_BUDGET * 2.4)}`;
+
+describe('aiThreads', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('threads', () => {
+    it('should save messages and name the thread after the first question', () => {
+      const thread = createThread();
+      appendThreadMessage(thread.id, 'user', 'How should I price my espresso drinks?');
+      appendThreadMessage(thread.id, 'assistant', 'Start from your cost per cup.');
+
+      const saved = getThread(thread.id);
+      expect(saved?.title).toBe('How should I price my espresso drinks?');
+      expect(saved?.messages.map((message) => message.role)).toEqual(['user', 'assistant']);
+      expect(getActiveThread()?.id).toBe(thread.id);
+    });
+
+    it('should list the most recently active thread first and forget deleted ones', () => {
+      const first = createThread('First');
+      const second = createThread('Second');
+      appendThreadMessage(first.id, 'user', 'Back to this one', new Date(Date.now() + 1000));
+
+      expect(getThreads().map((thread) => thread.title)).toEqual(['First', 'Second']);
+
+      deleteThread(second.id);
+      expect(getThreads().map((thread) => thread.title)).toEqual(['First']);
+      expect(getActiveThread()).toBeUndefined();
+    });
+  });
+
+  describe('search and pins', () => {
+    it('should find matching messages with a snippet around the match', () => {
+      const thread = createThread('Pricing');
+      appendThreadMessage(thread.id, 'user', 'What margin should I aim for?');
+      appendThreadMessage(thread.id, 'assistant', `${'Coffee carts usually '.repeat(4)}aim for a 70% gross margin on drinks.`);
+
+      const results = searchThreads(getThreads(), 'GROSS margin');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].message?.role).toBe('assistant');
+      expect(results[0].snippet).toMatch(/^….*gross margin on drinks\.$/);
+      expect(searchThreads(getThreads(), 'pricing')[0]).toEqual({ thread: expect.objectContaining({ title: 'Pricing' }), snippet: 'Pricing' });
+      expect(searchThreads(getThreads(), '  ')).toEqual([]);
+    });
+
+    it('should pin and unpin answers', () => {
+      const thread = createThread();
+      const answer = appendThreadMessage(thread.id, 'assistant', 'Aim for 70% gross margin.');
+
+      togglePinnedMessage(thread.id, answer!.id);
+      expect(getPinnedMessages(getThreads()).map(({ message }) => message.content)).toEqual(['Aim for 70% gross margin.']);
+
+      togglePinnedMessage(thread.id, answer!.id);
+      expect(getPinnedMessages(getThreads())).toEqual([]);
+    });
+  });
+
+  describe('model history', () => {
+    it('should summarize older turns once the thread outgrows the budget', async () => {
+      const thread = createThread();
+      for (let i = 0; i < KEEP_RECENT_MESSAGES + 2; i++) {
+        appendThreadMessage(thread.id, i % 2 === 0 ? 'user' : 'assistant', longText(`turn ${i}`));
+      }
+      expect(needsSummary(getThread(thread.id)!)).toBe(true);
+
+      const summarize = vi.fn().mockResolvedValue('They run a coffee cart.');
+      const updated = await summarizeThread(thread.id, { summarize });
+
+      expect(summarize.mock.calls[0][0]).toContain('User: turn 0');
+      expect(summarize.mock.calls[0][0]).not.toContain('turn 2');
+      expect(updated?.summary).toBe('They run a coffee cart.');
+      expect(updated?.summarizedCount).toBe(2);
+      expect(getSummaryInstructions(updated!)).toContain('They run a coffee cart.');
+    });
+
+    it('should build on the previous summary', async () => {
+      const thread = createThread();
+      for (let i = 0; i < KEEP_RECENT_MESSAGES + 2; i++) appendThreadMessage(thread.id, 'user', `turn ${i}`);
+      await summarizeThread(thread.id, { summarize: async () => 'First summary.' });
+      for (let i = 0; i < 2; i++) appendThreadMessage(thread.id, 'user', `later ${i}`);
+
+      const summarize = vi.fn().mockResolvedValue('Second summary.');
+      await summarizeThread(thread.id, { summarize });
+
+      expect(summarize.mock.calls[0][0]).toMatch(/^Summary so far:\nFirst summary\./);
+      expect(getThread(thread.id)?.summarizedCount).toBe(4);
+    });
+
+    it('should keep the newest turns that fit when there is no summary', () => {
+      const thread = createThread();
+      ['old question', 'old answer', 'recent question'].forEach((text, index) =>
+        appendThreadMessage(thread.id, index % 2 === 0 ? 'user' : 'assistant', longText(text))
+      );
+
+      const history = getThreadHistory(getThread(thread.id)!);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).toEqual({ role: 'user', content: longText('recent question') });
+    });
+  });
+
+  it('should export a thread as Markdown', () => {
+    const thread = createThread('Pricing');
+    appendThreadMessage(thread.id, 'user', 'What margin?');
+    const answer = appendThreadMessage(thread.id, 'assistant', 'About 70%.');
+    togglePinnedMessage(thread.id, answer!.id);
+
+    const markdown = threadToMarkdown(getThread(thread.id)!);
+
+    expect(markdown).toMatch(/^# Pricing\n/);
+    expect(markdown).toContain('### You\n');
+    expect(markdown).toContain('### Mizzie 📌\n');
+    expect(markdown).toContain('About 70%.');
+  });
+});
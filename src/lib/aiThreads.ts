@@ -0,0 +1,272 @@
+/**
+ * AI Threads
+ * Mizzie conversations saved per project as named threads, with pinned answers,
+ * search and Markdown export. Once a thread grows past the history budget, its
+ * older turns are summarized so the model still gets the gist of them.
+ */
+import { readDomain, writeDomain } from "./storageRegistry";
+import { estimateTokens } from "./aiContext";
+import { streamChat, type ChatMessage } from "./aiProvider";
+import type { AIThread, AIThreadMessage, AIThreadsData } from "./validators";
+
+export type { AIThread, AIThreadMessage };
+
+/** Tokens of recent conversation sent word for word with each question */
+export const HISTORY_TOKEN_BUDGET = 1500;
+
+/** Latest messages that are never folded into the summary */
+export const KEEP_RECENT_MESSAGES = 6;
+
+const MAX_TITLE_LENGTH = 60;
+
+// ============ Storage ============
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+export const getThreadsData = (): AIThreadsData => readDomain("aiThreads");
+
+/** Threads, most recently active first */
+export const getThreads = (): AIThread[] =>
+  [...getThreadsData().threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getThread = (id: string): AIThread | undefined =>
+  getThreadsData().threads.find((thread) => thread.id === id);
+
+export const getActiveThread = (): AIThread | undefined => {
+  const { activeThreadId } = getThreadsData();
+  return activeThreadId ? getThread(activeThreadId) : undefined;
+};
+
+const updateThread = (id: string, update: (thread: AIThread) => AIThread): AIThread | undefined => {
+  const data = getThreadsData();
+  let updated: AIThread | undefined;
+  const threads = data.threads.map((thread) => {
+    if (thread.id !== id) return thread;
+    updated = update(thread);
+    return updated;
+  });
+  if (updated) writeDomain("aiThreads", { ...data, threads });
+  return updated;
+};
+
+/** Short title from the first question, e.g. "How should I price my coffee…" */
+export const createThreadTitle = (text: string): string => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (!clean) return "New conversation";
+  return clean.length > MAX_TITLE_LENGTH ? `${clean.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : clean;
+};
+
+/**
+ * Start a thread and make it the active one
+ */
+export const createThread = (title = "New conversation"): AIThread => {
+  const now = new Date().toISOString();
+  const thread: AIThread = {
+    id: createId("thread"),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    summary: "",
+    summarizedCount: 0,
+  };
+  const data = getThreadsData();
+  writeDomain("aiThreads", { activeThreadId: thread.id, threads: [...data.threads, thread] });
+  return thread;
+};
+
+export const setActiveThread = (id: string | null): void => {
+  writeDomain("aiThreads", { ...getThreadsData(), activeThreadId: id });
+};
+
+export const renameThread = (id: string, title: string): void => {
+  const trimmed = title.trim();
+  if (!trimmed) return;
+  updateThread(id, (thread) => ({ ...thread, title: trimmed }));
+};
+
+export const deleteThread = (id: string): void => {
+  const data = getThreadsData();
+  writeDomain("aiThreads", {
+    activeThreadId: data.activeThreadId === id ? null : data.activeThreadId,
+    threads: data.threads.filter((thread) => thread.id !== id),
+  });
+};
+
+/**
+ * Add a message to a thread. The first question names an untitled thread.
+ * @param timestamp - when the message started (replies are saved once they finish)
+ */
+export const appendThreadMessage = (
+  threadId: string,
+  role: AIThreadMessage["role"],
+  content: string,
+  timestamp = new Date()
+): AIThreadMessage | undefined => {
+  const message: AIThreadMessage = {
+    id: createId("msg"),
+    role,
+    content,
+    timestamp: timestamp.toISOString(),
+  };
+  const thread = updateThread(threadId, (current) => ({
+    ...current,
+    title: current.messages.length === 0 && role === "user" && current.title === "New conversation"
+      ? createThreadTitle(content)
+      : current.title,
+    updatedAt: message.timestamp,
+    messages: [...current.messages, message],
+  }));
+  return thread ? message : undefined;
+};
+
+export const togglePinnedMessage = (threadId: string, messageId: string): void => {
+  updateThread(threadId, (thread) => ({
+    ...thread,
+    messages: thread.messages.map((message) =>
+      message.id === messageId ? { ...message, pinned: !message.pinned } : message
+    ),
+  }));
+};
+
+// ============ Search ============
+
+export interface ThreadSearchResult {
+  thread: AIThread;
+  /** Matching message, or undefined when only the title matched */
+  message?: AIThreadMessage;
+  snippet: string;
+}
+
+/** Characters of context shown either side of a match */
+const SNIPPET_CONTEXT = 40;
+
+const getSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${end < text.length ? "…" : ""}`;
+};
+
+/**
+ * Find threads whose title or messages contain the query (case-insensitive)
+ */
+export const searchThreads = (threads: AIThread[], query: string): ThreadSearchResult[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return threads.flatMap((thread) => {
+    const matches: ThreadSearchResult[] = thread.messages.flatMap((message) => {
+      const index = message.content.toLowerCase().indexOf(needle);
+      return index === -1 ? [] : [{ thread, message, snippet: getSnippet(message.content, index, needle.length) }];
+    });
+    if (matches.length === 0 && thread.title.toLowerCase().includes(needle)) {
+      return [{ thread, snippet: thread.title }];
+    }
+    return matches;
+  });
+};
+
+/** Pinned answers across threads, newest first */
+export const getPinnedMessages = (threads: AIThread[]): { thread: AIThread; message: AIThreadMessage }[] =>
+  threads
+    .flatMap((thread) => thread.messages.filter((message) => message.pinned).map((message) => ({ thread, message })))
+    .sort((a, b) => b.message.timestamp.localeCompare(a.message.timestamp));
+
+// ============ Model History ============
+
+const SUMMARY_INSTRUCTIONS = `You are now summarizing a conversation instead of replying to it.
+Write a short paragraph covering the user's business, the decisions made, any figures mentioned and open questions. Don't add anything new.`;
+
+const formatTranscript = (messages: AIThreadMessage[]): string =>
+  messages.map((message) => `${message.role === "user" ? "User" : "Mizzie"}: ${message.content}`).join("\n");
+
+const countTokens = (messages: AIThreadMessage[]): number =>
+  messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+
+/**
+ * Whether the thread's unsummarized turns have outgrown the history budget
+ */
+export const needsSummary = (thread: AIThread): boolean => {
+  const recent = thread.messages.slice(thread.summarizedCount);
+  return recent.length > KEEP_RECENT_MESSAGES && countTokens(recent) > HISTORY_TOKEN_BUDGET;
+};
+
+const requestSummary = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  let summary = "";
+  for await (const token of streamChat([{ role: "user", content: prompt }], undefined, {
+    signal,
+    instructions: SUMMARY_INSTRUCTIONS,
+  })) {
+    summary += token;
+  }
+  return summary;
+};
+
+/**
+ * Fold all but the latest turns into the thread's summary
+ * @returns the updated thread (unchanged if the model gave no summary)
+ */
+export const summarizeThread = async (
+  threadId: string,
+  {
+    signal,
+    summarize = requestSummary,
+  }: { signal?: AbortSignal; summarize?: (prompt: string, signal?: AbortSignal) => Promise<string> } = {}
+): Promise<AIThread | undefined> => {
+  const thread = getThread(threadId);
+  if (!thread) return undefined;
+
+  const older = thread.messages.slice(thread.summarizedCount, -KEEP_RECENT_MESSAGES);
+  if (older.length === 0) return thread;
+
+  const prompt = [
+    thread.summary && `Summary so far:\n${thread.summary}`,
+    `Conversation to add to the summary:\n${formatTranscript(older)}`,
+  ].filter(Boolean).join("\n\n");
+  const summary = (await summarize(prompt, signal)).trim();
+  if (!summary || signal?.aborted) return thread;
+
+  return updateThread(threadId, (current) => ({
+    ...current,
+    summary,
+    summarizedCount: thread.summarizedCount + older.length,
+  }));
+};
+
+/**
+ * The unsummarized turns to send with the next question, dropping the oldest
+ * if they still don't fit (e.g. when summarizing failed)
+ */
+export const getThreadHistory = (thread: AIThread): ChatMessage[] => {
+  const recent = thread.messages.slice(thread.summarizedCount);
+  let start = 0;
+  while (start < recent.length - 1 && countTokens(recent.slice(start)) > HISTORY_TOKEN_BUDGET) {
+    start++;
+  }
+  return recent.slice(start).map(({ role, content }) => ({ role, content }));
+};
+
+/** System prompt addition carrying the summary of earlier turns */
+export const getSummaryInstructions = (thread: AIThread): string =>
+  thread.summary ? `Summary of your earlier conversation with the user:\n${thread.summary}` : "";
+
+// ============ Export ============
+
+/**
+ * Thread as a Markdown document
+ */
+export const threadToMarkdown = (thread: AIThread): string => {
+  const formatTime = (iso: string) => new Date(iso).toLocaleString();
+  return [
+    `# ${thread.title}`,
+    `_Conversation with Mizzie, started ${formatTime(thread.createdAt)}_`,
+    ...thread.messages.map((message) =>
+      [
+        `### ${message.role === "user" ? "You" : "Mizzie"}${message.pinned ? " 📌" : ""}`,
+        `_${formatTime(message.timestamp)}_`,
+        "",
+        message.content,
+      ].join("\n")
+    ),
+  ].join("\n\n") + "\n";
+};
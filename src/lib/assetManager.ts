@@ -1,8 +1,10 @@
 import {
   BrandAssetSchema,
   AssetsDataSchema,
-  BrandColorsSchema
+  BrandColorsSchema,
+  DEFAULT_BRAND_COLORS
 } from './validators/schemas';
+import { readDomainRaw, writeDomainRaw } from './storageRegistry';
 
 export interface BrandAsset {
   id: string;
@@ -18,15 +20,7 @@ export interface BrandColors {
   accent: string;
 }
 
-const STORAGE_KEY = 'brandAssets';
-const COLORS_KEY = 'brandColors';
-const LOGO_KEY = 'companyLogo';
-
-const DEFAULT_COLORS: BrandColors = {
-  primary: '#FFA500',   // Mizzie orange
-  secondary: '#F97316', // Orange-500
-  accent: '#FBBF24',    // Amber-400
-};
+const DEFAULT_COLORS: BrandColors = DEFAULT_BRAND_COLORS;
 
 export const saveAsset = (asset: Omit<BrandAsset, 'id' | 'uploadedAt'>): BrandAsset => {
   const assets = getAssets();
@@ -44,12 +38,12 @@ export const saveAsset = (asset: Omit<BrandAsset, 'id' | 'uploadedAt'>): BrandAs
   }
 
   assets.push(newAsset);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(assets));
+  writeDomainRaw('brandAssets', JSON.stringify(assets));
   return newAsset;
 };
 
 export const getAssets = (): BrandAsset[] => {
-  const stored = localStorage.getItem(STORAGE_KEY);
+  const stored = readDomainRaw('brandAssets');
   if (!stored) return [];
 
   try {
@@ -68,7 +62,7 @@ export const getAssets = (): BrandAsset[] => {
 
 export const deleteAsset = (id: string): void => {
   const assets = getAssets().filter(a => a.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(assets));
+  writeDomainRaw('brandAssets', JSON.stringify(assets));
 };
 
 export const convertFileToDataUrl = (file: File): Promise<string> => {
@@ -89,13 +83,13 @@ export const saveBrandColors = (colors: BrandColors): void => {
     throw new Error('Invalid brand colors');
   }
 
-  localStorage.setItem(COLORS_KEY, JSON.stringify(colors));
+  writeDomainRaw('brandColors', JSON.stringify(colors));
   // Dispatch custom event to notify components of color change
   window.dispatchEvent(new CustomEvent('brandColorsChanged', { detail: colors }));
 };
 
 export const getBrandColors = (): BrandColors => {
-  const stored = localStorage.getItem(COLORS_KEY);
+  const stored = readDomainRaw('brandColors');
   if (!stored) return DEFAULT_COLORS;
 
   try {
@@ -119,13 +113,13 @@ export const saveCompanyLogo = (dataUrl: string): void => {
     throw new Error('Invalid logo data URL');
   }
 
-  localStorage.setItem(LOGO_KEY, dataUrl);
+  writeDomainRaw('companyLogo', dataUrl);
   // Dispatch custom event to notify components of logo change
   window.dispatchEvent(new CustomEvent('companyLogoChanged', { detail: dataUrl }));
 };
 
 export const getCompanyLogo = (): string | null => {
-  const logo = localStorage.getItem(LOGO_KEY);
+  const logo = readDomainRaw('companyLogo');
   // Validate it's a proper data URL
   if (logo && typeof logo === 'string' && logo.startsWith('data:')) {
     return logo;
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import {
+  BACKUP_MANIFEST_FILE,
+  createBackup,
+  encryptBackup,
+  isEncryptedBackup,
+  packBackup,
+  readBackup,
+  migrateBackup,
+} from './backup';
+import { BACKUP_FORMAT_VERSION } from './validators';
+import { readDomain, writeDomain } from './storageRegistry';
+
+const LOGO = 'data:image/png;base64,iVBORw0KGgo=';
+
+const toBytes = (data: unknown) => new TextEncoder().encode(JSON.stringify(data));
+
+describe('backup', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createBackup', () => {
+    it('should include every stored domain with the format and app version', async () => {
+      writeDomain('businessPlan', { ...readDomain('businessPlan'), businessName: 'Coffee Cart' });
+      writeDomain('brandColors', { primary: '#111111', secondary: '#222222', accent: '#333333' });
+      writeDomain('companyLogo', LOGO);
+
+      const backup = await createBackup();
+
+      expect(backup.formatVersion).toBe(BACKUP_FORMAT_VERSION);
+      expect(backup.appVersion).toMatch(/^\d+\.\d+\.\d+/);
+      expect(Object.keys(backup.projects[0].data).sort()).toEqual(['brandColors', 'businessPlan', 'companyLogo']);
+      expect(backup.projects[0].data.companyLogo).toBe(LOGO);
+    });
+  });
+
+  describe('packBackup', () => {
+    it('should store images as separate zip entries and restore them on read', async () => {
+      writeDomain('companyLogo', LOGO);
+      writeDomain('brandAssets', [
+        { id: '1', name: 'logo.png', type: 'image', dataUrl: LOGO, uploadedAt: '2024-01-01' },
+      ]);
+
+      const zipped = await packBackup(await createBackup());
+      const zip = await JSZip.loadAsync(zipped);
+      const manifest = await zip.file(BACKUP_MANIFEST_FILE)!.async('string');
+
+      expect(manifest).not.toContain('base64');
+      expect(zip.file(/^assets\//)).toHaveLength(1);
+
+      const restored = await readBackup(zipped);
+      expect(restored.projects[0].data.companyLogo).toBe(LOGO);
+      expect(restored.projects[0].data.brandAssets).toEqual([expect.objectContaining({ dataUrl: LOGO })]);
+    });
+  });
+
+  describe('migrateBackup', () => {
+    it('should upgrade a legacy single-project JSON backup', async () => {
+      const backup = await readBackup(toBytes({
+        roadmap: JSON.stringify([]),
+        companyLogo: LOGO,
+        exportDate: '2024-01-01T00:00:00.000Z',
+      }));
+
+      expect(backup).toMatchObject({ formatVersion: BACKUP_FORMAT_VERSION, scope: 'project' });
+      expect(backup.projects[0].data).toEqual({ roadmap: [], companyLogo: LOGO });
+    });
+
+    it('should upgrade a legacy all-projects JSON backup', () => {
+      const backup = migrateBackup({
+        projects: [{ name: 'Bakery', archived: true, data: { roadmap: '[]' } }],
+      });
+
+      expect(backup.scope).toBe('all');
+      expect(backup.projects[0]).toEqual({ name: 'Bakery', archived: true, data: { roadmap: [] } });
+    });
+
+    it('should reject backups from a newer format version', () => {
+      expect(() => migrateBackup({ formatVersion: BACKUP_FORMAT_VERSION + 1 })).toThrow(/newer version/);
+    });
+  });
+
+  describe('encryptBackup', () => {
+    it('should only read a password-protected backup with its password', async () => {
+      writeDomain('companyLogo', LOGO);
+      const encrypted = await encryptBackup(await packBackup(await createBackup()), 'backup-password');
+
+      expect(isEncryptedBackup(encrypted)).toBe(true);
+      await expect(readBackup(encrypted)).rejects.toThrow('password protected');
+      await expect(readBackup(encrypted, 'wrong-password')).rejects.toThrow('Incorrect password');
+      expect((await readBackup(encrypted, 'backup-password')).projects[0].data.companyLogo).toBe(LOGO);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Backups
+ * Self-describing backup files: a zip holding backup.json (every domain of one or all
+ * projects, the backup format version and the app version) with each image stored as
+ * its own file under assets/ instead of inline base64.
+ *
+ * Backups written by older releases (plain JSON with double-encoded domains) are
+ * upgraded on import by the migration pipeline below. See importPlan.ts for importing.
+ *
+ * Password-protected backups are the same zip encrypted as a whole, behind a short header.
+ */
+import JSZip from "jszip";
+import {
+  BACKUP_FORMAT_VERSION,
+  BackupSchema,
+  ImportDataSchema,
+  ProjectsBackupSchema,
+  type Backup,
+  type BackupProject,
+  type BackupScope,
+  type ImportData,
+  type Project,
+} from "./validators";
+import { BACKUP_DOMAIN_IDS, parseStoredValue, type StorageDomainId } from "./storageRegistry";
+import { getActiveProject, loadProjectData, loadProjects } from "./projects";
+import { decryptBytes, encryptBytes } from "./encryption";
+
+/** Manifest entry inside the zip */
+export const BACKUP_MANIFEST_FILE = "backup.json";
+
+const ASSET_DIR = "assets/";
+
+/** Stands in for an image moved out of the manifest into its own zip entry */
+const ASSET_REF_PREFIX = "mizzie-asset:";
+
+/** Format version of the plain JSON backups written before backups carried one */
+const LEGACY_FORMAT_VERSION = 1;
+
+/** Starts every password-protected backup file */
+const ENCRYPTED_BACKUP_HEADER = new TextEncoder().encode("MIZZIE-ENCRYPTED-1\n");
+
+const INVALID_BACKUP_MESSAGE = "Invalid backup file format. Please use a valid Mizzie backup file.";
+const CORRUPT_BACKUP_MESSAGE = "Failed to parse backup file. The file may be corrupted.";
+
+// ============ Helpers ============
+
+/**
+ * Rebuild a JSON value with every string passed through a mapper
+ */
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === "string") return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+};
+
+const mapProjectStrings = (projects: BackupProject[], map: (text: string) => string): BackupProject[] =>
+  projects.map((project) => ({ ...project, data: mapStrings(project.data, map) as Record<string, unknown> }));
+
+/**
+ * Split a base64 image data URL into its MIME type and payload
+ */
+const parseImageDataUrl = (text: string): { mimeType: string; base64: string } | null => {
+  if (!text.startsWith("data:image/")) return null;
+  const separator = text.indexOf(";base64,");
+  if (separator === -1) return null;
+  return { mimeType: text.slice("data:".length, separator), base64: text.slice(separator + ";base64,".length) };
+};
+
+const getExtension = (mimeType: string): string => {
+  const subtype = mimeType.split("/")[1]?.split("+")[0] ?? "bin";
+  return subtype === "jpeg" ? "jpg" : subtype;
+};
+
+// ============ Export ============
+
+const toBackupProject = async ({ id, name, archived }: Project): Promise<BackupProject> => {
+  const data: Record<string, unknown> = {};
+  const stored = await loadProjectData(id);
+  for (const [domain, raw] of Object.entries(stored) as [StorageDomainId, string][]) {
+    try {
+      data[domain] = parseStoredValue(domain, raw);
+    } catch {
+      console.warn(`[backup] Skipping unreadable "${domain}" in "${name}"`);
+    }
+  }
+  return { name, archived, data };
+};
+
+/**
+ * Collect every domain of the active project, or of every project, into a backup
+ */
+export const createBackup = async (scope: BackupScope = "project"): Promise<Backup> => {
+  const projects = scope === "all" ? loadProjects().projects : [getActiveProject()];
+  return {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: __APP_VERSION__,
+    exportDate: new Date().toISOString(),
+    scope,
+    projects: await Promise.all(projects.map(toBackupProject)),
+    assets: {},
+  };
+};
+
+/**
+ * Write a backup as a zip, moving every base64 image into its own entry
+ */
+export const packBackup = async (backup: Backup): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  const assets: Record<string, string> = { ...backup.assets };
+  // Data URL -> path, so an image used in several places is stored once
+  const paths = new Map<string, string>();
+
+  const extractImage = (text: string): string => {
+    const image = parseImageDataUrl(text);
+    if (!image) return text;
+
+    let path = paths.get(text);
+    if (!path) {
+      path = `${ASSET_DIR}${paths.size + 1}.${getExtension(image.mimeType)}`;
+      // Images are already compressed
+      zip.file(path, image.base64, { base64: true, compression: "STORE" });
+      assets[path] = image.mimeType;
+      paths.set(text, path);
+    }
+    return ASSET_REF_PREFIX + path;
+  };
+
+  const manifest: Backup = { ...backup, projects: mapProjectStrings(backup.projects, extractImage), assets };
+  zip.file(BACKUP_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+};
+
+// ============ Migrations ============
+
+type BackupMigration = (backup: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Parse the double-encoded domains of a legacy backup. Unparseable values are kept
+ * as they are so the import reports them as invalid.
+ */
+const parseLegacyData = (data: ImportData): Record<string, unknown> => {
+  const parsed: Record<string, unknown> = {};
+  for (const domain of BACKUP_DOMAIN_IDS) {
+    const raw = data[domain as keyof ImportData];
+    if (!raw) continue;
+    try {
+      parsed[domain] = parseStoredValue(domain, raw);
+    } catch {
+      parsed[domain] = raw;
+    }
+  }
+  return parsed;
+};
+
+/**
+ * 1 -> 2: plain JSON backups (a flat map of one project, or the all-projects list)
+ * become a manifest of parsed domain values
+ */
+const migrateJsonBackup: BackupMigration = (backup) => {
+  if (Array.isArray(backup.projects)) {
+    const result = ProjectsBackupSchema.safeParse(backup);
+    if (!result.success) throw new Error(INVALID_BACKUP_MESSAGE);
+    return {
+      appVersion: "unknown",
+      exportDate: result.data.exportDate,
+      scope: "all",
+      projects: result.data.projects.map(({ name, archived, data }) => ({ name, archived, data: parseLegacyData(data) })),
+    };
+  }
+
+  const result = ImportDataSchema.safeParse(backup);
+  if (!result.success) throw new Error(INVALID_BACKUP_MESSAGE);
+  return {
+    appVersion: "unknown",
+    exportDate: result.data.exportDate,
+    scope: "project",
+    projects: [{ name: result.data.projectName ?? "Imported project", data: parseLegacyData(result.data) }],
+  };
+};
+
+/** Upgrades keyed by the format version they upgrade from */
+const BACKUP_MIGRATIONS: Record<number, BackupMigration> = {
+  1: migrateJsonBackup,
+};
+
+/**
+ * Upgrade a backup of any known format version to the current one and validate it
+ */
+export const migrateBackup = (input: unknown): Backup => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(INVALID_BACKUP_MESSAGE);
+  }
+
+  let backup = input as Record<string, unknown>;
+  let version = typeof backup.formatVersion === "number" ? backup.formatVersion : LEGACY_FORMAT_VERSION;
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error("This backup was made by a newer version of Mizzie. Please update the app to import it.");
+  }
+
+  while (version < BACKUP_FORMAT_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) throw new Error(INVALID_BACKUP_MESSAGE);
+    version += 1;
+    backup = { ...migrate(backup), formatVersion: version };
+  }
+
+  const result = BackupSchema.safeParse(backup);
+  if (!result.success) {
+    console.error("[backup] Invalid backup:", result.error.message);
+    throw new Error(INVALID_BACKUP_MESSAGE);
+  }
+  return result.data;
+};
+
+// ============ Encryption ============
+
+/**
+ * Whether a backup file is password protected
+ */
+export const isEncryptedBackup = (bytes: Uint8Array): boolean =>
+  bytes.length >= ENCRYPTED_BACKUP_HEADER.length &&
+  ENCRYPTED_BACKUP_HEADER.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Password-protect a packed backup
+ */
+export const encryptBackup = async (bytes: Uint8Array, password: string): Promise<Uint8Array> => {
+  const encrypted = await encryptBytes(bytes, password);
+  const file = new Uint8Array(ENCRYPTED_BACKUP_HEADER.length + encrypted.length);
+  file.set(ENCRYPTED_BACKUP_HEADER, 0);
+  file.set(encrypted, ENCRYPTED_BACKUP_HEADER.length);
+  return file;
+};
+
+const decryptBackup = async (bytes: Uint8Array, password?: string): Promise<Uint8Array> => {
+  if (!password) throw new Error("This backup is password protected. Enter its password to import it.");
+  try {
+    return await decryptBytes(bytes.slice(ENCRYPTED_BACKUP_HEADER.length), password);
+  } catch {
+    throw new Error("Incorrect password for this backup.");
+  }
+};
+
+// ============ Reading ============
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(CORRUPT_BACKUP_MESSAGE);
+  }
+};
+
+/**
+ * Put the zip's image entries back into the backup as data URLs
+ */
+const inlineAssets = async (backup: Backup, zip: JSZip): Promise<Backup> => {
+  const dataUrls = new Map<string, string>();
+  for (const [path, mimeType] of Object.entries(backup.assets)) {
+    const file = zip.file(path);
+    if (file) {
+      dataUrls.set(path, `data:${mimeType};base64,${await file.async("base64")}`);
+    } else {
+      console.warn(`[backup] Missing asset "${path}"`);
+    }
+  }
+
+  const resolveAsset = (text: string) =>
+    text.startsWith(ASSET_REF_PREFIX) ? dataUrls.get(text.slice(ASSET_REF_PREFIX.length)) ?? text : text;
+  return { ...backup, projects: mapProjectStrings(backup.projects, resolveAsset), assets: {} };
+};
+
+/**
+ * Read a backup file (a zip, a password-protected zip, or a legacy JSON backup)
+ * and upgrade it to the current format
+ */
+export const readBackup = async (bytes: Uint8Array, password?: string): Promise<Backup> => {
+  if (isEncryptedBackup(bytes)) {
+    bytes = await decryptBackup(bytes, password);
+  }
+
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+  if (!isZip) {
+    return migrateBackup(parseJson(new TextDecoder().decode(bytes)));
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new Error(CORRUPT_BACKUP_MESSAGE);
+  }
+
+  const manifest = zip.file(BACKUP_MANIFEST_FILE);
+  if (!manifest) throw new Error(INVALID_BACKUP_MESSAGE);
+  return inlineAssets(migrateBackup(parseJson(await manifest.async("string"))), zip);
+};
@@ -3,6 +3,8 @@
  * Manages the strategic brand identity data (archetypes, voice, emotions, story)
  */
 
+import { readDomainRaw, writeDomainRaw } from './storageRegistry';
+
 // ============ Types ============
 
 export type BrandArchetype = 
@@ -91,19 +93,17 @@ export const DEFAULT_BRAND_STRATEGY: BrandStrategy = {
 
 // ============ Storage ============
 
-const STORAGE_KEY = 'brandStrategy';
-
 export const saveBrandStrategy = (strategy: BrandStrategy): void => {
   const updated = {
     ...strategy,
     lastUpdated: new Date().toISOString(),
   };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  writeDomainRaw('brandStrategy', JSON.stringify(updated));
   window.dispatchEvent(new CustomEvent('brandStrategyChanged', { detail: updated }));
 };
 
 export const getBrandStrategy = (): BrandStrategy => {
-  const stored = localStorage.getItem(STORAGE_KEY);
+  const stored = readDomainRaw('brandStrategy');
   if (!stored) return DEFAULT_BRAND_STRATEGY;
   
   try {
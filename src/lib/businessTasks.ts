@@ -795,7 +795,7 @@ export const generateBusinessPlanTasks = (plan: BusinessPlanData): BusinessTask[
         tasks.push({
           id: `plan-risk-${i}`,
           title: `Mitigate risk: ${risk.description.substring(0, 40)}`,
-          description: `Likelihood: ${risk.likelihood}, Impact: ${risk.impact}`,
+          description: `Likelihood: ${risk.likelihood}, Impact: ${risk.impact}${risk.mitigation ? `. Plan: ${risk.mitigation}` : ''}`,
           category: 'plan-tasks',
           priority: 'high',
           phase: 'validate',
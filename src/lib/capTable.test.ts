@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeCapTable,
+  computeExitWaterfall,
+  getExitSlide,
+  getHolders,
+  getOwnership,
+  getRoundSlide,
+  OPTION_POOL_ID,
+} from './capTable';
+import { CapTableDataSchema, ConvertibleSchema, FundingRoundSchema, type CapTableData } from './validators';
+
+const capTable = (overrides: Partial<CapTableData> = {}): CapTableData =>
+  CapTableDataSchema.parse({
+    founders: [
+      { id: 'alex', name: 'Alex', shares: 6_000_000 },
+      { id: 'sam', name: 'Sam', shares: 4_000_000 },
+    ],
+    convertibles: [{ id: 'safe', name: 'Angel SAFE', amount: 500_000, valuationCap: 5_000_000, discount: 20 }],
+    rounds: [{ id: 'seed', name: 'Seed', preMoneyValuation: 10_000_000, amount: 2_500_000, optionPoolPercent: 10 }],
+    ...overrides,
+  });
+
+describe('capTable', () => {
+  it('should work out a priced round with a SAFE converting at its cap', () => {
+    const [founding, seed] = computeCapTable(capTable());
+
+    expect(founding.totalShares).toBe(10_000_000);
+    expect(getOwnership(founding, 'alex')).toBe(0.6);
+
+    // The cap ($5M) beats the 20% discount ($8M), so $500k buys a tenth of the pre-money shares
+    expect(seed.pricePerShare).toBeCloseTo(0.865, 3);
+    expect(seed.postMoneyValuation).toBeCloseTo(13_500_000, -2);
+    expect(getOwnership(seed, 'seed')).toBeCloseTo(0.25 / 1.35, 4);
+    expect(getOwnership(seed, 'safe')).toBeCloseTo(0.1 / 1.35, 4);
+    expect(getOwnership(seed, OPTION_POOL_ID)).toBeCloseTo(0.1, 4);
+  });
+
+  it('should use the discount when it beats the cap, and add note interest', () => {
+    const [, seed] = computeCapTable(
+      capTable({
+        convertibles: [
+          ConvertibleSchema.parse({ id: 'note', name: 'Bridge note', type: 'note', amount: 100_000, discount: 20, interestRate: 6 }),
+        ],
+        rounds: [FundingRoundSchema.parse({ id: 'seed', name: 'Seed', preMoneyValuation: 10_000_000, amount: 2_000_000 })],
+      })
+    );
+
+    // $106k of principal and interest at $8M instead of $10M
+    expect(seed.holdings.find((holding) => holding.id === 'note')?.shares).toBe(132_500);
+    expect(seed.holdings.find((holding) => holding.id === 'seed')?.shares).toBe(2_000_000);
+  });
+
+  it('should dilute every earlier holder round by round', () => {
+    const stages = computeCapTable(
+      capTable({
+        rounds: [
+          { id: 'seed', name: 'Seed', preMoneyValuation: 10_000_000, amount: 2_500_000, optionPoolPercent: 10 },
+          { id: 'a', name: 'Series A', preMoneyValuation: 40_000_000, amount: 10_000_000, optionPoolPercent: 10 },
+        ].map((round) => FundingRoundSchema.parse(round)),
+      })
+    );
+    const [founding, seed, seriesA] = stages;
+
+    expect(getOwnership(seriesA, 'a')).toBeCloseTo(0.2, 4);
+    expect(getOwnership(seriesA, OPTION_POOL_ID)).toBeCloseTo(0.1, 4);
+    expect(getOwnership(seriesA, 'alex')).toBeLessThan(getOwnership(seed, 'alex'));
+    expect(getOwnership(seed, 'alex')).toBeLessThan(getOwnership(founding, 'alex'));
+    // The SAFE converts once, in the seed round
+    expect(seriesA.holdings.filter((holding) => holding.id === 'safe')).toHaveLength(1);
+    expect(getHolders(stages).map((holding) => holding.id)).toEqual(['alex', 'sam', OPTION_POOL_ID, 'safe', 'seed', 'a']);
+  });
+
+  it('should pay preferences first and let holders convert when common pays more', () => {
+    const seed = computeCapTable(capTable())[1];
+    const payout = (exitValuation: number, id: string) =>
+      computeExitWaterfall(seed, exitValuation).find((item) => item.holding.id === id)!;
+
+    // Not enough to cover $3M of preferences: shared pro rata, nothing for founders
+    expect(payout(2_000_000, 'seed').payout).toBeCloseTo(2_000_000 * (2.5 / 3));
+    expect(payout(2_000_000, 'alex').payout).toBe(0);
+
+    // At $10M the SAFE converts, seed investors keep their preference
+    expect(payout(10_000_000, 'seed')).toMatchObject({ payout: 2_500_000, converted: false });
+    expect(payout(10_000_000, 'safe').converted).toBe(true);
+    const total = computeExitWaterfall(seed, 10_000_000).reduce((sum, item) => sum + item.payout, 0);
+    expect(total).toBeCloseTo(10_000_000);
+
+    // A large exit is split by ownership
+    expect(payout(100_000_000, 'seed').payout).toBeCloseTo(100_000_000 * getOwnership(seed, 'seed'));
+  });
+
+  it('should build pitch slide figures', () => {
+    const roundSlide = getRoundSlide(capTable(), 'seed');
+
+    expect(roundSlide?.caption).toBe('Seed: raising $2.5M at $10M pre-money ($13.5M post-money)');
+    expect(roundSlide?.rows.find((row) => row.label === 'Angel SAFE')?.values[0]).toBe('—');
+    expect(getRoundSlide(capTable(), 'deleted')).toBeUndefined();
+
+    expect(getExitSlide(capTable())).toBeUndefined();
+    expect(getExitSlide(capTable({ exitValuation: 50_000_000 }))?.caption).toBe('Exit at $50M');
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Cap Table
+ * Ownership round by round: founders and the option pool, SAFEs and notes
+ * converting into the first priced round, and each round's new investors.
+ * Also splits an exit between holders, paying liquidation preferences first.
+ */
+import type { CapTableData, Convertible, FundingRound } from "./validators";
+
+// ============ Types ============
+
+export type HoldingKind = "founder" | "options" | "convertible" | "investor";
+
+export interface Holding {
+  id: string;
+  name: string;
+  kind: HoldingKind;
+  shares: number;
+  /** Amount paid back before common holders on an exit, 0 for common shares */
+  preference: number;
+}
+
+/** The cap table at founding or straight after a priced round */
+export interface CapTableStage {
+  id: string;
+  name: string;
+  holdings: Holding[];
+  totalShares: number;
+  /** Round price, or null at founding */
+  pricePerShare: number | null;
+  preMoneyValuation: number;
+  postMoneyValuation: number;
+  amountRaised: number;
+}
+
+export interface ExitPayout {
+  holding: Holding;
+  payout: number;
+  /** Whether a preferred holder does better converting to common than taking its preference */
+  converted: boolean;
+}
+
+/** Figures for a pitch slide, e.g. ownership before and after a round */
+export interface CapTableSlide {
+  caption: string;
+  columns: string[];
+  rows: { label: string; values: string[] }[];
+}
+
+export const OPTION_POOL_ID = "options";
+
+// ============ Rounds ============
+
+/**
+ * Interest a note has built up by the time it converts (simple interest; SAFEs have none)
+ */
+export const getAccruedInterest = (convertible: Convertible): number =>
+  convertible.type === "note"
+    ? (convertible.amount * convertible.interestRate * convertible.monthsToConversion) / 1200
+    : 0;
+
+// Valuation a convertible converts at: the cap or the discounted pre-money, whichever is lower
+const getConversionValuation = (convertible: Convertible, preMoneyValuation: number): number => {
+  const discounted = preMoneyValuation * (1 - convertible.discount / 100);
+  return convertible.valuationCap > 0 ? Math.min(discounted, convertible.valuationCap) : discounted;
+};
+
+const getTotalShares = (holdings: Holding[]) => holdings.reduce((sum, holding) => sum + holding.shares, 0);
+
+/**
+ * The cap table after a priced round. The option pool is topped up before the
+ * round so it reaches its target share of the post-money cap table, and
+ * convertibles convert at their capped or discounted price.
+ */
+export const applyRound = (
+  previous: CapTableStage,
+  round: FundingRound,
+  convertibles: Convertible[] = []
+): CapTableStage => {
+  const existingShares = previous.totalShares;
+  const name = round.name || "Priced round";
+  if (round.preMoneyValuation <= 0 || existingShares <= 0) {
+    return { ...previous, id: round.id, name, pricePerShare: null, amountRaised: 0 };
+  }
+
+  // Every new issue is a fixed multiple of the pre-money shares, so the pool top-up solves directly
+  const converting = convertibles.filter((convertible) => convertible.amount > 0);
+  const conversionMultiple = converting.reduce(
+    (sum, convertible) =>
+      sum +
+      (convertible.amount + getAccruedInterest(convertible)) /
+        getConversionValuation(convertible, round.preMoneyValuation),
+    0
+  );
+  const postMultiple = 1 + round.amount / round.preMoneyValuation + conversionMultiple;
+  const poolShares = previous.holdings.find((holding) => holding.id === OPTION_POOL_ID)?.shares ?? 0;
+  const poolTarget = (round.optionPoolPercent / 100) * postMultiple;
+  const poolTopUp =
+    poolTarget > 0 && poolTarget < 1
+      ? Math.max(0, Math.round((poolTarget * existingShares - poolShares) / (1 - poolTarget)))
+      : 0;
+  const preMoneyShares = existingShares + poolTopUp;
+  const pricePerShare = round.preMoneyValuation / preMoneyShares;
+
+  const holdings: Holding[] = previous.holdings.map((holding) =>
+    holding.id === OPTION_POOL_ID ? { ...holding, shares: holding.shares + poolTopUp } : holding
+  );
+  if (poolTopUp > 0 && poolShares === 0) {
+    holdings.push({ id: OPTION_POOL_ID, name: "Option pool", kind: "options", shares: poolTopUp, preference: 0 });
+  }
+  converting.forEach((convertible) => {
+    const conversionPrice = getConversionValuation(convertible, round.preMoneyValuation) / preMoneyShares;
+    holdings.push({
+      id: convertible.id,
+      name: convertible.name || (convertible.type === "note" ? "Convertible note" : "SAFE"),
+      kind: "convertible",
+      shares: Math.round((convertible.amount + getAccruedInterest(convertible)) / conversionPrice),
+      preference: convertible.amount * round.liquidationPreference,
+    });
+  });
+  if (round.amount > 0) {
+    holdings.push({
+      id: round.id,
+      name: `${name} investors`,
+      kind: "investor",
+      shares: Math.round(round.amount / pricePerShare),
+      preference: round.amount * round.liquidationPreference,
+    });
+  }
+
+  const totalShares = getTotalShares(holdings);
+  return {
+    id: round.id,
+    name,
+    holdings,
+    totalShares,
+    pricePerShare,
+    preMoneyValuation: round.preMoneyValuation,
+    postMoneyValuation: pricePerShare * totalShares,
+    amountRaised: round.amount,
+  };
+};
+
+/**
+ * The cap table at founding and after each priced round. SAFEs and notes
+ * convert in the first round with a valuation.
+ */
+export const computeCapTable = (capTable: CapTableData): CapTableStage[] => {
+  const holdings: Holding[] = capTable.founders.map((founder, index) => ({
+    id: founder.id,
+    name: founder.name || `Founder ${index + 1}`,
+    kind: "founder",
+    shares: founder.shares,
+    preference: 0,
+  }));
+  if (capTable.optionPoolShares > 0) {
+    holdings.push({
+      id: OPTION_POOL_ID,
+      name: "Option pool",
+      kind: "options",
+      shares: capTable.optionPoolShares,
+      preference: 0,
+    });
+  }
+
+  const founding: CapTableStage = {
+    id: "founding",
+    name: "Founding",
+    holdings,
+    totalShares: getTotalShares(holdings),
+    pricePerShare: null,
+    preMoneyValuation: 0,
+    postMoneyValuation: 0,
+    amountRaised: 0,
+  };
+
+  const stages = [founding];
+  let pending = capTable.convertibles;
+  capTable.rounds.forEach((round) => {
+    const stage = applyRound(stages[stages.length - 1], round, pending);
+    if (stage.pricePerShare !== null) pending = [];
+    stages.push(stage);
+  });
+  return stages;
+};
+
+/**
+ * A holding's share of the cap table, as a fraction
+ */
+export const getOwnership = (stage: CapTableStage, holdingId: string): number => {
+  const holding = stage.holdings.find((item) => item.id === holdingId);
+  return holding && stage.totalShares > 0 ? holding.shares / stage.totalShares : 0;
+};
+
+/**
+ * Every holder that appears in any stage, in the order they join
+ */
+export const getHolders = (stages: CapTableStage[]): Holding[] => {
+  const holders = new Map<string, Holding>();
+  stages.forEach((stage) => stage.holdings.forEach((holding) => holders.set(holding.id, holding)));
+  return Array.from(holders.values());
+};
+
+// ============ Exit ============
+
+/**
+ * How an exit at the given valuation is split. Preferred holders take their
+ * preference (shared pro rata if the exit can't cover them all) unless
+ * converting to common pays more; everything left goes to common shares.
+ * Assumes the whole option pool has been granted.
+ */
+export const computeExitWaterfall = (stage: CapTableStage, exitValuation: number): ExitPayout[] => {
+  const converted = new Set<string>();
+
+  // Convert one holder at a time, cheapest preference per share first, until nobody gains by converting
+  for (;;) {
+    const preferred = stage.holdings.filter((holding) => holding.preference > 0 && !converted.has(holding.id));
+    const totalPreference = preferred.reduce((sum, holding) => sum + holding.preference, 0);
+    const coverage = totalPreference > 0 ? Math.min(1, exitValuation / totalPreference) : 0;
+    const commonShares = getTotalShares(stage.holdings) - getTotalShares(preferred);
+    const pricePerShare = commonShares > 0 ? Math.max(0, exitValuation - totalPreference) / commonShares : 0;
+
+    const next = preferred
+      .filter((holding) => holding.shares * pricePerShare > holding.preference * coverage)
+      .sort((a, b) => a.preference / a.shares - b.preference / b.shares)[0];
+    if (next) {
+      converted.add(next.id);
+      continue;
+    }
+
+    return stage.holdings.map((holding) => ({
+      holding,
+      payout: preferred.includes(holding) ? holding.preference * coverage : holding.shares * pricePerShare,
+      converted: converted.has(holding.id),
+    }));
+  }
+};
+
+// ============ Pitch Slides ============
+
+// Figures on slides, e.g. "$1.2M"
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+  }).format(amount);
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+/**
+ * Ownership before and after a round, for the Investment Ask slide.
+ * Undefined when the round has been deleted.
+ */
+export const getRoundSlide = (capTable: CapTableData, roundId?: string): CapTableSlide | undefined => {
+  const stages = computeCapTable(capTable);
+  const index = stages.findIndex((stage) => stage.id === roundId);
+  if (!roundId || index < 1) return undefined;
+  const [before, after] = [stages[index - 1], stages[index]];
+
+  return {
+    caption: `${after.name}: raising ${formatMoney(after.amountRaised)} at ${formatMoney(after.preMoneyValuation)} pre-money (${formatMoney(after.postMoneyValuation)} post-money)`,
+    columns: ["Before", "After"],
+    rows: after.holdings.map((holding) => ({
+      label: holding.name,
+      values: [
+        before.holdings.some((item) => item.id === holding.id) ? formatPercent(getOwnership(before, holding.id)) : "—",
+        formatPercent(getOwnership(after, holding.id)),
+      ],
+    })),
+  };
+};
+
+/**
+ * Each holder's proceeds from an exit after the last round, for the Exit Strategy slide.
+ * Undefined until an exit valuation and shares are set.
+ */
+export const getExitSlide = (capTable: CapTableData): CapTableSlide | undefined => {
+  const stages = computeCapTable(capTable);
+  const latest = stages[stages.length - 1];
+  if (capTable.exitValuation <= 0 || latest.totalShares <= 0) return undefined;
+
+  return {
+    caption: `Exit at ${formatMoney(capTable.exitValuation)}`,
+    columns: ["Ownership", "Proceeds"],
+    rows: computeExitWaterfall(latest, capTable.exitValuation).map(({ holding, payout }) => ({
+      label: holding.name,
+      values: [formatPercent(getOwnership(latest, holding.id)), formatMoney(payout)],
+    })),
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  SYNC_CHANNEL_NAME,
+  announceEditing,
+  clearConflict,
+  getConflicts,
+  publishChange,
+  startCrossTabSync,
+  subscribeToKey,
+} from './crossTabSync';
+import { findOverlappingPaths, getChangedPaths, mergeThreeWay } from './jsonDiff';
+
+describe('jsonDiff', () => {
+  it('should address id\'d list items by id in changed paths', () => {
+    const before = { strengths: [{ id: 1, text: 'a' }, { id: 2, text: 'b' }] };
+    const after = { strengths: [{ id: 2, text: 'b' }, { id: 1, text: 'changed' }] };
+
+    expect(getChangedPaths(before, after)).toEqual(['strengths[id=1].text']);
+  });
+
+  it('should find paths that touch each other', () => {
+    expect(findOverlappingPaths(['name', 'items[id=1].text', 'other'], ['items', 'nameplate'])).toEqual([
+      'items[id=1].text',
+    ]);
+  });
+
+  it('should combine edits to different fields and keep mine on conflicts', () => {
+    const base = { name: 'a', tagline: 'b', items: [{ id: 1, text: 'x' }] };
+    const mine = { name: 'mine', tagline: 'b', items: [{ id: 1, text: 'x' }, { id: 2, text: 'new' }] };
+    const theirs = { name: 'theirs', tagline: 'theirs', items: [{ id: 1, text: 'edited' }] };
+
+    expect(mergeThreeWay(base, mine, theirs)).toEqual({
+      value: { name: 'mine', tagline: 'theirs', items: [{ id: 1, text: 'edited' }, { id: 2, text: 'new' }] },
+      conflicts: ['name'],
+    });
+  });
+
+  it('should drop items the other side deleted when mine are unchanged', () => {
+    const base = [{ id: 1 }, { id: 2 }];
+    expect(mergeThreeWay(base, base, [{ id: 2 }]).value).toEqual([{ id: 2 }]);
+  });
+});
+
+describe('crossTabSync', () => {
+  const cleanups: (() => void)[] = [];
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+    getConflicts().forEach((conflict) => clearConflict(conflict.key));
+  });
+
+  const openOtherTab = () => {
+    const other = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    cleanups.push(() => other.close());
+    return other;
+  };
+
+  it('should notify other subscribers but not the publisher', () => {
+    const publisher = vi.fn();
+    const reader = vi.fn();
+    cleanups.push(subscribeToKey('sync-key', 'a', publisher), subscribeToKey('sync-key', 'b', reader));
+
+    publishChange('sync-key', '"value"', { fields: ['name'], sourceId: 'a' });
+
+    expect(publisher).not.toHaveBeenCalled();
+    expect(reader).toHaveBeenCalledWith({ key: 'sync-key', value: '"value"', fields: ['name'], remote: false });
+  });
+
+  it('should deliver changes from other tabs', async () => {
+    cleanups.push(startCrossTabSync());
+    const listener = vi.fn();
+    cleanups.push(subscribeToKey('sync-key', 'a', listener));
+
+    openOtherTab().postMessage({ type: 'change', tabId: 'other-tab', key: 'sync-key', value: '"theirs"', fields: [] });
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith({ key: 'sync-key', value: '"theirs"', fields: [], remote: true })
+    );
+  });
+
+  it('should broadcast this tab\'s changes', async () => {
+    cleanups.push(startCrossTabSync());
+    const received = vi.fn();
+    openOtherTab().onmessage = (event) => received(event.data);
+
+    publishChange('sync-key', null);
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith(expect.objectContaining({ type: 'change', key: 'sync-key', value: null })));
+  });
+
+  it('should report a conflict while both tabs edit the same field', async () => {
+    cleanups.push(startCrossTabSync());
+
+    announceEditing('editing-key', () => ['strengths[id=1].text', 'name']);
+    openOtherTab().postMessage({ type: 'editing', tabId: 'other-tab', key: 'editing-key', fields: ['strengths'] });
+
+    await vi.waitFor(() =>
+      expect(getConflicts()).toEqual([{ key: 'editing-key', kind: 'editing', fields: ['strengths[id=1].text'] }])
+    );
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Cross-tab Sync
+ * Keeps every open tab, and every hook instance within a tab, on the latest stored data.
+ * Saves are announced on a BroadcastChannel; browsers without one fall back to the
+ * `storage` event, which only covers localStorage-backed keys.
+ *
+ * Tabs also announce which fields they are editing, so when the same field is being
+ * edited in two places both get a conflict indicator.
+ */
+import { getIndexedDBAdapter } from "./storageAdapter";
+import { findOverlappingPaths } from "./jsonDiff";
+import { isEncryptedValue, refreshLocal } from "./workspaceVault";
+
+// ============ Types ============
+
+export interface SyncedChange {
+  key: string;
+  /** New stored value (null = removed) */
+  value: string | null;
+  /** Changed field paths, when known */
+  fields: string[];
+  /** Made in another tab */
+  remote: boolean;
+}
+
+export type SyncConflictKind = "editing" | "overwritten";
+
+export interface SyncConflict {
+  key: string;
+  /** "editing": another tab is editing these fields right now;
+   *  "overwritten": another tab saved these fields while this one had unsaved edits (mine were kept) */
+  kind: SyncConflictKind;
+  fields: string[];
+  /** Replace this tab's version with the other tab's */
+  useTheirs?: () => void;
+}
+
+type SyncMessage =
+  | { type: "change"; tabId: string; key: string; value: string | null; fields: string[] }
+  | { type: "editing"; tabId: string; key: string; fields: string[] };
+
+interface EditingState {
+  fields: string[];
+  expiresAt: number;
+}
+
+export const SYNC_CHANNEL_NAME = "mizzie-sync";
+
+/** How long a tab counts as editing fields after its last edit */
+export const EDITING_TTL_MS = 5000;
+
+/** Minimum gap between editing announcements for the same key */
+const EDITING_THROTTLE_MS = 1000;
+
+/** Identifies this tab in sync messages */
+export const TAB_ID = crypto.randomUUID();
+
+// ============ State ============
+
+let channel: BroadcastChannel | null = null;
+const keyListeners = new Map<string, Map<string, (change: SyncedChange) => void>>();
+const remoteChangeListeners = new Set<(change: SyncedChange) => void>();
+const localEditing = new Map<string, EditingState>();
+const remoteEditing = new Map<string, Map<string, EditingState>>();
+const lastAnnounced = new Map<string, number>();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+let conflicts: SyncConflict[] = [];
+const conflictListeners = new Set<() => void>();
+
+// ============ Conflicts ============
+
+const setConflicts = (next: SyncConflict[]) => {
+  conflicts = next;
+  conflictListeners.forEach((listener) => listener());
+};
+
+/**
+ * Open conflicts (stable reference between changes, for useSyncExternalStore)
+ */
+export const getConflicts = (): SyncConflict[] => conflicts;
+
+export const subscribeToConflicts = (listener: () => void): (() => void) => {
+  conflictListeners.add(listener);
+  return () => conflictListeners.delete(listener);
+};
+
+/**
+ * Record a conflict, replacing any of the same kind for the key
+ */
+export const reportConflict = (conflict: SyncConflict): void => {
+  setConflicts([...conflicts.filter((c) => c.key !== conflict.key || c.kind !== conflict.kind), conflict]);
+};
+
+/**
+ * Dismiss a key's conflicts (of one kind, or all)
+ */
+export const clearConflict = (key: string, kind?: SyncConflictKind): void => {
+  const remaining = conflicts.filter((c) => c.key !== key || (kind !== undefined && c.kind !== kind));
+  if (remaining.length !== conflicts.length) setConflicts(remaining);
+};
+
+// ============ Editing Presence ============
+
+const activeFields = (state: EditingState | undefined, now: number): string[] =>
+  state && state.expiresAt > now ? state.fields : [];
+
+/**
+ * Fields other tabs are editing right now
+ */
+export const getRemoteEditingFields = (key: string, now = Date.now()): string[] => {
+  const fields = new Set<string>();
+  remoteEditing.get(key)?.forEach((state) => activeFields(state, now).forEach((field) => fields.add(field)));
+  return Array.from(fields);
+};
+
+const updateEditingConflict = (key: string) => {
+  const now = Date.now();
+  const overlap = findOverlappingPaths(activeFields(localEditing.get(key), now), getRemoteEditingFields(key, now));
+  if (overlap.length > 0) {
+    reportConflict({ key, kind: "editing", fields: overlap });
+  } else {
+    clearConflict(key, "editing");
+  }
+
+  // Re-check once the newest edit expires
+  clearTimeout(expiryTimers.get(key));
+  const expiries = [localEditing.get(key), ...(remoteEditing.get(key)?.values() ?? [])]
+    .map((state) => state?.expiresAt ?? 0)
+    .filter((expiresAt) => expiresAt > now);
+  if (expiries.length > 0) {
+    expiryTimers.set(key, setTimeout(() => updateEditingConflict(key), Math.max(...expiries) - now + 10));
+  } else {
+    expiryTimers.delete(key);
+  }
+};
+
+/**
+ * Tell other tabs this tab is editing a key. Fields are computed lazily,
+ * at most once per throttle window.
+ */
+export const announceEditing = (key: string, getFields: () => string[], now = Date.now()): void => {
+  if (now - (lastAnnounced.get(key) ?? 0) < EDITING_THROTTLE_MS) return;
+  lastAnnounced.set(key, now);
+
+  const fields = getFields();
+  if (fields.length === 0) return;
+  localEditing.set(key, { fields, expiresAt: now + EDITING_TTL_MS });
+  channel?.postMessage({ type: "editing", tabId: TAB_ID, key, fields } satisfies SyncMessage);
+  updateEditingConflict(key);
+};
+
+// ============ Changes ============
+
+/**
+ * Listen for changes to a key made by other hook instances or other tabs.
+ * Changes published with the same subscriber id are not echoed back.
+ */
+export const subscribeToKey = (
+  key: string,
+  subscriberId: string,
+  listener: (change: SyncedChange) => void
+): (() => void) => {
+  const listeners = keyListeners.get(key) ?? new Map<string, (change: SyncedChange) => void>();
+  listeners.set(subscriberId, listener);
+  keyListeners.set(key, listeners);
+  return () => {
+    listeners.delete(subscriberId);
+    if (listeners.size === 0) keyListeners.delete(key);
+  };
+};
+
+/**
+ * Listen for every change made in another tab
+ */
+export const subscribeToRemoteChanges = (listener: (change: SyncedChange) => void): (() => void) => {
+  remoteChangeListeners.add(listener);
+  return () => remoteChangeListeners.delete(listener);
+};
+
+const notifyKeyListeners = (change: SyncedChange, sourceId?: string) => {
+  keyListeners.get(change.key)?.forEach((listener, subscriberId) => {
+    if (subscriberId !== sourceId) listener(change);
+  });
+};
+
+/**
+ * Announce a value that has just been stored, to this tab's other readers and to other tabs
+ */
+export const publishChange = (
+  key: string,
+  value: string | null,
+  options: { fields?: string[]; sourceId?: string } = {}
+): void => {
+  const { fields = [], sourceId } = options;
+  notifyKeyListeners({ key, value, fields, remote: false }, sourceId);
+  channel?.postMessage({ type: "change", tabId: TAB_ID, key, value, fields } satisfies SyncMessage);
+};
+
+const handleRemoteChange = (change: SyncedChange) => {
+  // The other tab has already persisted it; only this tab's in-memory copies are stale
+  getIndexedDBAdapter()?.refreshCached(change.key, change.value);
+  refreshLocal(change.key, change.value);
+  notifyKeyListeners(change);
+  remoteChangeListeners.forEach((listener) => listener(change));
+};
+
+const isSyncMessage = (data: unknown): data is SyncMessage => {
+  const message = data as Partial<SyncMessage> | null;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof message.tabId === "string" &&
+    typeof message.key === "string" &&
+    Array.isArray(message.fields) &&
+    (message.type === "editing" || (message.type === "change" && message.value !== undefined))
+  );
+};
+
+const handleMessage = (data: unknown) => {
+  if (!isSyncMessage(data) || data.tabId === TAB_ID) return;
+
+  if (data.type === "change") {
+    handleRemoteChange({ key: data.key, value: data.value, fields: data.fields, remote: true });
+    return;
+  }
+
+  const editors = remoteEditing.get(data.key) ?? new Map<string, EditingState>();
+  editors.set(data.tabId, { fields: data.fields, expiresAt: Date.now() + EDITING_TTL_MS });
+  remoteEditing.set(data.key, editors);
+  updateEditingConflict(data.key);
+};
+
+/**
+ * Start exchanging changes with other tabs. Call once at startup.
+ * @returns a function that stops syncing
+ */
+export const startCrossTabSync = (): (() => void) => {
+  if (typeof BroadcastChannel !== "undefined") {
+    const current = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    current.onmessage = (event: MessageEvent) => handleMessage(event.data);
+    channel = current;
+    return () => {
+      current.close();
+      if (channel === current) channel = null;
+    };
+  }
+
+  // Fallback: localStorage writes from other tabs (no field or presence information;
+  // encrypted values can't be decrypted synchronously, so those are picked up on reload)
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key && event.storageArea === localStorage && !isEncryptedValue(event.newValue)) {
+      handleRemoteChange({ key: event.key, value: event.newValue, fields: [], remote: true });
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
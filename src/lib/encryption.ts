@@ -1,7 +1,7 @@
 /**
- * Optional encryption utilities for localStorage data
+ * Encryption utilities for the locked workspace (see workspaceVault.ts) and encrypted backups
  * Uses Web Crypto API for secure AES-GCM encryption
- * 
+ *
  * Note: The encryption key is derived from a user-provided password.
  * For production, consider using a more robust key management solution.
  */
@@ -11,10 +11,32 @@ const KEY_LENGTH = 256;
 const SALT_LENGTH = 16;
 const IV_LENGTH = 12;
 
+/**
+ * Base64-encodes bytes in chunks (spreading a large array into fromCharCode overflows the stack)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Generates a random salt for deriveKey
+ */
+export function generateSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
 /**
  * Derives a cryptographic key from a password using PBKDF2
  */
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+export async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
@@ -39,55 +61,77 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
 }
 
 /**
- * Encrypts data using AES-GCM
- * Returns base64-encoded string containing salt + iv + ciphertext
+ * Encrypts bytes using AES-GCM
+ * Returns salt + iv + ciphertext
  */
-export async function encrypt(data: string, password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
-  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-  
+export async function encryptBytes(data: Uint8Array, password: string): Promise<Uint8Array> {
+  const salt = generateSalt();
   const key = await deriveKey(password, salt);
-  
-  const encrypted = await crypto.subtle.encrypt(
-    { name: ALGORITHM, iv },
-    key,
-    encoder.encode(data)
-  );
+  const encrypted = await encryptBytesWithKey(data, key);
 
-  // Combine salt + iv + ciphertext
-  const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
+  const combined = new Uint8Array(salt.length + encrypted.length);
   combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encrypted), salt.length + iv.length);
+  combined.set(encrypted, salt.length);
+  return combined;
+}
 
-  // Convert to base64
-  return btoa(String.fromCharCode(...combined));
+/**
+ * Decrypts bytes that were encrypted with encryptBytes
+ */
+export async function decryptBytes(encryptedData: Uint8Array, password: string): Promise<Uint8Array> {
+  const salt = encryptedData.slice(0, SALT_LENGTH);
+  const key = await deriveKey(password, salt);
+  return decryptBytesWithKey(encryptedData.slice(SALT_LENGTH), key);
+}
+
+/**
+ * Encrypts bytes with an already derived key
+ * Returns iv + ciphertext
+ */
+async function encryptBytesWithKey(data: Uint8Array, key: CryptoKey): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt({ name: ALGORITHM, iv }, key, data);
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(encrypted), iv.length);
+  return combined;
+}
+
+async function decryptBytesWithKey(encryptedData: Uint8Array, key: CryptoKey): Promise<Uint8Array> {
+  const iv = encryptedData.slice(0, IV_LENGTH);
+  const ciphertext = encryptedData.slice(IV_LENGTH);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: ALGORITHM, iv }, key, ciphertext));
+}
+
+/**
+ * Encrypts data using AES-GCM
+ * Returns base64-encoded string containing salt + iv + ciphertext
+ */
+export async function encrypt(data: string, password: string): Promise<string> {
+  return bytesToBase64(await encryptBytes(new TextEncoder().encode(data), password));
 }
 
 /**
  * Decrypts data that was encrypted with the encrypt function
  */
 export async function decrypt(encryptedData: string, password: string): Promise<string> {
-  const decoder = new TextDecoder();
-  
-  // Decode from base64
-  const combined = Uint8Array.from(atob(encryptedData), (c) => c.charCodeAt(0));
-  
-  // Extract salt, iv, and ciphertext
-  const salt = combined.slice(0, SALT_LENGTH);
-  const iv = combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-  const ciphertext = combined.slice(SALT_LENGTH + IV_LENGTH);
-
-  const key = await deriveKey(password, salt);
+  return new TextDecoder().decode(await decryptBytes(base64ToBytes(encryptedData), password));
+}
 
-  const decrypted = await crypto.subtle.decrypt(
-    { name: ALGORITHM, iv },
-    key,
-    ciphertext
-  );
+/**
+ * Encrypts data with a key from deriveKey, skipping the slow key derivation.
+ * Returns base64-encoded string containing iv + ciphertext
+ */
+export async function encryptWithKey(data: string, key: CryptoKey): Promise<string> {
+  return bytesToBase64(await encryptBytesWithKey(new TextEncoder().encode(data), key));
+}
 
-  return decoder.decode(decrypted);
+/**
+ * Decrypts data that was encrypted with encryptWithKey
+ */
+export async function decryptWithKey(encryptedData: string, key: CryptoKey): Promise<string> {
+  return new TextDecoder().decode(await decryptBytesWithKey(base64ToBytes(encryptedData), key));
 }
 
 /**
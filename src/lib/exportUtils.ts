@@ -1,20 +1,9 @@
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
-import {
-  ImportDataSchema,
-  CanvasDataSchema,
-  PitchDeckDataSchema,
-  RoadmapDataSchema,
-  OrgChartDataSchema,
-  ChecklistDataSchema,
-  ForecastDataSchema,
-  AssetsDataSchema,
-  MarketResearchDataSchema,
-  SWOTDataSchema,
-  PortersDataSchema,
-  NameCheckerDataSchema,
-  validateDataItem,
-} from "./validators/schemas";
+import type { Backup, BackupScope } from "./validators/schemas";
+import { createBackup, encryptBackup, isEncryptedBackup, packBackup, readBackup } from "./backup";
+import { threadToMarkdown, type AIThread } from "./aiThreads";
+import { reviewToMarkdown, type PlanReview } from "./planReview";
 
 export const exportAllTabsToPDF = async (filename: string) => {
   // Get all tab content elements
@@ -300,105 +289,74 @@ export const exportToImage = async (elementId: string, filename: string) => {
   }
 };
 
-export const exportAllData = () => {
-  const data = {
-    canvas: localStorage.getItem("businessModelCanvas"),
-    pitchDeck: localStorage.getItem("pitchDeck"),
-    roadmap: localStorage.getItem("roadmap"),
-    orgChart: localStorage.getItem("orgChart"),
-    checklist: localStorage.getItem("checklist"),
-    forecasting: localStorage.getItem("forecasting"),
-    brandAssets: localStorage.getItem("brandAssets"),
-    marketResearch: localStorage.getItem("marketResearch"),
-    swot: localStorage.getItem("swotAnalysis"),
-    porters: localStorage.getItem("portersFiveForces"),
-    nameChecker: localStorage.getItem("nameChecker"),
-    exportDate: new Date().toISOString(),
-  };
-
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+export type ExportScope = BackupScope;
+
+const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
-  link.download = `business-plan-backup-${new Date().toISOString().split("T")[0]}.json`;
+  link.download = filename;
   link.click();
   URL.revokeObjectURL(url);
+};
 
-  return data;
+/**
+ * Download a zip backup of the active project, or of every project (see backup.ts).
+ * With a password, the zip is encrypted and saved as a .mizzie file.
+ */
+export const exportAllData = async (scope: ExportScope = "project", password?: string) => {
+  const backup = await createBackup(scope);
+  const zipped = await packBackup(backup);
+  const dateStamp = backup.exportDate?.split("T")[0];
+  const basename = scope === "all"
+    ? `business-plan-backup-all-projects-${dateStamp}`
+    : `business-plan-backup-${dateStamp}`;
+
+  if (password) {
+    const encrypted = await encryptBackup(zipped, password);
+    downloadBlob(new Blob([encrypted], { type: "application/octet-stream" }), `${basename}.mizzie`);
+  } else {
+    downloadBlob(new Blob([zipped], { type: "application/zip" }), `${basename}.zip`);
+  }
+  return backup;
 };
 
-export interface ImportResult {
-  success: boolean;
-  imported: string[];
-  skipped: string[];
-  errors: string[];
-}
+/**
+ * Download a Mizzie conversation as a Markdown file
+ */
+export const exportThreadMarkdown = (thread: AIThread) => {
+  const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "conversation";
+  downloadBlob(new Blob([threadToMarkdown(thread)], { type: "text/markdown" }), `mizzie-${slug}.md`);
+};
 
-export const importAllData = (file: File): Promise<ImportResult> => {
+/**
+ * Download a plan review report as a Markdown file
+ */
+export const exportPlanReviewMarkdown = (review: PlanReview) => {
+  downloadBlob(
+    new Blob([reviewToMarkdown(review)], { type: "text/markdown" }),
+    `plan-review-${review.rubric.id}-${review.createdAt.slice(0, 10)}.md`
+  );
+};
+
+const readFileBytes = (file: Blob): Promise<Uint8Array> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const rawData = JSON.parse(event.target?.result as string);
-
-        // Validate the overall import structure
-        const importValidation = ImportDataSchema.safeParse(rawData);
-        if (!importValidation.success) {
-          reject(new Error("Invalid backup file format. Please use a valid Mizzie backup file."));
-          return;
-        }
-
-        const data = importValidation.data;
-        const result: ImportResult = {
-          success: true,
-          imported: [],
-          skipped: [],
-          errors: [],
-        };
-
-        // Define validation mappings with explicit schema types
-        const validationMap = [
-          { key: "canvas" as const, storageKey: "businessModelCanvas", schema: CanvasDataSchema, name: "Business Model Canvas" },
-          { key: "pitchDeck" as const, storageKey: "pitchDeck", schema: PitchDeckDataSchema, name: "Pitch Deck" },
-          { key: "roadmap" as const, storageKey: "roadmap", schema: RoadmapDataSchema, name: "Roadmap" },
-          { key: "orgChart" as const, storageKey: "orgChart", schema: OrgChartDataSchema, name: "Org Chart" },
-          { key: "checklist" as const, storageKey: "checklist", schema: ChecklistDataSchema, name: "Checklist" },
-          { key: "forecasting" as const, storageKey: "forecasting", schema: ForecastDataSchema, name: "Forecasting" },
-          { key: "brandAssets" as const, storageKey: "brandAssets", schema: AssetsDataSchema, name: "Brand Assets" },
-          { key: "marketResearch" as const, storageKey: "marketResearch", schema: MarketResearchDataSchema, name: "Market Research" },
-          { key: "swot" as const, storageKey: "swot", schema: SWOTDataSchema, name: "SWOT Analysis" },
-          { key: "porters" as const, storageKey: "porters", schema: PortersDataSchema, name: "Porter's Five Forces" },
-          { key: "nameChecker" as const, storageKey: "nameChecker", schema: NameCheckerDataSchema, name: "Name Checker" },
-        ];
-
-        // Validate and import each data item
-        for (const { key, storageKey, schema, name } of validationMap) {
-          const rawValue = data[key];
-          if (!rawValue) {
-            continue; // Skip if not present in import
-          }
-
-          const validation = validateDataItem(rawValue, schema as Parameters<typeof validateDataItem>[1]);
-          if (validation.success) {
-            localStorage.setItem(storageKey, rawValue);
-            result.imported.push(name);
-          } else {
-            result.skipped.push(name);
-            result.errors.push(`${name}: ${validation.error}`);
-          }
-        }
-
-        // If nothing was imported, consider it a failure
-        if (result.imported.length === 0) {
-          result.success = false;
-        }
-
-        resolve(result);
-      } catch (error) {
-        reject(new Error("Failed to parse backup file. The file may be corrupted."));
-      }
-    };
+    reader.onload = (event) => resolve(new Uint8Array(event.target?.result as ArrayBuffer));
     reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 };
+
+/**
+ * Whether a backup file needs a password to be read
+ */
+export const isEncryptedBackupFile = async (file: File): Promise<boolean> =>
+  isEncryptedBackup(await readFileBytes(file.slice(0, 64)));
+
+/**
+ * Read a backup file (zip, password-protected zip, or a JSON backup from an older release),
+ * upgraded to the current format. Preview and apply it with importPlan.ts.
+ */
+export const readBackupFile = async (file: File, password?: string): Promise<Backup> =>
+  readBackup(await readFileBytes(file), password);
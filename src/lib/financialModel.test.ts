@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyModelToForecast,
+  computeMonthlyModel,
+  getModelYears,
+  getMonthLabel,
+  getProjections,
+  getStreamUnits,
+  hasModelDrivers,
+} from './financialModel';
+import { FinancialModelSchema, ForecastDataSchema, type FinancialModel } from './validators';
+
+const model = (overrides: Partial<FinancialModel> = {}): FinancialModel =>
+  FinancialModelSchema.parse({
+    revenueStreams: [{ id: 'subs', name: 'Subscriptions', units: 100, price: 10, monthlyGrowth: 10, startMonth: 1 }],
+    cogsPercent: 20,
+    fixedCosts: [{ id: 'rent', name: 'Rent', monthlyAmount: 500, startMonth: 1 }],
+    headcount: [{ id: 'dev', role: 'Engineer', count: 2, annualSalary: 60_000, startMonth: 4 }],
+    oneOffExpenses: [{ id: 'laptops', name: 'Laptops', amount: 3_000, month: 4 }],
+    ...overrides,
+  });
+
+describe('financialModel', () => {
+  it('should grow units from the month a stream starts', () => {
+    const stream = { id: 's', name: '', units: 100, price: 1, monthlyGrowth: 10, startMonth: 3 };
+    expect(getStreamUnits(stream, 2)).toBe(0);
+    expect(getStreamUnits(stream, 3)).toBe(100);
+    expect(getStreamUnits(stream, 5)).toBeCloseTo(121);
+  });
+
+  it('should build 36 months from the drivers', () => {
+    const months = computeMonthlyModel(model());
+
+    expect(months).toHaveLength(36);
+    expect(months[0]).toMatchObject({
+      revenue: 1_000,
+      cogs: 200,
+      grossProfit: 800,
+      fixedCosts: 500,
+      headcountCosts: 0,
+      oneOffExpenses: 0,
+      expenses: 700,
+      profit: 300,
+    });
+    expect(months[3]).toMatchObject({ headcount: 2, headcountCosts: 10_000, oneOffExpenses: 3_000 });
+    expect(months[3].revenue).toBeCloseTo(1_331);
+    expect(months[4].oneOffExpenses).toBe(0);
+  });
+
+  it('should total each year', () => {
+    const months = computeMonthlyModel(model({ revenueStreams: [{ id: 'a', name: '', units: 1, price: 100, monthlyGrowth: 0, startMonth: 13 }] }));
+    const years = getModelYears(months);
+
+    expect(years.map((year) => year.revenue)).toEqual([0, 1_200, 1_200]);
+    expect(years[0]).toMatchObject({ fixedCosts: 6_000, headcountCosts: 90_000, oneOffExpenses: 3_000, headcount: 2 });
+    expect(years[0].expenses).toBe(99_000);
+  });
+
+  it('should take years 1-3 from the model once it has drivers', () => {
+    const forecast = { ...ForecastDataSchema.parse({}), year1Revenue: '$5,000', year5Revenue: '900000' };
+    const empty = FinancialModelSchema.parse({});
+
+    expect(hasModelDrivers(empty)).toBe(false);
+    expect(getProjections(forecast, empty)[0]).toEqual({ year: 1, revenue: 5_000, expenses: 0, notes: '' });
+
+    const projections = getProjections(forecast, model({ revenueStreams: [], cogsPercent: 0 }));
+    expect(projections.map((projection) => projection.year)).toEqual([1, 2, 3, 5, 10, 15, 25]);
+    expect(projections[0]).toMatchObject({ revenue: 0, expenses: 99_000, notes: 'From the monthly model' });
+    expect(projections[3]).toMatchObject({ year: 5, revenue: 900_000 });
+  });
+
+  it('should fill the typed forecast fields from the model', () => {
+    const forecast = { ...ForecastDataSchema.parse({}), year1Revenue: '5000', year5Revenue: '900000' };
+
+    expect(applyModelToForecast(forecast, model({ revenueStreams: [], cogsPercent: 0 }))).toMatchObject({
+      year1Revenue: '0',
+      year1Expenses: '99000',
+      year5Revenue: '900000',
+    });
+  });
+
+  it('should label months from the start month', () => {
+    expect(getMonthLabel(model(), 3)).toBe('M3');
+    expect(getMonthLabel(model({ startMonth: '2026-11' }), 3)).toBe('Jan 2027');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Financial Model
+ * Turns the drivers in the monthly financial model (revenue streams, COGS,
+ * fixed costs, headcount and one-off expenses) into figures for months 1-36,
+ * and the yearly totals shown by the Financials charts and visuals.
+ */
+import {
+  FORECAST_YEARS,
+  MODEL_MONTHS,
+  type FinancialModel,
+  type ForecastData,
+  type RevenueStream,
+  type YearlyProjection,
+} from "./validators";
+
+// ============ Types ============
+
+export interface ModelMonth {
+  /** 1-36 */
+  month: number;
+  revenue: number;
+  /** Revenue by stream id */
+  streamRevenue: Record<string, number>;
+  cogs: number;
+  grossProfit: number;
+  fixedCosts: number;
+  headcountCosts: number;
+  /** People on the payroll */
+  headcount: number;
+  oneOffExpenses: number;
+  /** COGS, fixed costs, headcount costs and one-off expenses */
+  expenses: number;
+  profit: number;
+}
+
+export interface ModelYear extends Omit<ModelMonth, "month" | "streamRevenue" | "headcount"> {
+  year: number;
+  /** People on the payroll at the end of the year */
+  headcount: number;
+}
+
+/** Years the model covers */
+export const MODEL_YEARS = MODEL_MONTHS / 12;
+
+// ============ Model ============
+
+/**
+ * Whether any drivers have been entered, so the model replaces typed totals
+ */
+export const hasModelDrivers = (model: FinancialModel): boolean =>
+  model.revenueStreams.length > 0 ||
+  model.fixedCosts.length > 0 ||
+  model.headcount.length > 0 ||
+  model.oneOffExpenses.length > 0;
+
+/**
+ * Units a stream sells in a month, growing from its start month
+ */
+export const getStreamUnits = (stream: RevenueStream, month: number): number =>
+  month < stream.startMonth ? 0 : stream.units * (1 + stream.monthlyGrowth / 100) ** (month - stream.startMonth);
+
+/**
+ * Figures for each of the 36 months
+ */
+export const computeMonthlyModel = (model: FinancialModel): ModelMonth[] =>
+  Array.from({ length: MODEL_MONTHS }, (_, index) => {
+    const month = index + 1;
+    const streamRevenue = Object.fromEntries(
+      model.revenueStreams.map((stream) => [stream.id, getStreamUnits(stream, month) * stream.price])
+    );
+    const revenue = Object.values(streamRevenue).reduce((sum, value) => sum + value, 0);
+    const cogs = revenue * (model.cogsPercent / 100);
+    const fixedCosts = model.fixedCosts
+      .filter((cost) => cost.startMonth <= month)
+      .reduce((sum, cost) => sum + cost.monthlyAmount, 0);
+    const roles = model.headcount.filter((item) => item.startMonth <= month);
+    const headcountCosts = roles.reduce((sum, item) => sum + (item.count * item.annualSalary) / 12, 0);
+    const oneOffExpenses = model.oneOffExpenses
+      .filter((expense) => expense.month === month)
+      .reduce((sum, expense) => sum + expense.amount, 0);
+    const expenses = cogs + fixedCosts + headcountCosts + oneOffExpenses;
+
+    return {
+      month,
+      revenue,
+      streamRevenue,
+      cogs,
+      grossProfit: revenue - cogs,
+      fixedCosts,
+      headcountCosts,
+      headcount: roles.reduce((sum, item) => sum + item.count, 0),
+      oneOffExpenses,
+      expenses,
+      profit: revenue - expenses,
+    };
+  });
+
+/**
+ * Yearly totals of the monthly figures
+ */
+export const getModelYears = (months: ModelMonth[]): ModelYear[] =>
+  Array.from({ length: Math.ceil(months.length / 12) }, (_, index) => {
+    const inYear = months.slice(index * 12, index * 12 + 12);
+    const total = (field: keyof Omit<ModelYear, "year" | "headcount">) =>
+      inYear.reduce((sum, month) => sum + month[field], 0);
+    return {
+      year: index + 1,
+      revenue: total("revenue"),
+      cogs: total("cogs"),
+      grossProfit: total("grossProfit"),
+      fixedCosts: total("fixedCosts"),
+      headcountCosts: total("headcountCosts"),
+      headcount: inYear[inYear.length - 1]?.headcount ?? 0,
+      oneOffExpenses: total("oneOffExpenses"),
+      expenses: total("expenses"),
+      profit: total("profit"),
+    };
+  });
+
+/**
+ * Label for month n counted from a YYYY-MM start, e.g. "Mar 2027", or "M3" without a start
+ */
+export const formatMonth = (startMonth: string | undefined, month: number): string => {
+  if (!startMonth) return `M${month}`;
+  const [year, first] = startMonth.split("-").map(Number);
+  return new Intl.DateTimeFormat("en-US", { month: "short", year: "numeric", timeZone: "UTC" }).format(
+    new Date(Date.UTC(year, first - 1 + month - 1, 1))
+  );
+};
+
+/**
+ * Label for a model month, e.g. "Mar 2027" when a start month is set, otherwise "M3"
+ */
+export const getMonthLabel = (model: FinancialModel, month: number): string => formatMonth(model.startMonth, month);
+
+// ============ Projections ============
+
+/**
+ * Number from an amount typed by hand, e.g. "$120,000"
+ */
+export const parseAmount = (value: string | undefined): number => {
+  const parsed = parseFloat((value ?? "").replace(/[$,\s]/g, ""));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Yearly revenue and expenses for every forecast year. Years 1-3 come from
+ * the monthly model once it has drivers; later years are the typed estimates.
+ */
+export const getProjections = (forecast: ForecastData, model?: FinancialModel): YearlyProjection[] => {
+  const modelYears = model && hasModelDrivers(model) ? getModelYears(computeMonthlyModel(model)) : [];
+  return FORECAST_YEARS.map((year) => {
+    const modelled = modelYears.find((item) => item.year === year);
+    if (modelled) {
+      return {
+        year,
+        revenue: Math.round(modelled.revenue),
+        expenses: Math.round(modelled.expenses),
+        notes: "From the monthly model",
+      };
+    }
+    return {
+      year,
+      revenue: parseAmount(forecast[`year${year}Revenue`]),
+      expenses: parseAmount(forecast[`year${year}Expenses`]),
+      notes: "",
+    };
+  });
+};
+
+/**
+ * The forecast with years 1-3 replaced by the model's totals, for code that
+ * reads the typed fields (e.g. exports)
+ */
+export const applyModelToForecast = (forecast: ForecastData, model: FinancialModel): ForecastData => {
+  if (!hasModelDrivers(model)) return forecast;
+  const modelled = getProjections(forecast, model).filter((projection) => projection.year <= MODEL_YEARS);
+  return {
+    ...forecast,
+    ...Object.fromEntries(
+      modelled.flatMap(({ year, revenue, expenses }) => [
+        [`year${year}Revenue`, String(revenue)],
+        [`year${year}Expenses`, String(expenses)],
+      ])
+    ),
+  };
+};
+
+/**
+ * Whether a forecast year's figures come from the monthly model
+ */
+export const isModelledYear = (model: FinancialModel, year: number): boolean =>
+  year <= MODEL_YEARS && hasModelDrivers(model);
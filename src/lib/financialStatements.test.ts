@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFinancialStatements,
+  getEquityInjections,
+  getLoanPayment,
+  getLoanSchedule,
+  isBalanced,
+} from './financialStatements';
+import {
+  FinancialModelSchema,
+  ForecastDataSchema,
+  FundingSourceSchema,
+  LoanSchema,
+  type FinancialModel,
+} from './validators';
+
+const model = (overrides: Partial<FinancialModel> = {}): FinancialModel =>
+  FinancialModelSchema.parse({
+    revenueStreams: [{ id: 'subs', name: 'Subscriptions', units: 100, price: 30, monthlyGrowth: 5, startMonth: 1 }],
+    cogsPercent: 40,
+    fixedCosts: [{ id: 'rent', name: 'Rent', monthlyAmount: 1_000, startMonth: 1 }],
+    dso: 45,
+    dpo: 30,
+    inventoryDays: 60,
+    fixedAssets: [{ id: 'van', name: 'Van', cost: 24_000, month: 2, usefulLifeMonths: 24 }],
+    loans: [{ id: 'bank', name: 'Bank loan', amount: 20_000, drawMonth: 1, termMonths: 24, annualInterestRate: 6 }],
+    ...overrides,
+  });
+
+const forecast = ForecastDataSchema.parse({});
+const fundingSources = FundingSourceSchema.parse({ personalInvestment: '$10,000', investors: '50000', bankLoans: '20000' });
+
+describe('financialStatements', () => {
+  it('should take equity from non-debt funding sources', () => {
+    expect(getEquityInjections(fundingSources)).toBe(60_000);
+    expect(getEquityInjections()).toBe(0);
+  });
+
+  it('should repay a loan in equal instalments from the month after the draw', () => {
+    const loan = LoanSchema.parse({ id: 'l', amount: 12_000, drawMonth: 3, termMonths: 12, annualInterestRate: 12 });
+    const schedule = getLoanSchedule(loan);
+
+    expect(schedule[2]).toMatchObject({ draw: 12_000, interest: 0, principal: 0, balance: 12_000 });
+    expect(schedule[3].interest).toBeCloseTo(120);
+    expect(schedule[3].interest + schedule[3].principal).toBeCloseTo(getLoanPayment(loan));
+    expect(schedule[14].balance).toBeCloseTo(0);
+    expect(schedule[15]).toMatchObject({ interest: 0, principal: 0 });
+    expect(getLoanPayment({ ...loan, annualInterestRate: 0 })).toBe(1_000);
+  });
+
+  it('should balance the balance sheet every month and tie cash to the cash flow statement', () => {
+    const { months, years } = computeFinancialStatements(model(), forecast, fundingSources);
+
+    expect(months).toHaveLength(36);
+    expect(years).toHaveLength(3);
+    for (const month of months) {
+      expect(isBalanced(month.balanceSheet)).toBe(true);
+      expect(month.cashFlow.closingCash).toBeCloseTo(month.balanceSheet.cash);
+    }
+    expect(years[1].cashFlow.openingCash).toBeCloseTo(years[0].cashFlow.closingCash);
+    expect(years[2].balanceSheet).toEqual(months[35].balanceSheet);
+    expect(years[0].incomeStatement.netIncome).toBeCloseTo(
+      months.slice(0, 12).reduce((sum, month) => sum + month.incomeStatement.netIncome, 0)
+    );
+  });
+
+  it('should apply payment terms and inventory days to working capital', () => {
+    const [first, second] = computeFinancialStatements(model(), forecast).months;
+
+    expect(first.balanceSheet.receivables).toBeCloseTo(4_500);
+    expect(first.balanceSheet.inventory).toBeCloseTo(2_400);
+    // Purchases cover COGS plus the stock built up
+    expect(first.balanceSheet.payables).toBeCloseTo(3_600);
+    expect(first.cashFlow.receivables).toBeCloseTo(-4_500);
+    expect(second.cashFlow.receivables).toBeCloseTo(-225);
+  });
+
+  it('should depreciate fixed assets straight-line and charge interest', () => {
+    const { months } = computeFinancialStatements(model(), forecast);
+
+    expect(months[0].incomeStatement.depreciation).toBe(0);
+    expect(months[1].cashFlow.capitalExpenditure).toBe(-24_000);
+    expect(months[1].incomeStatement.depreciation).toBe(1_000);
+    expect(months[1].balanceSheet.fixedAssets).toBe(23_000);
+    expect(months[25].incomeStatement.depreciation).toBe(0);
+    expect(months[25].balanceSheet.fixedAssets).toBeCloseTo(0);
+    expect(months[1].incomeStatement.interest).toBeCloseTo(100);
+    expect(months[0].cashFlow.loanDraws).toBe(20_000);
+  });
+
+  it('should spread the typed forecast when the model has no drivers', () => {
+    const typed = ForecastDataSchema.parse({ year1Revenue: '$120,000', year1Expenses: '$96,000' });
+    const statements = computeFinancialStatements(FinancialModelSchema.parse({ cogsPercent: 25 }), typed);
+
+    expect(statements.fromModel).toBe(false);
+    expect(statements.months[0].incomeStatement).toMatchObject({ revenue: 10_000, cogs: 2_500, operatingExpenses: 5_500 });
+    expect(statements.years[0].incomeStatement.netIncome).toBeCloseTo(24_000);
+  });
+});
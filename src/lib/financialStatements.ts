@@ -0,0 +1,388 @@
+/**
+ * Financial Statements
+ * Builds an income statement, cash flow statement and balance sheet for
+ * months 1-36 from the monthly model (or the typed yearly forecast when the
+ * model has no drivers), adding payment terms, inventory, depreciation, loans
+ * and equity from the plan's funding sources. Cash is derived from the cash
+ * flow statement, so the balance sheet always balances.
+ */
+import { MODEL_MONTHS, type FinancialModel, type ForecastData, type FundingSource, type Loan } from "./validators";
+import { computeMonthlyModel, getProjections, hasModelDrivers, parseAmount } from "./financialModel";
+
+// ============ Types ============
+
+export interface IncomeStatement {
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  /** Fixed costs, headcount and one-off expenses */
+  operatingExpenses: number;
+  ebitda: number;
+  depreciation: number;
+  ebit: number;
+  interest: number;
+  /** Before tax */
+  netIncome: number;
+}
+
+/** Cash effects: negative figures are cash going out */
+export interface CashFlowStatement {
+  netIncome: number;
+  depreciation: number;
+  receivables: number;
+  inventory: number;
+  payables: number;
+  operating: number;
+  capitalExpenditure: number;
+  investing: number;
+  loanDraws: number;
+  loanRepayments: number;
+  equityInjections: number;
+  financing: number;
+  netChange: number;
+  openingCash: number;
+  closingCash: number;
+}
+
+export interface BalanceSheet {
+  cash: number;
+  receivables: number;
+  inventory: number;
+  /** Cost less accumulated depreciation */
+  fixedAssets: number;
+  totalAssets: number;
+  payables: number;
+  loans: number;
+  totalLiabilities: number;
+  paidInCapital: number;
+  retainedEarnings: number;
+  totalEquity: number;
+  totalLiabilitiesAndEquity: number;
+}
+
+export interface StatementPeriod {
+  /** Month 1-36, or year 1-3 */
+  period: number;
+  incomeStatement: IncomeStatement;
+  cashFlow: CashFlowStatement;
+  /** At the end of the period */
+  balanceSheet: BalanceSheet;
+}
+
+export interface FinancialStatements {
+  months: StatementPeriod[];
+  years: StatementPeriod[];
+  /** Whether revenue and costs come from the model's drivers rather than the typed forecast */
+  fromModel: boolean;
+}
+
+export interface StatementRow<T> {
+  key: keyof T & string;
+  label: string;
+  /** Subtotals and totals, shown in bold */
+  total?: boolean;
+}
+
+export type StatementKey = "incomeStatement" | "cashFlow" | "balanceSheet";
+
+// ============ Rows ============
+
+export const INCOME_STATEMENT_ROWS: StatementRow<IncomeStatement>[] = [
+  { key: "revenue", label: "Revenue" },
+  { key: "cogs", label: "Cost of goods sold" },
+  { key: "grossProfit", label: "Gross profit", total: true },
+  { key: "operatingExpenses", label: "Operating expenses" },
+  { key: "ebitda", label: "EBITDA", total: true },
+  { key: "depreciation", label: "Depreciation" },
+  { key: "ebit", label: "Operating profit (EBIT)", total: true },
+  { key: "interest", label: "Interest" },
+  { key: "netIncome", label: "Net income (before tax)", total: true },
+];
+
+export const CASH_FLOW_ROWS: StatementRow<CashFlowStatement>[] = [
+  { key: "netIncome", label: "Net income" },
+  { key: "depreciation", label: "Add back depreciation" },
+  { key: "receivables", label: "Change in receivables" },
+  { key: "inventory", label: "Change in inventory" },
+  { key: "payables", label: "Change in payables" },
+  { key: "operating", label: "Cash from operations", total: true },
+  { key: "capitalExpenditure", label: "Fixed asset purchases" },
+  { key: "investing", label: "Cash from investing", total: true },
+  { key: "loanDraws", label: "Loan draws" },
+  { key: "loanRepayments", label: "Loan repayments" },
+  { key: "equityInjections", label: "Equity injections" },
+  { key: "financing", label: "Cash from financing", total: true },
+  { key: "netChange", label: "Net change in cash", total: true },
+  { key: "openingCash", label: "Opening cash" },
+  { key: "closingCash", label: "Closing cash", total: true },
+];
+
+export const BALANCE_SHEET_ROWS: StatementRow<BalanceSheet>[] = [
+  { key: "cash", label: "Cash" },
+  { key: "receivables", label: "Accounts receivable" },
+  { key: "inventory", label: "Inventory" },
+  { key: "fixedAssets", label: "Fixed assets (net)" },
+  { key: "totalAssets", label: "Total assets", total: true },
+  { key: "payables", label: "Accounts payable" },
+  { key: "loans", label: "Loans" },
+  { key: "totalLiabilities", label: "Total liabilities", total: true },
+  { key: "paidInCapital", label: "Paid-in capital" },
+  { key: "retainedEarnings", label: "Retained earnings" },
+  { key: "totalEquity", label: "Total equity", total: true },
+  { key: "totalLiabilitiesAndEquity", label: "Total liabilities and equity", total: true },
+];
+
+/** The three statements in the order they're presented */
+export const STATEMENTS = [
+  { key: "incomeStatement", title: "Income Statement", rows: INCOME_STATEMENT_ROWS },
+  { key: "cashFlow", title: "Cash Flow Statement", rows: CASH_FLOW_ROWS },
+  { key: "balanceSheet", title: "Balance Sheet", rows: BALANCE_SHEET_ROWS },
+] as const;
+
+/**
+ * Figure for one row of a statement in a period
+ */
+export const getStatementValue = (period: StatementPeriod, statement: StatementKey, key: string): number =>
+  (period[statement] as unknown as Record<string, number>)[key];
+
+// ============ Funding ============
+
+/** Funding sources that are paid-in capital; bank loans and credit lines are modelled as loans */
+export const EQUITY_FUNDING_SOURCES: (keyof FundingSource)[] = [
+  "personalInvestment",
+  "familySupport",
+  "investors",
+  "grants",
+  "other",
+];
+
+/**
+ * Equity put into the business in month 1, from the plan's funding sources
+ */
+export const getEquityInjections = (fundingSources?: FundingSource): number =>
+  EQUITY_FUNDING_SOURCES.reduce((sum, key) => sum + parseAmount(fundingSources?.[key]), 0);
+
+// ============ Loans ============
+
+export interface LoanMonth {
+  month: number;
+  draw: number;
+  interest: number;
+  principal: number;
+  /** Balance at the end of the month */
+  balance: number;
+}
+
+/**
+ * Monthly instalment (interest and principal) that repays a loan over its term
+ */
+export const getLoanPayment = (loan: Loan): number => {
+  const rate = loan.annualInterestRate / 100 / 12;
+  if (rate === 0) return loan.amount / loan.termMonths;
+  return (loan.amount * rate) / (1 - (1 + rate) ** -loan.termMonths);
+};
+
+/**
+ * Draw, interest, repayment and balance of a loan for each model month.
+ * Interest accrues on the opening balance; repayments start the month after the draw.
+ */
+export const getLoanSchedule = (loan: Loan): LoanMonth[] => {
+  const rate = loan.annualInterestRate / 100 / 12;
+  const payment = getLoanPayment(loan);
+  let balance = 0;
+
+  return Array.from({ length: MODEL_MONTHS }, (_, index) => {
+    const month = index + 1;
+    const repaying = month > loan.drawMonth && month <= loan.drawMonth + loan.termMonths;
+    const interest = repaying ? balance * rate : 0;
+    const principal = repaying ? Math.min(balance, payment - interest) : 0;
+    const draw = month === loan.drawMonth ? loan.amount : 0;
+    balance += draw - principal;
+    return { month, draw, interest, principal, balance };
+  });
+};
+
+// ============ Statements ============
+
+interface OperatingMonth {
+  revenue: number;
+  cogs: number;
+  operatingExpenses: number;
+}
+
+// Revenue and costs per month: the model's when it has drivers, otherwise
+// the typed yearly forecast spread evenly, with COGS taken from the model's percentage
+const getOperatingMonths = (model: FinancialModel, forecast: ForecastData): OperatingMonth[] => {
+  if (hasModelDrivers(model)) {
+    return computeMonthlyModel(model).map((month) => ({
+      revenue: month.revenue,
+      cogs: month.cogs,
+      operatingExpenses: month.fixedCosts + month.headcountCosts + month.oneOffExpenses,
+    }));
+  }
+  const projections = getProjections(forecast);
+  return Array.from({ length: MODEL_MONTHS }, (_, index) => {
+    const projection = projections.find((item) => item.year === Math.floor(index / 12) + 1);
+    const revenue = (projection?.revenue ?? 0) / 12;
+    const expenses = (projection?.expenses ?? 0) / 12;
+    const cogs = revenue * (model.cogsPercent / 100);
+    return { revenue, cogs, operatingExpenses: Math.max(0, expenses - cogs) };
+  });
+};
+
+// Straight-line depreciation in a month, and asset cost less depreciation to date
+const getFixedAssetsInMonth = (model: FinancialModel, month: number) =>
+  model.fixedAssets.reduce(
+    (totals, asset) => {
+      if (asset.month > month) return totals;
+      const perMonth = asset.cost / asset.usefulLifeMonths;
+      const monthsUsed = Math.min(asset.usefulLifeMonths, month - asset.month + 1);
+      const depreciating = month - asset.month < asset.usefulLifeMonths;
+      return {
+        capitalExpenditure: totals.capitalExpenditure + (asset.month === month ? asset.cost : 0),
+        depreciation: totals.depreciation + (depreciating ? perMonth : 0),
+        netBookValue: totals.netBookValue + asset.cost - perMonth * monthsUsed,
+      };
+    },
+    { capitalExpenditure: 0, depreciation: 0, netBookValue: 0 }
+  );
+
+const sumPeriods = <T extends object>(items: T[]): T =>
+  items.reduce(
+    (total, item) =>
+      Object.fromEntries(
+        Object.entries(item).map(([key, value]) => [key, (total[key as keyof T] as number) + (value as number)])
+      ) as T,
+    Object.fromEntries(Object.keys(items[0]).map((key) => [key, 0])) as T
+  );
+
+/**
+ * Yearly statements: income and cash flow summed over the year, the balance
+ * sheet at the year's end
+ */
+export const getStatementYears = (months: StatementPeriod[]): StatementPeriod[] =>
+  Array.from({ length: Math.ceil(months.length / 12) }, (_, index) => {
+    const inYear = months.slice(index * 12, index * 12 + 12);
+    const last = inYear[inYear.length - 1];
+    return {
+      period: index + 1,
+      incomeStatement: sumPeriods(inYear.map((month) => month.incomeStatement)),
+      cashFlow: {
+        ...sumPeriods(inYear.map((month) => month.cashFlow)),
+        openingCash: inYear[0].cashFlow.openingCash,
+        closingCash: last.cashFlow.closingCash,
+      },
+      balanceSheet: last.balanceSheet,
+    };
+  });
+
+/**
+ * Monthly and yearly statements for the model period
+ */
+export const computeFinancialStatements = (
+  model: FinancialModel,
+  forecast: ForecastData,
+  fundingSources?: FundingSource
+): FinancialStatements => {
+  const operating = getOperatingMonths(model, forecast);
+  const loanSchedules = model.loans.map(getLoanSchedule);
+  const equity = getEquityInjections(fundingSources);
+
+  let previous: BalanceSheet | null = null;
+  const months = operating.map((current, index): StatementPeriod => {
+    const month = index + 1;
+    const assets = getFixedAssetsInMonth(model, month);
+    const loanMonths = loanSchedules.map((schedule) => schedule[index]);
+    const loanTotal = (field: keyof Omit<LoanMonth, "month">) =>
+      loanMonths.reduce((sum, loanMonth) => sum + loanMonth[field], 0);
+
+    // Income statement
+    const grossProfit = current.revenue - current.cogs;
+    const ebitda = grossProfit - current.operatingExpenses;
+    const ebit = ebitda - assets.depreciation;
+    const interest = loanTotal("interest");
+    const netIncome = ebit - interest;
+
+    // Working capital, using a 30-day month
+    const receivables = (current.revenue * model.dso) / 30;
+    const inventory = (current.cogs * model.inventoryDays) / 30;
+    const purchases = current.cogs + inventory - (previous?.inventory ?? 0);
+    const payables = Math.max(0, (purchases * model.dpo) / 30);
+
+    // Cash flow
+    const operatingCash =
+      netIncome +
+      assets.depreciation -
+      (receivables - (previous?.receivables ?? 0)) -
+      (inventory - (previous?.inventory ?? 0)) +
+      (payables - (previous?.payables ?? 0));
+    const equityInjections = month === 1 ? equity : 0;
+    const financing = loanTotal("draw") - loanTotal("principal") + equityInjections;
+    const netChange = operatingCash - assets.capitalExpenditure + financing;
+    const openingCash = previous?.cash ?? 0;
+
+    // Balance sheet
+    const cash = openingCash + netChange;
+    const totalAssets = cash + receivables + inventory + assets.netBookValue;
+    const loans = loanTotal("balance");
+    const paidInCapital = (previous?.paidInCapital ?? 0) + equityInjections;
+    const retainedEarnings = (previous?.retainedEarnings ?? 0) + netIncome;
+    const balanceSheet: BalanceSheet = {
+      cash,
+      receivables,
+      inventory,
+      fixedAssets: assets.netBookValue,
+      totalAssets,
+      payables,
+      loans,
+      totalLiabilities: payables + loans,
+      paidInCapital,
+      retainedEarnings,
+      totalEquity: paidInCapital + retainedEarnings,
+      totalLiabilitiesAndEquity: payables + loans + paidInCapital + retainedEarnings,
+    };
+
+    const period: StatementPeriod = {
+      period: month,
+      incomeStatement: {
+        revenue: current.revenue,
+        cogs: current.cogs,
+        grossProfit,
+        operatingExpenses: current.operatingExpenses,
+        ebitda,
+        depreciation: assets.depreciation,
+        ebit,
+        interest,
+        netIncome,
+      },
+      cashFlow: {
+        netIncome,
+        depreciation: assets.depreciation,
+        receivables: (previous?.receivables ?? 0) - receivables,
+        inventory: (previous?.inventory ?? 0) - inventory,
+        payables: payables - (previous?.payables ?? 0),
+        operating: operatingCash,
+        capitalExpenditure: -assets.capitalExpenditure,
+        investing: -assets.capitalExpenditure,
+        loanDraws: loanTotal("draw"),
+        loanRepayments: -loanTotal("principal"),
+        equityInjections,
+        financing,
+        netChange,
+        openingCash,
+        closingCash: cash,
+      },
+      balanceSheet,
+    };
+    previous = balanceSheet;
+    return period;
+  });
+
+  return { months, years: getStatementYears(months), fromModel: hasModelDrivers(model) };
+};
+
+/**
+ * Whether total assets equal total liabilities and equity, to the cent
+ */
+export const isBalanced = (balanceSheet: BalanceSheet): boolean =>
+  Math.abs(balanceSheet.totalAssets - balanceSheet.totalLiabilitiesAndEquity) < 0.01;
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  mergeById,
+  planImport,
+  applyImportPlan,
+  previewResolution,
+  countOutcomes,
+} from './importPlan';
+import { migrateBackup } from './backup';
+import { BACKUP_FORMAT_VERSION, type BackupScope } from './validators';
+import { readDomain, readDomainRaw, writeDomain } from './storageRegistry';
+import { loadProjects } from './projects';
+import { clearHistory, getHistoryState } from './undoHistory';
+
+const swotWith = (...texts: string[]) => ({
+  strengths: texts.map((text, index) => ({ id: String(index + 1), text })),
+  weaknesses: [],
+  opportunities: [],
+  threats: [],
+});
+
+const backupOf = (data: Record<string, unknown>, scope: BackupScope = 'project', name = 'Co-founder') =>
+  migrateBackup({
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: '1.0.0',
+    scope,
+    projects: [{ name, data }],
+  });
+
+describe('importPlan', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    clearHistory();
+  });
+
+  describe('mergeById', () => {
+    it('should combine lists by id, keeping my version of shared items', () => {
+      const merged = mergeById(swotWith('Mine A', 'Mine B'), {
+        ...swotWith('Theirs A'),
+        threats: [{ id: '9', text: 'New competitor' }],
+      });
+
+      expect(merged).toEqual({
+        ...swotWith('Mine A', 'Mine B'),
+        threats: [{ id: '9', text: 'New competitor' }],
+      });
+    });
+
+    it('should fill my empty fields and union plain lists', () => {
+      expect(mergeById({ name: '', tags: ['a'] }, { name: 'Theirs', tags: ['a', 'b'] })).toEqual({
+        name: 'Theirs',
+        tags: ['a', 'b'],
+      });
+    });
+  });
+
+  describe('planImport', () => {
+    it('should classify each section of a single-project backup', () => {
+      writeDomain('swot', swotWith('A'));
+      writeDomain('roadmap', []);
+
+      const plan = planImport(backupOf({
+        swot: swotWith('A', 'B'),
+        roadmap: [],
+        canvas: { keyPartners: 'Roasters' },
+        brandColors: { primary: 'red' },
+      }));
+      const sections = Object.fromEntries(plan.projects[0].sections.map((s) => [s.domain, s]));
+
+      expect(sections.swot).toMatchObject({ status: 'changed', mergeable: true });
+      expect(sections.swot.changes).toContainEqual(
+        expect.objectContaining({ path: 'strengths[id=2].text', type: 'added' })
+      );
+      expect(sections.roadmap.status).toBe('unchanged');
+      expect(sections.canvas.status).toBe('new');
+      expect(sections.brandColors.status).toBe('invalid');
+    });
+
+    it('should preview the changes of the chosen resolution', () => {
+      writeDomain('canvas', { ...readDomain('canvas'), keyPartners: 'Mine' });
+
+      const [section] = planImport(backupOf({ canvas: { ...readDomain('canvas'), keyPartners: 'Theirs' } }))
+        .projects[0].sections;
+
+      expect(section.mergeable).toBe(false);
+      expect(previewResolution(section, 'mine')).toEqual([]);
+      expect(previewResolution(section, 'theirs')).toEqual([
+        { path: 'keyPartners', type: 'changed', before: 'Mine', after: 'Theirs' },
+      ]);
+    });
+  });
+
+  describe('applyImportPlan', () => {
+    it('should apply each resolution and report the outcome per section', async () => {
+      writeDomain('swot', swotWith('Mine'));
+      writeDomain('roadmap', []);
+      writeDomain('canvas', { ...readDomain('canvas'), keyPartners: 'Mine' });
+
+      const plan = planImport(backupOf({
+        swot: { ...swotWith('Theirs'), threats: [{ id: '9', text: 'Rival' }] },
+        roadmap: [{ id: '1', title: 'Launch', description: '', timeframe: 'Q1', category: '1-year' }],
+        canvas: { ...readDomain('canvas'), keyPartners: 'Theirs' },
+        brandColors: { primary: 'red' },
+      }));
+      const report = await applyImportPlan(plan, { swot: 'merge', roadmap: 'theirs', canvas: 'mine' });
+
+      expect(readDomain('swot').strengths[0].text).toBe('Mine');
+      expect(readDomain('swot').threats).toHaveLength(1);
+      expect(readDomain('roadmap')).toHaveLength(1);
+      expect(readDomain('canvas').keyPartners).toBe('Mine');
+      expect(countOutcomes(report)).toMatchObject({ merged: 1, replaced: 1, kept: 1, invalid: 1 });
+      expect(getHistoryState().past[0]).toMatchObject({ label: 'Import backup', reload: true });
+    });
+
+    it('should add all-project backups as new projects', async () => {
+      const report = await applyImportPlan(planImport(backupOf({ roadmap: [] }, 'all', 'Bakery')));
+      const project = loadProjects().projects.find((p) => p.name === 'Bakery');
+
+      expect(report.createdProjects).toEqual(['Bakery']);
+      expect(report.entries).toEqual([expect.objectContaining({ domain: 'roadmap', outcome: 'added' })]);
+      expect(readDomainRaw('roadmap', project!.id)).toBe('[]');
+    });
+  });
+});
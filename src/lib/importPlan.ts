@@ -0,0 +1,278 @@
+/**
+ * Import Plan
+ * Section-by-section preview of what importing a backup would change, and how each
+ * section is resolved: keep mine, take theirs, or merge by id.
+ *
+ * Single-project backups are merged into the active project; all-project backups are
+ * added as new projects, so they never conflict.
+ */
+import type { Backup, BackupProject } from "./validators";
+import {
+  BACKUP_DOMAIN_IDS,
+  STORAGE_REGISTRY,
+  getStorageKey,
+  parseStoredValue,
+  readDomainRaw,
+  saveDomainRaw,
+  serializeValue,
+  validateStoredValue,
+  type StorageDomainId,
+} from "./storageRegistry";
+import { createProject, getActiveProject, setProjectArchived } from "./projects";
+import { diffSection, type FieldChange } from "./snapshots";
+import { hasId, isPlainObject } from "./jsonDiff";
+import { recordChange, type StorageChange } from "./undoHistory";
+
+// ============ Types ============
+
+export type ImportResolution = "mine" | "theirs" | "merge";
+
+export type SectionImportStatus = "new" | "changed" | "unchanged" | "invalid";
+
+export interface SectionImportPlan {
+  domain: StorageDomainId;
+  label: string;
+  status: SectionImportStatus;
+  /** Value stored in the target project */
+  mine?: string;
+  /** Incoming value (serialized) */
+  theirs?: string;
+  /** The section holds lists, so merging by id is possible */
+  mergeable: boolean;
+  /** Field changes taking theirs would make */
+  changes: FieldChange[];
+  /** Why the incoming value was rejected */
+  error?: string;
+}
+
+export interface ProjectImportPlan {
+  name: string;
+  archived: boolean;
+  /** Existing project to import into; a new project is created when missing */
+  projectId?: string;
+  sections: SectionImportPlan[];
+}
+
+export interface ImportPlan {
+  backup: Backup;
+  projects: ProjectImportPlan[];
+}
+
+export type ImportResolutions = Partial<Record<StorageDomainId, ImportResolution>>;
+
+export type ImportOutcome = "added" | "replaced" | "merged" | "kept" | "unchanged" | "invalid";
+
+export interface ImportReportEntry {
+  project: string;
+  domain: StorageDomainId;
+  label: string;
+  outcome: ImportOutcome;
+  /** Validation error for invalid sections */
+  detail?: string;
+}
+
+export interface ImportReport {
+  entries: ImportReportEntry[];
+  /** Names of the projects the import created */
+  createdProjects: string[];
+}
+
+// ============ Merge ============
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || value === "";
+
+const containsList = (value: unknown): boolean =>
+  Array.isArray(value) || (isPlainObject(value) && Object.values(value).some(containsList));
+
+/**
+ * Merge two values of a section. Lists are combined by id (plain lists by value),
+ * keeping my version of items both sides have; objects are merged field by field;
+ * for single values mine wins unless it is empty.
+ */
+export const mergeById = (mine: unknown, theirs: unknown): unknown => {
+  if (Array.isArray(mine) && Array.isArray(theirs)) {
+    if (mine.every(hasId) && theirs.every(hasId)) {
+      const ids = new Set(mine.map((item) => item.id));
+      return [...mine, ...theirs.filter((item) => !ids.has(item.id))];
+    }
+    const seen = new Set(mine.map((item) => JSON.stringify(item)));
+    return [...mine, ...theirs.filter((item) => !seen.has(JSON.stringify(item)))];
+  }
+  if (isPlainObject(mine) && isPlainObject(theirs)) {
+    const merged: Record<string, unknown> = { ...theirs };
+    for (const [field, value] of Object.entries(mine)) {
+      merged[field] = field in theirs ? mergeById(value, theirs[field]) : value;
+    }
+    return merged;
+  }
+  return isEmpty(mine) ? theirs : mine;
+};
+
+// ============ Planning ============
+
+const planSection = (
+  domain: StorageDomainId,
+  value: unknown,
+  mine: string | undefined
+): SectionImportPlan => {
+  const label = STORAGE_REGISTRY[domain].label;
+  const theirs = serializeValue(domain, value);
+  const validation = validateStoredValue(domain, theirs);
+  if (!validation.success) {
+    return { domain, label, status: "invalid", mine, mergeable: false, changes: [], error: validation.error };
+  }
+
+  const changes = diffSection(domain, mine, theirs);
+  const status: SectionImportStatus = mine === undefined ? "new" : changes.length > 0 ? "changed" : "unchanged";
+  const mergeable = status === "changed" && containsList(parseStoredValue(domain, theirs));
+  return { domain, label, status, mine, theirs, mergeable, changes };
+};
+
+const planProjectSections = (project: BackupProject, projectId?: string): SectionImportPlan[] =>
+  BACKUP_DOMAIN_IDS.filter((domain) => project.data[domain] !== undefined && project.data[domain] !== null).map(
+    (domain) => planSection(domain, project.data[domain], projectId ? readDomainRaw(domain, projectId) ?? undefined : undefined)
+  );
+
+/**
+ * Compare a backup against the stored data
+ */
+export const planImport = (backup: Backup): ImportPlan => {
+  if (backup.scope === "all") {
+    return {
+      backup,
+      projects: backup.projects.map((project) => ({
+        name: project.name,
+        archived: project.archived,
+        sections: planProjectSections(project),
+      })),
+    };
+  }
+
+  const active = getActiveProject();
+  return {
+    backup,
+    projects: [
+      {
+        name: active.name,
+        archived: active.archived,
+        projectId: active.id,
+        sections: planProjectSections(backup.projects[0], active.id),
+      },
+    ],
+  };
+};
+
+/**
+ * Resolution preselected for a section: merge lists, otherwise take theirs
+ */
+export const getDefaultResolution = (section: SectionImportPlan): ImportResolution => {
+  if (section.status === "new") return "theirs";
+  if (section.status === "changed") return section.mergeable ? "merge" : "theirs";
+  return "mine";
+};
+
+/**
+ * Serialized value a resolution would store, or undefined when the section is left as it is
+ */
+export const resolveSection = (section: SectionImportPlan, resolution: ImportResolution): string | undefined => {
+  if (resolution === "mine" || section.theirs === undefined) return undefined;
+  if (resolution === "theirs" || section.mine === undefined) return section.theirs;
+
+  try {
+    const merged = mergeById(
+      parseStoredValue(section.domain, section.mine),
+      parseStoredValue(section.domain, section.theirs)
+    );
+    return serializeValue(section.domain, merged);
+  } catch {
+    // My value is unreadable: nothing to merge with
+    return section.theirs;
+  }
+};
+
+/**
+ * Field changes a resolution would make to the stored section
+ */
+export const previewResolution = (section: SectionImportPlan, resolution: ImportResolution): FieldChange[] => {
+  const resolved = resolveSection(section, resolution);
+  return resolved === undefined ? [] : diffSection(section.domain, section.mine, resolved);
+};
+
+// ============ Applying ============
+
+/**
+ * Apply an import plan. Resolutions only apply to the project being merged into;
+ * sections without one use their default. Changes to the active project can be undone.
+ */
+export const applyImportPlan = async (
+  plan: ImportPlan,
+  resolutions: ImportResolutions = {}
+): Promise<ImportReport> => {
+  const report: ImportReport = { entries: [], createdProjects: [] };
+  const undoChanges: StorageChange[] = [];
+
+  for (const project of plan.projects) {
+    let projectId = project.projectId;
+    if (!projectId) {
+      const created = createProject(project.name);
+      if (project.archived) {
+        setProjectArchived(created.id, true);
+      }
+      projectId = created.id;
+      report.createdProjects.push(created.name);
+    }
+
+    for (const section of project.sections) {
+      const entry = { project: project.name, domain: section.domain, label: section.label };
+      if (section.status === "invalid" || section.status === "unchanged") {
+        report.entries.push({ ...entry, outcome: section.status, detail: section.error });
+        continue;
+      }
+
+      const resolution = project.projectId
+        ? resolutions[section.domain] ?? getDefaultResolution(section)
+        : "theirs";
+      const raw = resolveSection(section, resolution);
+      if (raw === undefined || raw === section.mine) {
+        report.entries.push({ ...entry, outcome: "kept" });
+        continue;
+      }
+
+      const validation = validateStoredValue(section.domain, raw);
+      if (!validation.success) {
+        report.entries.push({ ...entry, outcome: "invalid", detail: validation.error });
+        continue;
+      }
+
+      await saveDomainRaw(section.domain, raw, projectId);
+      if (project.projectId) {
+        undoChanges.push({ key: getStorageKey(section.domain, projectId), before: section.mine ?? null, after: raw });
+      }
+      report.entries.push({
+        ...entry,
+        outcome: section.status === "new" ? "added" : resolution === "merge" ? "merged" : "replaced",
+      });
+    }
+  }
+
+  if (undoChanges.length > 0) {
+    recordChange("Import backup", undoChanges, { reload: true });
+  }
+  return report;
+};
+
+/**
+ * Number of report entries per outcome
+ */
+export const countOutcomes = (report: ImportReport): Record<ImportOutcome, number> => {
+  const counts: Record<ImportOutcome, number> = { added: 0, replaced: 0, merged: 0, kept: 0, unchanged: 0, invalid: 0 };
+  report.entries.forEach((entry) => counts[entry.outcome]++);
+  return counts;
+};
+
+/**
+ * Whether applying the plan wrote any data
+ */
+export const hasImportedData = (report: ImportReport): boolean =>
+  report.createdProjects.length > 0 ||
+  report.entries.some((entry) => ["added", "replaced", "merged"].includes(entry.outcome));
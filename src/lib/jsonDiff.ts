@@ -0,0 +1,120 @@
+/**
+ * JSON Diff
+ * Field paths, changed-field detection and three-way merging for stored JSON values.
+ * Paths address object fields with dots and array items by id where items have one,
+ * e.g. "strengths[id=1].text".
+ */
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+export const hasId = (value: unknown): value is { id: string | number } =>
+  isPlainObject(value) && (typeof value.id === "string" || typeof value.id === "number");
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const joinPath = (path: string, field: string) => (path ? `${path}.${field}` : field);
+
+/**
+ * Flatten a value into leaf paths. Array items with an id are addressed by id
+ * so reordering or inserting items doesn't show up as a change to every later item.
+ */
+export const flattenValue = (value: unknown, path = "", out = new Map<string, unknown>()): Map<string, unknown> => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      out.set(path, []);
+      return out;
+    }
+    const byId = value.every(hasId);
+    value.forEach((item, index) => flattenValue(item, `${path}[${byId ? `id=${item.id}` : index}]`, out));
+    return out;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      out.set(path, {});
+      return out;
+    }
+    for (const [field, item] of entries) {
+      flattenValue(item, joinPath(path, field), out);
+    }
+    return out;
+  }
+  out.set(path, value);
+  return out;
+};
+
+/**
+ * Paths of every leaf that differs between two values
+ */
+export const getChangedPaths = (before: unknown, after: unknown): string[] => {
+  if (isEqual(before, after)) return [];
+
+  const beforeFields = before === undefined ? new Map<string, unknown>() : flattenValue(before);
+  const afterFields = after === undefined ? new Map<string, unknown>() : flattenValue(after);
+  const paths = new Set<string>();
+  for (const [path, value] of beforeFields) {
+    if (!afterFields.has(path) || !isEqual(value, afterFields.get(path))) paths.add(path);
+  }
+  for (const path of afterFields.keys()) {
+    if (!beforeFields.has(path)) paths.add(path);
+  }
+  return Array.from(paths);
+};
+
+const isWithin = (path: string, parent: string) =>
+  parent === "" || path === parent || path.startsWith(`${parent}.`) || path.startsWith(`${parent}[`);
+
+/**
+ * Paths of one list that touch a path of the other (the same field, or one inside the other)
+ */
+export const findOverlappingPaths = (paths: string[], others: string[]): string[] =>
+  paths.filter((path) => others.some((other) => isWithin(path, other) || isWithin(other, path)));
+
+export interface ThreeWayMerge {
+  value: unknown;
+  /** Paths changed differently on both sides; mine is kept for these */
+  conflicts: string[];
+}
+
+/**
+ * Merge two edits of the same base value. Changes to different fields (or different
+ * items of an id'd list) are combined; where both sides changed the same field,
+ * mine wins and the path is reported as a conflict.
+ */
+export const mergeThreeWay = (base: unknown, mine: unknown, theirs: unknown): ThreeWayMerge => {
+  const conflicts: string[] = [];
+
+  const merge = (b: unknown, m: unknown, t: unknown, path: string): unknown => {
+    if (isEqual(m, t) || isEqual(b, t)) return m;
+    if (isEqual(b, m)) return t;
+
+    if (isPlainObject(m) && isPlainObject(t)) {
+      const baseObject = isPlainObject(b) ? b : {};
+      const merged: Record<string, unknown> = {};
+      for (const field of new Set([...Object.keys(m), ...Object.keys(t)])) {
+        const value = merge(baseObject[field], m[field], t[field], joinPath(path, field));
+        if (value !== undefined) merged[field] = value;
+      }
+      return merged;
+    }
+
+    if (Array.isArray(m) && Array.isArray(t) && m.every(hasId) && t.every(hasId)) {
+      const byId = (items: { id: string | number }[]) => new Map(items.map((item) => [item.id, item]));
+      const baseItems = byId(Array.isArray(b) ? b.filter(hasId) : []);
+      const mineItems = byId(m);
+      const theirsItems = byId(t);
+
+      // My order first, then items only they have, in their order
+      const ids = [...mineItems.keys(), ...[...theirsItems.keys()].filter((id) => !mineItems.has(id))];
+      return ids
+        .map((id) => merge(baseItems.get(id), mineItems.get(id), theirsItems.get(id), `${path}[id=${id}]`))
+        .filter((item) => item !== undefined);
+    }
+
+    conflicts.push(path);
+    return m;
+  };
+
+  return { value: merge(base, mine, theirs, ""), conflicts };
+};
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  applyAction,
+  parseActionCommand,
+  parseActionTag,
+  planAction,
+  processUserInput,
+  stripActionTags,
+  type MizzieAction,
+} from './mizzieActions';
+import { readDomain, writeDomain } from './storageRegistry';
+import { clearHistory, getHistoryState, registerHistoryTarget, undo } from './undoHistory';
+import { getBrandStrategy, saveBrandStrategy } from './brandStrategy';
+
+async function* tokens(...parts: string[]) {
+  yield* parts;
+}
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let text = '';
+  for await (const token of stream) text += token;
+  return text;
+};
+
+describe('mizzieActions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    clearHistory();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('planAction', () => {
+    it('should describe an edit without writing it', () => {
+      const planned = planAction({ type: 'add_swot_item', quadrant: 'strengths', text: 'Prime location' });
+
+      expect(planned.label).toBe('Add strength');
+      expect(planned.section).toBe('SWOT Analysis');
+      expect(planned.diff).toEqual([{ path: 'Strengths', type: 'added', after: 'Prime location' }]);
+      expect(readDomain('swot').strengths).toEqual([]);
+    });
+
+    it('should show the before and after of changed values', () => {
+      writeDomain('forecasting', { ...readDomain('forecasting'), year1Revenue: '50000' });
+
+      const planned = planAction({ type: 'set_projection', year: 1, revenue: 120000, expenses: 90000 });
+
+      expect(planned.diff).toEqual([
+        { path: 'Year 1 revenue', type: 'changed', before: '50000', after: '120000' },
+        { path: 'Year 1 expenses', type: 'added', before: undefined, after: '90000' },
+      ]);
+    });
+
+    it('should explain edits that cannot be applied', () => {
+      writeDomain('swot', { ...readDomain('swot'), threats: [{ id: '1', text: 'Chain cafes' }] });
+
+      expect(() => planAction({ type: 'add_swot_item', quadrant: 'threats', text: 'chain cafes' })).toThrow(
+        'already in your threats'
+      );
+      expect(() => planAction({ type: 'set_projection', year: 4, revenue: 1 })).toThrow('years 1, 2, 3, 5');
+      expect(() => planAction({ type: 'set_projection', year: 2 })).toThrow('revenue or expenses');
+      expect(() =>
+        planAction({ type: 'add_role', title: 'CTO', name: '', department: '', responsibilities: '', reportsTo: 'CEO' })
+      ).toThrow('no "CEO" role');
+    });
+
+    it('should send projections for modelled years to the monthly model', () => {
+      writeDomain('financialModel', {
+        ...readDomain('financialModel'),
+        revenueStreams: [{ id: 's', name: 'Boxes', units: 10, price: 50, monthlyGrowth: 0, startMonth: 1 }],
+      });
+
+      expect(() => planAction({ type: 'set_projection', year: 2, revenue: 90000 })).toThrow('Monthly Model');
+      expect(planAction({ type: 'set_projection', year: 5, revenue: 900000 }).diff).toHaveLength(1);
+    });
+  });
+
+  describe('applyAction', () => {
+    it('should write the edit as one undoable entry', async () => {
+      const apply = vi.fn();
+      const unregister = registerHistoryTarget('roadmap', { apply, flush: () => {} });
+
+      await applyAction({
+        type: 'add_milestone',
+        title: 'Open second cart',
+        description: '',
+        timeframe: 'Q3',
+        category: '1-year',
+      });
+
+      expect(readDomain('roadmap')).toMatchObject([{ title: 'Open second cart', timeframe: 'Q3' }]);
+      expect(apply).toHaveBeenCalledOnce();
+      expect(getHistoryState().past.map((entry) => entry.label)).toEqual(['Add milestone']);
+
+      await undo();
+      expect(readDomain('roadmap')).toEqual([]);
+      unregister();
+    });
+
+    it('should apply against data edited while the edit waited for review', async () => {
+      const action: MizzieAction = {
+        type: 'add_checklist_task',
+        title: 'Register business name',
+        description: '',
+        category: 'General',
+      };
+      planAction(action);
+      writeDomain('checklist', [
+        { id: 'a', title: 'Open bank account', description: '', completed: true, category: 'General' },
+      ]);
+
+      await applyAction(action);
+
+      expect(readDomain('checklist').map((item) => item.title)).toEqual(['Open bank account', 'Register business name']);
+    });
+
+    it('should link new roles to the role they report to', async () => {
+      writeDomain('orgChart', [
+        { id: 'ceo', title: 'CEO', name: 'Ana', department: '', responsibilities: '', reportsTo: '', bio: '', linkedinUrl: '' },
+      ]);
+
+      await applyAction({ type: 'add_role', title: 'Barista', name: '', department: 'Ops', responsibilities: '', reportsTo: 'ana' });
+
+      expect(readDomain('orgChart')[1]).toMatchObject({ title: 'Barista', reportsTo: 'ceo' });
+    });
+
+    it('should rename the business and a started brand strategy together', async () => {
+      writeDomain('businessPlan', { ...readDomain('businessPlan'), businessName: 'Coffee Cart' });
+      saveBrandStrategy({ ...getBrandStrategy(), brandName: 'Coffee Cart' });
+      const listener = vi.fn();
+      window.addEventListener('brandStrategyChanged', listener);
+
+      const applied = await applyAction({ type: 'rename_brand', name: 'Bean There' });
+
+      expect(applied.diff.map((change) => change.path)).toEqual(['Business name', 'Brand name']);
+      expect(readDomain('businessPlan').businessName).toBe('Bean There');
+      expect(getBrandStrategy().brandName).toBe('Bean There');
+      expect(listener).toHaveBeenCalledOnce();
+      window.removeEventListener('brandStrategyChanged', listener);
+    });
+  });
+
+  describe('AI replies', () => {
+    it('should hide action tags split across tokens and report their actions', async () => {
+      const onAction = vi.fn();
+      const text = await collect(
+        stripActionTags(
+          tokens(
+            'Great idea! I <b>would</b> add it.',
+            '<act',
+            'ion>{"type":"add_swot_item","quadrant":"strengths",',
+            '"text":"Loyal regulars"}</act',
+            'ion> <action>not json</action>'
+          ),
+          onAction
+        )
+      );
+
+      expect(text).toBe('Great idea! I <b>would</b> add it. ');
+      expect(onAction).toHaveBeenCalledOnce();
+      expect(onAction).toHaveBeenCalledWith({ type: 'add_swot_item', quadrant: 'strengths', text: 'Loyal regulars' });
+    });
+
+    it('should accept fenced JSON and reject unknown actions', () => {
+      expect(parseActionTag('```json\n{"type":"rename_brand","name":"Bean There"}\n```')).toEqual({
+        type: 'rename_brand',
+        name: 'Bean There',
+      });
+      expect(parseActionTag('{"type":"delete_everything"}')).toBeNull();
+    });
+  });
+
+  describe('voice commands', () => {
+    it('should turn direct commands into actions', () => {
+      expect(parseActionCommand('Add a weakness: Small marketing budget.')).toEqual({
+        type: 'add_swot_item',
+        quadrant: 'weaknesses',
+        text: 'Small marketing budget',
+      });
+      expect(parseActionCommand('set year 2 revenue to $1.5 million')).toEqual({
+        type: 'set_projection',
+        year: 2,
+        revenue: 1500000,
+      });
+      expect(parseActionCommand('please rename my business to Bean There')).toMatchObject({
+        type: 'rename_brand',
+        name: 'Bean There',
+      });
+      expect(parseActionCommand('add role Head Barista reporting to the CEO')).toMatchObject({
+        type: 'add_role',
+        title: 'Head Barista',
+        reportsTo: 'CEO',
+      });
+      expect(parseActionCommand('What should I add to my SWOT?')).toBeNull();
+    });
+
+    it('should propose canvas entries instead of writing them', () => {
+      const response = processUserInput('We sell organic dog treats to health-conscious pet owners.');
+
+      expect(response.action).toBe('proposed_changes');
+      expect(response.actions?.length).toBeGreaterThan(0);
+      expect(response.actions?.every((action) => action.type === 'append_canvas')).toBe(true);
+      expect(localStorage.length).toBe(0);
+    });
+  });
+});
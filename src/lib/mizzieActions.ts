@@ -1,22 +1,525 @@
 /**
- * Mizzie Actions - Execute voice commands and update business data
+ * Mizzie Actions - Turn requests into typed edits to the plan
+ *
+ * Edits come from the voice-command parser or from <action> tags in AI replies.
+ * Each is planned against the current data and validated with the section's schema,
+ * shown to the user as a diff, and only written (as one undoable entry) once accepted.
  */
 
 import { parseBusinessDescription, generateSuggestions, isQuestion, type ParsedBusinessInfo } from "./mizzieParser";
-import type { CanvasData } from "@/lib/validators/schemas";
+import {
+  FORECAST_YEARS,
+  MizzieActionSchema,
+  type CanvasData,
+  type CanvasField,
+  type ForecastYear,
+  type MizzieAction,
+  type SWOTQuadrant,
+} from "@/lib/validators";
+import {
+  STORAGE_REGISTRY,
+  getStorageKey,
+  hasDomainData,
+  readDomain,
+  readDomainRaw,
+  serializeValue,
+  type DomainValue,
+  type StorageDomainId,
+} from "./storageRegistry";
+import { commitChange, type StorageChange } from "./undoHistory";
+import { getBrandStrategy } from "./brandStrategy";
+import { MODEL_YEARS, isModelledYear } from "./financialModel";
+import type { FieldChange } from "./snapshots";
 
-export interface MizzieContext {
-  canvas: CanvasData;
-  setCanvas: (data: CanvasData | ((prev: CanvasData) => CanvasData)) => void;
-  saveCanvas: () => void;
-}
+export type { MizzieAction };
 
 export interface MizzieResponse {
   message: string;
-  action?: "filled_canvas" | "asked_question" | "suggestion" | "greeting" | "help";
+  action?: "proposed_changes" | "asked_question" | "suggestion" | "greeting" | "help";
   data?: ParsedBusinessInfo;
+  /** Edits waiting for the user to accept or reject them */
+  actions?: MizzieAction[];
+}
+
+// ============ Planning ============
+
+/** An edit checked against the current plan, ready to show for review */
+export interface PlannedAction {
+  action: MizzieAction;
+  /** What the edit does, e.g. "Add strength" (also the undo history label) */
+  label: string;
+  /** Plan section the edit lands in */
+  section: string;
+  diff: FieldChange[];
+}
+
+/** New value for a section (checked against its schema before it's written) */
+interface DomainEdit {
+  domain: StorageDomainId;
+  value: unknown;
+}
+
+interface ActionPlan extends PlannedAction {
+  edits: DomainEdit[];
+}
+
+const SWOT_LABELS: Record<SWOTQuadrant, { item: string; list: string }> = {
+  strengths: { item: "strength", list: "Strengths" },
+  weaknesses: { item: "weakness", list: "Weaknesses" },
+  opportunities: { item: "opportunity", list: "Opportunities" },
+  threats: { item: "threat", list: "Threats" },
+};
+
+const CANVAS_LABELS: Record<CanvasField, string> = {
+  keyPartners: "Key partners",
+  keyActivities: "Key activities",
+  keyResources: "Key resources",
+  valuePropositions: "Value propositions",
+  customerRelationships: "Customer relationships",
+  channels: "Channels",
+  customerSegments: "Customer segments",
+  costStructure: "Cost structure",
+  revenueStreams: "Revenue streams",
+};
+
+const MILESTONE_LABELS = { "1-year": "1-Year Plan", "5-year": "5-Year Plan", "10-year": "10-Year Plan" };
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+const edit = <D extends StorageDomainId>(domain: D, value: DomainValue<D>): DomainEdit => ({ domain, value });
+
+/** Lines for the fields a new item will have */
+const added = (fields: [string, string][]): FieldChange[] =>
+  fields.filter(([, value]) => value).map(([path, value]) => ({ path, type: "added", after: value }));
+
+const isSameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const planEdit = (action: MizzieAction): ActionPlan => {
+  switch (action.type) {
+    case "add_swot_item": {
+      const swot = readDomain("swot");
+      const labels = SWOT_LABELS[action.quadrant];
+      if (swot[action.quadrant].some((item) => isSameText(item.text, action.text))) {
+        throw new Error(`"${action.text}" is already in your ${labels.list.toLowerCase()}.`);
+      }
+      return {
+        action,
+        label: `Add ${labels.item}`,
+        section: STORAGE_REGISTRY.swot.label,
+        diff: added([[labels.list, action.text]]),
+        edits: [edit("swot", {
+          ...swot,
+          [action.quadrant]: [...swot[action.quadrant], { id: createId("swot"), text: action.text }],
+        })],
+      };
+    }
+
+    case "add_milestone": {
+      const milestones = readDomain("roadmap");
+      return {
+        action,
+        label: "Add milestone",
+        section: STORAGE_REGISTRY.roadmap.label,
+        diff: added([
+          ["Title", action.title],
+          ["Description", action.description],
+          ["Timeframe", action.timeframe],
+          ["Plan", MILESTONE_LABELS[action.category]],
+        ]),
+        edits: [edit("roadmap", [
+          ...milestones,
+          {
+            id: createId("milestone"),
+            title: action.title,
+            description: action.description,
+            timeframe: action.timeframe,
+            category: action.category,
+          },
+        ])],
+      };
+    }
+
+    case "add_role": {
+      const roles = readDomain("orgChart");
+      const manager = action.reportsTo
+        ? roles.find((role) => isSameText(role.title, action.reportsTo) || (role.name && isSameText(role.name, action.reportsTo)))
+        : undefined;
+      if (action.reportsTo && !manager) {
+        throw new Error(`There's no "${action.reportsTo}" role in your org chart to report to.`);
+      }
+      return {
+        action,
+        label: "Add role",
+        section: STORAGE_REGISTRY.orgChart.label,
+        diff: added([
+          ["Title", action.title],
+          ["Name", action.name],
+          ["Department", action.department],
+          ["Reports to", manager?.title ?? ""],
+          ["Responsibilities", action.responsibilities],
+        ]),
+        edits: [edit("orgChart", [
+          ...roles,
+          {
+            id: createId("role"),
+            title: action.title,
+            name: action.name,
+            department: action.department,
+            responsibilities: action.responsibilities,
+            reportsTo: manager?.id ?? "",
+            bio: "",
+            linkedinUrl: "",
+          },
+        ])],
+      };
+    }
+
+    case "set_projection": {
+      const year = action.year as ForecastYear;
+      if (!FORECAST_YEARS.includes(year)) {
+        throw new Error(`Projections can only be set for years ${FORECAST_YEARS.join(", ")}.`);
+      }
+      if (isModelledYear(readDomain("financialModel"), year)) {
+        throw new Error(
+          `Years 1–${MODEL_YEARS} are calculated from your drivers. Change them in the Monthly Model on the Financials Projections tab.`
+        );
+      }
+      if (action.revenue === undefined && action.expenses === undefined) {
+        throw new Error(`Give a revenue or expenses figure for year ${year}.`);
+      }
+      const forecast = readDomain("forecasting");
+      const next = { ...forecast };
+      const diff: FieldChange[] = [];
+      ([["Revenue", action.revenue], ["Expenses", action.expenses]] as const).forEach(([name, amount]) => {
+        if (amount === undefined) return;
+        const field = `year${year}${name}` as const;
+        const value = String(amount);
+        if (forecast[field] === value) return;
+        next[field] = value;
+        diff.push({
+          path: `Year ${year} ${name.toLowerCase()}`,
+          type: forecast[field] ? "changed" : "added",
+          before: forecast[field] || undefined,
+          after: value,
+        });
+      });
+      if (diff.length === 0) {
+        throw new Error(`Your year ${year} projections already have those figures.`);
+      }
+      return {
+        action,
+        label: `Set year ${year} projections`,
+        section: STORAGE_REGISTRY.forecasting.label,
+        diff,
+        edits: [edit("forecasting", next)],
+      };
+    }
+
+    case "add_competitor": {
+      const plan = readDomain("businessPlan");
+      if (plan.competitors.some((competitor) => isSameText(competitor.name, action.name))) {
+        throw new Error(`${action.name} is already in your competitors.`);
+      }
+      return {
+        action,
+        label: "Add competitor",
+        section: STORAGE_REGISTRY.businessPlan.label,
+        diff: added([
+          ["Competitor", action.name],
+          ["Core offer", action.coreOffer],
+          ["Pricing model", action.pricingModel],
+          ["Differentiators", action.differentiators],
+        ]),
+        edits: [edit("businessPlan", {
+          ...plan,
+          competitors: [
+            ...plan.competitors,
+            {
+              id: createId("competitor"),
+              name: action.name,
+              foundingYear: "",
+              hq: "",
+              fundingRevenue: "",
+              coreOffer: action.coreOffer,
+              pricingModel: action.pricingModel,
+              differentiators: action.differentiators,
+              gtmMotion: "",
+              notableCustomers: "",
+            },
+          ],
+        })],
+      };
+    }
+
+    case "add_checklist_task": {
+      const items = readDomain("checklist");
+      return {
+        action,
+        label: "Add checklist task",
+        section: STORAGE_REGISTRY.checklist.label,
+        diff: added([
+          ["Task", action.title],
+          ["Description", action.description],
+          ["Category", action.category],
+        ]),
+        edits: [edit("checklist", [
+          ...items,
+          {
+            id: createId("task"),
+            title: action.title,
+            description: action.description,
+            completed: false,
+            category: action.category,
+          },
+        ])],
+      };
+    }
+
+    case "rename_brand": {
+      const plan = readDomain("businessPlan");
+      if (plan.businessName === action.name) {
+        throw new Error(`Your business is already called ${action.name}.`);
+      }
+      const diff: FieldChange[] = [{
+        path: "Business name",
+        type: plan.businessName ? "changed" : "added",
+        before: plan.businessName || undefined,
+        after: action.name,
+      }];
+      const edits = [edit("businessPlan", { ...plan, businessName: action.name })];
+
+      // Keep the brand strategy in step once it's been started
+      if (hasDomainData("brandStrategy")) {
+        const strategy = getBrandStrategy();
+        if (strategy.brandName !== action.name) {
+          diff.push({
+            path: "Brand name",
+            type: strategy.brandName ? "changed" : "added",
+            before: strategy.brandName || undefined,
+            after: action.name,
+          });
+          edits.push(edit("brandStrategy", {
+            ...strategy,
+            brandName: action.name,
+            lastUpdated: new Date().toISOString(),
+          }));
+        }
+      }
+      return { action, label: "Rename business", section: STORAGE_REGISTRY.businessPlan.label, diff, edits };
+    }
+
+    case "append_canvas": {
+      const canvas = readDomain("canvas");
+      const current = canvas[action.field];
+      const next = current ? `${current}\n• ${action.text}` : `• ${action.text}`;
+      return {
+        action,
+        label: `Add to ${CANVAS_LABELS[action.field].toLowerCase()}`,
+        section: STORAGE_REGISTRY.canvas.label,
+        diff: [{ path: CANVAS_LABELS[action.field], type: current ? "changed" : "added", before: current || undefined, after: next }],
+        edits: [edit("canvas", { ...canvas, [action.field]: next })],
+      };
+    }
+  }
+};
+
+/** Validate each edited section against its schema and serialize it */
+const toStorageChanges = (edits: DomainEdit[]): StorageChange[] =>
+  edits.map(({ domain, value }) => {
+    const { schema, label } = STORAGE_REGISTRY[domain];
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      console.warn(`[mizzieActions] Edit to "${domain}" failed validation:`, result.error.message);
+      throw new Error(`That change doesn't fit your ${label}.`);
+    }
+    return {
+      key: getStorageKey(domain),
+      before: readDomainRaw(domain),
+      after: serializeValue(domain, result.data),
+    };
+  });
+
+/**
+ * Check an edit against the current plan and describe it for review
+ * @throws Error with a user-facing reason when the edit can't be applied
+ */
+export const planAction = (action: MizzieAction): PlannedAction => {
+  const { edits, ...planned } = planEdit(action);
+  toStorageChanges(edits);
+  return planned;
+};
+
+/**
+ * Apply an accepted edit as one undoable entry. It's planned again against the
+ * latest data, so edits made while it waited for review are kept.
+ * @throws Error with a user-facing reason when the edit no longer applies
+ */
+export const applyAction = async (action: MizzieAction): Promise<PlannedAction> => {
+  let planned = planAction(action);
+  const changes = await commitChange(planned.label, () => {
+    const { edits, ...latest } = planEdit(action);
+    planned = latest;
+    return toStorageChanges(edits);
+  });
+
+  if (changes.some((change) => change.key === getStorageKey("brandStrategy"))) {
+    window.dispatchEvent(new CustomEvent("brandStrategyChanged", { detail: getBrandStrategy() }));
+  }
+  return planned;
+};
+
+// ============ AI Replies ============
+
+const OPEN_TAG = "<action>";
+const CLOSE_TAG = "</action>";
+
+/** Instructions for the model on proposing edits (appended to the system prompt) */
+export const ACTION_PROMPT = `You can propose edits to the user's plan. The user reviews each edit before it's applied, so only propose one when they ask for a change or agree to a suggestion.
+To propose an edit, add one JSON object per edit in ${OPEN_TAG}${CLOSE_TAG} tags after your reply, for example:
+${OPEN_TAG}{"type":"add_swot_item","quadrant":"strengths","text":"Loyal local customers"}${CLOSE_TAG}
+Edits you can propose (? = optional):
+- add_swot_item: quadrant (strengths, weaknesses, opportunities or threats), text
+- add_milestone: title, description?, timeframe?, category (1-year, 5-year or 10-year)
+- add_role: title, name?, department?, responsibilities?, reportsTo? (title of an existing role)
+- set_projection: year (${FORECAST_YEARS.join(", ")}), revenue?, expenses? (plain numbers; not for years the monthly model calculates)
+- add_competitor: name, coreOffer?, pricingModel?, differentiators?
+- add_checklist_task: title, description?, category?
+- rename_brand: name
+- append_canvas: field (${Object.keys(CANVAS_LABELS).join(", ")}), text
+Never mention the tags; just say in words what you're suggesting.`;
+
+/**
+ * Parse the JSON inside an <action> tag
+ * @returns the action, or null if it isn't a valid one
+ */
+export const parseActionTag = (body: string): MizzieAction | null => {
+  const json = body.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const result = MizzieActionSchema.safeParse(JSON.parse(json));
+    if (result.success) return result.data;
+    console.warn("[mizzieActions] Ignoring invalid action:", result.error.message);
+  } catch {
+    console.warn("[mizzieActions] Ignoring action that isn't JSON:", body);
+  }
+  return null;
+};
+
+/** Length of the end of `text` that could be the start of an opening tag */
+const partialTagLength = (text: string): number => {
+  for (let length = Math.min(OPEN_TAG.length - 1, text.length); length > 0; length--) {
+    if (OPEN_TAG.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
+
+/**
+ * Pass a streamed reply through without its <action> tags, reporting each
+ * action found. Text that may be the start of a tag is held back until it's clear.
+ */
+export async function* stripActionTags(
+  tokens: AsyncIterable<string>,
+  onAction: (action: MizzieAction) => void
+): AsyncGenerator<string> {
+  let buffer = "";
+  let inTag = false;
+
+  for await (const token of tokens) {
+    buffer += token;
+    for (;;) {
+      if (inTag) {
+        const end = buffer.indexOf(CLOSE_TAG);
+        if (end === -1) break;
+        const action = parseActionTag(buffer.slice(0, end));
+        if (action) onAction(action);
+        buffer = buffer.slice(end + CLOSE_TAG.length);
+        inTag = false;
+      } else {
+        const start = buffer.indexOf(OPEN_TAG);
+        if (start === -1) {
+          const visible = buffer.slice(0, buffer.length - partialTagLength(buffer));
+          if (visible) yield visible;
+          buffer = buffer.slice(visible.length);
+          break;
+        }
+        if (start > 0) yield buffer.slice(0, start);
+        buffer = buffer.slice(start + OPEN_TAG.length);
+        inTag = true;
+      }
+    }
+  }
+
+  // An unfinished tag means the reply was cut off mid-action, so it's dropped
+  if (!inTag && buffer) yield buffer;
 }
 
+// ============ Voice Commands ============
+
+const SWOT_WORDS: Record<string, SWOTQuadrant> = {
+  strength: "strengths",
+  weakness: "weaknesses",
+  opportunity: "opportunities",
+  threat: "threats",
+};
+
+/** "$120k", "1.5 million", "90,000" → number */
+export const parseAmount = (text: string): number | undefined => {
+  const match = text.toLowerCase().replace(/[$,\s]/g, "").match(/^(\d+(?:\.\d+)?)(k|thousand|m|million)?$/);
+  if (!match) return undefined;
+  const multiplier = match[2]?.startsWith("k") || match[2] === "thousand" ? 1_000 : match[2] ? 1_000_000 : 1;
+  return Number(match[1]) * multiplier;
+};
+
+const COMMANDS: { pattern: RegExp; toAction: (match: RegExpMatchArray) => unknown }[] = [
+  {
+    pattern: /^add (?:an? )?(strength|weakness|opportunity|threat)(?: to (?:the |my )?swot)?[:,]? (.+)$/i,
+    toAction: ([, word, text]) => ({ type: "add_swot_item", quadrant: SWOT_WORDS[word.toLowerCase()], text }),
+  },
+  {
+    pattern: /^add (?:an? )?milestone[:,]? (.+)$/i,
+    toAction: ([, title]) => ({ type: "add_milestone", title }),
+  },
+  {
+    pattern: /^add (?:an? )?role[:,]? (.+?)(?: reporting to (?:the )?(.+))?$/i,
+    toAction: ([, title, reportsTo]) => ({ type: "add_role", title, reportsTo: reportsTo ?? "" }),
+  },
+  {
+    pattern: /^add (?:an? )?competitor[:,]? (.+)$/i,
+    toAction: ([, name]) => ({ type: "add_competitor", name }),
+  },
+  {
+    pattern: /^add (?:an? )?(?:task|to-?do)(?: to (?:the |my )?checklist)?[:,]? (.+)$/i,
+    toAction: ([, title]) => ({ type: "add_checklist_task", title }),
+  },
+  {
+    pattern: /^(?:rename|call) (?:the |my |our )?(?:brand|business|company)(?: to)? (.+)$/i,
+    toAction: ([, name]) => ({ type: "rename_brand", name }),
+  },
+  {
+    pattern: /^set (?:the )?year (\d+) (revenue|expenses?) to (.+)$/i,
+    toAction: ([, year, field, amount]) => ({
+      type: "set_projection",
+      year: Number(year),
+      [field.toLowerCase() === "revenue" ? "revenue" : "expenses"]: parseAmount(amount),
+    }),
+  },
+];
+
+/**
+ * Recognize a direct edit command such as "add strength: great location"
+ * or "set year 1 revenue to $120k"
+ */
+export const parseActionCommand = (transcript: string): MizzieAction | null => {
+  const command = transcript.trim().replace(/^(?:please |can you |could you )/i, "").replace(/[.!?]+$/, "");
+
+  for (const { pattern, toAction } of COMMANDS) {
+    const match = command.match(pattern);
+    if (!match) continue;
+    const result = MizzieActionSchema.safeParse(toAction(match));
+    return result.success ? result.data : null;
+  }
+  return null;
+};
+
 // Greeting responses
 const GREETINGS = [
   "Hi! I'm Mizzie, your business planning assistant. Tell me about your business idea!",
@@ -26,19 +529,28 @@ const GREETINGS = [
 
 // Acknowledgment responses
 const ACKNOWLEDGMENTS = [
-  "Great! I've added that to your Business Model Canvas.",
-  "Perfect! I've updated your canvas with that information.",
-  "Got it! I've filled in some sections based on what you told me.",
+  "Great! Here's what I'd add to your Business Model Canvas.",
+  "Perfect! I've drafted some canvas updates from that.",
+  "Got it! I've suggested a few canvas entries based on what you told me.",
 ];
 
-// Process user input and return response
+// Process user input and return response (edits are proposed, never applied directly)
 export const processUserInput = (
   transcript: string,
-  context: MizzieContext,
-  conversationHistory: string[]
+  conversationHistory: string[] = []
 ): MizzieResponse => {
   const lowerTranscript = transcript.toLowerCase().trim();
 
+  // Direct edit commands
+  const command = parseActionCommand(transcript);
+  if (command) {
+    return {
+      message: "Here's that change. Accept it to update your plan.",
+      action: "proposed_changes",
+      actions: [command],
+    };
+  }
+
   // Check for greetings
   if (isGreeting(lowerTranscript)) {
     return {
@@ -57,16 +569,15 @@ export const processUserInput = (
 
   // Check if it's a question
   if (isQuestion(transcript)) {
-    return handleQuestion(transcript, context);
+    return handleQuestion(transcript);
   }
 
   // Parse the business description
   const parsed = parseBusinessDescription(transcript);
 
-  // If we found business info, update the canvas
-  if (Object.keys(parsed.canvas).length > 0) {
-    updateCanvas(context, parsed.canvas);
-    
+  // If we found business info, propose canvas additions
+  const actions = getCanvasActions(parsed.canvas);
+  if (actions.length > 0) {
     const suggestions = generateSuggestions(parsed);
     let message = ACKNOWLEDGMENTS[Math.floor(Math.random() * ACKNOWLEDGMENTS.length)];
     
@@ -76,8 +587,9 @@ export const processUserInput = (
 
     return {
       message,
-      action: "filled_canvas",
+      action: "proposed_changes",
       data: parsed,
+      actions,
     };
   }
 
@@ -88,29 +600,12 @@ export const processUserInput = (
   };
 };
 
-// Update the canvas with parsed data
-const updateCanvas = (context: MizzieContext, newData: Partial<CanvasData>) => {
-  context.setCanvas((prev) => {
-    const updated = { ...prev };
-    
-    Object.entries(newData).forEach(([key, value]) => {
-      const field = key as keyof CanvasData;
-      if (value && typeof value === "string") {
-        // Append to existing content if there's already data
-        if (updated[field]) {
-          updated[field] = `${updated[field]}\n• ${value}`;
-        } else {
-          updated[field] = `• ${value}`;
-        }
-      }
-    });
-    
-    return updated;
+// One canvas addition per parsed field
+const getCanvasActions = (newData: Partial<CanvasData>): MizzieAction[] =>
+  Object.entries(newData).flatMap(([field, text]) => {
+    const result = MizzieActionSchema.safeParse({ type: "append_canvas", field, text });
+    return result.success ? [result.data] : [];
   });
-  
-  // Auto-save after update
-  context.saveCanvas();
-};
 
 // Check if input is a greeting
 const isGreeting = (text: string): boolean => {
@@ -130,11 +625,11 @@ const getHelpMessage = (): string => {
 
 "I'm starting a dog treat business using organic ingredients, targeting health-conscious pet owners in Calgary."
 
-I'll extract the key information and fill in your canvas automatically. You can also ask me questions like "What should I put for key partners?"`;
+I'll pull out the key information and suggest canvas entries for you to accept. You can also make direct edits like "add strength: prime downtown location" or "set year 1 revenue to $120k", or ask me questions like "What should I put for key partners?"`;
 };
 
 // Handle question-type inputs
-const handleQuestion = (text: string, context: MizzieContext): MizzieResponse => {
+const handleQuestion = (text: string): MizzieResponse => {
   const lowerText = text.toLowerCase();
 
   // Questions about specific canvas sections
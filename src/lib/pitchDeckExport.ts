@@ -1,9 +1,20 @@
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
 import { getBrandColors } from "./assetManager";
+import type { ScenarioProjections } from "./scenarios";
+import type { CapTableSlide } from "./capTable";
 
 // pptxgenjs is dynamically imported only when needed (see exportPitchDeckAsPPTX)
 
+// Scenario figures on slides, e.g. "$1.2M"
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+
 /**
  * Export all pitch deck slides as a single PNG image (stacked vertically)
  */
@@ -124,7 +135,13 @@ interface SlideImage {
  */
 export const exportPitchDeckAsPPTX = async (
   filename: string,
-  slides: Array<{ title: string; content: string; images?: SlideImage[] }>,
+  slides: Array<{
+    title: string;
+    content: string;
+    images?: SlideImage[];
+    projections?: ScenarioProjections;
+    capTable?: CapTableSlide;
+  }>,
   companyLogo?: string
 ) => {
   try {
@@ -152,7 +169,7 @@ export const exportPitchDeckAsPPTX = async (
 
     for (let i = 0; i < slides.length; i++) {
       const slide = pptx.addSlide();
-      const { title, content, images } = slides[i];
+      const { title, content, images, projections, capTable } = slides[i];
       const isTitleSlide = i === 0;
       const isContactSlide = title.toLowerCase().includes("contact");
 
@@ -358,10 +375,72 @@ export const exportPitchDeckAsPPTX = async (
           }
         }
 
+        // Scenario figures (Financial Projections slide)
+        let tableEndY: number | null = null;
+        if (projections && projections.projections.length > 0) {
+          const tableY = content ? contentEndY + 3 : contentStartY;
+          const years = projections.projections;
+          const cell = (text: string, options: { bold?: boolean; color?: string; align?: "left" | "right" } = {}) => ({
+            text,
+            options: { fontSize: 14, color: textColor, align: "right" as const, ...options },
+          });
+          const row = (label: string, value: (p: (typeof years)[number]) => number, bold = false) => [
+            cell(label, { bold, align: "left" }),
+            ...years.map((p) => cell(formatMoney(value(p)), { bold })),
+          ];
+
+          slide.addTable(
+            [
+              [cell(""), ...years.map((p) => cell(`Year ${p.year}`, { bold: true, color: primaryColor }))],
+              row("Revenue", (p) => p.revenue),
+              row("Expenses", (p) => p.expenses),
+              row("Profit", (p) => p.revenue - p.expenses, true),
+            ],
+            { x: "8%", y: `${tableY}%`, w: "84%" }
+          );
+          slide.addText(projections.name, {
+            x: "8%",
+            y: `${tableY + 22}%`,
+            w: "84%",
+            h: "5%",
+            fontSize: 10,
+            color: subtleColor,
+          });
+          tableEndY = tableY + 28;
+        }
+
+        // Cap table figures (Investment Ask and Exit Strategy slides)
+        if (capTable && capTable.rows.length > 0) {
+          const tableY = tableEndY ?? (content ? contentEndY + 3 : contentStartY);
+          const cell = (text: string, options: { bold?: boolean; color?: string; align?: "left" | "right" } = {}) => ({
+            text,
+            options: { fontSize: 12, color: textColor, align: "right" as const, ...options },
+          });
+
+          slide.addTable(
+            [
+              [cell(""), ...capTable.columns.map((column) => cell(column, { bold: true, color: primaryColor }))],
+              ...capTable.rows.map((row) => [cell(row.label, { align: "left" }), ...row.values.map((value) => cell(value))]),
+            ],
+            { x: "8%", y: `${tableY}%`, w: "84%" }
+          );
+          // Rows are roughly 5% of the slide high at this font size
+          const captionY = tableY + (capTable.rows.length + 1) * 5 + 1;
+          slide.addText(capTable.caption, {
+            x: "8%",
+            y: `${captionY}%`,
+            w: "84%",
+            h: "5%",
+            fontSize: 10,
+            color: subtleColor,
+          });
+          tableEndY = captionY + 6;
+        }
+
         // Add regular images (non-full size) if present
         if (hasRegularImages) {
           // Start images right after content with small gap (2-3%)
-          let currentY = content ? contentEndY + 3 : 25; // Start right after content + 3% gap, or 25% if no content
+          let currentY = tableEndY ?? (content ? contentEndY + 3 : 25); // Start right after content + 3% gap, or 25% if no content
 
           regularImages.forEach((image) => {
             // Determine size in inches based on size setting (using contain to maintain aspect ratio)
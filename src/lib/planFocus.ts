@@ -0,0 +1,53 @@
+/**
+ * Plan Focus
+ * Opens a tab at a specific phase, slide or input (e.g. from a plan review finding).
+ * Tabs mount lazily, so the request waits until the tab's component takes it.
+ */
+
+export interface PlanFocusRequest {
+  /** Tab value, as used by the "switch-tab" event */
+  tab: string;
+  /** Business plan phase to open */
+  phase?: number;
+  /** Pitch deck slide index to open */
+  slide?: number;
+  /** Input to scroll to and focus */
+  elementId?: string;
+}
+
+export const PLAN_FOCUS_EVENT = "planFocusRequested";
+
+let pendingRequest: PlanFocusRequest | null = null;
+
+/**
+ * Switch to the request's tab and ask it to open the field
+ */
+export const focusPlanField = (request: PlanFocusRequest): void => {
+  pendingRequest = request;
+  window.dispatchEvent(new CustomEvent("switch-tab", { detail: request.tab }));
+  window.dispatchEvent(new CustomEvent(PLAN_FOCUS_EVENT, { detail: request }));
+};
+
+/** Take the waiting request for a tab, if there is one */
+export const takePlanFocus = (tab: string): PlanFocusRequest | null => {
+  if (pendingRequest?.tab !== tab) return null;
+  const request = pendingRequest;
+  pendingRequest = null;
+  return request;
+};
+
+/** Interval between looks for an input that hasn't rendered yet */
+const RETRY_MS = 100;
+
+/**
+ * Scroll to and focus an input, waiting briefly for lazily loaded sections to render
+ */
+export const focusElementWhenReady = (elementId: string, attempts = 20): void => {
+  const element = document.getElementById(elementId);
+  if (element) {
+    element.scrollIntoView({ block: "center", behavior: "smooth" });
+    element.focus({ preventScroll: true });
+  } else if (attempts > 0) {
+    setTimeout(() => focusElementWhenReady(elementId, attempts - 1), RETRY_MS);
+  }
+};
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MAX_SAVED_REVIEWS,
+  REVIEW_RUBRICS,
+  collectReviewFields,
+  computeOverallScore,
+  findInconsistencies,
+  getPlanReviewsData,
+  isPlanReviewCommand,
+  parseReviewReply,
+  reviewToMarkdown,
+  runPlanReview,
+  type ReviewRubric,
+} from './planReview';
+import { readDomain, writeDomain } from './storageRegistry';
+
+const rubric: ReviewRubric = {
+  id: 'test',
+  name: 'Test reviewer',
+  persona: 'a careful reader',
+  criteria: [
+    { id: 'problem', label: 'Problem', question: 'Is the problem clear?', areas: ['businessPlan'], weight: 2 },
+    { id: 'deck', label: 'Deck', question: 'Is the deck clear?', areas: ['pitchDeck'], weight: 1 },
+    { id: 'skipped', label: 'Skipped', question: 'Not asked', areas: ['competition'], weight: 0 },
+  ],
+};
+
+const reply = (score: number, ref = 'plan.problemStatement') =>
+  JSON.stringify({
+    score,
+    summary: 'Clear enough.',
+    findings: [
+      { kind: 'gap', ref, text: 'Say who has the problem.', rewrite: 'Commuters waste 20 minutes a day.' },
+      { kind: 'strength', ref: '[plan.businessIdea]', text: 'Simple idea.' },
+    ],
+  });
+
+describe('planReview', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    writeDomain('businessPlan', {
+      ...readDomain('businessPlan'),
+      problemStatement: 'Commuters have no good coffee near the station.',
+      businessIdea: 'A coffee cart by the station.',
+    });
+  });
+
+  describe('material', () => {
+    it('should tag each filled-in field with where it lives', () => {
+      writeDomain('pitchDeck', [{ title: 'Problem', content: 'No coffee' }, { title: '', content: '' }]);
+
+      const fields = collectReviewFields(['businessPlan', 'pitchDeck']);
+
+      expect(fields.find((field) => field.target.ref === 'plan.problemStatement')?.target).toEqual({
+        ref: 'plan.problemStatement',
+        label: 'Problem statement',
+        tab: 'businessplan',
+        phase: 2,
+        elementId: 'problem-statement',
+      });
+      expect(fields.filter((field) => field.target.tab === 'pitch').map((field) => field.target)).toEqual([
+        { ref: 'slide.1', label: 'Slide 1: Problem', tab: 'pitch', slide: 0 },
+      ]);
+    });
+
+    it('should list shared fields once when areas overlap', () => {
+      writeDomain('businessPlan', { ...readDomain('businessPlan'), pricingInfo: '$4 a cup' });
+
+      const refs = collectReviewFields(['businessPlan', 'competition']).map((field) => field.target.ref);
+
+      expect(refs.filter((ref) => ref === 'plan.pricingInfo')).toHaveLength(1);
+    });
+  });
+
+  describe('parseReviewReply', () => {
+    it('should link findings to the fields they name', () => {
+      const fields = collectReviewFields(['businessPlan']);
+      const parsed = parseReviewReply(`Here you go:\n\`\`\`json\n${reply(7.26)}\n\`\`\``, fields);
+
+      expect(parsed.score).toBe(7.3);
+      expect(parsed.findings.map((finding) => [finding.kind, finding.target?.label, finding.rewrite])).toEqual([
+        ['gap', 'Problem statement', 'Commuters waste 20 minutes a day.'],
+        ['strength', 'Business idea', undefined],
+      ]);
+    });
+
+    it('should keep findings with unknown references unlinked and reject replies without a score', () => {
+      const parsed = parseReviewReply(reply(12, 'plan.madeUp'), []);
+
+      expect(parsed.score).toBe(10);
+      expect(parsed.findings[0].target).toBeUndefined();
+      expect(() => parseReviewReply('{"summary": "Looks good"}', [])).toThrow('score');
+      expect(() => parseReviewReply('I think it is great!', [])).toThrow('expected format');
+    });
+  });
+
+  describe('runPlanReview', () => {
+    it('should review each weighted criterion and save the report', async () => {
+      writeDomain('pitchDeck', [{ title: 'Problem', content: 'No coffee' }]);
+      const model = vi.fn().mockResolvedValueOnce(reply(8)).mockResolvedValueOnce(reply(5, 'slide.1'));
+      const onProgress = vi.fn();
+
+      const review = await runPlanReview(rubric, { model, onProgress });
+
+      expect(model).toHaveBeenCalledTimes(2);
+      expect(model.mock.calls[0][0]).toContain('[plan.problemStatement] Problem statement: Commuters');
+      expect(model.mock.calls[0][1]).toContain('a careful reader');
+      expect(onProgress.mock.calls.map(([done, total, label]) => `${done}/${total} ${label}`)).toEqual(['0/2 Problem', '1/2 Deck']);
+      expect(review?.results.map((result) => result.score)).toEqual([8, 5]);
+      expect(review?.overallScore).toBe(70);
+      expect(review?.results[1].findings[0].target).toMatchObject({ tab: 'pitch', slide: 0 });
+      expect(getPlanReviewsData().reviews[0].id).toBe(review?.id);
+    });
+
+    it('should note empty sections and bad replies without failing the review', async () => {
+      const criteria = [...rubric.criteria.slice(0, 2), { ...rubric.criteria[0], id: 'idea', label: 'Idea', weight: 1 }];
+      const model = vi.fn().mockResolvedValueOnce(reply(6)).mockResolvedValueOnce('I think it is great!');
+
+      const review = await runPlanReview({ ...rubric, criteria }, { model });
+
+      expect(model).toHaveBeenCalledTimes(2);
+      expect(review?.results.map((result) => result.score)).toEqual([6, null, null]);
+      expect(review?.results[1].error).toContain('pitch deck first');
+      expect(review?.results[2].error).toContain('expected format');
+      expect(review?.overallScore).toBe(60);
+    });
+
+    it('should report the model error when nothing could be scored', async () => {
+      const model = vi.fn().mockRejectedValue(new Error('API key required for groq'));
+
+      await expect(runPlanReview(rubric, { model })).rejects.toThrow('API key required');
+      expect(getPlanReviewsData().reviews).toEqual([]);
+    });
+
+    it('should discard a stopped review', async () => {
+      const controller = new AbortController();
+      const model = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        return '';
+      });
+
+      expect(await runPlanReview(rubric, { model, signal: controller.signal })).toBeUndefined();
+      expect(getPlanReviewsData().reviews).toEqual([]);
+    });
+
+    it('should keep only the latest reviews', async () => {
+      const model = vi.fn().mockResolvedValue(reply(5));
+      const single = { ...rubric, criteria: [rubric.criteria[0]] };
+      for (let i = 0; i <= MAX_SAVED_REVIEWS; i++) await runPlanReview(single, { model });
+
+      expect(getPlanReviewsData().reviews).toHaveLength(MAX_SAVED_REVIEWS);
+    });
+  });
+
+  it('should flag figures that disagree between the plan and projections', () => {
+    writeDomain('businessPlan', { ...readDomain('businessPlan'), cashRequired: '$50,000', yearOneSalesTarget: '120k' });
+    writeDomain('forecasting', { ...readDomain('forecasting'), fundingAsk: 80000, year1Revenue: '118000' });
+
+    const findings = findInconsistencies();
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ kind: 'inconsistency', target: { ref: 'plan.cashRequired', phase: 8 } });
+    expect(findings[0].text).toContain('$80,000');
+  });
+
+  it('should weight the overall score and ignore unscored criteria', () => {
+    const result = (score: number | null, weight: number) => ({ criterionId: 'x', label: 'X', weight, score, summary: '', findings: [] });
+
+    expect(computeOverallScore([result(9, 3), result(3, 1), result(null, 2)])).toBe(75);
+    expect(computeOverallScore([result(null, 1)])).toBeNull();
+  });
+
+  it('should recognise review requests', () => {
+    expect(isPlanReviewCommand('Review my plan')).toBe(true);
+    expect(isPlanReviewCommand('please critique our business plan.')).toBe(true);
+    expect(isPlanReviewCommand('How do I review my plan with a bank?')).toBe(false);
+  });
+
+  it('should export the report as Markdown', async () => {
+    const review = await runPlanReview({ ...REVIEW_RUBRICS[0], criteria: [{ ...rubric.criteria[0] }] }, {
+      model: async () => reply(8),
+    });
+
+    const markdown = reviewToMarkdown(review!);
+
+    expect(markdown).toMatch(/^# Plan review: Seed VC\n/);
+    expect(markdown).toContain('**Overall score: 80/100**');
+    expect(markdown).toContain('## Problem — 8/10');
+    expect(markdown).toContain('- Say who has the problem. _(Problem statement)_\n  > Suggested rewrite: Commuters waste 20 minutes a day.');
+  });
+});
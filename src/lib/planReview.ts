@@ -0,0 +1,493 @@
+/**
+ * Plan Review
+ * Scores the plan against a rubric the way a particular reader would (a seed VC,
+ * a bank loan officer...). Each criterion goes to the model on its own with the
+ * material it covers, every line tagged with a reference so findings link back
+ * to the exact field or slide. Reviews are saved with the project.
+ */
+import { z } from "zod";
+import { readDomain, writeDomain } from "./storageRegistry";
+import { clip, estimateTokens } from "./aiContext";
+import { streamChat } from "./aiProvider";
+import { parseAmount } from "./mizzieActions";
+import { getProjections, isModelledYear } from "./financialModel";
+import {
+  FORECAST_YEARS,
+  type BusinessPlanData,
+  type CriterionResult,
+  type ForecastYear,
+  type PlanReview,
+  type PlanReviewsData,
+  type PortersData,
+  type ReviewArea,
+  type ReviewFinding,
+  type ReviewRubric,
+  type ReviewTarget,
+  type RubricCriterion,
+} from "./validators";
+
+export type { CriterionResult, PlanReview, ReviewArea, ReviewFinding, ReviewRubric, ReviewTarget, RubricCriterion };
+
+/** Reviews kept per project; older ones are dropped */
+export const MAX_SAVED_REVIEWS = 10;
+
+/** Tokens of plan material sent with each criterion */
+const MATERIAL_TOKEN_BUDGET = 2500;
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+// ============ Rubrics ============
+
+export const REVIEW_AREA_LABELS: Record<ReviewArea, string> = {
+  businessPlan: "business plan",
+  financials: "financial projections",
+  pitchDeck: "pitch deck",
+  competition: "competitive analysis",
+};
+
+export const REVIEW_RUBRICS: ReviewRubric[] = [
+  {
+    id: "seed-vc",
+    name: "Seed VC",
+    persona: "a seed-stage venture capital partner deciding whether to take a first meeting",
+    criteria: [
+      { id: "problem", label: "Problem & solution", question: "Is the problem painful, specific and clearly solved by the product?", areas: ["businessPlan", "pitchDeck"], weight: 2 },
+      { id: "market", label: "Market size", question: "Is the market big enough for a venture outcome, and are TAM/SAM/SOM sized bottom-up with stated assumptions?", areas: ["businessPlan", "pitchDeck"], weight: 2 },
+      { id: "traction", label: "Validation & traction", question: "What evidence shows customers want this: surveys, pilots, sales, experiments?", areas: ["businessPlan"], weight: 2 },
+      { id: "moat", label: "Competition & moat", question: "Are competitors named honestly, and is the advantage defensible rather than a feature list?", areas: ["competition"], weight: 2 },
+      { id: "growth", label: "Growth & business model", question: "Do the projections show venture-scale growth, and is the path to that revenue believable?", areas: ["financials", "businessPlan"], weight: 1 },
+      { id: "story", label: "Pitch story", question: "Does the deck tell a clear, investable story in order: problem, solution, market, traction, team, ask?", areas: ["pitchDeck"], weight: 1 },
+      { id: "consistency", label: "Consistency", question: "Do the plan, projections and deck agree with each other on numbers, customers and the ask?", areas: ["businessPlan", "financials", "pitchDeck"], weight: 1 },
+    ],
+  },
+  {
+    id: "bank-loan",
+    name: "Bank loan officer",
+    persona: "a small-business loan officer at a bank deciding whether the business can repay a loan",
+    criteria: [
+      { id: "repayment", label: "Cash flow & repayment", question: "Will revenue cover expenses and loan repayments, and how soon is the business profitable?", areas: ["financials"], weight: 3 },
+      { id: "assumptions", label: "Realistic projections", question: "Are the projections conservative and backed by explained assumptions and sales calculations?", areas: ["financials", "businessPlan"], weight: 2 },
+      { id: "funds", label: "Use of funds & security", question: "Is the amount requested justified item by item, and what personal investment, assets or collateral back it?", areas: ["financials", "businessPlan"], weight: 2 },
+      { id: "demand", label: "Demand evidence", question: "Is there concrete local demand, pricing and a sales plan that reaches the first-year target?", areas: ["businessPlan"], weight: 2 },
+      { id: "operations", label: "Operations & risk", question: "Are operations, licenses, suppliers and key risks covered with mitigation?", areas: ["businessPlan"], weight: 1 },
+      { id: "competition", label: "Competitive position", question: "Can the business hold its ground against the competitors listed?", areas: ["competition"], weight: 1 },
+      { id: "consistency", label: "Consistency", question: "Do the funding ask, cash required, sales targets and projections agree with each other?", areas: ["businessPlan", "financials"], weight: 1 },
+    ],
+  },
+];
+
+export const getRubricPreset = (id: string): ReviewRubric | undefined =>
+  REVIEW_RUBRICS.find((rubric) => rubric.id === id);
+
+export const getPlanReviewsData = (): PlanReviewsData => readDomain("planReviews");
+
+/** The rubric the next review will use: the user's edited one or the first preset */
+export const getActiveRubric = (): ReviewRubric => getPlanReviewsData().rubric ?? REVIEW_RUBRICS[0];
+
+export const saveActiveRubric = (rubric: ReviewRubric): void => {
+  writeDomain("planReviews", { ...getPlanReviewsData(), rubric });
+};
+
+/** Whether the rubric still matches the preset it was started from */
+export const isPresetRubric = (rubric: ReviewRubric): boolean => {
+  const preset = getRubricPreset(rubric.id);
+  return !!preset && preset.persona === rubric.persona &&
+    preset.criteria.every((criterion, index) => criterion.weight === rubric.criteria[index]?.weight);
+};
+
+// ============ Plan Material ============
+
+export interface ReviewField {
+  target: ReviewTarget;
+  value: string;
+}
+
+/** Business plan answers worth reviewing: field, label, phase, input id */
+const PLAN_FIELDS: [keyof BusinessPlanData, string, number, string?][] = [
+  ["problemStatement", "Problem statement", 2, "problem-statement"],
+  ["businessIdea", "Business idea", 2, "business-idea"],
+  ["productsServices", "Products & services", 3, "products"],
+  ["howYouSell", "How you sell", 3, "how-sell"],
+  ["marketDefinition", "Market definition", 4, "market-def"],
+  ["tamCurrent", "TAM", 4, "tam"],
+  ["samCurrent", "SAM", 4, "sam"],
+  ["somCurrent", "SOM", 4, "som"],
+  ["tamAssumptions", "Market size assumptions", 4, "assumptions"],
+  ["evidenceOfViability", "Evidence of viability", 4, "evidence"],
+  ["customerSurveyResults", "Customer survey results", 4, "surveys"],
+  ["marketTrends", "Market trends", 4, "trends"],
+  ["customerDescription", "Target customers", 5, "customer-desc"],
+  ["howYouAreDifferent", "How you're different", 6, "why-different"],
+  ["whyCustomersBuyFromYou", "Why customers buy from you", 6, "why-buy"],
+  ["whyCustomersPreferYou", "Why customers prefer you", 6, "why-prefer"],
+  ["pricingInfo", "Pricing", 6, "pricing"],
+  ["yearOneSalesTarget", "Year one sales target", 7],
+  ["howYouCalculatedSales", "How sales were calculated", 7, "calculation"],
+  ["unitsOrCustomersNeeded", "Units or customers needed", 7, "units"],
+  ["firstSaleTarget", "First sale target", 7, "first-sale"],
+  ["cashRequired", "Cash required", 8, "cash-required"],
+  ["useOfFunds", "Use of funds", 8, "use-of-funds"],
+  ["businessAchievements", "Achievements so far", 8, "achievements"],
+  ["distributionChannels", "Distribution", 9, "distribution"],
+  ["regulatoryInfo", "Regulations & licenses", 9, "regulatory"],
+  ["procurementInfo", "Suppliers & procurement", 9, "procurement"],
+  ["entryPlan", "Market entry plan", 10, "entry-plan"],
+  ["totalAssets", "Personal assets", 11],
+  ["totalLiabilities", "Personal liabilities", 11],
+  ["netWorth", "Personal net worth", 11],
+];
+
+/** Competition phase fields, reviewed with the competitors */
+const COMPETITION_FIELDS = new Set<keyof BusinessPlanData>(["howYouAreDifferent", "whyCustomersBuyFromYou", "whyCustomersPreferYou", "pricingInfo"]);
+
+const PORTERS_LABELS: [keyof PortersData, string][] = [
+  ["competitiveRivalry", "Competitive rivalry"],
+  ["supplierPower", "Supplier power"],
+  ["buyerPower", "Buyer power"],
+  ["threatOfSubstitutes", "Threat of substitutes"],
+  ["threatOfNewEntrants", "Threat of new entrants"],
+];
+
+const planTarget = (field: keyof BusinessPlanData): ReviewTarget => {
+  const [, label, phase, elementId] = PLAN_FIELDS.find(([key]) => key === field)!;
+  return { ref: `plan.${field}`, label, tab: "businessplan", phase, elementId };
+};
+
+const planFields = (plan: BusinessPlanData, keys: (keyof BusinessPlanData)[]): ReviewField[] =>
+  keys.map((key) => ({ target: planTarget(key), value: String(plan[key] ?? "") }));
+
+const collectBusinessPlan = (plan: BusinessPlanData): ReviewField[] => [
+  ...planFields(plan, PLAN_FIELDS.map(([key]) => key)),
+  ...plan.customerSegments.map((segment, index) => ({
+    target: { ref: `plan.segment.${index + 1}`, label: `Customer segment: ${segment.name || index + 1}`, tab: "businessplan", phase: 5 },
+    value: [segment.name, segment.jtbd, segment.budget && `budget ${segment.budget}`].filter(Boolean).join(" - "),
+  })),
+  ...plan.risks.map((risk, index) => ({
+    target: { ref: `plan.risk.${index + 1}`, label: `Risk ${index + 1}`, tab: "businessplan", phase: 10 },
+    value: risk.description &&
+      `${risk.description} (likelihood ${risk.likelihood}, impact ${risk.impact})${risk.mitigation ? ` - mitigation: ${risk.mitigation}` : ""}`,
+  })),
+];
+
+const collectFinancials = (): ReviewField[] => {
+  const forecast = readDomain("forecasting");
+  const model = readDomain("financialModel");
+  const projections = getProjections(forecast, model);
+  const target = (ref: string, label: string): ReviewTarget => ({ ref: `forecast.${ref}`, label, tab: "financials" });
+  // Years 1-3 come from the monthly model once it has drivers
+  const figure = (year: ForecastYear, field: "revenue" | "expenses") =>
+    isModelledYear(model, year)
+      ? String(projections.find((projection) => projection.year === year)![field])
+      : forecast[`year${year}${field === "revenue" ? "Revenue" : "Expenses"}`];
+  return [
+    ...FORECAST_YEARS.flatMap((year) => [
+      { target: target(`year${year}Revenue`, `Year ${year} revenue`), value: figure(year, "revenue") },
+      { target: target(`year${year}Expenses`, `Year ${year} expenses`), value: figure(year, "expenses") },
+    ]),
+    { target: target("assumptions", "Forecast assumptions"), value: forecast.assumptions },
+    { target: target("fundingAsk", "Funding ask"), value: forecast.fundingAsk ? String(forecast.fundingAsk) : "" },
+    { target: target("fundingStage", "Funding stage"), value: forecast.fundingStage },
+    {
+      target: target("useOfFunds", "Use of funds breakdown"),
+      value: forecast.useOfFunds.map((item) => `${item.category}: ${item.amount}`).join(", "),
+    },
+  ];
+};
+
+const collectPitchDeck = (): ReviewField[] =>
+  readDomain("pitchDeck").map((slide, index) => ({
+    target: {
+      ref: `slide.${index + 1}`,
+      label: `Slide ${index + 1}${slide.title.trim() ? `: ${slide.title.trim()}` : ""}`,
+      tab: "pitch",
+      slide: index,
+    },
+    value: [slide.title, slide.content].filter((text) => text.trim()).join(" - "),
+  }));
+
+const collectCompetition = (plan: BusinessPlanData): ReviewField[] => {
+  const porters = readDomain("porters");
+  return [
+    ...plan.competitors.map((competitor, index) => ({
+      target: { ref: `competitor.${index + 1}`, label: `Competitor: ${competitor.name || index + 1}`, tab: "businessplan", phase: 6 },
+      value: [competitor.name, competitor.coreOffer, competitor.pricingModel && `pricing: ${competitor.pricingModel}`, competitor.differentiators]
+        .filter(Boolean)
+        .join(" - "),
+    })),
+    ...planFields(plan, [...COMPETITION_FIELDS]),
+    ...PORTERS_LABELS.map(([key, label]) => {
+      const force = porters[key];
+      const details = [...force.factors.map((factor) => factor.text), force.notes].filter((text) => text.trim());
+      return {
+        target: { ref: `porters.${key}`, label, tab: "porters" },
+        value: force.rating || details.length ? `${force.rating || "unrated"}${details.length ? ` - ${details.join("; ")}` : ""}` : "",
+      };
+    }),
+  ];
+};
+
+/**
+ * Non-empty review material for the given areas, each field once
+ */
+export const collectReviewFields = (areas: ReviewArea[]): ReviewField[] => {
+  const plan = readDomain("businessPlan");
+  const collected = areas.flatMap((area) => {
+    switch (area) {
+      case "businessPlan":
+        return collectBusinessPlan(plan);
+      case "financials":
+        return collectFinancials();
+      case "pitchDeck":
+        return collectPitchDeck();
+      case "competition":
+        return collectCompetition(plan);
+    }
+  });
+  return collected.filter(
+    (field, index) => field.value.trim() && collected.findIndex((other) => other.target.ref === field.target.ref) === index
+  );
+};
+
+/** "[ref] Label: value" lines, cut off at the material budget */
+const formatMaterial = (fields: ReviewField[]): string => {
+  let remaining = MATERIAL_TOKEN_BUDGET;
+  const lines: string[] = [];
+  for (const { target, value } of fields) {
+    const line = `[${target.ref}] ${target.label}: ${clip(value)}`;
+    remaining -= estimateTokens(line);
+    if (remaining < 0) break;
+    lines.push(line);
+  }
+  return lines.join("\n");
+};
+
+// ============ Model ============
+
+const reviewInstructions = (rubric: ReviewRubric): string =>
+  `You are now ${rubric.persona}, reviewing the user's plan for one criterion. Be direct and specific, and judge only the material given.
+Reply with only a JSON object, no other text:
+{"score": 0-10, "summary": "one or two sentences", "findings": [{"kind": "strength" | "gap" | "inconsistency", "ref": "the [reference] of the field it is about", "text": "what you noticed", "rewrite": "improved text for that field (optional)"}]}
+Give two to five findings. Missing material counts against the score.`;
+
+const buildReviewPrompt = (criterion: RubricCriterion, material: string): string =>
+  `Criterion: ${criterion.label}\n${criterion.question}\n\nPlan material, one field per line as [reference] label: value:\n${material}`;
+
+export type ReviewModel = (prompt: string, instructions: string, signal?: AbortSignal) => Promise<string>;
+
+const requestReview: ReviewModel = async (prompt, instructions, signal) => {
+  let reply = "";
+  for await (const token of streamChat([{ role: "user", content: prompt }], undefined, { signal, instructions })) {
+    reply += token;
+  }
+  return reply;
+};
+
+const ModelFindingSchema = z.object({
+  kind: z.enum(["strength", "gap", "inconsistency"]).catch("gap"),
+  ref: z.string().optional().catch(undefined),
+  text: z.string().trim().min(1),
+  rewrite: z.string().trim().optional().catch(undefined),
+});
+
+const ModelReplySchema = z.object({
+  score: z.coerce.number().refine(Number.isFinite).transform((score) => Math.min(10, Math.max(0, Math.round(score * 10) / 10))),
+  summary: z.string().catch(""),
+  findings: z.array(z.unknown()).catch([]),
+});
+
+/**
+ * Read the model's JSON reply, linking findings to the fields they name.
+ * Findings with an unknown reference are kept without a link.
+ */
+export const parseReviewReply = (
+  reply: string,
+  fields: ReviewField[]
+): Pick<CriterionResult, "score" | "summary" | "findings"> => {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  let json: unknown;
+  try {
+    json = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    throw new Error("The reviewer's reply wasn't in the expected format.");
+  }
+  const parsed = ModelReplySchema.safeParse(json);
+  if (!parsed.success) throw new Error("The reviewer's reply didn't include a score.");
+
+  const findings = parsed.data.findings.flatMap((item): ReviewFinding[] => {
+    const finding = ModelFindingSchema.safeParse(item);
+    if (!finding.success) return [];
+    const ref = finding.data.ref?.replace(/^\[|\]$/g, "").trim();
+    return [{
+      id: createId("finding"),
+      kind: finding.data.kind,
+      text: finding.data.text,
+      target: fields.find((field) => field.target.ref === ref)?.target,
+      rewrite: finding.data.rewrite || undefined,
+    }];
+  });
+  return { score: parsed.data.score, summary: parsed.data.summary.trim(), findings };
+};
+
+// ============ Checks ============
+
+/** Relative difference above which two figures that should match are flagged */
+const MISMATCH_TOLERANCE = 0.1;
+
+const isMismatch = (a?: number, b?: number): boolean =>
+  !!a && !!b && Math.abs(a - b) / Math.max(a, b) > MISMATCH_TOLERANCE;
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+
+/**
+ * Figures entered in two places that disagree, found without the model
+ */
+export const findInconsistencies = (): ReviewFinding[] => {
+  const plan = readDomain("businessPlan");
+  const forecast = readDomain("forecasting");
+  const findings: ReviewFinding[] = [];
+
+  const cashRequired = parseAmount(plan.cashRequired);
+  if (isMismatch(forecast.fundingAsk, cashRequired)) {
+    findings.push({
+      id: createId("finding"),
+      kind: "inconsistency",
+      text: `Your funding ask on the Financials tab (${formatMoney(forecast.fundingAsk!)}) doesn't match the cash required in your plan (${formatMoney(cashRequired!)}).`,
+      target: planTarget("cashRequired"),
+    });
+  }
+
+  const salesTarget = parseAmount(plan.yearOneSalesTarget);
+  const model = readDomain("financialModel");
+  const yearOneRevenue = isModelledYear(model, 1)
+    ? getProjections(forecast, model)[0].revenue
+    : parseAmount(forecast.year1Revenue);
+  if (isMismatch(yearOneRevenue, salesTarget)) {
+    findings.push({
+      id: createId("finding"),
+      kind: "inconsistency",
+      text: `Year 1 revenue in your projections (${formatMoney(yearOneRevenue!)}) doesn't match your year one sales target (${formatMoney(salesTarget!)}).`,
+      target: { ref: "forecast.year1Revenue", label: "Year 1 revenue", tab: "financials" },
+    });
+  }
+
+  return findings;
+};
+
+// ============ Reviews ============
+
+/** Weighted average of the scored criteria as 0-100, or null if none were scored */
+export const computeOverallScore = (results: CriterionResult[]): number | null => {
+  const scored = results.filter((result) => result.score !== null && result.weight > 0);
+  const totalWeight = scored.reduce((total, result) => total + result.weight, 0);
+  if (totalWeight === 0) return null;
+  return Math.round((scored.reduce((total, result) => total + result.score! * result.weight, 0) / totalWeight) * 10);
+};
+
+interface RunPlanReviewOptions {
+  signal?: AbortSignal;
+  /** Called before each criterion is reviewed */
+  onProgress?: (done: number, total: number, label: string) => void;
+  model?: ReviewModel;
+}
+
+/**
+ * Review the plan criterion by criterion and save the report
+ * @returns the saved review, or undefined if it was stopped
+ */
+export const runPlanReview = async (
+  rubric: ReviewRubric,
+  { signal, onProgress, model = requestReview }: RunPlanReviewOptions = {}
+): Promise<PlanReview | undefined> => {
+  const criteria = rubric.criteria.filter((criterion) => criterion.weight > 0);
+  if (criteria.length === 0) throw new Error("Turn on at least one criterion to review.");
+
+  const results: CriterionResult[] = [];
+  let lastError: unknown;
+  for (const [index, criterion] of criteria.entries()) {
+    onProgress?.(index, criteria.length, criterion.label);
+    const result: CriterionResult = { criterionId: criterion.id, label: criterion.label, weight: criterion.weight, score: null, summary: "", findings: [] };
+    const fields = collectReviewFields(criterion.areas);
+
+    if (fields.length === 0) {
+      result.error = `Nothing to review yet. Fill in your ${criterion.areas.map((area) => REVIEW_AREA_LABELS[area]).join(" or ")} first.`;
+    } else {
+      try {
+        const reply = await model(buildReviewPrompt(criterion, formatMaterial(fields)), reviewInstructions(rubric), signal);
+        if (signal?.aborted) return undefined;
+        Object.assign(result, parseReviewReply(reply, fields));
+      } catch (error) {
+        if (signal?.aborted) return undefined;
+        console.warn(`[planReview] Couldn't review "${criterion.label}":`, error);
+        lastError = error;
+        result.error = error instanceof Error ? error.message : "Couldn't review this criterion.";
+      }
+    }
+    results.push(result);
+  }
+
+  // Nothing scored because the model itself failed (e.g. no API key): report that instead
+  if (lastError && results.every((result) => result.score === null)) throw lastError;
+
+  const review: PlanReview = {
+    id: createId("review"),
+    createdAt: new Date().toISOString(),
+    rubric,
+    overallScore: computeOverallScore(results),
+    results,
+    checks: findInconsistencies(),
+  };
+  const data = getPlanReviewsData();
+  writeDomain("planReviews", { ...data, reviews: [review, ...data.reviews].slice(0, MAX_SAVED_REVIEWS) });
+  return review;
+};
+
+export const deletePlanReview = (id: string): void => {
+  const data = getPlanReviewsData();
+  writeDomain("planReviews", { ...data, reviews: data.reviews.filter((review) => review.id !== id) });
+};
+
+/** "Review my plan" and similar requests */
+export const isPlanReviewCommand = (text: string): boolean =>
+  /^(?:please )?(?:review|critique|score|grade) (?:my|the|our) (?:business )?plan\b/i.test(text.trim());
+
+// ============ Export ============
+
+const FINDING_HEADINGS: Record<ReviewFinding["kind"], string> = {
+  strength: "Strengths",
+  gap: "Gaps",
+  inconsistency: "Inconsistencies",
+};
+
+const findingToMarkdown = (finding: ReviewFinding): string =>
+  [
+    `- ${finding.text}${finding.target ? ` _(${finding.target.label})_` : ""}`,
+    finding.rewrite && `  > Suggested rewrite: ${finding.rewrite.replace(/\n+/g, " ")}`,
+  ].filter(Boolean).join("\n");
+
+/**
+ * Review report as a Markdown document
+ */
+export const reviewToMarkdown = (review: PlanReview): string => {
+  const sections = review.results.map((result) => {
+    const lines = [
+      `## ${result.label} — ${result.score === null ? "not scored" : `${result.score}/10`}`,
+      result.error && `_${result.error}_`,
+      result.summary,
+      ...(["strength", "gap", "inconsistency"] as const).flatMap((kind) => {
+        const findings = result.findings.filter((finding) => finding.kind === kind);
+        return findings.length ? [`**${FINDING_HEADINGS[kind]}**\n\n${findings.map(findingToMarkdown).join("\n")}`] : [];
+      }),
+    ];
+    return lines.filter(Boolean).join("\n\n");
+  });
+
+  return [
+    `# Plan review: ${review.rubric.name}`,
+    `_Reviewed as ${review.rubric.persona}, ${new Date(review.createdAt).toLocaleString()}_`,
+    `**Overall score: ${review.overallScore === null ? "not scored" : `${review.overallScore}/100`}**`,
+    review.checks.length > 0 && `## Consistency checks\n\n${review.checks.map(findingToMarkdown).join("\n")}`,
+    ...sections,
+  ].filter(Boolean).join("\n\n") + "\n";
+};
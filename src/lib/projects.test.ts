@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  loadProjects,
+  getActiveProject,
+  createProject,
+  renameProject,
+  setProjectArchived,
+  switchProject,
+  duplicateProject,
+  deleteProject,
+} from './projects';
+import { DEFAULT_PROJECT_ID, getStorageKey, readDomain, writeDomain } from './storageRegistry';
+
+const swotWith = (text: string) => ({
+  strengths: [{ id: '1', text }],
+  weaknesses: [],
+  opportunities: [],
+  threats: [],
+});
+
+describe('projects', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should start with a default project using the original keys', () => {
+    const { activeProjectId, projects } = loadProjects();
+
+    expect(activeProjectId).toBe(DEFAULT_PROJECT_ID);
+    expect(projects).toHaveLength(1);
+    expect(getStorageKey('swot')).toBe('swotAnalysis');
+  });
+
+  it('should namespace domain keys per project', () => {
+    writeDomain('swot', swotWith('Default project'));
+
+    const project = createProject('Coffee Cart');
+    switchProject(project.id);
+
+    expect(getStorageKey('swot')).toBe(`project:${project.id}:swotAnalysis`);
+    expect(readDomain('swot').strengths).toEqual([]);
+
+    writeDomain('swot', swotWith('Coffee Cart'));
+    switchProject(DEFAULT_PROJECT_ID);
+    expect(readDomain('swot').strengths[0].text).toBe('Default project');
+  });
+
+  it('should duplicate every stored domain into a new project', async () => {
+    writeDomain('swot', swotWith('Copied'));
+
+    const copy = await duplicateProject(DEFAULT_PROJECT_ID);
+    expect(copy.name).toBe('My Business (Copy)');
+
+    switchProject(copy.id);
+    expect(readDomain('swot').strengths[0].text).toBe('Copied');
+  });
+
+  it('should rename and archive projects', () => {
+    const project = createProject('Draft');
+
+    expect(renameProject(project.id, 'Bakery').name).toBe('Bakery');
+    expect(setProjectArchived(project.id, true).archived).toBe(true);
+    expect(() => setProjectArchived(DEFAULT_PROJECT_ID, true)).toThrow();
+  });
+
+  it('should delete a project and its data', () => {
+    const project = createProject('Temporary');
+    switchProject(project.id);
+    writeDomain('roadmap', []);
+    const key = getStorageKey('roadmap');
+
+    expect(() => deleteProject(project.id)).toThrow();
+
+    switchProject(DEFAULT_PROJECT_ID);
+    deleteProject(project.id);
+
+    expect(localStorage.getItem(key)).toBeNull();
+    expect(loadProjects().projects.map((p) => p.id)).toEqual([DEFAULT_PROJECT_ID]);
+    expect(getActiveProject().id).toBe(DEFAULT_PROJECT_ID);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Projects
+ * Workspaces that each hold a full, separately namespaced copy of every storage domain.
+ * The project list lives under a single global key; domain data lives under
+ * project-prefixed keys (see storageRegistry).
+ */
+import { ProjectsDataSchema, type Project, type ProjectsData } from "./validators";
+import {
+  PROJECTS_KEY,
+  DEFAULT_PROJECT_ID,
+  BACKUP_DOMAIN_IDS,
+  STORAGE_DOMAIN_IDS,
+  getActiveProjectId,
+  loadDomainRaw,
+  saveDomainRaw,
+  removeDomain,
+  type StorageDomainId,
+} from "./storageRegistry";
+
+const DEFAULT_PROJECT_NAME = "My Business";
+
+// ============ Project List ============
+
+const createDefaultProjects = (): ProjectsData => {
+  const now = new Date().toISOString();
+  return {
+    activeProjectId: DEFAULT_PROJECT_ID,
+    projects: [{ id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: now, updatedAt: now, archived: false }],
+  };
+};
+
+/**
+ * Load the project list, creating the default project on first use
+ */
+export const loadProjects = (): ProjectsData => {
+  try {
+    const stored = localStorage.getItem(PROJECTS_KEY);
+    if (stored) {
+      const result = ProjectsDataSchema.safeParse(JSON.parse(stored));
+      if (result.success && result.data.projects.length > 0) {
+        return result.data;
+      }
+      console.warn("[projects] Invalid project list, starting from the default project");
+    }
+  } catch (error) {
+    console.error("[projects] Failed to load projects:", error);
+  }
+  return createDefaultProjects();
+};
+
+const saveProjects = (data: ProjectsData): void => {
+  localStorage.setItem(PROJECTS_KEY, JSON.stringify(data));
+  window.dispatchEvent(new CustomEvent("projectsChanged", { detail: data }));
+};
+
+/**
+ * The project the app is currently working in
+ */
+export const getActiveProject = (): Project => {
+  const { activeProjectId, projects } = loadProjects();
+  return projects.find((project) => project.id === activeProjectId) ?? projects[0];
+};
+
+const getProject = (data: ProjectsData, id: string): Project => {
+  const project = data.projects.find((candidate) => candidate.id === id);
+  if (!project) {
+    throw new Error(`Project "${id}" not found`);
+  }
+  return project;
+};
+
+const updateProject = (id: string, changes: Partial<Omit<Project, "id" | "createdAt">>): Project => {
+  const data = loadProjects();
+  const updated = { ...getProject(data, id), ...changes, updatedAt: new Date().toISOString() };
+  saveProjects({
+    ...data,
+    projects: data.projects.map((project) => (project.id === id ? updated : project)),
+  });
+  return updated;
+};
+
+const generateProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// ============ Project Actions ============
+
+/**
+ * Create an empty project (does not switch to it)
+ */
+export const createProject = (name: string): Project => {
+  const data = loadProjects();
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: generateProjectId(),
+    name: name.trim() || "Untitled Project",
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+  };
+  saveProjects({ ...data, projects: [...data.projects, project] });
+  return project;
+};
+
+/**
+ * Rename a project
+ */
+export const renameProject = (id: string, name: string): Project =>
+  updateProject(id, { name: name.trim() || getProject(loadProjects(), id).name });
+
+/**
+ * Archive or restore a project. The active project can't be archived.
+ */
+export const setProjectArchived = (id: string, archived: boolean): Project => {
+  if (archived && id === getActiveProjectId()) {
+    throw new Error("Switch to another project before archiving this one");
+  }
+  return updateProject(id, { archived });
+};
+
+/**
+ * Make a project the active one. Callers should reload so every tab reads its data.
+ */
+export const switchProject = (id: string): void => {
+  const data = loadProjects();
+  const project = getProject(data, id);
+  saveProjects({
+    activeProjectId: project.id,
+    projects: data.projects.map((candidate) =>
+      candidate.id === id ? { ...candidate, archived: false } : candidate
+    ),
+  });
+};
+
+/**
+ * Read every stored business domain of a project as raw strings
+ */
+export const loadProjectData = async (id: string): Promise<Partial<Record<StorageDomainId, string>>> => {
+  const data: Partial<Record<StorageDomainId, string>> = {};
+  for (const domain of BACKUP_DOMAIN_IDS) {
+    const raw = await loadDomainRaw(domain, id);
+    if (raw !== null) {
+      data[domain] = raw;
+    }
+  }
+  return data;
+};
+
+/**
+ * Create a new project holding a copy of every domain of an existing one
+ */
+export const duplicateProject = async (id: string, name?: string): Promise<Project> => {
+  const source = getProject(loadProjects(), id);
+  const sourceData = await loadProjectData(source.id);
+
+  const copy = createProject(name ?? `${source.name} (Copy)`);
+  await Promise.all(
+    (Object.entries(sourceData) as [StorageDomainId, string][]).map(([domain, raw]) =>
+      saveDomainRaw(domain, raw, copy.id)
+    )
+  );
+  return copy;
+};
+
+/**
+ * Delete a project and all of its data. The active project and the last project can't be deleted.
+ */
+export const deleteProject = (id: string): void => {
+  const data = loadProjects();
+  getProject(data, id);
+  if (id === data.activeProjectId) {
+    throw new Error("Switch to another project before deleting this one");
+  }
+  if (data.projects.length <= 1) {
+    throw new Error("You need at least one project");
+  }
+
+  STORAGE_DOMAIN_IDS.forEach((domain) => removeDomain(domain, id));
+  saveProjects({ ...data, projects: data.projects.filter((project) => project.id !== id) });
+};
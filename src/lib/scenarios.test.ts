@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyScenario,
+  computeScenario,
+  describeScenario,
+  findScenario,
+  getScenarioProjections,
+  hasOverrides,
+} from './scenarios';
+import { DEFAULT_SCENARIOS, FinancialModelSchema, ForecastDataSchema, FundingSourceSchema } from './validators';
+
+const model = FinancialModelSchema.parse({
+  revenueStreams: [{ id: 'subs', name: 'Subscriptions', units: 100, price: 50, monthlyGrowth: 5, startMonth: 1 }],
+  cogsPercent: 20,
+  fixedCosts: [{ id: 'rent', name: 'Rent', monthlyAmount: 2_000, startMonth: 1 }],
+  headcount: [{ id: 'dev', role: 'Engineer', count: 2, annualSalary: 72_000, startMonth: 6 }],
+});
+const inputs = {
+  model,
+  forecast: ForecastDataSchema.parse({}),
+  fundingSources: FundingSourceSchema.parse({ investors: '20000' }),
+};
+
+describe('scenarios', () => {
+  it('should override growth, price, churn and hiring pace', () => {
+    const adjusted = applyScenario(model, {
+      id: 's',
+      name: 'Test',
+      monthlyGrowth: 10,
+      priceChange: -20,
+      churnRate: 10,
+      hiringDelayMonths: -8,
+    });
+
+    expect(adjusted.revenueStreams[0].price).toBe(40);
+    expect(adjusted.revenueStreams[0].monthlyGrowth).toBeCloseTo(-1);
+    expect(adjusted.headcount[0].startMonth).toBe(1);
+    expect(applyScenario(model, DEFAULT_SCENARIOS[0])).toEqual(model);
+  });
+
+  it('should rank the default scenarios', () => {
+    const [base, best, worst] = DEFAULT_SCENARIOS.map((scenario) => computeScenario(scenario, inputs));
+
+    expect(best.revenue).toBeGreaterThan(base.revenue);
+    expect(worst.revenue).toBeLessThan(base.revenue);
+    expect(worst.profit).toBeLessThan(base.profit);
+    expect(base.projections[0].revenue).toBe(Math.round(base.statements.years[0].incomeStatement.revenue));
+  });
+
+  it('should keep best at least as good as base, and base as worst, with a heavy hiring plan', () => {
+    const heavyHiring = {
+      ...inputs,
+      model: { ...model, headcount: [{ id: 'team', role: 'Engineer', count: 6, annualSalary: 90_000, startMonth: 4 }] },
+    };
+    const [base, best, worst] = DEFAULT_SCENARIOS.map((scenario) => computeScenario(scenario, heavyHiring));
+    const runway = (result: typeof base) => result.runwayMonths ?? Infinity;
+
+    expect(base.runwayMonths).not.toBeNull();
+    expect(best.profit).toBeGreaterThanOrEqual(base.profit);
+    expect(base.profit).toBeGreaterThanOrEqual(worst.profit);
+    expect(runway(best)).toBeGreaterThanOrEqual(runway(base));
+    expect(runway(base)).toBeGreaterThanOrEqual(runway(worst));
+  });
+
+  it('should work out runway and funding need from cash', () => {
+    const result = computeScenario({ id: 'flat', name: 'Flat', monthlyGrowth: 0, priceChange: -100 }, inputs);
+
+    // No revenue: $20,000 of equity covers rent until hiring starts in month 6
+    expect(result.runwayMonths).toBe(5);
+    expect(result.fundingNeed).toBeCloseTo(-Math.min(...result.statements.months.map((m) => m.cashFlow.closingCash)));
+    expect(computeScenario(DEFAULT_SCENARIOS[0], { ...inputs, fundingSources: FundingSourceSchema.parse({ investors: '1000000' }) }))
+      .toMatchObject({ runwayMonths: null, fundingNeed: 0 });
+  });
+
+  it('should describe overrides and find scenarios', () => {
+    expect(describeScenario(DEFAULT_SCENARIOS[0])).toBe('base assumptions');
+    expect(describeScenario(DEFAULT_SCENARIOS[2])).toBe('price -10%, churn 3%/month');
+    expect(describeScenario({ id: 'h', name: '', hiringDelayMonths: 1 })).toBe('hiring 1 month later');
+    expect(hasOverrides(DEFAULT_SCENARIOS[1])).toBe(true);
+    expect(findScenario(DEFAULT_SCENARIOS, 'worst')?.name).toBe('Worst case');
+    expect(findScenario(DEFAULT_SCENARIOS, undefined)).toBeUndefined();
+  });
+
+  it('should give the chosen scenario\'s projections for the pitch deck', () => {
+    const chosen = getScenarioProjections(DEFAULT_SCENARIOS, 'best', inputs);
+
+    expect(chosen?.name).toBe('Best case');
+    expect(chosen?.projections.map((projection) => projection.year)).toEqual([1, 2, 3]);
+    expect(chosen?.projections[0].revenue).toBeGreaterThan(
+      getScenarioProjections(DEFAULT_SCENARIOS, 'base', inputs)!.projections[0].revenue
+    );
+    expect(getScenarioProjections(DEFAULT_SCENARIOS, 'deleted', inputs)).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Scenarios
+ * Applies a scenario's overrides (growth, price, churn and hiring pace) to the
+ * monthly model, and works out what each scenario means for revenue, profit,
+ * runway and the funding still needed.
+ */
+import type { FinancialModel, ForecastData, FundingSource, Scenario, YearlyProjection } from "./validators";
+import { getProjections } from "./financialModel";
+import { computeFinancialStatements, type FinancialStatements } from "./financialStatements";
+
+// ============ Types ============
+
+export interface ScenarioInputs {
+  model: FinancialModel;
+  forecast: ForecastData;
+  fundingSources?: FundingSource;
+}
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  /** Yearly revenue and expenses, as shown on the Projections tab */
+  projections: YearlyProjection[];
+  statements: FinancialStatements;
+  /** Over the model period */
+  revenue: number;
+  /** Net income over the model period */
+  profit: number;
+  /** Months before cash runs out, or null if it lasts the whole model period */
+  runwayMonths: number | null;
+  /** Cash needed on top of current funding to never go below zero */
+  fundingNeed: number;
+}
+
+/** A scenario's yearly projections, as shown on the pitch deck */
+export interface ScenarioProjections {
+  name: string;
+  projections: YearlyProjection[];
+}
+
+// ============ Scenarios ============
+
+/**
+ * The model with a scenario's overrides applied. Churn is folded into each
+ * stream's growth, so 5% growth with 2% churn compounds at 2.9% a month.
+ */
+export const applyScenario = (model: FinancialModel, scenario: Scenario): FinancialModel => ({
+  ...model,
+  revenueStreams: model.revenueStreams.map((stream) => {
+    const growth = scenario.monthlyGrowth ?? stream.monthlyGrowth;
+    const churn = scenario.churnRate ?? 0;
+    return {
+      ...stream,
+      price: stream.price * (1 + (scenario.priceChange ?? 0) / 100),
+      monthlyGrowth: churn ? ((1 + growth / 100) * (1 - churn / 100) - 1) * 100 : growth,
+    };
+  }),
+  headcount: model.headcount.map((item) => ({
+    ...item,
+    startMonth: Math.max(1, item.startMonth + (scenario.hiringDelayMonths ?? 0)),
+  })),
+});
+
+/**
+ * Whether a scenario overrides anything, i.e. isn't the base case
+ */
+export const hasOverrides = (scenario: Scenario): boolean =>
+  scenario.monthlyGrowth !== undefined ||
+  Boolean(scenario.priceChange) ||
+  Boolean(scenario.churnRate) ||
+  Boolean(scenario.hiringDelayMonths);
+
+/**
+ * Short description of a scenario's overrides, e.g. "price +10%, churn 3%/month"
+ */
+export const describeScenario = (scenario: Scenario): string => {
+  const parts = [
+    scenario.monthlyGrowth !== undefined && `growth ${scenario.monthlyGrowth}%/month`,
+    scenario.priceChange && `price ${scenario.priceChange > 0 ? "+" : ""}${scenario.priceChange}%`,
+    scenario.churnRate && `churn ${scenario.churnRate}%/month`,
+    scenario.hiringDelayMonths &&
+      `hiring ${Math.abs(scenario.hiringDelayMonths)} month${Math.abs(scenario.hiringDelayMonths) === 1 ? "" : "s"} ${scenario.hiringDelayMonths > 0 ? "later" : "sooner"}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "base assumptions";
+};
+
+/**
+ * Projections, statements and headline figures for a scenario
+ */
+export const computeScenario = (
+  scenario: Scenario,
+  { model, forecast, fundingSources }: ScenarioInputs
+): ScenarioResult => {
+  const scenarioModel = applyScenario(model, scenario);
+  const statements = computeFinancialStatements(scenarioModel, forecast, fundingSources);
+  const cash = statements.months.map((month) => month.cashFlow.closingCash);
+  const shortfall = cash.findIndex((closing) => closing < 0);
+
+  return {
+    scenario,
+    projections: getProjections(forecast, scenarioModel),
+    statements,
+    revenue: statements.years.reduce((sum, year) => sum + year.incomeStatement.revenue, 0),
+    profit: statements.years.reduce((sum, year) => sum + year.incomeStatement.netIncome, 0),
+    runwayMonths: shortfall === -1 ? null : shortfall,
+    fundingNeed: Math.max(0, -Math.min(0, ...cash)),
+  };
+};
+
+/**
+ * The scenario with the given id, if it still exists
+ */
+export const findScenario = (scenarios: Scenario[], id?: string): Scenario | undefined =>
+  id ? scenarios.find((scenario) => scenario.id === id) : undefined;
+
+/**
+ * Projections for the chosen scenario, leaving out years with no figures.
+ * Undefined when no scenario is chosen or it has been deleted.
+ */
+export const getScenarioProjections = (
+  scenarios: Scenario[],
+  id: string | undefined,
+  inputs: ScenarioInputs
+): ScenarioProjections | undefined => {
+  const scenario = findScenario(scenarios, id);
+  if (!scenario) return undefined;
+  return {
+    name: scenario.name || "Scenario",
+    projections: computeScenario(scenario, inputs).projections.filter(
+      (projection) => projection.revenue || projection.expenses
+    ),
+  };
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createSharePayload,
+  decodeSharePayload,
+  encodeSharePayload,
+  getShareLinkSize,
+  getSharedFragment,
+  isEncryptedShare,
+  SHARE_LINK_WARNING_LENGTH,
+} from './shareLink';
+import { readDomain, writeDomain } from './storageRegistry';
+
+const LOGO = 'data:image/png;base64,iVBORw0KGgo=';
+const PHOTO = 'data:image/png;base64,AAAA';
+
+describe('shareLink', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    writeDomain('businessPlan', { ...readDomain('businessPlan'), businessName: 'Coffee Cart' });
+    writeDomain('companyLogo', LOGO);
+    writeDomain('pitchDeck', [
+      { title: 'Problem', content: 'Bad coffee', images: [{ url: LOGO, size: 'small', alignment: 'left' }] },
+    ]);
+    writeDomain('brandAssets', [
+      { id: 'photo-1', name: 'Ana', type: 'image', dataUrl: PHOTO, uploadedAt: '2024-01-01T00:00:00.000Z' },
+    ]);
+    writeDomain('orgChart', [
+      {
+        id: 'ceo',
+        title: 'CEO',
+        name: 'Ana',
+        department: 'Leadership',
+        responsibilities: '',
+        reportsTo: '',
+        photoAssetId: 'photo-1',
+        bio: '',
+        linkedinUrl: '',
+      },
+    ]);
+  });
+
+  describe('createSharePayload', () => {
+    it('should include only the selected sections and leave out images by default', () => {
+      const payload = createSharePayload(['pitchDeck', 'orgChart']);
+
+      expect(payload.businessName).toBe('Coffee Cart');
+      expect(Object.keys(payload.sections).sort()).toEqual(['orgChart', 'pitchDeck']);
+      expect(payload.sections.pitchDeck?.[0].images).toEqual([]);
+      expect(payload.companyLogo).toBeUndefined();
+      expect(payload.photos).toEqual({});
+    });
+
+    it('should carry the logo, slide images and team photos when asked', () => {
+      const payload = createSharePayload(['pitchDeck', 'orgChart'], { includeImages: true });
+
+      expect(payload.companyLogo).toBe(LOGO);
+      expect(payload.sections.pitchDeck?.[0].images).toHaveLength(1);
+      expect(payload.photos).toEqual({ 'photo-1': PHOTO });
+    });
+  });
+
+  describe('encode and decode', () => {
+    it('should round-trip a payload through a URL-safe string', async () => {
+      const payload = createSharePayload(['businessPlan', 'roadmap']);
+      const encoded = await encodeSharePayload(payload);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(isEncryptedShare(encoded)).toBe(false);
+      expect(await decodeSharePayload(encoded)).toEqual(payload);
+    });
+
+    it('should need the right password for protected links', async () => {
+      const payload = createSharePayload(['businessPlan']);
+      const encoded = await encodeSharePayload(payload, 'correct horse');
+
+      expect(isEncryptedShare(encoded)).toBe(true);
+      await expect(decodeSharePayload(encoded)).rejects.toThrow('password protected');
+      await expect(decodeSharePayload(encoded, 'wrong password')).rejects.toThrow('Incorrect password');
+      expect(await decodeSharePayload(encoded, 'correct horse')).toEqual(payload);
+    });
+
+    it('should reject damaged links', async () => {
+      const encoded = await encodeSharePayload(createSharePayload(['businessPlan']));
+
+      await expect(decodeSharePayload(encoded.slice(0, encoded.length / 2))).rejects.toThrow('damaged');
+      await expect(decodeSharePayload('x' + encoded.slice(1))).rejects.toThrow('damaged');
+    });
+
+    it('should reject links whose images point at other sites', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const payload = createSharePayload(['orgChart'], { includeImages: true });
+      const encoded = await encodeSharePayload({ ...payload, photos: { 'photo-1': 'https://example.com/track.png' } });
+
+      await expect(decodeSharePayload(encoded)).rejects.toThrow('damaged');
+    });
+  });
+
+  describe('links', () => {
+    it('should read the payload from a share fragment only', () => {
+      expect(getSharedFragment('#share=zabc')).toBe('zabc');
+      expect(getSharedFragment('#share=')).toBeNull();
+      expect(getSharedFragment('#plan')).toBeNull();
+      expect(getSharedFragment('')).toBeNull();
+    });
+
+    it('should flag links that are too long to share reliably', () => {
+      expect(getShareLinkSize('https://example.com/#share=z')).toBe('ok');
+      expect(getShareLinkSize('x'.repeat(SHARE_LINK_WARNING_LENGTH + 1))).toBe('long');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Share Links
+ * Read-only snapshots of selected sections carried entirely in a URL fragment, so
+ * sharing needs no server: the payload is JSON, deflate-compressed, optionally
+ * password-encrypted, and base64url-encoded after "#share=". Fragments are never
+ * sent to the server that hosts the app.
+ */
+import {
+  SHARE_FORMAT_VERSION,
+  SharePayloadSchema,
+  type SharePayload,
+  type ShareSectionId,
+} from "./validators";
+import { readDomain } from "./storageRegistry";
+import { base64ToBytes, bytesToBase64, decrypt, encrypt } from "./encryption";
+
+// ============ Constants ============
+
+export const SHARE_FRAGMENT_PREFIX = "#share=";
+
+/** Links longer than this may be cut off by email clients and chat apps */
+export const SHARE_LINK_WARNING_LENGTH = 8_000;
+
+/** Browsers refuse URLs longer than this (Chrome's limit) */
+export const SHARE_LINK_MAX_LENGTH = 2_000_000;
+
+export const SHARE_SECTIONS: { id: ShareSectionId; label: string }[] = [
+  { id: "businessPlan", label: "Business Plan" },
+  { id: "pitchDeck", label: "Pitch Deck" },
+  { id: "orgChart", label: "Team & Org Chart" },
+  { id: "roadmap", label: "Roadmap" },
+];
+
+/** First character of the encoded payload */
+const PLAIN_MARKER = "z";
+const ENCRYPTED_MARKER = "e";
+
+const INVALID_LINK_MESSAGE = "This share link is incomplete or damaged. Ask for a new link.";
+
+// ============ Payload ============
+
+export interface ShareOptions {
+  /** Include the logo, slide images and team photos (makes links much longer) */
+  includeImages?: boolean;
+}
+
+/**
+ * Snapshot the selected sections of the active project
+ */
+export const createSharePayload = (sections: ShareSectionId[], options: ShareOptions = {}): SharePayload => {
+  const { includeImages = false } = options;
+  const plan = readDomain("businessPlan");
+  const payload: SharePayload = {
+    version: SHARE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    businessName: plan.businessName ?? "",
+    brandColors: readDomain("brandColors"),
+    photos: {},
+    sections: {},
+  };
+
+  const logo = readDomain("companyLogo");
+  if (includeImages && logo) {
+    payload.companyLogo = logo;
+  }
+
+  for (const section of sections) {
+    if (section === "businessPlan") {
+      payload.sections.businessPlan = plan;
+    } else if (section === "pitchDeck") {
+      payload.sections.pitchDeck = readDomain("pitchDeck").map((slide) =>
+        includeImages ? slide : { ...slide, images: [] }
+      );
+    } else if (section === "orgChart") {
+      const roles = readDomain("orgChart");
+      payload.sections.orgChart = roles;
+      if (includeImages) {
+        const assets = readDomain("brandAssets");
+        for (const role of roles) {
+          const photo = assets.find((asset) => asset.id === role.photoAssetId);
+          if (photo) payload.photos[photo.id] = photo.dataUrl;
+        }
+      }
+    } else {
+      payload.sections.roadmap = readDomain("roadmap");
+    }
+  }
+  return payload;
+};
+
+// ============ Encoding ============
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  writer.write(bytes).catch(() => undefined);
+  writer.close().catch(() => undefined);
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+};
+
+const toBase64Url = (base64: string) => base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (base64Url: string) => {
+  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+  return base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+};
+
+/**
+ * Compress (and, with a password, encrypt) a payload for a link fragment
+ */
+export const encodeSharePayload = async (payload: SharePayload, password?: string): Promise<string> => {
+  const compressed = await transform(
+    new TextEncoder().encode(JSON.stringify(payload)),
+    new CompressionStream("deflate-raw")
+  );
+  const base64 = bytesToBase64(compressed);
+  return password
+    ? ENCRYPTED_MARKER + toBase64Url(await encrypt(base64, password))
+    : PLAIN_MARKER + toBase64Url(base64);
+};
+
+/**
+ * Whether an encoded payload needs a password
+ */
+export const isEncryptedShare = (encoded: string): boolean => encoded.startsWith(ENCRYPTED_MARKER);
+
+/**
+ * Decode a payload from a link fragment
+ * @throws when the password is missing or wrong, or the link is damaged
+ */
+export const decodeSharePayload = async (encoded: string, password?: string): Promise<SharePayload> => {
+  let base64 = fromBase64Url(encoded.slice(1));
+  if (isEncryptedShare(encoded)) {
+    if (!password) throw new Error("This link is password protected.");
+    try {
+      base64 = await decrypt(base64, password);
+    } catch {
+      throw new Error("Incorrect password.");
+    }
+  } else if (!encoded.startsWith(PLAIN_MARKER)) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+
+  let parsed: unknown;
+  try {
+    const json = await transform(base64ToBytes(base64), new DecompressionStream("deflate-raw"));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+
+  const result = SharePayloadSchema.safeParse(parsed);
+  if (!result.success) {
+    console.error("[shareLink] Invalid share payload:", result.error.message);
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+  return result.data;
+};
+
+// ============ Links ============
+
+/**
+ * Full link to the app's read-only viewer for an encoded payload
+ */
+export const buildShareUrl = (encoded: string): string =>
+  `${window.location.origin}${import.meta.env.BASE_URL}${SHARE_FRAGMENT_PREFIX}${encoded}`;
+
+/**
+ * Encoded payload of a share link fragment, or null when the fragment isn't one
+ */
+export const getSharedFragment = (hash: string = window.location.hash): string | null =>
+  hash.startsWith(SHARE_FRAGMENT_PREFIX) && hash.length > SHARE_FRAGMENT_PREFIX.length + 1
+    ? hash.slice(SHARE_FRAGMENT_PREFIX.length)
+    : null;
+
+export type ShareLinkSize = "ok" | "long" | "too-long";
+
+export const getShareLinkSize = (url: string): ShareLinkSize =>
+  url.length > SHARE_LINK_MAX_LENGTH ? "too-long" : url.length > SHARE_LINK_WARNING_LENGTH ? "long" : "ok";
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MAX_AUTO_SNAPSHOTS,
+  AUTO_SNAPSHOT_MAX_AGE_MS,
+  createSnapshot,
+  getSnapshots,
+  diffSection,
+  diffSnapshotData,
+  shouldAutoSnapshot,
+  autoSnapshotIfNeeded,
+  restoreSnapshot,
+  saveSnapshot,
+  SnapshotRestoreError,
+} from './snapshots';
+import { readDomain, writeDomain } from './storageRegistry';
+
+const swotWith = (...texts: string[]) => ({
+  strengths: texts.map((text, index) => ({ id: String(index + 1), text })),
+  weaknesses: [],
+  opportunities: [],
+  threats: [],
+});
+
+describe('snapshots', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createSnapshot', () => {
+    it('should capture every stored business domain but not the history itself', () => {
+      writeDomain('swot', swotWith('Loyal customers'));
+      writeDomain('roadmap', []);
+
+      const snapshot = createSnapshot('First draft');
+
+      expect(Object.keys(snapshot.data).sort()).toEqual(['roadmap', 'swot']);
+      expect(getSnapshots()[0].name).toBe('First draft');
+    });
+
+    it('should resolve once a snapshot saved before clearing data is stored', async () => {
+      writeDomain('swot', swotWith('Loyal customers'));
+
+      const snapshot = await saveSnapshot('Before clearing all data');
+
+      expect(getSnapshots()[0]).toMatchObject({ id: snapshot.id, kind: 'manual' });
+      expect(Object.keys(snapshot.data)).toEqual(['swot']);
+    });
+
+    it('should prune the oldest autosaves but keep named snapshots', () => {
+      createSnapshot('Named');
+      for (let i = 0; i < MAX_AUTO_SNAPSHOTS + 2; i++) {
+        createSnapshot(`Auto ${i}`, 'auto');
+      }
+
+      const snapshots = getSnapshots();
+      expect(snapshots.filter((s) => s.kind === 'auto')).toHaveLength(MAX_AUTO_SNAPSHOTS);
+      expect(snapshots.some((s) => s.name === 'Named')).toBe(true);
+    });
+  });
+
+  describe('diff', () => {
+    it('should report field-level changes, matching array items by id', () => {
+      const before = JSON.stringify(swotWith('A', 'B'));
+      const after = JSON.stringify({
+        ...swotWith('A', 'B changed'),
+        threats: [{ id: '9', text: 'New competitor' }],
+      });
+
+      const changes = diffSection('swot', before, after);
+
+      expect(changes).toContainEqual({
+        path: 'strengths[id=2].text',
+        type: 'changed',
+        before: 'B',
+        after: 'B changed',
+      });
+      expect(changes).toContainEqual(
+        expect.objectContaining({ path: 'threats[id=9].text', type: 'added' })
+      );
+      expect(changes).not.toContainEqual(expect.objectContaining({ path: 'strengths[id=1].text' }));
+    });
+
+    it('should only list sections that changed', () => {
+      const roadmap = JSON.stringify([]);
+      const diff = diffSnapshotData(
+        { roadmap, companyLogo: 'data:image/png;base64,abc' },
+        { roadmap }
+      );
+
+      expect(diff.map((section) => section.domain)).toEqual(['companyLogo']);
+      expect(diff[0].changes[0].type).toBe('removed');
+    });
+  });
+
+  describe('autosave', () => {
+    it('should autosave on many changes or after the max age', () => {
+      const now = Date.now();
+      const recent = new Date(now - 1000).toISOString();
+      const old = new Date(now - AUTO_SNAPSHOT_MAX_AGE_MS - 1000).toISOString();
+
+      expect(shouldAutoSnapshot(0, undefined, now)).toBe(false);
+      expect(shouldAutoSnapshot(1, undefined, now)).toBe(true);
+      expect(shouldAutoSnapshot(2, recent, now)).toBe(false);
+      expect(shouldAutoSnapshot(2, old, now)).toBe(true);
+      expect(shouldAutoSnapshot(50, recent, now)).toBe(true);
+    });
+
+    it('should skip the autosave when nothing changed since the last snapshot', () => {
+      writeDomain('swot', swotWith('A'));
+
+      expect(autoSnapshotIfNeeded()?.kind).toBe('auto');
+      expect(autoSnapshotIfNeeded()).toBeNull();
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    it('should restore a single section and back up the current state first', async () => {
+      writeDomain('swot', swotWith('Old strength'));
+      writeDomain('roadmap', []);
+      const snapshot = createSnapshot('Baseline');
+
+      writeDomain('swot', swotWith('New strength'));
+      writeDomain('roadmap', [
+        { id: '1', title: 'Launch', description: '', timeframe: 'Q1', category: '1-year' },
+      ]);
+
+      await restoreSnapshot(snapshot, ['swot']);
+
+      expect(readDomain('swot').strengths[0].text).toBe('Old strength');
+      expect(readDomain('roadmap')).toHaveLength(1);
+      expect(getSnapshots()[0].name).toContain('Before restoring SWOT Analysis');
+    });
+
+    it('should clear sections missing from the snapshot and report a partial restore', async () => {
+      writeDomain('swot', swotWith('Old strength'));
+      const snapshot = createSnapshot('Baseline');
+      writeDomain('swot', swotWith('New strength'));
+      writeDomain('roadmap', []);
+
+      await restoreSnapshot(snapshot, ['roadmap']);
+      expect(localStorage.getItem('roadmap')).toBeNull();
+
+      const setItem = vi.mocked(localStorage.setItem);
+      const original = setItem.getMockImplementation()!;
+      setItem.mockImplementation((key, value) => {
+        if (key === 'swotAnalysis') throw new Error('Quota exceeded');
+        original(key, value);
+      });
+      writeDomain('roadmap', []);
+
+      const error = await restoreSnapshot(snapshot, ['roadmap', 'swot']).catch((caught) => caught);
+      setItem.mockImplementation(original);
+
+      expect(error).toBeInstanceOf(SnapshotRestoreError);
+      expect(error.restored).toEqual(['roadmap']);
+      expect(error.backupName).toBe(getSnapshots()[0].name);
+      expect(localStorage.getItem('roadmap')).toBeNull();
+    });
+  });
+});
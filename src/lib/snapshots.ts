@@ -0,0 +1,259 @@
+/**
+ * Version History
+ * Named and autosaved snapshots of every business domain in the active project,
+ * field-level diffs between snapshots, and whole or per-section restore.
+ */
+import type { Snapshot, SnapshotKind } from "./validators";
+import {
+  STORAGE_REGISTRY,
+  BACKUP_DOMAIN_IDS,
+  deleteDomain,
+  parseStoredValue,
+  readDomain,
+  readDomainRaw,
+  saveDomainRaw,
+  writeDomain,
+  type StorageDomainId,
+} from "./storageRegistry";
+import { flattenValue } from "./jsonDiff";
+
+/** Raw stored value of each captured domain */
+export type SnapshotData = Partial<Record<StorageDomainId, string>>;
+
+/** Oldest autosaves are pruned beyond this; named snapshots are never pruned */
+export const MAX_AUTO_SNAPSHOTS = 20;
+
+/** Changed fields since the last snapshot that count as a significant edit */
+export const AUTO_SNAPSHOT_MIN_CHANGES = 10;
+
+/** Smaller edits are still autosaved once the last snapshot is this old */
+export const AUTO_SNAPSHOT_MAX_AGE_MS = 30 * 60 * 1000;
+
+// ============ Capture ============
+
+/**
+ * Current raw value of every business domain in the active project
+ */
+export const captureProjectData = (): SnapshotData => {
+  const data: SnapshotData = {};
+  for (const domain of BACKUP_DOMAIN_IDS) {
+    const raw = readDomainRaw(domain);
+    if (raw !== null) {
+      data[domain] = raw;
+    }
+  }
+  return data;
+};
+
+/**
+ * Snapshots of the active project, newest first
+ */
+export const getSnapshots = (): Snapshot[] =>
+  [...readDomain("snapshots")].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const pruneAutoSnapshots = (snapshots: Snapshot[]): Snapshot[] => {
+  const autoIds = snapshots
+    .filter((snapshot) => snapshot.kind === "auto")
+    .map((snapshot) => snapshot.id)
+    .slice(MAX_AUTO_SNAPSHOTS);
+  return snapshots.filter((snapshot) => !autoIds.includes(snapshot.id));
+};
+
+const buildSnapshot = (name: string, kind: SnapshotKind): Snapshot => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || (kind === "auto" ? "Autosave" : "Untitled snapshot"),
+  createdAt: new Date().toISOString(),
+  kind,
+  data: captureProjectData(),
+});
+
+/**
+ * Save a snapshot of the current project data
+ */
+export const createSnapshot = (name: string, kind: SnapshotKind = "manual"): Snapshot => {
+  const snapshot = buildSnapshot(name, kind);
+  writeDomain("snapshots", pruneAutoSnapshots([snapshot, ...getSnapshots()]));
+  return snapshot;
+};
+
+/**
+ * Save a snapshot of the current project data, resolving once it is persisted
+ * (for callers that clear data or reload right after)
+ */
+export const saveSnapshot = async (name: string, kind: SnapshotKind = "manual"): Promise<Snapshot> => {
+  const snapshot = buildSnapshot(name, kind);
+  await saveDomainRaw("snapshots", JSON.stringify(pruneAutoSnapshots([snapshot, ...getSnapshots()])));
+  return snapshot;
+};
+
+/**
+ * Rename a snapshot; renaming an autosave keeps it from being pruned
+ */
+export const renameSnapshot = (id: string, name: string): void => {
+  writeDomain(
+    "snapshots",
+    getSnapshots().map((snapshot) =>
+      snapshot.id === id ? { ...snapshot, name: name.trim() || snapshot.name, kind: "manual" as const } : snapshot
+    )
+  );
+};
+
+export const deleteSnapshot = (id: string): void => {
+  writeDomain("snapshots", getSnapshots().filter((snapshot) => snapshot.id !== id));
+};
+
+// ============ Diff ============
+
+export type FieldChangeType = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  /** Field path within the section, e.g. "strengths[id=1].text" */
+  path: string;
+  type: FieldChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SectionDiff {
+  domain: StorageDomainId;
+  label: string;
+  changes: FieldChange[];
+}
+
+const flattenStored = (domain: StorageDomainId, raw: string | undefined): Map<string, unknown> => {
+  if (raw === undefined) return new Map();
+  try {
+    return flattenValue(parseStoredValue(domain, raw));
+  } catch {
+    return flattenValue(raw);
+  }
+};
+
+const isEqualLeaf = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level changes for one section
+ */
+export const diffSection = (domain: StorageDomainId, before?: string, after?: string): FieldChange[] => {
+  if (before === after) return [];
+
+  const beforeFields = flattenStored(domain, before);
+  const afterFields = flattenStored(domain, after);
+  const changes: FieldChange[] = [];
+
+  for (const [path, beforeValue] of beforeFields) {
+    if (!afterFields.has(path)) {
+      changes.push({ path, type: "removed", before: beforeValue });
+    } else if (!isEqualLeaf(beforeValue, afterFields.get(path))) {
+      changes.push({ path, type: "changed", before: beforeValue, after: afterFields.get(path) });
+    }
+  }
+  for (const [path, afterValue] of afterFields) {
+    if (!beforeFields.has(path)) {
+      changes.push({ path, type: "added", after: afterValue });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Field-level diff between two snapshots (or a snapshot and the current data),
+ * listing only the sections that changed
+ */
+export const diffSnapshotData = (before: SnapshotData, after: SnapshotData): SectionDiff[] =>
+  BACKUP_DOMAIN_IDS.map((domain) => ({
+    domain,
+    label: STORAGE_REGISTRY[domain].label,
+    changes: diffSection(domain, before[domain], after[domain]),
+  })).filter((section) => section.changes.length > 0);
+
+export const countChanges = (diff: SectionDiff[]): number =>
+  diff.reduce((total, section) => total + section.changes.length, 0);
+
+/**
+ * Short display form of a diffed value
+ */
+export const formatDiffValue = (value: unknown, maxLength = 80): string => {
+  if (value === undefined) return "—";
+  if (typeof value === "string") {
+    if (value.startsWith("data:")) return "[image]";
+    return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value || '""';
+  }
+  const text = JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+};
+
+// ============ Autosave ============
+
+/**
+ * Whether the edits since the last snapshot are worth an autosave
+ */
+export const shouldAutoSnapshot = (changeCount: number, lastSnapshotAt: string | undefined, now = Date.now()): boolean => {
+  if (changeCount === 0) return false;
+  if (!lastSnapshotAt || changeCount >= AUTO_SNAPSHOT_MIN_CHANGES) return true;
+  return now - new Date(lastSnapshotAt).getTime() >= AUTO_SNAPSHOT_MAX_AGE_MS;
+};
+
+/**
+ * Take an autosave if the current data differs significantly from the latest snapshot
+ * @returns the new snapshot, or null if none was needed
+ */
+export const autoSnapshotIfNeeded = (now = Date.now()): Snapshot | null => {
+  const [latest] = getSnapshots();
+  const diff = diffSnapshotData(latest?.data ?? {}, captureProjectData());
+  if (!shouldAutoSnapshot(countChanges(diff), latest?.createdAt, now)) return null;
+
+  return createSnapshot(`Autosave: ${diff.map((section) => section.label).join(", ")}`, "auto");
+};
+
+// ============ Restore ============
+
+/** A restore that stopped partway, after some sections were already written */
+export class SnapshotRestoreError extends Error {
+  /** Sections restored before the failure */
+  readonly restored: StorageDomainId[];
+  /** Name of the autosave holding the data from before the restore */
+  readonly backupName: string;
+
+  constructor(restored: StorageDomainId[], backupName: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = "SnapshotRestoreError";
+    this.restored = restored;
+    this.backupName = backupName;
+  }
+}
+
+/**
+ * Restore sections (all business sections by default) from a snapshot.
+ * The current state is autosaved first so the restore itself can be undone.
+ * Sections missing from the snapshot are cleared.
+ * @throws SnapshotRestoreError when a section fails after others were restored
+ */
+export const restoreSnapshot = async (
+  snapshot: Snapshot,
+  domains: StorageDomainId[] = BACKUP_DOMAIN_IDS
+): Promise<void> => {
+  const labels = domains.length === BACKUP_DOMAIN_IDS.length
+    ? "everything"
+    : domains.map((domain) => STORAGE_REGISTRY[domain].label).join(", ");
+  // Awaited because callers reload right after restoring
+  const backup = await saveSnapshot(`Before restoring ${labels} from "${snapshot.name}"`, "auto");
+
+  // One section at a time, so a failure can say exactly what was restored
+  const data = snapshot.data as SnapshotData;
+  const restored: StorageDomainId[] = [];
+  for (const domain of domains) {
+    const raw = data[domain];
+    try {
+      if (raw === undefined) {
+        await deleteDomain(domain);
+      } else {
+        await saveDomainRaw(domain, raw);
+      }
+    } catch (error) {
+      if (restored.length === 0) throw error;
+      throw new SnapshotRestoreError(restored, backup.name, error);
+    }
+    restored.push(domain);
+  }
+};
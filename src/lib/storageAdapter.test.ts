@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BLOB_REF_PREFIX,
+  localStorageAdapter,
+  extractDataUrls,
+  restoreDataUrls,
+  dataUrlToBlob,
+  migrateFromLocalStorage,
+  type StorageAdapter,
+} from './storageAdapter';
+
+const bigDataUrl = `data:image/png;base64,${'A'.repeat(2048)}`;
+
+const createMemoryAdapter = (): StorageAdapter => {
+  const store = new Map<string, string>();
+  return {
+    kind: 'indexedDB',
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: async (key) => {
+      store.delete(key);
+    },
+    keys: async () => Array.from(store.keys()),
+  };
+};
+
+describe('storageAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('localStorageAdapter', () => {
+    it('should read and write through localStorage', async () => {
+      await localStorageAdapter.setItem('key', 'value');
+      expect(localStorage.getItem('key')).toBe('value');
+      expect(await localStorageAdapter.getItem('key')).toBe('value');
+
+      await localStorageAdapter.removeItem('key');
+      expect(await localStorageAdapter.getItem('key')).toBeNull();
+    });
+  });
+
+  describe('extractDataUrls / restoreDataUrls', () => {
+    it('should move nested data URLs out of JSON values', () => {
+      const value = JSON.stringify([
+        { title: 'Intro', images: [{ url: bigDataUrl, size: 'large' }] },
+      ]);
+
+      const { value: stored, blobs } = extractDataUrls('pitchDeck', value);
+
+      expect(blobs.size).toBe(1);
+      expect(stored).not.toContain('base64');
+      expect(stored).toContain(BLOB_REF_PREFIX);
+      expect(restoreDataUrls(stored, blobs)).toBe(value);
+    });
+
+    it('should handle raw data URL values', () => {
+      const { value: stored, blobs } = extractDataUrls('companyLogo', bigDataUrl);
+
+      expect(stored.startsWith(BLOB_REF_PREFIX)).toBe(true);
+      expect(restoreDataUrls(stored, blobs)).toBe(bigDataUrl);
+    });
+
+    it('should leave small values and plain text untouched', () => {
+      const value = JSON.stringify({ logo: 'data:image/png;base64,AA', name: 'Mizzie' });
+      expect(extractDataUrls('brandAssets', value)).toEqual({ value, blobs: new Map() });
+      expect(extractDataUrls('notes', 'not json').value).toBe('not json');
+    });
+  });
+
+  describe('dataUrlToBlob', () => {
+    it('should decode base64 data URLs with their MIME type', () => {
+      const blob = dataUrlToBlob('data:text/plain;base64,SGVsbG8=');
+      expect(blob.type).toBe('text/plain');
+      expect(blob.size).toBe(5);
+    });
+  });
+
+  describe('migrateFromLocalStorage', () => {
+    it('should move a localStorage value into the adapter', async () => {
+      const adapter = createMemoryAdapter();
+      localStorage.setItem('pitchDeck', '[]');
+
+      expect(await migrateFromLocalStorage(adapter, 'pitchDeck')).toBe(true);
+      expect(await adapter.getItem('pitchDeck')).toBe('[]');
+      expect(localStorage.getItem('pitchDeck')).toBeNull();
+    });
+
+    it('should keep the adapter value when both exist', async () => {
+      const adapter = createMemoryAdapter();
+      await adapter.setItem('pitchDeck', '["newer"]');
+      localStorage.setItem('pitchDeck', '["older"]');
+
+      await migrateFromLocalStorage(adapter, 'pitchDeck');
+      expect(await adapter.getItem('pitchDeck')).toBe('["newer"]');
+    });
+
+    it('should do nothing for the localStorage adapter', async () => {
+      localStorage.setItem('pitchDeck', '[]');
+      expect(await migrateFromLocalStorage(localStorageAdapter, 'pitchDeck')).toBe(false);
+      expect(localStorage.getItem('pitchDeck')).toBe('[]');
+    });
+  });
+});
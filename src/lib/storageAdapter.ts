@@ -0,0 +1,347 @@
+/**
+ * Storage Adapters
+ * Async key/value persistence with localStorage and IndexedDB implementations.
+ *
+ * The IndexedDB adapter keeps an in-memory copy of every value it has loaded so
+ * existing synchronous readers keep working, and stores embedded data URLs
+ * (logos, slide images, brand assets) as Blobs instead of base64 strings.
+ *
+ * Both adapters encrypt values while the workspace vault is open (see workspaceVault.ts).
+ */
+import { decryptValue, encryptValue, isVaultOpen, readLocal, removeLocal, writeLocal } from "./workspaceVault";
+
+export type StorageBackend = "localStorage" | "indexedDB";
+
+export interface StorageAdapter {
+  readonly kind: StorageBackend;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// ============ localStorage ============
+
+export const localStorageAdapter: StorageAdapter = {
+  kind: "localStorage",
+  getItem: async (key) => readLocal(key),
+  setItem: async (key, value) => {
+    await writeLocal(key, value);
+  },
+  removeItem: async (key) => {
+    removeLocal(key);
+  },
+  keys: async () => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  },
+};
+
+// ============ Blob Helpers ============
+
+/** Prefix marking a string that was moved into the blob store */
+export const BLOB_REF_PREFIX = "mizzie-blob:";
+
+// Only externalize data URLs big enough to be worth a separate record
+const MIN_BLOB_LENGTH = 1024;
+
+export const isDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith("data:");
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, body = ""] = dataUrl.split(",", 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || "application/octet-stream";
+
+  if (!header.includes(";base64")) {
+    return new Blob([decodeURIComponent(body)], { type: mimeType });
+  }
+
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Replace large data URLs in a stored value with blob references.
+ * Works for JSON values (any nested string) and raw strings (the whole value).
+ * @returns the value with references and the extracted data URLs by blob id
+ */
+export const extractDataUrls = (
+  key: string,
+  value: string
+): { value: string; blobs: Map<string, string> } => {
+  const blobs = new Map<string, string>();
+  const shouldExtract = (candidate: unknown): candidate is string =>
+    isDataUrl(candidate) && candidate.length >= MIN_BLOB_LENGTH;
+
+  if (shouldExtract(value)) {
+    const id = `${key}#`;
+    blobs.set(id, value);
+    return { value: BLOB_REF_PREFIX + id, blobs };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return { value, blobs };
+  }
+
+  const walk = (node: unknown, path: string): unknown => {
+    if (shouldExtract(node)) {
+      const id = `${key}#${path}`;
+      blobs.set(id, node);
+      return BLOB_REF_PREFIX + id;
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => walk(item, `${path}/${index}`));
+    }
+    if (node && typeof node === "object") {
+      return Object.fromEntries(
+        Object.entries(node).map(([field, item]) => [field, walk(item, `${path}/${field}`)])
+      );
+    }
+    return node;
+  };
+
+  const replaced = walk(parsed, "");
+  return blobs.size > 0 ? { value: JSON.stringify(replaced), blobs } : { value, blobs };
+};
+
+/**
+ * Inverse of extractDataUrls: swap blob references back for data URLs
+ */
+export const restoreDataUrls = (value: string, blobs: Map<string, string>): string => {
+  if (value.startsWith(BLOB_REF_PREFIX)) {
+    return blobs.get(value.slice(BLOB_REF_PREFIX.length)) ?? "";
+  }
+  if (!value.includes(BLOB_REF_PREFIX)) return value;
+
+  const restore = (node: unknown): unknown => {
+    if (typeof node === "string" && node.startsWith(BLOB_REF_PREFIX)) {
+      return blobs.get(node.slice(BLOB_REF_PREFIX.length)) ?? "";
+    }
+    if (Array.isArray(node)) return node.map(restore);
+    if (node && typeof node === "object") {
+      return Object.fromEntries(Object.entries(node).map(([field, item]) => [field, restore(item)]));
+    }
+    return node;
+  };
+
+  return JSON.stringify(restore(JSON.parse(value)));
+};
+
+// ============ IndexedDB ============
+
+const DB_NAME = "mizzie-storage";
+const DB_VERSION = 1;
+const VALUES_STORE = "values";
+const BLOBS_STORE = "blobs";
+
+interface StoredRecord {
+  value: string;
+  blobIds: string[];
+}
+
+export const isIndexedDBSupported = (): boolean =>
+  typeof indexedDB !== "undefined" && indexedDB !== null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly kind = "indexedDB" as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private cache = new Map<string, string | null>();
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(VALUES_STORE)) db.createObjectStore(VALUES_STORE);
+          if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Synchronous read of a loaded value.
+   * @returns undefined when the key has not been loaded yet
+   */
+  peek(key: string): string | null | undefined {
+    return this.cache.get(key);
+  }
+
+  /**
+   * Load keys into the in-memory cache so peek() can serve them
+   */
+  async hydrate(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.getItem(key)));
+  }
+
+  /**
+   * Replace a loaded value with one another tab has already persisted
+   */
+  refreshCached(key: string, value: string | null): void {
+    if (this.cache.has(key)) this.cache.set(key, value);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    if (this.cache.has(key)) return this.cache.get(key) ?? null;
+
+    const db = await this.open();
+    const tx = db.transaction([VALUES_STORE, BLOBS_STORE], "readonly");
+    const record = await promisifyRequest<StoredRecord | undefined>(tx.objectStore(VALUES_STORE).get(key));
+    if (!record) {
+      this.cache.set(key, null);
+      return null;
+    }
+
+    // Issue every blob read before awaiting so the transaction stays active
+    const blobStore = tx.objectStore(BLOBS_STORE);
+    const storedBlobs = await Promise.all(
+      record.blobIds.map((id) => promisifyRequest<Blob | undefined>(blobStore.get(id)))
+    );
+
+    const blobs = new Map<string, string>();
+    for (const [index, blob] of storedBlobs.entries()) {
+      if (blob) blobs.set(record.blobIds[index], await blobToDataUrl(blob));
+    }
+
+    const value = await decryptValue(restoreDataUrls(record.value, blobs));
+    this.cache.set(key, value);
+    return value;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    // Update the cache first so synchronous readers see the write immediately
+    this.cache.set(key, value);
+
+    // Encrypted values are stored whole: the images inside them are sensitive too
+    const { value: stored, blobs } = isVaultOpen()
+      ? { value: await encryptValue(value), blobs: new Map<string, string>() }
+      : extractDataUrls(key, value);
+    // A newer write started while this one was encrypting
+    if (this.cache.get(key) !== value) return;
+
+    const db = await this.open();
+    const tx = db.transaction([VALUES_STORE, BLOBS_STORE], "readwrite");
+    const values = tx.objectStore(VALUES_STORE);
+    const blobStore = tx.objectStore(BLOBS_STORE);
+
+    const previous = await promisifyRequest<StoredRecord | undefined>(values.get(key));
+    for (const id of previous?.blobIds ?? []) {
+      if (!blobs.has(id)) blobStore.delete(id);
+    }
+    for (const [id, dataUrl] of blobs) {
+      blobStore.put(dataUrlToBlob(dataUrl), id);
+    }
+    values.put({ value: stored, blobIds: Array.from(blobs.keys()) } satisfies StoredRecord, key);
+
+    await promisifyTransaction(tx);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.cache.set(key, null);
+
+    const db = await this.open();
+    const tx = db.transaction([VALUES_STORE, BLOBS_STORE], "readwrite");
+    const previous = await promisifyRequest<StoredRecord | undefined>(tx.objectStore(VALUES_STORE).get(key));
+    for (const id of previous?.blobIds ?? []) {
+      tx.objectStore(BLOBS_STORE).delete(id);
+    }
+    tx.objectStore(VALUES_STORE).delete(key);
+
+    await promisifyTransaction(tx);
+  }
+
+  async keys(): Promise<string[]> {
+    const db = await this.open();
+    const tx = db.transaction(VALUES_STORE, "readonly");
+    const keys = await promisifyRequest(tx.objectStore(VALUES_STORE).getAllKeys());
+    return keys.map(String);
+  }
+}
+
+let sharedIndexedDBAdapter: IndexedDBAdapter | null = null;
+
+/**
+ * Shared IndexedDB adapter, or null when IndexedDB is unavailable
+ */
+export const getIndexedDBAdapter = (): IndexedDBAdapter | null => {
+  if (!isIndexedDBSupported()) return null;
+  if (!sharedIndexedDBAdapter) {
+    sharedIndexedDBAdapter = new IndexedDBAdapter();
+  }
+  return sharedIndexedDBAdapter;
+};
+
+/**
+ * Move a key from localStorage into another adapter when the adapter doesn't have it yet.
+ * @returns true if a value was migrated
+ */
+export const migrateFromLocalStorage = async (adapter: StorageAdapter, key: string): Promise<boolean> => {
+  if (adapter.kind === "localStorage") return false;
+
+  const legacyValue = readLocal(key);
+  if (legacyValue === null) return false;
+
+  if ((await adapter.getItem(key)) === null) {
+    await adapter.setItem(key, legacyValue);
+  }
+  removeLocal(key);
+  return true;
+};
+
+// ============ Quota ============
+
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Real origin usage and quota from the Storage API, when the browser supports it
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimateInfo | null> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
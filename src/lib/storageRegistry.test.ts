@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  STORAGE_REGISTRY,
+  STORAGE_DOMAIN_IDS,
+  getAllStorageKeys,
+  findDomainByKey,
+  readDomain,
+  writeDomain,
+  validateStoredValue,
+  migrateLegacyKeys,
+  migrateLegacyStorage,
+} from './storageRegistry';
+
+describe('storageRegistry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('registry', () => {
+    it('should use a unique storage key per domain', () => {
+      const keys = getAllStorageKeys();
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should have defaults that pass each domain schema', () => {
+      for (const domain of STORAGE_DOMAIN_IDS) {
+        const { schema, defaultValue } = STORAGE_REGISTRY[domain];
+        expect(schema.safeParse(defaultValue).success).toBe(true);
+      }
+    });
+
+    it('should find the domain for a storage key', () => {
+      expect(findDomainByKey('swotAnalysis')).toBe('swot');
+      expect(findDomainByKey('unknown-key')).toBeUndefined();
+    });
+  });
+
+  describe('readDomain / writeDomain', () => {
+    it('should return the default value when nothing is stored', () => {
+      expect(readDomain('roadmap')).toEqual([]);
+      expect(readDomain('canvas').keyPartners).toBe('');
+    });
+
+    it('should round-trip a value through its storage key', () => {
+      writeDomain('swot', {
+        strengths: [{ id: '1', text: 'Strong brand' }],
+        weaknesses: [],
+        opportunities: [],
+        threats: [],
+      });
+
+      expect(localStorage.setItem).toHaveBeenCalledWith('swotAnalysis', expect.any(String));
+      expect(readDomain('swot').strengths).toHaveLength(1);
+    });
+
+    it('should fall back to the default for invalid data', () => {
+      localStorage.setItem('roadmap', JSON.stringify([{ id: 1 }]));
+      expect(readDomain('roadmap')).toEqual([]);
+    });
+
+    it('should store raw domains without JSON encoding', () => {
+      writeDomain('companyLogo', 'data:image/png;base64,abc');
+      expect(localStorage.getItem('companyLogo')).toBe('data:image/png;base64,abc');
+      expect(readDomain('companyLogo')).toBe('data:image/png;base64,abc');
+    });
+  });
+
+  describe('validateStoredValue', () => {
+    it('should report invalid JSON', () => {
+      const result = validateStoredValue('canvas', 'not json {');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('legacy migration', () => {
+    it('should move data from a legacy key to the current key', () => {
+      const canvas = { keyPartners: 'Legacy partner' };
+      localStorage.setItem('canvas', JSON.stringify(canvas));
+
+      expect(migrateLegacyKeys('canvas')).toBe(true);
+      expect(localStorage.getItem('canvas')).toBeNull();
+      expect(readDomain('canvas').keyPartners).toBe('Legacy partner');
+    });
+
+    it('should not overwrite data already under the current key', () => {
+      localStorage.setItem('swotAnalysis', JSON.stringify({ strengths: [{ id: '1', text: 'Current' }] }));
+      localStorage.setItem('swot', JSON.stringify({ strengths: [{ id: '2', text: 'Legacy' }] }));
+
+      expect(migrateLegacyKeys('swot')).toBe(false);
+      expect(readDomain('swot').strengths[0].text).toBe('Current');
+    });
+
+    it('should leave invalid legacy data in place', () => {
+      localStorage.setItem('mizzie-roadmap', 'not json {');
+
+      expect(migrateLegacyKeys('roadmap')).toBe(false);
+      expect(localStorage.getItem('mizzie-roadmap')).toBe('not json {');
+    });
+
+    it('should report every migrated domain', () => {
+      localStorage.setItem('porters', JSON.stringify({}));
+      localStorage.setItem('forecast', JSON.stringify({ year1Revenue: '1000' }));
+
+      expect(migrateLegacyStorage().sort()).toEqual(['forecasting', 'porters']);
+    });
+  });
+});
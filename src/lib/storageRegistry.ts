@@ -0,0 +1,550 @@
+/**
+ * Storage Registry
+ * Single source of truth for every persisted Mizzie domain: its storage key,
+ * Zod schema, default value, storage backend and any legacy keys it used to live under.
+ *
+ * Domain keys are namespaced per project. The default project keeps the original,
+ * unprefixed keys so data saved before projects existed stays where it is.
+ */
+import { z } from "zod";
+import {
+  getIndexedDBAdapter,
+  localStorageAdapter,
+  migrateFromLocalStorage,
+  type StorageAdapter,
+  type StorageBackend,
+} from "./storageAdapter";
+import { publishChange, subscribeToRemoteChanges } from "./crossTabSync";
+import { readLocal, removeLocal, writeLocal } from "./workspaceVault";
+import {
+  CanvasDataSchema,
+  BusinessPlanDataSchema,
+  DEFAULT_BUSINESS_PLAN_DATA,
+  PitchDeckDataSchema,
+  RoadmapDataSchema,
+  OrgChartDataSchema,
+  ChecklistDataSchema,
+  ForecastDataSchema,
+  FinancialsDataSchema,
+  DEFAULT_FINANCIALS_DATA,
+  FinancialModelSchema,
+  CapTableDataSchema,
+  SWOTDataSchema,
+  PortersDataSchema,
+  MarketResearchDataSchema,
+  NameCheckerStorageSchema,
+  BrandStrategySchema,
+  AssetsDataSchema,
+  BrandColorsSchema,
+  DEFAULT_BRAND_COLORS,
+  SnapshotsDataSchema,
+  AIThreadsDataSchema,
+  PlanReviewsDataSchema,
+} from "./validators";
+
+// ============ Types ============
+
+export interface StorageDomain<T> {
+  /** Storage key the domain is persisted under */
+  key: string;
+  /** Human-readable name used in backups, imports and storage usage */
+  label: string;
+  /** Schema used to validate stored values */
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Value used when nothing (valid) is stored */
+  defaultValue: T;
+  /** Keys older versions of the app read or wrote for this domain */
+  legacyKeys?: string[];
+  /** Stored as a plain string instead of JSON */
+  raw?: boolean;
+  /** Preferred backend; large, image-heavy domains live in IndexedDB when available */
+  backend?: StorageBackend;
+  /** Kept out of backups, snapshots and project copies (e.g. the version history itself) */
+  excludeFromBackup?: boolean;
+}
+
+const defineDomain = <T>(domain: StorageDomain<T>): StorageDomain<T> => domain;
+
+// ============ Registry ============
+
+export const STORAGE_REGISTRY = {
+  canvas: defineDomain({
+    key: "businessModelCanvas",
+    label: "Business Model Canvas",
+    schema: CanvasDataSchema,
+    defaultValue: CanvasDataSchema.parse({}),
+    legacyKeys: ["canvas", "mizzie-canvas"],
+  }),
+  businessPlan: defineDomain({
+    key: "businessPlan",
+    label: "Business Plan",
+    schema: BusinessPlanDataSchema,
+    defaultValue: DEFAULT_BUSINESS_PLAN_DATA,
+  }),
+  pitchDeck: defineDomain({
+    key: "pitchDeck",
+    label: "Pitch Deck",
+    schema: PitchDeckDataSchema,
+    defaultValue: [],
+    legacyKeys: ["mizzie-pitch-deck"],
+    backend: "indexedDB",
+  }),
+  roadmap: defineDomain({
+    key: "roadmap",
+    label: "Roadmap",
+    schema: RoadmapDataSchema,
+    defaultValue: [],
+    legacyKeys: ["mizzie-roadmap"],
+  }),
+  orgChart: defineDomain({
+    key: "orgChart",
+    label: "Team & Org Chart",
+    schema: OrgChartDataSchema,
+    defaultValue: [],
+    legacyKeys: ["mizzie-org-chart"],
+  }),
+  checklist: defineDomain({
+    key: "checklist",
+    label: "Checklist",
+    schema: ChecklistDataSchema,
+    defaultValue: [],
+    legacyKeys: ["mizzie-checklist"],
+  }),
+  completedBrandActions: defineDomain({
+    key: "completedBrandActions",
+    label: "Completed Brand Actions",
+    schema: z.array(z.string()),
+    defaultValue: [],
+  }),
+  completedBusinessTasks: defineDomain({
+    key: "completedBusinessTasks",
+    label: "Completed Business Tasks",
+    schema: z.array(z.string()),
+    defaultValue: [],
+  }),
+  forecasting: defineDomain({
+    key: "forecasting",
+    label: "Financial Forecasting",
+    schema: ForecastDataSchema,
+    defaultValue: ForecastDataSchema.parse({}),
+    legacyKeys: ["forecast", "mizzie-forecasting"],
+  }),
+  financials: defineDomain({
+    key: "financials",
+    label: "Financials",
+    schema: FinancialsDataSchema,
+    defaultValue: DEFAULT_FINANCIALS_DATA,
+  }),
+  financialModel: defineDomain({
+    key: "financialModel",
+    label: "Monthly Financial Model",
+    schema: FinancialModelSchema,
+    defaultValue: FinancialModelSchema.parse({}),
+  }),
+  capTable: defineDomain({
+    key: "capTable",
+    label: "Cap Table",
+    schema: CapTableDataSchema,
+    defaultValue: CapTableDataSchema.parse({}),
+  }),
+  swot: defineDomain({
+    key: "swotAnalysis",
+    label: "SWOT Analysis",
+    schema: SWOTDataSchema,
+    defaultValue: SWOTDataSchema.parse({}),
+    legacyKeys: ["swot", "mizzie-swot"],
+  }),
+  porters: defineDomain({
+    key: "portersFiveForces",
+    label: "Porter's Five Forces",
+    schema: PortersDataSchema,
+    defaultValue: PortersDataSchema.parse({}),
+    legacyKeys: ["porters", "mizzie-porters"],
+  }),
+  marketResearch: defineDomain({
+    key: "marketResearch",
+    label: "Market Research",
+    schema: MarketResearchDataSchema,
+    defaultValue: MarketResearchDataSchema.parse({}),
+    legacyKeys: ["mizzie-market-research"],
+  }),
+  nameChecker: defineDomain({
+    key: "nameChecker",
+    label: "Name Checker",
+    schema: NameCheckerStorageSchema,
+    defaultValue: NameCheckerStorageSchema.parse({}),
+  }),
+  brandStrategy: defineDomain({
+    key: "brandStrategy",
+    label: "Brand Strategy",
+    schema: BrandStrategySchema,
+    defaultValue: BrandStrategySchema.parse({}),
+  }),
+  brandAssets: defineDomain({
+    key: "brandAssets",
+    label: "Brand Assets (Images)",
+    schema: AssetsDataSchema,
+    defaultValue: [],
+    legacyKeys: ["mizzie-brand-assets"],
+    backend: "indexedDB",
+  }),
+  brandColors: defineDomain({
+    key: "brandColors",
+    label: "Brand Colors",
+    schema: BrandColorsSchema,
+    defaultValue: DEFAULT_BRAND_COLORS,
+  }),
+  companyLogo: defineDomain<string | null>({
+    key: "companyLogo",
+    label: "Company Logo",
+    schema: z.string().startsWith("data:").nullable(),
+    defaultValue: null,
+    raw: true,
+    backend: "indexedDB",
+  }),
+  snapshots: defineDomain({
+    key: "snapshots",
+    label: "Version History",
+    schema: SnapshotsDataSchema,
+    defaultValue: [],
+    backend: "indexedDB",
+    excludeFromBackup: true,
+  }),
+  aiThreads: defineDomain({
+    key: "aiThreads",
+    label: "Mizzie Conversations",
+    schema: AIThreadsDataSchema,
+    defaultValue: AIThreadsDataSchema.parse({}),
+    backend: "indexedDB",
+    excludeFromBackup: true,
+  }),
+  planReviews: defineDomain({
+    key: "planReviews",
+    label: "Plan Reviews",
+    schema: PlanReviewsDataSchema,
+    defaultValue: PlanReviewsDataSchema.parse({}),
+  }),
+};
+
+export type StorageRegistry = typeof STORAGE_REGISTRY;
+export type StorageDomainId = keyof StorageRegistry;
+export type DomainValue<D extends StorageDomainId> =
+  StorageRegistry[D] extends StorageDomain<infer T> ? T : never;
+
+export const STORAGE_DOMAIN_IDS = Object.keys(STORAGE_REGISTRY) as StorageDomainId[];
+
+/** Domains that make up a project's business data (backups, snapshots, copies) */
+export const BACKUP_DOMAIN_IDS = STORAGE_DOMAIN_IDS.filter(
+  (domain) => !(STORAGE_REGISTRY[domain] as StorageDomain<unknown>).excludeFromBackup
+);
+
+const getDomain = <D extends StorageDomainId>(domain: D): StorageDomain<DomainValue<D>> =>
+  STORAGE_REGISTRY[domain] as unknown as StorageDomain<DomainValue<D>>;
+
+// ============ Projects ============
+
+/** Global (not namespaced) key holding the project list and the active project */
+export const PROJECTS_KEY = "mizzie-projects";
+
+/** Project whose data lives under the original, unprefixed keys */
+export const DEFAULT_PROJECT_ID = "default";
+
+/**
+ * Id of the project the app is currently working in
+ */
+export const getActiveProjectId = (): string => {
+  try {
+    const stored = localStorage.getItem(PROJECTS_KEY);
+    const activeProjectId = stored ? JSON.parse(stored)?.activeProjectId : undefined;
+    return typeof activeProjectId === "string" && activeProjectId ? activeProjectId : DEFAULT_PROJECT_ID;
+  } catch {
+    return DEFAULT_PROJECT_ID;
+  }
+};
+
+/**
+ * Namespace a storage key for a project
+ */
+export const getProjectStorageKey = (key: string, projectId: string): string =>
+  projectId === DEFAULT_PROJECT_ID ? key : `project:${projectId}:${key}`;
+
+/**
+ * Get the storage key for a domain (in the active project unless one is given)
+ */
+export const getStorageKey = (domain: StorageDomainId, projectId: string = getActiveProjectId()): string =>
+  getProjectStorageKey(STORAGE_REGISTRY[domain].key, projectId);
+
+/**
+ * Every storage key owned by the registry for a project
+ */
+export const getAllStorageKeys = (projectId: string = getActiveProjectId()): string[] =>
+  STORAGE_DOMAIN_IDS.map((domain) => getStorageKey(domain, projectId));
+
+/**
+ * Find the domain a storage key of the active project belongs to
+ */
+export const findDomainByKey = (key: string): StorageDomainId | undefined => {
+  const projectId = getActiveProjectId();
+  return STORAGE_DOMAIN_IDS.find((domain) => getStorageKey(domain, projectId) === key);
+};
+
+// ============ Serialization ============
+
+/**
+ * Parse a raw stored string into a value (without validation)
+ */
+export const parseStoredValue = (domain: StorageDomainId, raw: string): unknown =>
+  STORAGE_REGISTRY[domain].raw ? raw : JSON.parse(raw);
+
+/**
+ * Serialize a value into the string stored for a domain
+ */
+export const serializeValue = (domain: StorageDomainId, value: unknown): string =>
+  STORAGE_REGISTRY[domain].raw ? String(value) : JSON.stringify(value);
+
+/**
+ * Validate a raw stored string against a domain's schema
+ */
+export const validateStoredValue = <D extends StorageDomainId>(
+  domain: D,
+  raw: string
+): { success: true; data: DomainValue<D> } | { success: false; error: string } => {
+  try {
+    const result = getDomain(domain).schema.safeParse(parseStoredValue(domain, raw));
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+    return { success: false, error: result.error.message };
+  } catch {
+    return { success: false, error: "Invalid JSON format" };
+  }
+};
+
+// ============ Change Events ============
+
+/** Window event fired whenever a domain is written or removed */
+export const STORAGE_DOMAIN_CHANGED_EVENT = "storageDomainChanged";
+
+export interface StorageDomainChangedDetail {
+  domain: StorageDomainId;
+  projectId: string;
+  /** Written by another tab (see crossTabSync) */
+  remote?: boolean;
+}
+
+/**
+ * Let listeners (autosave snapshots, sync) know a domain changed
+ */
+export const notifyDomainChanged = (
+  domain: StorageDomainId,
+  projectId: string = getActiveProjectId(),
+  remote = false
+): void => {
+  window.dispatchEvent(
+    new CustomEvent<StorageDomainChangedDetail>(STORAGE_DOMAIN_CHANGED_EVENT, {
+      detail: { domain, projectId, ...(remote ? { remote } : {}) },
+    })
+  );
+};
+
+// Re-announce the active project's domains written in other tabs
+subscribeToRemoteChanges(({ key }) => {
+  const domain = findDomainByKey(key);
+  if (domain) notifyDomainChanged(domain, undefined, true);
+});
+
+// ============ Backends ============
+
+/**
+ * Adapter a domain is persisted with (falls back to localStorage without IndexedDB)
+ */
+export const getDomainAdapter = (domain: StorageDomainId): StorageAdapter => {
+  if (STORAGE_REGISTRY[domain].backend === "indexedDB") {
+    return getIndexedDBAdapter() ?? localStorageAdapter;
+  }
+  return localStorageAdapter;
+};
+
+const persist = (domain: StorageDomainId, write: (adapter: StorageAdapter) => Promise<void>): void => {
+  write(getDomainAdapter(domain)).catch((error) => {
+    console.error(`[storageRegistry] Failed to persist "${domain}":`, error);
+  });
+};
+
+/**
+ * Move the active project's IndexedDB-backed domains out of localStorage and load them
+ * into memory, so synchronous reads keep working. Call once before rendering the app.
+ */
+export const hydrateStorage = async (): Promise<void> => {
+  const adapter = getIndexedDBAdapter();
+  if (!adapter) return;
+
+  const projectId = getActiveProjectId();
+  const domains = STORAGE_DOMAIN_IDS.filter((domain) => STORAGE_REGISTRY[domain].backend === "indexedDB");
+  await Promise.all(
+    domains.map(async (domain) => {
+      try {
+        await migrateFromLocalStorage(adapter, getStorageKey(domain, projectId));
+      } catch (error) {
+        // Keep the localStorage copy; reads fall back to it
+        console.error(`[storageRegistry] Failed to move "${domain}" to IndexedDB:`, error);
+      }
+    })
+  );
+  await adapter.hydrate(domains.map((domain) => getStorageKey(domain, projectId)));
+};
+
+// ============ Read / Write ============
+
+/**
+ * Read the raw stored string for a domain.
+ * IndexedDB-backed domains are only available synchronously once hydrated,
+ * so use loadDomainRaw for projects other than the active one.
+ */
+export const readDomainRaw = (domain: StorageDomainId, projectId?: string): string | null => {
+  const key = getStorageKey(domain, projectId);
+  const adapter = getDomainAdapter(domain);
+  if (adapter.kind === "indexedDB") {
+    const cached = getIndexedDBAdapter()?.peek(key);
+    // Not hydrated (or migration failed): the value may still be in localStorage
+    if (cached !== undefined && cached !== null) return cached;
+  }
+  return readLocal(key);
+};
+
+/**
+ * Read the raw stored string for a domain of any project, loading it from its backend
+ */
+export const loadDomainRaw = async (domain: StorageDomainId, projectId?: string): Promise<string | null> => {
+  const key = getStorageKey(domain, projectId);
+  const adapter = getDomainAdapter(domain);
+  if (adapter.kind === "indexedDB") {
+    const stored = await adapter.getItem(key);
+    if (stored !== null) return stored;
+  }
+  return readLocal(key);
+};
+
+/**
+ * Write an already-serialized value for a domain
+ */
+export const writeDomainRaw = (domain: StorageDomainId, raw: string, projectId?: string): void => {
+  const key = getStorageKey(domain, projectId);
+  if (getDomainAdapter(domain).kind === "indexedDB") {
+    persist(domain, (adapter) => adapter.setItem(key, raw));
+    removeLocal(key);
+  } else {
+    writeLocal(key, raw);
+  }
+  notifyDomainChanged(domain, projectId);
+  publishChange(key, raw);
+};
+
+/**
+ * Write an already-serialized value for a domain, resolving once it is persisted
+ */
+export const saveDomainRaw = async (domain: StorageDomainId, raw: string, projectId?: string): Promise<void> => {
+  const key = getStorageKey(domain, projectId);
+  const adapter = getDomainAdapter(domain);
+  await adapter.setItem(key, raw);
+  if (adapter.kind === "indexedDB") {
+    removeLocal(key);
+  }
+  notifyDomainChanged(domain, projectId);
+  publishChange(key, raw);
+};
+
+/**
+ * Read and validate a domain, falling back to its default value
+ */
+export const readDomain = <D extends StorageDomainId>(domain: D): DomainValue<D> => {
+  const raw = readDomainRaw(domain);
+  if (!raw) return getDomain(domain).defaultValue;
+
+  const result = validateStoredValue(domain, raw);
+  if (result.success) return result.data;
+
+  console.warn(`[storageRegistry] Invalid data for "${domain}", using default:`, result.error);
+  return getDomain(domain).defaultValue;
+};
+
+/**
+ * Check whether anything is stored for a domain
+ */
+export const hasDomainData = (domain: StorageDomainId): boolean => readDomainRaw(domain) !== null;
+
+/**
+ * Write a domain value to storage
+ */
+export const writeDomain = <D extends StorageDomainId>(domain: D, value: DomainValue<D>): void => {
+  writeDomainRaw(domain, serializeValue(domain, value));
+};
+
+/**
+ * Remove a domain from storage
+ */
+export const removeDomain = (domain: StorageDomainId, projectId?: string): void => {
+  const key = getStorageKey(domain, projectId);
+  if (getDomainAdapter(domain).kind === "indexedDB") {
+    persist(domain, (adapter) => adapter.removeItem(key));
+  }
+  removeLocal(key);
+  notifyDomainChanged(domain, projectId);
+  publishChange(key, null);
+};
+
+/**
+ * Remove a domain from storage, resolving once it is removed from its backend
+ */
+export const deleteDomain = async (domain: StorageDomainId, projectId?: string): Promise<void> => {
+  const key = getStorageKey(domain, projectId);
+  const adapter = getDomainAdapter(domain);
+  if (adapter.kind === "indexedDB") {
+    await adapter.removeItem(key);
+  }
+  removeLocal(key);
+  notifyDomainChanged(domain, projectId);
+  publishChange(key, null);
+};
+
+// ============ Legacy Migration ============
+
+/**
+ * Move data found under a domain's legacy keys to its current key.
+ * Legacy keys predate projects, so their data always belongs to the default project.
+ * Legacy values are only copied when the current key is empty and the value validates;
+ * the legacy key is removed once it has been migrated.
+ * @returns true if data was migrated
+ */
+export const migrateLegacyKeys = (domain: StorageDomainId): boolean => {
+  const { key, legacyKeys = [] } = STORAGE_REGISTRY[domain];
+
+  for (const legacyKey of legacyKeys) {
+    const legacyValue = localStorage.getItem(legacyKey);
+    if (legacyValue === null) continue;
+    if (readDomainRaw(domain, DEFAULT_PROJECT_ID) !== null) return false;
+
+    if (validateStoredValue(domain, legacyValue).success) {
+      writeDomainRaw(domain, legacyValue, DEFAULT_PROJECT_ID);
+      localStorage.removeItem(legacyKey);
+      console.log(`[storageRegistry] Migrated "${legacyKey}" to "${key}"`);
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Migrate every domain's legacy keys
+ * @returns ids of the domains that were migrated
+ */
+export const migrateLegacyStorage = (): StorageDomainId[] =>
+  STORAGE_DOMAIN_IDS.filter((domain) => {
+    try {
+      return migrateLegacyKeys(domain);
+    } catch (error) {
+      console.error(`[storageRegistry] Failed to migrate "${domain}":`, error);
+      return false;
+    }
+  });
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  COALESCE_WINDOW_MS,
+  recordChange,
+  getHistoryState,
+  registerHistoryTarget,
+  undo,
+  redo,
+  undoTo,
+  clearHistory,
+} from './undoHistory';
+
+describe('undoHistory', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    clearHistory();
+  });
+
+  it('should undo and redo a recorded change', async () => {
+    localStorage.setItem('roadmap', '[1]');
+    recordChange('Delete milestone', [{ key: 'roadmap', before: '[1,2]', after: '[1]' }]);
+
+    expect((await undo())?.label).toBe('Delete milestone');
+    expect(localStorage.getItem('roadmap')).toBe('[1,2]');
+    expect(getHistoryState().future).toHaveLength(1);
+
+    await redo();
+    expect(localStorage.getItem('roadmap')).toBe('[1]');
+    expect(getHistoryState().past).toHaveLength(1);
+  });
+
+  it('should merge quick edits with the same label into one entry', () => {
+    const now = Date.now();
+    recordChange('Edit Canvas', [{ key: 'canvas', before: 'a', after: 'ab' }], { now });
+    recordChange('Edit Canvas', [{ key: 'canvas', before: 'ab', after: 'abc' }], { now: now + 100 });
+    recordChange('Edit Canvas', [{ key: 'canvas', before: 'abc', after: 'abcd' }], {
+      now: now + 100 + COALESCE_WINDOW_MS + 1,
+    });
+
+    const { past } = getHistoryState();
+    expect(past).toHaveLength(2);
+    expect(past[0].changes[0]).toEqual({ key: 'canvas', before: 'a', after: 'abc' });
+  });
+
+  it('should merge quick edits to the same set of keys and undo them together', async () => {
+    const now = Date.now();
+    localStorage.setItem('financials', '{"price":12}');
+    localStorage.setItem('businessPlan', '{"target":"$12"}');
+    recordChange('Edit unit economics', [
+      { key: 'financials', before: '{"price":0}', after: '{"price":1}' },
+      { key: 'businessPlan', before: '{"target":""}', after: '{"target":"$1"}' },
+    ], { now });
+    recordChange('Edit unit economics', [
+      { key: 'financials', before: '{"price":1}', after: '{"price":12}' },
+      { key: 'businessPlan', before: '{"target":"$1"}', after: '{"target":"$12"}' },
+    ], { now: now + 100 });
+
+    expect(getHistoryState().past).toHaveLength(1);
+
+    await undo();
+    expect(localStorage.getItem('financials')).toBe('{"price":0}');
+    expect(localStorage.getItem('businessPlan')).toBe('{"target":""}');
+  });
+
+  it('should clear the redo stack on a new change', async () => {
+    recordChange('First', [{ key: 'a', before: null, after: '1' }]);
+    await undo();
+    recordChange('Second', [{ key: 'b', before: null, after: '2' }]);
+
+    expect(getHistoryState().future).toHaveLength(0);
+  });
+
+  it('should undo back to an entry and update mounted editors', async () => {
+    const apply = vi.fn();
+    const unregister = registerHistoryTarget('swot', { apply, flush: vi.fn() });
+
+    recordChange('Add strength', [{ key: 'swot', before: null, after: '{"a":1}' }]);
+    recordChange('Add threat', [{ key: 'swot', before: '{"a":1}', after: '{"a":1,"b":2}' }]);
+
+    const undone = await undoTo(getHistoryState().past[0].id);
+
+    expect(undone.map((entry) => entry.label)).toEqual(['Add threat', 'Add strength']);
+    expect(apply).toHaveBeenLastCalledWith(null);
+    expect(localStorage.getItem('swot')).toBeNull();
+    unregister();
+  });
+
+  it('should keep the history across reloads in sessionStorage', () => {
+    recordChange('Clear all data', [{ key: 'roadmap', before: '[]', after: null }], { reload: true });
+
+    const stored = JSON.parse(sessionStorage.getItem('mizzie-undo-history') ?? '{}');
+    expect(stored.past[0]).toMatchObject({ label: 'Clear all data', reload: true });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Undo History
+ * App-wide undo/redo stack of storage transitions recorded by useLocalStorage setters
+ * (and bulk actions such as clearing all data).
+ *
+ * The stack lives at module level so it survives tab switches, and is mirrored to
+ * sessionStorage (per project) so it survives the reloads done by bulk actions.
+ * Encrypted workspaces keep it in memory only, so no plaintext copy is written.
+ */
+import { z } from "zod";
+import {
+  deleteDomain,
+  findDomainByKey,
+  getActiveProjectId,
+  getProjectStorageKey,
+  saveDomainRaw,
+} from "./storageRegistry";
+import { isVaultOpen } from "./workspaceVault";
+
+// ============ Types ============
+
+const StorageChangeSchema = z.object({
+  key: z.string(),
+  before: z.string().nullable(),
+  after: z.string().nullable(),
+});
+export type StorageChange = z.infer<typeof StorageChangeSchema>;
+
+const HistoryEntrySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  timestamp: z.number(),
+  changes: z.array(StorageChangeSchema),
+  /** Undoing or redoing needs a reload because non-hook readers are affected */
+  reload: z.boolean().optional(),
+});
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+const HistoryStateSchema = z.object({
+  past: z.array(HistoryEntrySchema),
+  future: z.array(HistoryEntrySchema),
+});
+export type HistoryState = z.infer<typeof HistoryStateSchema>;
+
+/** Mounted editor bound to a storage key (see useLocalStorage) */
+export interface HistoryTarget {
+  /** Show a value restored by undo/redo (null = nothing stored) */
+  apply: (value: string | null) => void;
+  /** Save edits still waiting on a debounce, so they are recorded first */
+  flush: () => void;
+}
+
+const HISTORY_KEY = "mizzie-undo-history";
+export const MAX_HISTORY_ENTRIES = 50;
+
+/** Consecutive edits to the same key with the same label within this window become one entry */
+export const COALESCE_WINDOW_MS = 1500;
+
+// ============ State ============
+
+let state: HistoryState | null = null;
+const subscribers = new Set<() => void>();
+const targets = new Map<string, Set<HistoryTarget>>();
+
+const getSessionKey = () => getProjectStorageKey(HISTORY_KEY, getActiveProjectId());
+
+const loadState = (): HistoryState => {
+  try {
+    const stored = sessionStorage.getItem(getSessionKey());
+    if (stored) {
+      const result = HistoryStateSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+    }
+  } catch (error) {
+    console.error("[undoHistory] Failed to load history:", error);
+  }
+  return { past: [], future: [] };
+};
+
+const persistState = (next: HistoryState) => {
+  if (isVaultOpen()) {
+    sessionStorage.removeItem(getSessionKey());
+    return;
+  }
+
+  // Drop the oldest entries until the history fits (large images can exceed the quota)
+  let past = next.past;
+  for (;;) {
+    try {
+      sessionStorage.setItem(getSessionKey(), JSON.stringify({ past, future: next.future }));
+      return;
+    } catch (error) {
+      if (past.length === 0) {
+        console.warn("[undoHistory] History is kept in memory only:", error);
+        return;
+      }
+      past = past.slice(1);
+    }
+  }
+};
+
+const setState = (next: HistoryState) => {
+  state = next;
+  persistState(next);
+  subscribers.forEach((listener) => listener());
+};
+
+/**
+ * Current history (stable reference between changes, for useSyncExternalStore)
+ */
+export const getHistoryState = (): HistoryState => {
+  if (!state) state = loadState();
+  return state;
+};
+
+export const subscribeToHistory = (listener: () => void): (() => void) => {
+  subscribers.add(listener);
+  return () => subscribers.delete(listener);
+};
+
+/**
+ * Register a mounted editor for a key so undo/redo can update it in place
+ */
+export const registerHistoryTarget = (key: string, target: HistoryTarget): (() => void) => {
+  const keyTargets = targets.get(key) ?? new Set<HistoryTarget>();
+  keyTargets.add(target);
+  targets.set(key, keyTargets);
+  return () => {
+    keyTargets.delete(target);
+    if (keyTargets.size === 0) targets.delete(key);
+  };
+};
+
+// ============ Recording ============
+
+/**
+ * Record a state transition. Clears the redo stack.
+ */
+export const recordChange = (
+  label: string,
+  changes: StorageChange[],
+  options: { reload?: boolean; now?: number } = {}
+): void => {
+  const effective = changes.filter((change) => change.before !== change.after);
+  if (effective.length === 0) return;
+
+  const now = options.now ?? Date.now();
+  const { past } = getHistoryState();
+  const last = past[past.length - 1];
+
+  // Merge typing bursts into the entry they started (same label, same keys)
+  const canCoalesce =
+    last &&
+    !options.reload &&
+    !last.reload &&
+    last.changes.length === effective.length &&
+    last.label === label &&
+    last.changes.every((change, index) => change.key === effective[index].key) &&
+    now - last.timestamp <= COALESCE_WINDOW_MS;
+
+  if (canCoalesce) {
+    const merged: HistoryEntry = {
+      ...last,
+      timestamp: now,
+      changes: last.changes.map((change, index) => ({ ...change, after: effective[index].after })),
+    };
+    // Edited back to where it started: nothing left to undo
+    const nextPast = merged.changes.every((change) => change.before === change.after)
+      ? past.slice(0, -1)
+      : [...past.slice(0, -1), merged];
+    setState({ past: nextPast, future: [] });
+    return;
+  }
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    label,
+    timestamp: now,
+    changes: effective,
+    ...(options.reload ? { reload: true } : {}),
+  };
+  setState({ past: [...past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] });
+};
+
+// ============ Undo / Redo ============
+
+const flushTargets = () => {
+  targets.forEach((keyTargets) => keyTargets.forEach((target) => target.flush()));
+};
+
+const writeValue = async (key: string, value: string | null) => {
+  const domain = findDomainByKey(key);
+  if (domain) {
+    if (value === null) {
+      await deleteDomain(domain);
+    } else {
+      await saveDomainRaw(domain, value);
+    }
+  } else if (value === null) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, value);
+  }
+  targets.get(key)?.forEach((target) => target.apply(value));
+};
+
+const applyEntry = async (entry: HistoryEntry, direction: "undo" | "redo") => {
+  for (const change of entry.changes) {
+    await writeValue(change.key, direction === "undo" ? change.before : change.after);
+  }
+};
+
+/**
+ * Apply an edit made outside the editors (e.g. one accepted from Mizzie) as a single
+ * undoable entry. Pending editor edits are saved first, so `build` sees current values.
+ */
+export const commitChange = async (label: string, build: () => StorageChange[]): Promise<StorageChange[]> => {
+  flushTargets();
+  const changes = build();
+  for (const change of changes) {
+    await writeValue(change.key, change.after);
+  }
+  recordChange(label, changes);
+  return changes;
+};
+
+/**
+ * Undo the most recent entry
+ * @returns the undone entry, or null if there was nothing to undo
+ */
+export const undo = async (): Promise<HistoryEntry | null> => {
+  flushTargets();
+  const { past, future } = getHistoryState();
+  const entry = past[past.length - 1];
+  if (!entry) return null;
+
+  setState({ past: past.slice(0, -1), future: [entry, ...future] });
+  await applyEntry(entry, "undo");
+  return entry;
+};
+
+/**
+ * Redo the most recently undone entry
+ * @returns the redone entry, or null if there was nothing to redo
+ */
+export const redo = async (): Promise<HistoryEntry | null> => {
+  flushTargets();
+  const { past, future } = getHistoryState();
+  const [entry, ...rest] = future;
+  if (!entry) return null;
+
+  setState({ past: [...past, entry], future: rest });
+  await applyEntry(entry, "redo");
+  return entry;
+};
+
+/**
+ * Undo every entry up to and including the given one
+ * @returns the undone entries, newest first
+ */
+export const undoTo = async (entryId: string): Promise<HistoryEntry[]> => {
+  if (!getHistoryState().past.some((entry) => entry.id === entryId)) return [];
+
+  const undone: HistoryEntry[] = [];
+  let entry: HistoryEntry | null;
+  do {
+    entry = await undo();
+    if (entry) undone.push(entry);
+  } while (entry && entry.id !== entryId);
+  return undone;
+};
+
+export const clearHistory = (): void => {
+  setState({ past: [], future: [] });
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeUnitEconomics,
+  getBreakEvenDate,
+  getBreakEvenSeries,
+  getSalesTargets,
+  hasUnitEconomics,
+} from './unitEconomics';
+import { UnitEconomicsInputsSchema, type UnitEconomicsInputs } from './validators';
+
+const inputs = (overrides: Partial<UnitEconomicsInputs> = {}): UnitEconomicsInputs =>
+  UnitEconomicsInputsSchema.parse({
+    pricePerUnit: 50,
+    variableCostPerUnit: 30,
+    fixedCostsPerMonth: 2_420,
+    unitsFirstMonth: 100,
+    monthlyGrowth: 10,
+    cac: 120,
+    unitsPerCustomerPerMonth: 2,
+    monthlyChurn: 5,
+    ...overrides,
+  });
+
+describe('unitEconomics', () => {
+  it('should work out contribution margin and break-even volume', () => {
+    const results = computeUnitEconomics(inputs());
+
+    expect(results.contributionMargin).toBe(20);
+    expect(results.contributionMarginPercent).toBe(40);
+    expect(results.breakEvenUnits).toBe(121);
+    expect(results.breakEvenRevenue).toBe(6_050);
+    // 100 units growing 10% a month reach 121 in month 3
+    expect(results.breakEvenMonth).toBe(3);
+  });
+
+  it('should work out LTV, LTV:CAC and payback', () => {
+    const results = computeUnitEconomics(inputs());
+
+    expect(results.customerLifetimeMonths).toBe(20);
+    expect(results.ltv).toBe(800);
+    expect(results.ltvToCac).toBeCloseTo(6.67);
+    expect(results.paybackMonths).toBe(3);
+    expect(computeUnitEconomics(inputs({ monthlyChurn: 0 }))).toMatchObject({ ltv: null, ltvToCac: null });
+  });
+
+  it('should not break even when each sale loses money or sales never grow enough', () => {
+    expect(computeUnitEconomics(inputs({ variableCostPerUnit: 60 }))).toMatchObject({
+      breakEvenUnits: null,
+      breakEvenMonth: null,
+    });
+    expect(computeUnitEconomics(inputs({ monthlyGrowth: 0 })).breakEvenMonth).toBeNull();
+    expect(computeUnitEconomics(inputs({ unitsFirstMonth: 200 })).breakEvenMonth).toBe(1);
+  });
+
+  it('should chart revenue crossing total costs at break-even', () => {
+    const series = getBreakEvenSeries(inputs());
+
+    expect(series).toHaveLength(36);
+    expect(series[1].profit).toBeLessThan(0);
+    expect(series[2].revenue).toBeCloseTo(series[2].totalCosts);
+    expect(series[3].profit).toBeGreaterThan(0);
+  });
+
+  it('should turn results into plan targets', () => {
+    const targets = getSalesTargets(inputs({ startMonth: '2027-01' }));
+
+    expect(targets.yearOneSalesTarget).toBe('$106,921');
+    expect(targets.unitsOrCustomersNeeded).toContain('2,138 units in year one at $50 each = $106,921.');
+    expect(targets.unitsOrCustomersNeeded).toContain('About 143 customers by month 12.');
+    expect(targets.unitsOrCustomersNeeded).toContain('reached in Mar 2027.');
+    expect(getBreakEvenDate(inputs(), 9)).toBe('Month 9');
+    expect(hasUnitEconomics(UnitEconomicsInputsSchema.parse({}))).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Economics
+ * Contribution margin, break-even volume and date, and customer economics
+ * (LTV, LTV:CAC and CAC payback) from the calculator on the Financials tab.
+ * Its year-one figures become the plan's sales target and units needed.
+ */
+import type { UnitEconomicsInputs } from "./validators";
+import { formatMonth } from "./financialModel";
+
+// ============ Types ============
+
+export interface UnitEconomics {
+  /** Price less variable cost, per unit */
+  contributionMargin: number;
+  /** Contribution margin as a percentage of price */
+  contributionMarginPercent: number;
+  /** Units a month that cover fixed costs, or null if each sale loses money */
+  breakEvenUnits: number | null;
+  breakEvenRevenue: number | null;
+  /** First month (1-based) sales reach break-even, or null if they never do */
+  breakEvenMonth: number | null;
+  /** Average months a customer stays, or null without churn */
+  customerLifetimeMonths: number | null;
+  /** Lifetime contribution of a customer */
+  ltv: number | null;
+  ltvToCac: number | null;
+  /** Months of a customer's contribution that repay their CAC */
+  paybackMonths: number | null;
+  yearOneUnits: number;
+  yearOneRevenue: number;
+}
+
+export interface BreakEvenPoint {
+  month: number;
+  units: number;
+  revenue: number;
+  /** Fixed costs plus variable costs */
+  totalCosts: number;
+  profit: number;
+}
+
+/** Months shown on the break-even chart */
+export const BREAK_EVEN_MONTHS = 36;
+
+// ============ Calculations ============
+
+/**
+ * Whether the calculator has been filled in, so its results replace typed targets
+ */
+export const hasUnitEconomics = (inputs: UnitEconomicsInputs): boolean => inputs.pricePerUnit > 0;
+
+/**
+ * Units sold in a month, growing from the first month
+ */
+export const getUnitsInMonth = (inputs: UnitEconomicsInputs, month: number): number =>
+  inputs.unitsFirstMonth * (1 + inputs.monthlyGrowth / 100) ** (month - 1);
+
+// First month whose sales reach the break-even volume
+const findBreakEvenMonth = (inputs: UnitEconomicsInputs, breakEvenUnits: number): number | null => {
+  if (inputs.unitsFirstMonth >= breakEvenUnits) return 1;
+  const growth = 1 + inputs.monthlyGrowth / 100;
+  if (inputs.unitsFirstMonth <= 0 || growth <= 1) return null;
+  // Small tolerance so exact hits (e.g. 100 → 121 at 10%) aren't pushed a month later by rounding
+  return 1 + Math.ceil(Math.log(breakEvenUnits / inputs.unitsFirstMonth) / Math.log(growth) - 1e-9);
+};
+
+export const computeUnitEconomics = (inputs: UnitEconomicsInputs): UnitEconomics => {
+  const contributionMargin = inputs.pricePerUnit - inputs.variableCostPerUnit;
+  const breakEvenUnits = contributionMargin > 0 ? inputs.fixedCostsPerMonth / contributionMargin : null;
+  const customerContribution = contributionMargin * inputs.unitsPerCustomerPerMonth;
+  const customerLifetimeMonths = inputs.monthlyChurn > 0 ? 100 / inputs.monthlyChurn : null;
+  const ltv = customerLifetimeMonths === null ? null : customerContribution * customerLifetimeMonths;
+  const yearOneUnits = Array.from({ length: 12 }, (_, index) => getUnitsInMonth(inputs, index + 1)).reduce(
+    (sum, units) => sum + units,
+    0
+  );
+
+  return {
+    contributionMargin,
+    contributionMarginPercent: inputs.pricePerUnit > 0 ? (contributionMargin / inputs.pricePerUnit) * 100 : 0,
+    breakEvenUnits,
+    breakEvenRevenue: breakEvenUnits === null ? null : breakEvenUnits * inputs.pricePerUnit,
+    breakEvenMonth: breakEvenUnits === null ? null : findBreakEvenMonth(inputs, breakEvenUnits),
+    customerLifetimeMonths,
+    ltv,
+    ltvToCac: ltv !== null && inputs.cac > 0 ? ltv / inputs.cac : null,
+    paybackMonths: customerContribution > 0 ? inputs.cac / customerContribution : null,
+    yearOneUnits,
+    yearOneRevenue: yearOneUnits * inputs.pricePerUnit,
+  };
+};
+
+/**
+ * Revenue against total costs by month, for the break-even chart
+ */
+export const getBreakEvenSeries = (inputs: UnitEconomicsInputs, months = BREAK_EVEN_MONTHS): BreakEvenPoint[] =>
+  Array.from({ length: months }, (_, index) => {
+    const month = index + 1;
+    const units = getUnitsInMonth(inputs, month);
+    const revenue = units * inputs.pricePerUnit;
+    const totalCosts = inputs.fixedCostsPerMonth + units * inputs.variableCostPerUnit;
+    return { month, units, revenue, totalCosts, profit: revenue - totalCosts };
+  });
+
+/**
+ * When break-even is reached, e.g. "Sep 2027", or "Month 9" without a start month
+ */
+export const getBreakEvenDate = (inputs: UnitEconomicsInputs, month: number): string =>
+  inputs.startMonth ? formatMonth(inputs.startMonth, month) : `Month ${month}`;
+
+// ============ Plan Targets ============
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+const formatCount = (amount: number) => new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(amount);
+
+/**
+ * The plan's year one sales target and units/customers needed, written from the calculator
+ */
+export const getSalesTargets = (
+  inputs: UnitEconomicsInputs
+): { yearOneSalesTarget: string; unitsOrCustomersNeeded: string } => {
+  const results = computeUnitEconomics(inputs);
+  const customers =
+    inputs.unitsPerCustomerPerMonth > 0 ? getUnitsInMonth(inputs, 12) / inputs.unitsPerCustomerPerMonth : 0;
+  const breakEven =
+    results.breakEvenUnits === null
+      ? "Each sale costs more than its price, so sales alone can't break even."
+      : `Break-even at ${formatCount(Math.ceil(results.breakEvenUnits))} units a month (${formatMoney(results.breakEvenRevenue ?? 0)} revenue)${
+          results.breakEvenMonth === null ? ", which current growth doesn't reach." : `, reached in ${getBreakEvenDate(inputs, results.breakEvenMonth)}.`
+        }`;
+
+  return {
+    yearOneSalesTarget: formatMoney(results.yearOneRevenue),
+    unitsOrCustomersNeeded: [
+      `${formatCount(results.yearOneUnits)} units in year one at ${formatMoney(inputs.pricePerUnit)} each = ${formatMoney(results.yearOneRevenue)}.`,
+      customers > 0 ? `About ${formatCount(customers)} customers by month 12.` : "",
+      breakEven,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * AI assistant settings validation schemas
+ */
+import { z } from "zod";
+
+export const AIProviderTypeSchema = z.enum(["webllm", "groq", "openai", "custom"]);
+export type AIProviderType = z.infer<typeof AIProviderTypeSchema>;
+
+export const AIGenerationSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2).default(0.7),
+  /** Upper limit on the length of each reply */
+  maxTokens: z.number().int().min(16).max(32_768).default(256),
+  /** Token budget for the business context sent with each question (provider default when unset) */
+  contextTokens: z.number().int().min(200).max(128_000).optional(),
+});
+export type AIGenerationSettings = z.infer<typeof AIGenerationSettingsSchema>;
+
+/** Parts of the plan that can be shared with the assistant */
+export const AIContextSectionIdSchema = z.enum([
+  "canvas",
+  "businessPlan",
+  "financials",
+  "swot",
+  "porters",
+  "roadmap",
+  "team",
+  "brandStrategy",
+  "nameChecker",
+]);
+export type AIContextSectionId = z.infer<typeof AIContextSectionIdSchema>;
+
+export const VoiceModeSchema = z.enum(["continuous", "push-to-talk"]);
+export type VoiceMode = z.infer<typeof VoiceModeSchema>;
+
+export const VoiceSettingsSchema = z.object({
+  /** BCP 47 tag used to recognize speech and to answer, e.g. "fr-FR" */
+  language: z.string().min(2).default("en-US"),
+  /** speechSynthesis voice; the browser picks one for the language when unset */
+  voiceURI: z.string().optional(),
+  rate: z.number().min(0.5).max(2).default(1),
+  pitch: z.number().min(0).max(2).default(1),
+  /** Keep listening and answer after a pause, or listen only while the mic button is held */
+  mode: VoiceModeSchema.default("continuous"),
+  /** Show words while they're still being recognized */
+  interimResults: z.boolean().default(false),
+});
+export type VoiceSettings = z.infer<typeof VoiceSettingsSchema>;
+
+export const AISettingsSchema = z.object({
+  provider: AIProviderTypeSchema.default("webllm"),
+  apiKey: z.string().optional(),
+  model: z.string().optional(),
+  /** OpenAI-compatible server for the custom provider, e.g. http://localhost:11434/v1 */
+  baseUrl: z.string().url().optional().or(z.literal("")),
+  /** Temperature and reply length, kept separately for each provider */
+  generation: z
+    .object({
+      webllm: AIGenerationSettingsSchema.optional(),
+      groq: AIGenerationSettingsSchema.optional(),
+      openai: AIGenerationSettingsSchema.optional(),
+      custom: AIGenerationSettingsSchema.optional(),
+    })
+    .optional(),
+  /** Sections the user chose not to share with the assistant */
+  contextExclusions: z.array(AIContextSectionIdSchema).optional(),
+  /** Answer with the in-browser model when a cloud provider is unavailable (on unless turned off) */
+  fallbackToWebLLM: z.boolean().optional(),
+  /** Speech recognition and read-aloud settings */
+  voice: VoiceSettingsSchema.optional(),
+});
+export type AISettings = z.infer<typeof AISettingsSchema>;
+
+/** Response of an OpenAI-compatible GET /models */
+export const AIModelListSchema = z.object({
+  data: z.array(z.object({ id: z.string() })),
+});
@@ -0,0 +1,32 @@
+/**
+ * AI conversation thread validation schemas
+ */
+import { z } from "zod";
+
+export const AIThreadMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: z.string(),
+  pinned: z.boolean().optional(),
+});
+export type AIThreadMessage = z.infer<typeof AIThreadMessageSchema>;
+
+export const AIThreadSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  messages: z.array(AIThreadMessageSchema).default([]),
+  /** Summary of the earliest messages, sent instead of them */
+  summary: z.string().default(""),
+  /** How many messages from the start the summary covers */
+  summarizedCount: z.number().int().nonnegative().default(0),
+});
+export type AIThread = z.infer<typeof AIThreadSchema>;
+
+export const AIThreadsDataSchema = z.object({
+  activeThreadId: z.string().nullable().default(null),
+  threads: z.array(AIThreadSchema).default([]),
+});
+export type AIThreadsData = z.infer<typeof AIThreadsDataSchema>;
@@ -21,6 +21,12 @@ export const BrandColorsSchema = z.object({
 });
 export type BrandColors = z.infer<typeof BrandColorsSchema>;
 
+export const DEFAULT_BRAND_COLORS: BrandColors = {
+  primary: "#FFA500",   // Mizzie orange
+  secondary: "#F97316", // Orange-500
+  accent: "#FBBF24",    // Amber-400
+};
+
 // Import Data Schema for validating imported backup files
 export const ImportDataSchema = z.object({
   canvas: z.string().optional(),
@@ -36,6 +42,12 @@ export const ImportDataSchema = z.object({
   swot: z.string().optional(),
   porters: z.string().optional(),
   nameChecker: z.string().optional(),
+  brandStrategy: z.string().optional(),
+  brandColors: z.string().optional(),
+  companyLogo: z.string().optional(),
+  completedBrandActions: z.string().optional(),
+  completedBusinessTasks: z.string().optional(),
+  projectName: z.string().optional(),
   exportDate: z.string().optional(),
 });
 export type ImportData = z.infer<typeof ImportDataSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Backup file validation schemas
+ * Older backup formats are upgraded to this one by src/lib/backup.ts before validation.
+ */
+import { z } from "zod";
+
+/** Bump when the manifest shape changes, and add a migration from the previous version */
+export const BACKUP_FORMAT_VERSION = 2;
+
+export const BackupScopeSchema = z.enum(["project", "all"]);
+export type BackupScope = z.infer<typeof BackupScopeSchema>;
+
+export const BackupProjectSchema = z.object({
+  name: z.string(),
+  archived: z.boolean().default(false),
+  /** Parsed value of every domain, keyed by domain id (validated per domain on import) */
+  data: z.record(z.unknown()).default({}),
+});
+export type BackupProject = z.infer<typeof BackupProjectSchema>;
+
+export const BackupSchema = z.object({
+  formatVersion: z.literal(BACKUP_FORMAT_VERSION),
+  /** Version of the app that wrote the backup */
+  appVersion: z.string(),
+  /** Missing from some legacy backups */
+  exportDate: z.string().optional(),
+  scope: BackupScopeSchema,
+  projects: z.array(BackupProjectSchema).min(1),
+  /** MIME type of every image stored as a separate file in the zip, keyed by path */
+  assets: z.record(z.string()).default({}),
+});
+export type Backup = z.infer<typeof BackupSchema>;
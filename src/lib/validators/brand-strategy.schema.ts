@@ -0,0 +1,46 @@
+/**
+ * Brand Strategy validation schemas
+ */
+import { z } from "zod";
+
+export const BrandArchetypeSchema = z.enum([
+  "hero", "rebel", "creator", "caregiver",
+  "explorer", "sage", "innocent", "jester",
+  "lover", "ruler", "magician", "everyman",
+]);
+
+export const BrandEmotionSchema = z.enum([
+  "empowered", "safe", "excited", "inspired",
+  "understood", "curious", "confident", "joyful",
+  "trusted", "ambitious", "peaceful", "rebellious",
+]);
+
+export const VoiceStyleSchema = z.enum([
+  "formal", "casual", "bold", "warm",
+  "witty", "authoritative", "friendly", "provocative",
+]);
+
+export const BrandStrategySchema = z.object({
+  brandName: z.string().default(""),
+  associations: z.array(z.object({ id: z.string(), word: z.string() })).default([]),
+  desiredOutcome: z.string().default(""),
+  primaryArchetype: z.union([BrandArchetypeSchema, z.literal("")]).default(""),
+  secondaryArchetype: z.union([BrandArchetypeSchema, z.literal("")]).default(""),
+  story: z.object({
+    catalyst: z.string().default(""),
+    coreTruth: z.string().default(""),
+    proof: z.string().default(""),
+  }).default({ catalyst: "", coreTruth: "", proof: "" }),
+  voice: z.object({
+    primaryStyle: z.union([VoiceStyleSchema, z.literal("")]).default(""),
+    secondaryStyle: z.union([VoiceStyleSchema, z.literal("")]).default(""),
+    topicFocus: z.string().default(""),
+    toneSamples: z.array(z.string()).default([]),
+  }).default({ primaryStyle: "", secondaryStyle: "", topicFocus: "", toneSamples: [] }),
+  emotions: z.array(BrandEmotionSchema).default([]),
+  emotionalPromise: z.string().default(""),
+  currentStation: z.number().default(1),
+  completedStations: z.array(z.number()).default([]),
+  lastUpdated: z.string().default(""),
+});
+export type BrandStrategyData = z.infer<typeof BrandStrategySchema>;
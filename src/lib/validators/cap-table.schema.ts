@@ -0,0 +1,54 @@
+/**
+ * Cap table validation schemas (founders, option pool, convertibles and priced rounds)
+ */
+import { z } from "zod";
+
+// Founder or other early holder of common shares
+export const FounderSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  shares: z.number().int().min(0).default(0),
+});
+export type Founder = z.infer<typeof FounderSchema>;
+
+// SAFE or convertible note, converting into the first priced round
+export const ConvertibleSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  type: z.enum(["safe", "note"]).default("safe"),
+  amount: z.number().min(0).default(0),
+  /** Pre-money valuation cap, 0 for none */
+  valuationCap: z.number().min(0).default(0),
+  /** Discount on the round's share price, in percent */
+  discount: z.number().min(0).lt(100).default(0),
+  /** Simple interest per year, in percent (notes only) */
+  interestRate: z.number().min(0).max(100).default(0),
+  /** Months from issue to the priced round, for note interest */
+  monthsToConversion: z.number().int().min(0).default(12),
+});
+export type Convertible = z.infer<typeof ConvertibleSchema>;
+
+// Priced equity round
+export const FundingRoundSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  preMoneyValuation: z.number().min(0).default(0),
+  amount: z.number().min(0).default(0),
+  /** Option pool as a percentage of the post-money cap table, topped up before the round */
+  optionPoolPercent: z.number().min(0).max(100).default(0),
+  /** Multiple of their investment these investors get back first on an exit */
+  liquidationPreference: z.number().min(0).default(1),
+});
+export type FundingRound = z.infer<typeof FundingRoundSchema>;
+
+export const CapTableDataSchema = z.object({
+  founders: z.array(FounderSchema).default([]),
+  /** Options reserved before any priced round */
+  optionPoolShares: z.number().int().min(0).default(0),
+  convertibles: z.array(ConvertibleSchema).default([]),
+  rounds: z.array(FundingRoundSchema).default([]),
+  /** Sale price for the exit waterfall */
+  exitValuation: z.number().min(0).default(0),
+  lastUpdated: z.string().optional(),
+});
+export type CapTableData = z.infer<typeof CapTableDataSchema>;
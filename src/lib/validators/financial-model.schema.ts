@@ -0,0 +1,94 @@
+/**
+ * Monthly financial model validation schemas (driver-based, months 1-36)
+ */
+import { z } from "zod";
+
+/** Months covered by the model */
+export const MODEL_MONTHS = 36;
+
+const monthSchema = z.number().int().min(1).max(MODEL_MONTHS);
+
+// Something sold: units × price, with units growing each month
+export const RevenueStreamSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  /** Units sold in the first month of the stream */
+  units: z.number().min(0).default(0),
+  price: z.number().min(0).default(0),
+  /** Month-on-month growth in units, in percent (negative for decline) */
+  monthlyGrowth: z.number().min(-100).default(0),
+  startMonth: monthSchema.default(1),
+});
+export type RevenueStream = z.infer<typeof RevenueStreamSchema>;
+
+// Recurring cost that doesn't change with sales, e.g. rent or software
+export const FixedCostSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  monthlyAmount: z.number().min(0).default(0),
+  startMonth: monthSchema.default(1),
+});
+export type FixedCost = z.infer<typeof FixedCostSchema>;
+
+// Role on the payroll
+export const HeadcountItemSchema = z.object({
+  id: z.string(),
+  role: z.string().default(""),
+  count: z.number().int().min(0).default(1),
+  annualSalary: z.number().min(0).default(0),
+  startMonth: monthSchema.default(1),
+});
+export type HeadcountItem = z.infer<typeof HeadcountItemSchema>;
+
+// Expense paid once, e.g. equipment or a launch event
+export const OneOffExpenseSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  amount: z.number().min(0).default(0),
+  month: monthSchema.default(1),
+});
+export type OneOffExpense = z.infer<typeof OneOffExpenseSchema>;
+
+// Equipment or other long-lived asset, depreciated straight-line over its life
+export const FixedAssetSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  cost: z.number().min(0).default(0),
+  /** Month the asset is bought */
+  month: monthSchema.default(1),
+  usefulLifeMonths: z.number().int().min(1).default(36),
+});
+export type FixedAsset = z.infer<typeof FixedAssetSchema>;
+
+// Loan drawn in one month and repaid in equal monthly instalments from the next
+export const LoanSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  amount: z.number().min(0).default(0),
+  drawMonth: monthSchema.default(1),
+  termMonths: z.number().int().min(1).default(36),
+  /** Annual interest rate, in percent */
+  annualInterestRate: z.number().min(0).max(100).default(0),
+});
+export type Loan = z.infer<typeof LoanSchema>;
+
+export const FinancialModelSchema = z.object({
+  /** First month of the model as YYYY-MM, for month labels */
+  startMonth: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+  revenueStreams: z.array(RevenueStreamSchema).default([]),
+  /** Cost of goods sold, in percent of revenue */
+  cogsPercent: z.number().min(0).max(100).default(0),
+  fixedCosts: z.array(FixedCostSchema).default([]),
+  headcount: z.array(HeadcountItemSchema).default([]),
+  oneOffExpenses: z.array(OneOffExpenseSchema).default([]),
+  /** Days sales outstanding: how long customers take to pay */
+  dso: z.number().min(0).default(0),
+  /** Days payable outstanding: how long we take to pay suppliers */
+  dpo: z.number().min(0).default(0),
+  /** Days of cost of goods sold held as inventory */
+  inventoryDays: z.number().min(0).default(0),
+  fixedAssets: z.array(FixedAssetSchema).default([]),
+  loans: z.array(LoanSchema).default([]),
+  lastUpdated: z.string().optional(),
+});
+export type FinancialModel = z.infer<typeof FinancialModelSchema>;
@@ -50,6 +50,48 @@ export const PersonalLiabilitySchema = z.object({
 });
 export type PersonalLiability = z.infer<typeof PersonalLiabilitySchema>;
 
+// Named what-if scenario. Each override replaces the matching assumption in
+// the monthly model; left unset, the model's own figure is used.
+export const ScenarioSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  /** Month-on-month unit growth for every revenue stream, in percent */
+  monthlyGrowth: z.number().min(-100).optional(),
+  /** Change to every price, in percent */
+  priceChange: z.number().min(-100).optional(),
+  /** Units or customers lost each month, in percent */
+  churnRate: z.number().min(0).max(100).optional(),
+  /** Months every hire moves later (negative for sooner) */
+  hiringDelayMonths: z.number().int().optional(),
+});
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  { id: "base", name: "Base case" },
+  { id: "best", name: "Best case", priceChange: 10 },
+  { id: "worst", name: "Worst case", priceChange: -10, churnRate: 3 },
+];
+
+// Inputs to the break-even and unit economics calculator
+export const UnitEconomicsInputsSchema = z.object({
+  pricePerUnit: z.number().min(0).default(0),
+  variableCostPerUnit: z.number().min(0).default(0),
+  fixedCostsPerMonth: z.number().min(0).default(0),
+  /** Units sold in the first month */
+  unitsFirstMonth: z.number().min(0).default(0),
+  /** Month-on-month growth in units, in percent */
+  monthlyGrowth: z.number().min(-100).default(0),
+  /** Customer acquisition cost */
+  cac: z.number().min(0).default(0),
+  /** Units a customer buys each month */
+  unitsPerCustomerPerMonth: z.number().min(0).default(1),
+  /** Customers lost each month, in percent */
+  monthlyChurn: z.number().min(0).max(100).default(0),
+  /** First month as YYYY-MM, for the break-even date */
+  startMonth: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+});
+export type UnitEconomicsInputs = z.infer<typeof UnitEconomicsInputsSchema>;
+
 // Main Financials Data Schema
 export const FinancialsDataSchema = z.object({
   fundingAsk: z.number().optional(),
@@ -67,6 +109,7 @@ export const FinancialsDataSchema = z.object({
   revenueModel: z.string().default(""),
   pricingStrategy: z.string().default(""),
   unitEconomics: z.string().default(""),
+  unitEconomicsInputs: UnitEconomicsInputsSchema.default({}),
   yearOneSalesTarget: z.string().default(""),
   salesCalculationMethod: z.string().default(""),
   unitsOrCustomersNeeded: z.string().default(""),
@@ -78,6 +121,7 @@ export const FinancialsDataSchema = z.object({
   personalAssets: z.array(PersonalAssetSchema).default([]),
   personalLiabilities: z.array(PersonalLiabilitySchema).default([]),
   assumptions: z.string().default(""),
+  scenarios: z.array(ScenarioSchema).default(DEFAULT_SCENARIOS),
   lastUpdated: z.string().optional(),
   currency: z.string().default("USD"),
 });
@@ -100,6 +144,7 @@ export const DEFAULT_FINANCIALS_DATA: FinancialsData = {
   revenueModel: "",
   pricingStrategy: "",
   unitEconomics: "",
+  unitEconomicsInputs: UnitEconomicsInputsSchema.parse({}),
   yearOneSalesTarget: "",
   salesCalculationMethod: "",
   unitsOrCustomersNeeded: "",
@@ -111,6 +156,7 @@ export const DEFAULT_FINANCIALS_DATA: FinancialsData = {
   personalAssets: [],
   personalLiabilities: [],
   assumptions: "",
+  scenarios: DEFAULT_SCENARIOS,
   lastUpdated: undefined,
   currency: "USD",
 };
@@ -139,3 +185,7 @@ export const ForecastDataSchema = z.object({
 });
 export type ForecastData = z.infer<typeof ForecastDataSchema>;
 
+/** Years with revenue and expense fields (year1Revenue, year1Expenses, ...) */
+export const FORECAST_YEARS = [1, 2, 3, 5, 10, 15, 25] as const;
+export type ForecastYear = (typeof FORECAST_YEARS)[number];
+
@@ -47,18 +47,56 @@ export {
   YearlyProjectionSchema,
   PersonalAssetSchema,
   PersonalLiabilitySchema,
+  ScenarioSchema,
+  DEFAULT_SCENARIOS,
+  UnitEconomicsInputsSchema,
   FinancialsDataSchema,
   DEFAULT_FINANCIALS_DATA,
   ForecastDataSchema,
+  FORECAST_YEARS,
   type UseOfFundsItem,
   type FundingSourceItem,
   type YearlyProjection,
   type PersonalAsset,
   type PersonalLiability,
+  type Scenario,
+  type UnitEconomicsInputs,
   type FinancialsData,
   type ForecastData,
+  type ForecastYear,
 } from "./financials.schema";
 
+// Financial Model
+export {
+  MODEL_MONTHS,
+  RevenueStreamSchema,
+  FixedCostSchema,
+  HeadcountItemSchema,
+  OneOffExpenseSchema,
+  FixedAssetSchema,
+  LoanSchema,
+  FinancialModelSchema,
+  type RevenueStream,
+  type FixedCost,
+  type HeadcountItem,
+  type OneOffExpense,
+  type FixedAsset,
+  type Loan,
+  type FinancialModel,
+} from "./financial-model.schema";
+
+// Cap Table
+export {
+  FounderSchema,
+  ConvertibleSchema,
+  FundingRoundSchema,
+  CapTableDataSchema,
+  type Founder,
+  type Convertible,
+  type FundingRound,
+  type CapTableData,
+} from "./cap-table.schema";
+
 // Org Chart
 export {
   RoleSchema,
@@ -110,6 +148,7 @@ export {
   BrandAssetSchema,
   AssetsDataSchema,
   BrandColorsSchema,
+  DEFAULT_BRAND_COLORS,
   ImportDataSchema,
   type BrandAsset,
   type BrandColors,
@@ -127,6 +166,7 @@ export {
   ActionableStepSchema,
   SavedBrandNameSchema,
   NameCheckerDataSchema,
+  NameCheckerStorageSchema,
   type DomainStatus,
   type DomainCheck,
   type SocialPlatformStatus,
@@ -136,8 +176,122 @@ export {
   type ActionableStep,
   type SavedBrandName,
   type NameCheckerData,
+  type NameCheckerStorage,
 } from "./name-checker.schema";
 
+// Brand Strategy
+export {
+  BrandArchetypeSchema,
+  BrandEmotionSchema,
+  VoiceStyleSchema,
+  BrandStrategySchema,
+  type BrandStrategyData,
+} from "./brand-strategy.schema";
+
+// Projects
+export {
+  ProjectSchema,
+  ProjectsDataSchema,
+  ProjectsBackupSchema,
+  type Project,
+  type ProjectsData,
+  type ProjectsBackup,
+} from "./projects.schema";
+
+// Snapshots
+export {
+  SnapshotKindSchema,
+  SnapshotSchema,
+  SnapshotsDataSchema,
+  type SnapshotKind,
+  type Snapshot,
+  type SnapshotsData,
+} from "./snapshots.schema";
+
+// Backups
+export {
+  BACKUP_FORMAT_VERSION,
+  BackupScopeSchema,
+  BackupProjectSchema,
+  BackupSchema,
+  type BackupScope,
+  type BackupProject,
+  type Backup,
+} from "./backup.schema";
+
+// Share Links
+export {
+  SHARE_FORMAT_VERSION,
+  ShareSectionIdSchema,
+  SharePayloadSchema,
+  type ShareSectionId,
+  type SharePayload,
+} from "./share.schema";
+
+// Workspace Lock
+export {
+  WorkspaceLockConfigSchema,
+  type WorkspaceLockConfig,
+} from "./workspace-lock.schema";
+
+// AI Settings
+export {
+  AIProviderTypeSchema,
+  AIGenerationSettingsSchema,
+  AIContextSectionIdSchema,
+  AISettingsSchema,
+  AIModelListSchema,
+  VoiceModeSchema,
+  VoiceSettingsSchema,
+  type AIProviderType,
+  type AIGenerationSettings,
+  type AIContextSectionId,
+  type AISettings,
+  type VoiceMode,
+  type VoiceSettings,
+} from "./ai-settings.schema";
+
+// AI Threads
+export {
+  AIThreadMessageSchema,
+  AIThreadSchema,
+  AIThreadsDataSchema,
+  type AIThreadMessage,
+  type AIThread,
+  type AIThreadsData,
+} from "./ai-threads.schema";
+
+// Mizzie Actions
+export {
+  SWOTQuadrantSchema,
+  CanvasFieldSchema,
+  MizzieActionSchema,
+  type SWOTQuadrant,
+  type CanvasField,
+  type MizzieAction,
+  type MizzieActionType,
+} from "./mizzie-actions.schema";
+
+// Plan Review
+export {
+  ReviewAreaSchema,
+  RubricCriterionSchema,
+  ReviewRubricSchema,
+  ReviewTargetSchema,
+  ReviewFindingSchema,
+  CriterionResultSchema,
+  PlanReviewSchema,
+  PlanReviewsDataSchema,
+  type ReviewArea,
+  type RubricCriterion,
+  type ReviewRubric,
+  type ReviewTarget,
+  type ReviewFinding,
+  type CriterionResult,
+  type PlanReview,
+  type PlanReviewsData,
+} from "./plan-review.schema";
+
 // Utils
 export { validateDataItem } from "./utils.schema";
 
@@ -33,6 +33,7 @@ export const RiskSchema = z.object({
   description: z.string(),
   likelihood: z.enum(["Low", "Medium", "High"]),
   impact: z.enum(["Low", "Medium", "High"]),
+  mitigation: z.string().default(""),
 });
 export type Risk = z.infer<typeof RiskSchema>;
 
@@ -0,0 +1,80 @@
+/**
+ * Mizzie action validation schemas
+ * Edits the assistant can propose. Each one is shown to the user as a diff and
+ * only applied once accepted (see lib/mizzieActions).
+ */
+import { z } from "zod";
+
+const RequiredTextSchema = z.string().trim().min(1).max(2000);
+const OptionalTextSchema = z.string().trim().max(2000).default("");
+const AmountSchema = z.coerce.number().finite().nonnegative();
+
+export const SWOTQuadrantSchema = z.enum(["strengths", "weaknesses", "opportunities", "threats"]);
+export type SWOTQuadrant = z.infer<typeof SWOTQuadrantSchema>;
+
+export const CanvasFieldSchema = z.enum([
+  "keyPartners",
+  "keyActivities",
+  "keyResources",
+  "valuePropositions",
+  "customerRelationships",
+  "channels",
+  "customerSegments",
+  "costStructure",
+  "revenueStreams",
+]);
+export type CanvasField = z.infer<typeof CanvasFieldSchema>;
+
+export const MizzieActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("add_swot_item"),
+    quadrant: SWOTQuadrantSchema,
+    text: RequiredTextSchema,
+  }),
+  z.object({
+    type: z.literal("add_milestone"),
+    title: RequiredTextSchema,
+    description: OptionalTextSchema,
+    timeframe: OptionalTextSchema,
+    category: z.enum(["1-year", "5-year", "10-year"]).default("1-year"),
+  }),
+  z.object({
+    type: z.literal("add_role"),
+    title: RequiredTextSchema,
+    name: OptionalTextSchema,
+    department: OptionalTextSchema,
+    responsibilities: OptionalTextSchema,
+    /** Title or name of the role this one reports to */
+    reportsTo: OptionalTextSchema,
+  }),
+  z.object({
+    type: z.literal("set_projection"),
+    year: z.coerce.number().int(),
+    revenue: AmountSchema.optional(),
+    expenses: AmountSchema.optional(),
+  }),
+  z.object({
+    type: z.literal("add_competitor"),
+    name: RequiredTextSchema,
+    coreOffer: OptionalTextSchema,
+    pricingModel: OptionalTextSchema,
+    differentiators: OptionalTextSchema,
+  }),
+  z.object({
+    type: z.literal("add_checklist_task"),
+    title: RequiredTextSchema,
+    description: OptionalTextSchema,
+    category: z.string().trim().min(1).max(100).default("General"),
+  }),
+  z.object({
+    type: z.literal("rename_brand"),
+    name: z.string().trim().min(1).max(200),
+  }),
+  z.object({
+    type: z.literal("append_canvas"),
+    field: CanvasFieldSchema,
+    text: RequiredTextSchema,
+  }),
+]);
+export type MizzieAction = z.infer<typeof MizzieActionSchema>;
+export type MizzieActionType = MizzieAction["type"];
@@ -95,3 +95,12 @@ export const NameCheckerDataSchema = z.object({
 });
 export type NameCheckerData = z.infer<typeof NameCheckerDataSchema>;
 
+
+// Persisted Name Checker journey state (what NameCheckerJourney writes to storage)
+export const NameCheckerStorageSchema = z.object({
+  currentSearch: z.record(z.unknown()).nullable().optional(),
+  data: z.record(z.unknown()).nullable().optional(),
+  currentStation: z.number().default(1),
+  completedStations: z.array(z.number()).default([]),
+}).passthrough();
+export type NameCheckerStorage = z.infer<typeof NameCheckerStorageSchema>;
@@ -13,6 +13,12 @@ export const SlideSchema = z.object({
   title: z.string(),
   content: z.string(),
   images: z.array(SlideImageSchema).optional(),
+  /** Scenario whose projections the Financial Projections slide shows */
+  scenarioId: z.string().optional(),
+  /** Funding round whose terms the Investment Ask slide shows */
+  roundId: z.string().optional(),
+  /** Whether the Exit Strategy slide shows the cap table's exit waterfall */
+  showExitWaterfall: z.boolean().optional(),
 });
 export type Slide = z.infer<typeof SlideSchema>;
 
@@ -0,0 +1,86 @@
+/**
+ * Plan review validation schemas
+ */
+import { z } from "zod";
+
+/** Parts of the project a rubric criterion looks at */
+export const ReviewAreaSchema = z.enum(["businessPlan", "financials", "pitchDeck", "competition"]);
+export type ReviewArea = z.infer<typeof ReviewAreaSchema>;
+
+export const RubricCriterionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  /** What the reviewer should judge, in their own words */
+  question: z.string(),
+  areas: z.array(ReviewAreaSchema).min(1),
+  /** 0 leaves the criterion out of the review */
+  weight: z.number().int().min(0).max(3).default(1),
+});
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+export const ReviewRubricSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Who the model plays while reviewing, e.g. "a seed-stage VC partner" */
+  persona: z.string(),
+  criteria: z.array(RubricCriterionSchema),
+});
+export type ReviewRubric = z.infer<typeof ReviewRubricSchema>;
+
+/** Where a finding points, so the report can jump straight to it */
+export const ReviewTargetSchema = z.object({
+  /** Reference the model was given, e.g. "plan.problemStatement" or "slide.3" */
+  ref: z.string(),
+  label: z.string(),
+  /** App tab the field lives on */
+  tab: z.string(),
+  /** Business plan phase */
+  phase: z.number().int().optional(),
+  /** Pitch deck slide index */
+  slide: z.number().int().optional(),
+  /** Input to focus once the tab is open */
+  elementId: z.string().optional(),
+});
+export type ReviewTarget = z.infer<typeof ReviewTargetSchema>;
+
+export const ReviewFindingSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["strength", "gap", "inconsistency"]),
+  text: z.string(),
+  target: ReviewTargetSchema.optional(),
+  /** Suggested replacement text for the target field */
+  rewrite: z.string().optional(),
+});
+export type ReviewFinding = z.infer<typeof ReviewFindingSchema>;
+
+export const CriterionResultSchema = z.object({
+  criterionId: z.string(),
+  label: z.string(),
+  weight: z.number(),
+  /** 0-10, or null when the criterion couldn't be scored */
+  score: z.number().min(0).max(10).nullable(),
+  summary: z.string().default(""),
+  findings: z.array(ReviewFindingSchema).default([]),
+  error: z.string().optional(),
+});
+export type CriterionResult = z.infer<typeof CriterionResultSchema>;
+
+export const PlanReviewSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  /** The rubric as it was when the review ran */
+  rubric: ReviewRubricSchema,
+  /** Weighted average of the scored criteria, 0-100 */
+  overallScore: z.number().nullable(),
+  results: z.array(CriterionResultSchema),
+  /** Mismatches found without the model, e.g. funding ask vs. cash required */
+  checks: z.array(ReviewFindingSchema).default([]),
+});
+export type PlanReview = z.infer<typeof PlanReviewSchema>;
+
+export const PlanReviewsDataSchema = z.object({
+  /** Rubric used for the next review (null = the default preset) */
+  rubric: ReviewRubricSchema.nullable().default(null),
+  reviews: z.array(PlanReviewSchema).default([]),
+});
+export type PlanReviewsData = z.infer<typeof PlanReviewsDataSchema>;
@@ -0,0 +1,33 @@
+/**
+ * Project (workspace) validation schemas
+ */
+import { z } from "zod";
+import { ImportDataSchema } from "./assets.schema";
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  archived: z.boolean().default(false),
+});
+export type Project = z.infer<typeof ProjectSchema>;
+
+export const ProjectsDataSchema = z.object({
+  activeProjectId: z.string(),
+  projects: z.array(ProjectSchema).default([]),
+});
+export type ProjectsData = z.infer<typeof ProjectsDataSchema>;
+
+// Backup file holding every project (see exportAllData)
+export const ProjectsBackupSchema = z.object({
+  projects: z.array(
+    z.object({
+      name: z.string(),
+      archived: z.boolean().default(false),
+      data: ImportDataSchema,
+    })
+  ),
+  exportDate: z.string().optional(),
+});
+export type ProjectsBackup = z.infer<typeof ProjectsBackupSchema>;
@@ -0,0 +1,33 @@
+/**
+ * Share link validation schemas
+ * A read-only snapshot of selected sections carried in a URL fragment (see src/lib/shareLink.ts).
+ */
+import { z } from "zod";
+import { BusinessPlanDataSchema } from "./business-plan.schema";
+import { PitchDeckDataSchema } from "./pitch-deck.schema";
+import { OrgChartDataSchema } from "./org-chart.schema";
+import { RoadmapDataSchema } from "./roadmap.schema";
+import { BrandColorsSchema } from "./assets.schema";
+
+/** Bump when the payload shape changes */
+export const SHARE_FORMAT_VERSION = 1;
+
+export const ShareSectionIdSchema = z.enum(["businessPlan", "pitchDeck", "orgChart", "roadmap"]);
+export type ShareSectionId = z.infer<typeof ShareSectionIdSchema>;
+
+export const SharePayloadSchema = z.object({
+  version: z.literal(SHARE_FORMAT_VERSION),
+  createdAt: z.string(),
+  businessName: z.string().default(""),
+  brandColors: BrandColorsSchema.optional(),
+  companyLogo: z.string().startsWith("data:").optional(),
+  /** Team photos by asset id */
+  photos: z.record(z.string().startsWith("data:")).default({}),
+  sections: z.object({
+    businessPlan: BusinessPlanDataSchema.optional(),
+    pitchDeck: PitchDeckDataSchema.optional(),
+    orgChart: OrgChartDataSchema.optional(),
+    roadmap: RoadmapDataSchema.optional(),
+  }),
+});
+export type SharePayload = z.infer<typeof SharePayloadSchema>;
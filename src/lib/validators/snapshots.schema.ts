@@ -0,0 +1,20 @@
+/**
+ * Version history (snapshot) validation schemas
+ */
+import { z } from "zod";
+
+export const SnapshotKindSchema = z.enum(["manual", "auto"]);
+export type SnapshotKind = z.infer<typeof SnapshotKindSchema>;
+
+export const SnapshotSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  kind: SnapshotKindSchema.default("manual"),
+  /** Raw stored value of every captured domain, keyed by domain id */
+  data: z.record(z.string()).default({}),
+});
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+export const SnapshotsDataSchema = z.array(SnapshotSchema);
+export type SnapshotsData = z.infer<typeof SnapshotsDataSchema>;
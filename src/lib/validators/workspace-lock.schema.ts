@@ -0,0 +1,15 @@
+/**
+ * Workspace lock (encryption at rest) validation schemas
+ */
+import { z } from "zod";
+
+export const WorkspaceLockConfigSchema = z.object({
+  version: z.literal(1),
+  /** Base64 PBKDF2 salt for the workspace key */
+  salt: z.string().min(1),
+  /** A known value encrypted with the workspace key, used to check the password */
+  verifier: z.string().min(1),
+  /** Minutes without activity before the workspace locks itself (0 = never) */
+  autoLockMinutes: z.number().int().min(0).default(15),
+});
+export type WorkspaceLockConfig = z.infer<typeof WorkspaceLockConfigSchema>;
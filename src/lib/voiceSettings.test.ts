@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getLanguageInstructions, getVoiceSettings, getVoicesForLanguage, pickVoice } from './voiceSettings';
+
+const voice = (name: string, lang: string, isDefault = false) =>
+  ({ name, lang, voiceURI: `urn:${name}`, default: isDefault, localService: true }) as SpeechSynthesisVoice;
+
+const voices = [voice('Alex', 'en-US', true), voice('Amélie', 'fr-CA'), voice('Thomas', 'fr-FR'), voice('Jorge', 'es_ES')];
+
+describe('voiceSettings', () => {
+  it('should fill in defaults', () => {
+    expect(getVoiceSettings({ provider: 'webllm' })).toEqual({
+      language: 'en-US',
+      rate: 1,
+      pitch: 1,
+      mode: 'continuous',
+      interimResults: false,
+    });
+  });
+
+  it('should list voices for a language, exact region first', () => {
+    expect(getVoicesForLanguage(voices, 'fr-CA').map((v) => v.name)).toEqual(['Amélie', 'Thomas']);
+    expect(getVoicesForLanguage(voices, 'es-MX').map((v) => v.name)).toEqual(['Jorge']);
+  });
+
+  it('should use the chosen voice, or the best one for the language', () => {
+    expect(pickVoice(voices, { language: 'fr-FR', voiceURI: 'urn:Amélie' })?.name).toBe('Amélie');
+    expect(pickVoice(voices, { language: 'fr-FR', voiceURI: 'urn:uninstalled' })?.name).toBe('Thomas');
+    expect(pickVoice(voices, { language: 'de-DE' })).toBeUndefined();
+  });
+
+  it('should ask the model to answer in languages other than English', () => {
+    expect(getLanguageInstructions('en-GB')).toBe('');
+    expect(getLanguageInstructions('es-MX')).toContain('Always answer in Spanish');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Voice Settings
+ * Language, read-aloud voice and listening mode for talking to Mizzie. Saved
+ * with the AI settings; the chosen language is also the one Mizzie answers in.
+ */
+import { getAISettings } from "./aiProvider";
+import { VoiceSettingsSchema, type AISettings, type VoiceMode, type VoiceSettings } from "./validators";
+
+export type { VoiceMode, VoiceSettings };
+
+/** Languages offered in AI Settings, labelled in their own language */
+export const VOICE_LANGUAGES: { code: string; label: string }[] = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "fr-FR", label: "Français (France)" },
+  { code: "fr-CA", label: "Français (Canada)" },
+  { code: "es-ES", label: "Español (España)" },
+  { code: "es-MX", label: "Español (México)" },
+  { code: "de-DE", label: "Deutsch" },
+  { code: "it-IT", label: "Italiano" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "pt-PT", label: "Português (Portugal)" },
+  { code: "nl-NL", label: "Nederlands" },
+];
+
+export const VOICE_MODE_LABELS: Record<VoiceMode, string> = {
+  continuous: "Continuous",
+  "push-to-talk": "Push to talk",
+};
+
+/**
+ * Voice settings with defaults filled in
+ */
+export const getVoiceSettings = (settings: AISettings = getAISettings()): VoiceSettings =>
+  VoiceSettingsSchema.parse(settings.voice ?? {});
+
+const baseLanguage = (language: string) => language.split("-")[0].toLowerCase();
+
+/**
+ * English name of a language tag, e.g. "French" for "fr-FR"
+ */
+export const getLanguageName = (language: string): string => {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(baseLanguage(language)) ?? language;
+  } catch {
+    return language;
+  }
+};
+
+/**
+ * Voices that can read the language aloud, exact regional matches first
+ */
+export const getVoicesForLanguage = (voices: SpeechSynthesisVoice[], language: string): SpeechSynthesisVoice[] => {
+  const exact = voices.filter((voice) => voice.lang.toLowerCase() === language.toLowerCase());
+  const related = voices.filter(
+    (voice) => !exact.includes(voice) && baseLanguage(voice.lang.replace("_", "-")) === baseLanguage(language)
+  );
+  return [...exact, ...related];
+};
+
+/**
+ * The chosen voice if the browser has it, otherwise its best voice for the language
+ */
+export const pickVoice = (
+  voices: SpeechSynthesisVoice[],
+  { voiceURI, language }: Pick<VoiceSettings, "voiceURI" | "language">
+): SpeechSynthesisVoice | undefined => {
+  const chosen = voiceURI ? voices.find((voice) => voice.voiceURI === voiceURI) : undefined;
+  if (chosen) return chosen;
+  const candidates = getVoicesForLanguage(voices, language);
+  return candidates.find((voice) => voice.default) ?? candidates[0];
+};
+
+/**
+ * System prompt line asking the model to answer in the user's language.
+ * Empty for English, which the prompt is written in.
+ */
+export const getLanguageInstructions = (language: string): string => {
+  if (baseLanguage(language) === "en") return "";
+  const name = getLanguageName(language);
+  return `The user is speaking ${name}. Always answer in ${name}, even though these instructions and the plan may be in English. Keep any tags and JSON field names exactly as described above.`;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  WORKSPACE_LOCK_KEY,
+  changeWorkspacePassword,
+  disableWorkspaceLock,
+  enableWorkspaceLock,
+  isWorkspaceLocked,
+  unlockWorkspace,
+} from './workspaceLock';
+import { closeVault, flushVault, isEncryptedValue } from './workspaceVault';
+import { getStorageKey, readDomain, readDomainRaw, writeDomain } from './storageRegistry';
+import { createProject } from './projects';
+
+const PASSWORD = 'correct horse';
+
+describe('workspaceLock', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    closeVault();
+  });
+
+  const lockAndReopen = () => {
+    // What a reload does: the key and decrypted values are gone
+    closeVault();
+  };
+
+  it('should encrypt every project at rest and read it back after unlocking', async () => {
+    writeDomain('businessPlan', { ...readDomain('businessPlan'), businessName: 'Coffee Cart' });
+    const other = createProject('Second');
+    localStorage.setItem(getStorageKey('swot', other.id), JSON.stringify({ strengths: [] }));
+
+    await enableWorkspaceLock(PASSWORD);
+
+    expect(isEncryptedValue(localStorage.getItem(getStorageKey('businessPlan')))).toBe(true);
+    expect(isEncryptedValue(localStorage.getItem(getStorageKey('swot', other.id)))).toBe(true);
+    expect(readDomain('businessPlan').businessName).toBe('Coffee Cart');
+
+    lockAndReopen();
+    expect(isWorkspaceLocked()).toBe(true);
+    expect(readDomainRaw('businessPlan')).toBeNull();
+
+    await unlockWorkspace(PASSWORD);
+    expect(isWorkspaceLocked()).toBe(false);
+    expect(readDomain('businessPlan').businessName).toBe('Coffee Cart');
+  });
+
+  it('should encrypt new writes while unlocked', async () => {
+    await enableWorkspaceLock(PASSWORD);
+
+    writeDomain('roadmap', []);
+    await flushVault();
+
+    expect(isEncryptedValue(localStorage.getItem(getStorageKey('roadmap')))).toBe(true);
+    expect(readDomainRaw('roadmap')).toBe('[]');
+  });
+
+  it('should reject a wrong password', async () => {
+    await enableWorkspaceLock(PASSWORD);
+    lockAndReopen();
+
+    await expect(unlockWorkspace('wrong password')).rejects.toThrow('Incorrect password');
+    expect(isWorkspaceLocked()).toBe(true);
+  });
+
+  it('should require a minimum password length', async () => {
+    await expect(enableWorkspaceLock('short')).rejects.toThrow('at least');
+    expect(localStorage.getItem(WORKSPACE_LOCK_KEY)).toBeNull();
+  });
+
+  it('should re-encrypt with a new password', async () => {
+    writeDomain('roadmap', []);
+    await enableWorkspaceLock(PASSWORD);
+
+    await changeWorkspacePassword(PASSWORD, 'new password');
+    lockAndReopen();
+
+    await expect(unlockWorkspace(PASSWORD)).rejects.toThrow('Incorrect password');
+    await unlockWorkspace('new password');
+    expect(readDomainRaw('roadmap')).toBe('[]');
+  });
+
+  it('should store plaintext again once turned off', async () => {
+    writeDomain('roadmap', []);
+    await enableWorkspaceLock(PASSWORD);
+
+    await disableWorkspaceLock(PASSWORD);
+
+    expect(localStorage.getItem(getStorageKey('roadmap'))).toBe('[]');
+    expect(localStorage.getItem(WORKSPACE_LOCK_KEY)).toBeNull();
+    expect(isWorkspaceLocked()).toBe(false);
+  });
+});
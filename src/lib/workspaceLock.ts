@@ -0,0 +1,268 @@
+/**
+ * Workspace Lock
+ * Opt-in password protection for shared computers: every persisted domain of every
+ * project is encrypted at rest (see workspaceVault.ts), the app asks for the password
+ * on start, and it locks itself again after a period without activity.
+ *
+ * The password is never stored. A known value encrypted with the derived key tells
+ * whether a password is right, so a forgotten password can't be recovered.
+ */
+import { WorkspaceLockConfigSchema, type WorkspaceLockConfig } from "./validators";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+  generateSalt,
+  isEncryptionSupported,
+} from "./encryption";
+import { closeVault, flushVault, isVaultOpen, openVault, rekeyVault, removeLocal } from "./workspaceVault";
+import { STORAGE_DOMAIN_IDS, getDomainAdapter, getStorageKey, loadDomainRaw, type StorageDomainId } from "./storageRegistry";
+import { loadProjects } from "./projects";
+import { clearHistory } from "./undoHistory";
+
+/** Global (not namespaced, never encrypted) key holding the lock settings */
+export const WORKSPACE_LOCK_KEY = "mizzie-workspace-lock";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Auto-lock choices in minutes (0 = never) */
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60] as const;
+
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const VERIFIER_TEXT = "mizzie-workspace";
+
+/** How often inactivity is checked */
+const AUTO_LOCK_CHECK_MS = 15_000;
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+// ============ Settings ============
+
+const parseConfig = (stored: string | null): WorkspaceLockConfig | null => {
+  if (!stored) return null;
+  try {
+    const result = WorkspaceLockConfigSchema.safeParse(JSON.parse(stored));
+    if (result.success) return result.data;
+  } catch {
+    // Fall through
+  }
+  console.error("[workspaceLock] Invalid lock settings");
+  return null;
+};
+
+/**
+ * Lock settings, or null when the workspace isn't password protected
+ */
+export const getWorkspaceLockConfig = (): WorkspaceLockConfig | null =>
+  parseConfig(localStorage.getItem(WORKSPACE_LOCK_KEY));
+
+const saveConfig = (config: WorkspaceLockConfig | null): void => {
+  if (config) {
+    localStorage.setItem(WORKSPACE_LOCK_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(WORKSPACE_LOCK_KEY);
+  }
+  window.dispatchEvent(new CustomEvent("workspaceLockChanged"));
+};
+
+export const isWorkspaceLockEnabled = (): boolean => getWorkspaceLockConfig() !== null;
+
+/**
+ * Whether the password has to be entered before the app can read any data
+ */
+export const isWorkspaceLocked = (): boolean => isWorkspaceLockEnabled() && !isVaultOpen();
+
+export const setAutoLockMinutes = (autoLockMinutes: number): void => {
+  const config = getWorkspaceLockConfig();
+  if (config) saveConfig({ ...config, autoLockMinutes });
+};
+
+// ============ Keys ============
+
+const validatePassword = (password: string): void => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+/**
+ * Derive the key for a password, or null when the password is wrong
+ */
+const unlockKey = async (config: WorkspaceLockConfig, password: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(password, base64ToBytes(config.salt));
+  try {
+    return (await decryptWithKey(config.verifier, key)) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+const createKey = async (
+  password: string,
+  autoLockMinutes: number
+): Promise<{ key: CryptoKey; config: WorkspaceLockConfig }> => {
+  const salt = generateSalt();
+  const key = await deriveKey(password, salt);
+  const verifier = await encryptWithKey(VERIFIER_TEXT, key);
+  return { key, config: { version: 1, salt: bytesToBase64(salt), verifier, autoLockMinutes } };
+};
+
+const requireConfig = (): WorkspaceLockConfig => {
+  const config = getWorkspaceLockConfig();
+  if (!config) throw new Error("The workspace isn't password protected.");
+  return config;
+};
+
+const requireKey = async (config: WorkspaceLockConfig, password: string): Promise<CryptoKey> => {
+  const key = await unlockKey(config, password);
+  if (!key) throw new Error("Incorrect password.");
+  return key;
+};
+
+// ============ Re-encryption ============
+
+interface StoredValue {
+  domain: StorageDomainId;
+  projectId: string;
+  raw: string;
+}
+
+/**
+ * Every stored domain value of every project, decrypted
+ */
+const collectWorkspaceData = async (): Promise<StoredValue[]> => {
+  const values: StoredValue[] = [];
+  for (const { id: projectId } of loadProjects().projects) {
+    for (const domain of STORAGE_DOMAIN_IDS) {
+      const raw = await loadDomainRaw(domain, projectId);
+      if (raw !== null) values.push({ domain, projectId, raw });
+    }
+  }
+  return values;
+};
+
+/**
+ * Store values again, encrypted with the vault's current key (or as plaintext with no vault open).
+ * Writes go straight to the adapters: the data itself doesn't change, so nobody is notified.
+ */
+const rewriteWorkspaceData = async (values: StoredValue[]): Promise<void> => {
+  for (const { domain, projectId, raw } of values) {
+    const key = getStorageKey(domain, projectId);
+    const adapter = getDomainAdapter(domain);
+    await adapter.setItem(key, raw);
+    if (adapter.kind === "indexedDB") removeLocal(key);
+  }
+  await flushVault();
+};
+
+// ============ Lock / Unlock ============
+
+/**
+ * Check the password and decrypt the workspace for this session
+ * @throws when the password is wrong
+ */
+export const unlockWorkspace = async (password: string): Promise<void> => {
+  await openVault(await requireKey(requireConfig(), password));
+};
+
+/**
+ * Encrypt every project's data with a new password
+ */
+export const enableWorkspaceLock = async (
+  password: string,
+  autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES
+): Promise<void> => {
+  if (!isEncryptionSupported()) throw new Error("This browser doesn't support encryption.");
+  if (isWorkspaceLockEnabled()) throw new Error("The workspace is already password protected.");
+  validatePassword(password);
+
+  const values = await collectWorkspaceData();
+  const { key, config } = await createKey(password, autoLockMinutes);
+  await openVault(key);
+  // Settings first: if encrypting is interrupted, values not yet encrypted still read as plaintext
+  saveConfig(config);
+  await rewriteWorkspaceData(values);
+  // The undo history holds plaintext copies of recent edits
+  clearHistory();
+};
+
+/**
+ * Re-encrypt every project's data with a new password
+ */
+export const changeWorkspacePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const config = requireConfig();
+  const currentKey = await requireKey(config, currentPassword);
+  validatePassword(newPassword);
+
+  const values = await collectWorkspaceData();
+  const { key, config: nextConfig } = await createKey(newPassword, config.autoLockMinutes);
+  rekeyVault(key);
+  try {
+    await rewriteWorkspaceData(values);
+  } catch (error) {
+    // Put back whatever was re-encrypted so the current password keeps working
+    rekeyVault(currentKey);
+    await rewriteWorkspaceData(values);
+    throw error;
+  }
+  saveConfig(nextConfig);
+};
+
+/**
+ * Decrypt every project's data and turn the password off
+ */
+export const disableWorkspaceLock = async (password: string): Promise<void> => {
+  await requireKey(requireConfig(), password);
+
+  const values = await collectWorkspaceData();
+  closeVault();
+  await rewriteWorkspaceData(values);
+  saveConfig(null);
+};
+
+/**
+ * Forget the key and reload, which brings back the unlock screen
+ */
+export const lockWorkspace = async (): Promise<void> => {
+  await flushVault();
+  closeVault();
+  window.location.reload();
+};
+
+/**
+ * Lock after the configured time without activity, and reload when another tab
+ * turns the lock on or off or changes the password (this tab's key is then stale).
+ * Call once the app has started.
+ * @returns a function that stops watching
+ */
+export const startAutoLock = (): (() => void) => {
+  let lastActivity = Date.now();
+  const handleActivity = () => {
+    lastActivity = Date.now();
+  };
+
+  const interval = setInterval(() => {
+    const minutes = getWorkspaceLockConfig()?.autoLockMinutes ?? 0;
+    if (isVaultOpen() && minutes > 0 && Date.now() - lastActivity >= minutes * 60_000) {
+      lockWorkspace();
+    }
+  }, AUTO_LOCK_CHECK_MS);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== WORKSPACE_LOCK_KEY) return;
+    if (parseConfig(event.oldValue)?.salt !== parseConfig(event.newValue)?.salt) {
+      window.location.reload();
+    }
+  };
+
+  ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    clearInterval(interval);
+    ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+    window.removeEventListener("storage", handleStorage);
+  };
+};
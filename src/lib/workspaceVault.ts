@@ -0,0 +1,151 @@
+/**
+ * Workspace Vault
+ * In-memory session of an unlocked, encrypted workspace. While the vault is open,
+ * values written through it are encrypted before they reach localStorage (and IndexedDB,
+ * see storageAdapter.ts), and localStorage values are served decrypted from memory so
+ * synchronous readers keep working.
+ *
+ * With no vault open (the workspace lock is off) every call passes straight through to
+ * localStorage. See workspaceLock.ts for enabling, unlocking and auto-lock.
+ */
+import { decryptWithKey, encryptWithKey } from "./encryption";
+
+/** Prefix marking a stored value encrypted with the workspace key */
+export const ENCRYPTED_VALUE_PREFIX = "mizzie-enc:";
+
+interface VaultSession {
+  key: CryptoKey;
+  /** Decrypted localStorage values (null = removed) */
+  values: Map<string, string | null>;
+  /** Encrypted writes still in flight */
+  pending: Set<Promise<void>>;
+}
+
+let session: VaultSession | null = null;
+
+export const isEncryptedValue = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+
+export const isVaultOpen = (): boolean => session !== null;
+
+// ============ Session ============
+
+/**
+ * Open the vault with the workspace key, decrypting every encrypted localStorage value into memory
+ */
+export const openVault = async (key: CryptoKey): Promise<void> => {
+  const values = new Map<string, string | null>();
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    const stored = storageKey === null ? null : localStorage.getItem(storageKey);
+    if (storageKey === null || !isEncryptedValue(stored)) continue;
+    try {
+      values.set(storageKey, await decryptWithKey(stored.slice(ENCRYPTED_VALUE_PREFIX.length), key));
+    } catch (error) {
+      // Unreadable values read as missing; the rest of the workspace still opens
+      console.error(`[workspaceVault] Failed to decrypt "${storageKey}":`, error);
+    }
+  }
+  session = { key, values, pending: new Set() };
+};
+
+/**
+ * Switch to a new key, keeping the decrypted values. Writes still encrypting with the
+ * old key are dropped, so rewrite every value afterwards.
+ */
+export const rekeyVault = (key: CryptoKey): void => {
+  if (!session) throw new Error("The workspace is locked");
+  session = { key, values: new Map(session.values), pending: new Set() };
+};
+
+/**
+ * Forget the key and every decrypted value
+ */
+export const closeVault = (): void => {
+  session = null;
+};
+
+/**
+ * Resolve once every encrypted write has reached storage
+ */
+export const flushVault = async (): Promise<void> => {
+  await Promise.all(session ? Array.from(session.pending) : []);
+};
+
+// ============ Values ============
+
+/**
+ * Encrypt a value with the workspace key
+ */
+export const encryptValue = async (value: string): Promise<string> => {
+  if (!session) throw new Error("The workspace is locked");
+  return ENCRYPTED_VALUE_PREFIX + (await encryptWithKey(value, session.key));
+};
+
+/**
+ * Decrypt a stored value (values that aren't encrypted are returned as they are)
+ */
+export const decryptValue = async (stored: string): Promise<string> => {
+  if (!isEncryptedValue(stored)) return stored;
+  if (!session) throw new Error("The workspace is locked");
+  return decryptWithKey(stored.slice(ENCRYPTED_VALUE_PREFIX.length), session.key);
+};
+
+// ============ localStorage ============
+
+/**
+ * Read a localStorage value, decrypted while the vault is open
+ */
+export const readLocal = (key: string): string | null => {
+  if (session?.values.has(key)) return session.values.get(key) ?? null;
+
+  const stored = localStorage.getItem(key);
+  if (isEncryptedValue(stored)) {
+    console.warn(`[workspaceVault] "${key}" is encrypted and the workspace is locked`);
+    return null;
+  }
+  return stored;
+};
+
+/**
+ * Write a localStorage value, encrypted while the vault is open.
+ * Readers see the new value immediately; the returned promise resolves once it is stored.
+ */
+export const writeLocal = (key: string, value: string): Promise<void> => {
+  const current = session;
+  if (!current) {
+    localStorage.setItem(key, value);
+    return Promise.resolve();
+  }
+
+  current.values.set(key, value);
+  const write = (async () => {
+    try {
+      const encrypted = ENCRYPTED_VALUE_PREFIX + (await encryptWithKey(value, current.key));
+      // Skip writes superseded by a newer value, a new key or locking
+      if (session === current && current.values.get(key) === value) {
+        localStorage.setItem(key, encrypted);
+      }
+    } catch (error) {
+      console.error(`[workspaceVault] Failed to save "${key}":`, error);
+    }
+  })();
+  current.pending.add(write);
+  write.finally(() => current.pending.delete(write));
+  return write;
+};
+
+/**
+ * Remove a localStorage value
+ */
+export const removeLocal = (key: string): void => {
+  session?.values.set(key, null);
+  localStorage.removeItem(key);
+};
+
+/**
+ * Replace a decrypted value with one another tab has already stored
+ */
+export const refreshLocal = (key: string, value: string | null): void => {
+  session?.values.set(key, value);
+};
@@ -1,9 +1,45 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import UnlockScreen from "./components/UnlockScreen";
+import SharedPlan from "./pages/SharedPlan";
 import "./index.css";
 import { registerServiceWorker } from "./lib/registerSW";
+import { hydrateStorage, migrateLegacyStorage } from "./lib/storageRegistry";
+import { startCrossTabSync } from "./lib/crossTabSync";
+import { isWorkspaceLocked, startAutoLock } from "./lib/workspaceLock";
+import { getSharedFragment } from "./lib/shareLink";
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = createRoot(document.getElementById("root")!);
+
+// Load IndexedDB-backed data and move data written under old storage keys
+// before any component reads it
+const startApp = () =>
+  hydrateStorage()
+    .catch((error) => console.error("[main] Failed to load IndexedDB storage:", error))
+    .finally(() => {
+      migrateLegacyStorage();
+      // Keep open tabs and windows on the same data
+      startCrossTabSync();
+      startAutoLock();
+      root.render(<App />);
+    });
+
+const sharedPlan = getSharedFragment();
+
+// Share links open a read-only viewer that never touches this device's projects.
+// Following a link to or from one from inside the app needs a fresh start.
+window.addEventListener("hashchange", () => {
+  if (getSharedFragment() !== sharedPlan) window.location.reload();
+});
+
+if (sharedPlan) {
+  root.render(<SharedPlan encoded={sharedPlan} />);
+} else if (isWorkspaceLocked()) {
+  // Encrypted workspaces can only be read once the password has been entered
+  root.render(<UnlockScreen onUnlock={startApp} />);
+} else {
+  startApp();
+}
 
 // Register service worker for PWA functionality
 if (import.meta.env.PROD) {
@@ -5,6 +5,8 @@ import { Header, Footer } from "@/components/layout";
 import FeatureErrorBoundary from "@/components/FeatureErrorBoundary";
 import KeyboardShortcutsHelp from "@/components/KeyboardShortcutsHelp";
 import { useKeyboardShortcuts, TAB_SHORTCUTS } from "@/hooks/useKeyboardShortcuts";
+import { useAutoSnapshot } from "@/hooks/useAutoSnapshot";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
 
 // Lazy load all tab components for better initial load performance
 const BusinessModelCanvas = lazy(() => import("@/components/BusinessModelCanvas"));
@@ -41,6 +43,10 @@ const Index = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
+  // Autosave version history snapshots after significant edits
+  useAutoSnapshot();
+  const { undo, redo } = useUndoHistory();
+
   // Keyboard shortcuts for tab navigation
   useKeyboardShortcuts({
     shortcuts: [
@@ -55,6 +61,12 @@ const Index = () => {
       // Additional shortcuts for Tasks and Export (beyond 0-9)
       { key: "alt+t", description: "Go to Tasks", action: () => navigateToTab("checklist") },
       { key: "alt+e", description: "Go to Export", action: () => navigateToTab("exports") },
+      // Undo / redo (Cmd on Mac); text fields keep their native undo
+      { key: "ctrl+z", description: "Undo", action: undo },
+      { key: "meta+z", description: "Undo", action: undo },
+      { key: "ctrl+shift+z", description: "Redo", action: redo },
+      { key: "meta+shift+z", description: "Redo", action: redo },
+      { key: "ctrl+y", description: "Redo", action: redo },
     ],
   });
 
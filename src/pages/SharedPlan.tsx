@@ -0,0 +1,179 @@
+/**
+ * Read-only viewer for share links (see shareLink.ts). Everything shown comes from
+ * the link itself; nothing is read from or written to this browser's storage.
+ */
+import { useEffect, useState } from "react";
+import { Eye, Loader2, Lock } from "lucide-react";
+import { ThemeProvider } from "next-themes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import BusinessPlanPreview from "@/components/business-plan/BusinessPlanPreview";
+import SlidePreview from "@/components/SlidePreview";
+import OrgChartPreview from "@/components/OrgChartPreview";
+import RoadmapVisual from "@/components/RoadmapVisual";
+import { SHARE_SECTIONS, decodeSharePayload, isEncryptedShare } from "@/lib/shareLink";
+import type { SharePayload } from "@/lib/validators";
+
+interface SharedPlanProps {
+  /** Encoded payload from the link fragment */
+  encoded: string;
+}
+
+const SharedPlanViewer = ({ encoded }: SharedPlanProps) => {
+  const needsPassword = isEncryptedShare(encoded);
+  const [payload, setPayload] = useState<SharePayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [isDecoding, setIsDecoding] = useState(!needsPassword);
+
+  const open = async (linkPassword?: string) => {
+    setIsDecoding(true);
+    setError(null);
+    try {
+      setPayload(await decodeSharePayload(encoded, linkPassword));
+    } catch (decodeError) {
+      setError(decodeError instanceof Error ? decodeError.message : "Couldn't open this link.");
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!needsPassword) open();
+    // Decode once per link
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [encoded]);
+
+  if (!payload) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-background p-4">
+        {isDecoding ? (
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" aria-label="Opening shared plan" />
+        ) : needsPassword ? (
+          <form
+            className="w-full max-w-sm space-y-4 rounded-lg border bg-card p-6 shadow-sm"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (password) open(password);
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-primary" aria-hidden="true" />
+              <h1 className="text-lg font-semibold">Password protected plan</h1>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoFocus
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+              {error && (
+                <p role="alert" className="text-sm text-destructive">
+                  {error}
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={!password}>
+              View Plan
+            </Button>
+          </form>
+        ) : (
+          <p role="alert" className="max-w-sm text-center text-muted-foreground">
+            {error}
+          </p>
+        )}
+      </main>
+    );
+  }
+
+  const { sections, brandColors, companyLogo, photos } = payload;
+  const available = SHARE_SECTIONS.filter((section) => sections[section.id] !== undefined);
+  const slides = sections.pitchDeck ?? [];
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+          <div>
+            <h1 className="text-lg font-semibold">{payload.businessName || "Business Plan"}</h1>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Eye className="h-3 w-3" aria-hidden="true" />
+              Read-only snapshot shared on {new Date(payload.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={import.meta.env.BASE_URL}>Open Mizzie</a>
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {available.length === 0 ? (
+          <p className="text-center text-muted-foreground">This link doesn't include any sections.</p>
+        ) : (
+          <Tabs defaultValue={available[0].id}>
+            <TabsList className="flex-wrap h-auto">
+              {available.map((section) => (
+                <TabsTrigger key={section.id} value={section.id}>
+                  {section.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {sections.businessPlan && (
+              <TabsContent value="businessPlan" className="mt-4">
+                <BusinessPlanPreview
+                  data={sections.businessPlan}
+                  brandColors={brandColors}
+                  companyLogo={companyLogo ?? null}
+                />
+              </TabsContent>
+            )}
+            {sections.pitchDeck && (
+              <TabsContent value="pitchDeck" className="mt-4 space-y-6">
+                {slides.map((slide, index) => (
+                  <SlidePreview
+                    key={index}
+                    title={slide.title}
+                    content={slide.content}
+                    slideNumber={index + 1}
+                    totalSlides={slides.length}
+                    companyLogo={companyLogo}
+                    images={slide.images}
+                    brandColors={brandColors}
+                  />
+                ))}
+              </TabsContent>
+            )}
+            {sections.orgChart && (
+              <TabsContent value="orgChart" className="mt-4">
+                <OrgChartPreview roles={sections.orgChart} brandColors={brandColors} photos={photos} />
+              </TabsContent>
+            )}
+            {sections.roadmap && (
+              <TabsContent value="roadmap" className="mt-4">
+                <RoadmapVisual milestones={sections.roadmap} brandColors={brandColors} />
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
+      </div>
+    </main>
+  );
+};
+
+const SharedPlan = ({ encoded }: SharedPlanProps) => (
+  <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
+    <TooltipProvider>
+      <SharedPlanViewer encoded={encoded} />
+    </TooltipProvider>
+  </ThemeProvider>
+);
+
+export default SharedPlan;
@@ -0,0 +1,143 @@
+/**
+ * Local stand-in for an OpenAI-compatible server (GET /v1/models and
+ * POST /v1/chat/completions, streamed or not), replaying the same scripts as
+ * the mock AI provider. Lets tests exercise the real fetch and event stream
+ * code without a network.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { resolveMockReply, type MockReply } from "@/lib/aiMockProvider";
+import type { AIChatRequest } from "@/lib/aiProvider";
+
+export interface StandInRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: unknown;
+}
+
+export interface OpenAIStandIn {
+  /** API root to use as the custom provider's server URL, e.g. http://127.0.0.1:1234/v1 */
+  baseUrl: string;
+  /** Requests received so far, oldest first */
+  requests: StandInRequest[];
+  enqueue: (...replies: MockReply[]) => void;
+  close: () => Promise<void>;
+}
+
+interface StandInOptions {
+  replies?: MockReply[];
+  models?: string[];
+}
+
+interface ChatCompletionBody {
+  model?: string;
+  messages?: AIChatRequest["messages"];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+}
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const chunk = (content: string | null, finishReason: string | null = null) =>
+  `data: ${JSON.stringify({
+    id: "chatcmpl-stand-in",
+    object: "chat.completion.chunk",
+    choices: [{ index: 0, delta: content === null ? {} : { content }, finish_reason: finishReason }],
+  })}\n\n`;
+
+export const startOpenAIStandIn = async ({
+  replies = [],
+  models = ["stand-in-model"],
+}: StandInOptions = {}): Promise<OpenAIStandIn> => {
+  const queue = [...replies];
+  const requests: StandInRequest[] = [];
+
+  const handleChat = async (res: ServerResponse, body: ChatCompletionBody) => {
+    const next = queue.shift();
+    if (next === undefined) {
+      sendJson(res, 500, { error: { message: "The stand-in server has no more scripted replies" } });
+      return;
+    }
+
+    const reply = resolveMockReply(next, {
+      messages: body.messages ?? [],
+      settings: { provider: "custom", model: body.model },
+      generation: { temperature: body.temperature ?? 0.7, maxTokens: body.max_tokens ?? 256 },
+    });
+    if ("error" in reply) {
+      if (reply.retryAfter !== undefined) res.setHeader("Retry-After", String(reply.retryAfter));
+      sendJson(res, reply.status ?? 500, { error: { message: reply.error } });
+      return;
+    }
+
+    if (!body.stream) {
+      sendJson(res, 200, {
+        id: "chatcmpl-stand-in",
+        object: "chat.completion",
+        choices: [{ index: 0, message: { role: "assistant", content: reply.tokens.join("") }, finish_reason: "stop" }],
+      });
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+    for (const token of reply.tokens) {
+      // The client went away (e.g. the user pressed stop)
+      if (res.destroyed) return;
+      res.write(chunk(token));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    res.end(chunk(null, "stop") + "data: [DONE]\n\n");
+  };
+
+  const server = createServer(async (req, res) => {
+    // Browsers call local servers cross-origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = new URL(req.url ?? "/", "http://stand-in").pathname;
+    const body = await readBody(req);
+    requests.push({ method: req.method ?? "GET", path, headers: req.headers, body });
+
+    if (req.method === "GET" && path === "/v1/models") {
+      sendJson(res, 200, { object: "list", data: models.map((id) => ({ id, object: "model" })) });
+    } else if (req.method === "POST" && path === "/v1/chat/completions") {
+      await handleChat(res, (body ?? {}) as ChatCompletionBody);
+    } else {
+      sendJson(res, 404, { error: { message: `No route for ${req.method} ${path}` } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    enqueue: (...more) => queue.push(...more),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+/** package.json version, injected by Vite */
+declare const __APP_VERSION__: string;
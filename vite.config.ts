@@ -1,7 +1,9 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
-import { copyFileSync } from "fs";
+import { copyFileSync, readFileSync } from "fs";
+
+const { version } = JSON.parse(readFileSync("package.json", "utf-8"));
 
 // https://vitejs.dev/config/
 export default defineConfig(() => ({
@@ -9,6 +11,10 @@ export default defineConfig(() => ({
   optimizeDeps: {
     include: ['@radix-ui/react-toast'],
   },
+  // App version recorded in backups
+  define: {
+    __APP_VERSION__: JSON.stringify(version),
+  },
   // For GitHub Pages: Update 'base' to match your repository name
   // Example: If your repo is "Miss-Buzzie", use base: "/Miss-Buzzie/"
   // For root domain or local dev, use base: "/"